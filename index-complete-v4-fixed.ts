@@ -1,1675 +1,10 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import { z } from 'zod'
-import * as fs from 'fs'
-import * as path from 'path'
-import * as os from 'os'
-import { v4 as uuidv4 } from 'uuid'
-
-const server = new McpServer({
-	name: 'Logseq Complete MCP',
-	version: '4.0.0',
-})
-
-// Default Logseq directories to check
-const POSSIBLE_LOGSEQ_PATHS = [
-	'/Users/gonzaloriederer/logseq-graph',
-	path.join(os.homedir(), 'Documents', 'logseq'),
-	path.join(os.homedir(), 'logseq'),
-	path.join(os.homedir(), 'Logseq'),
-	path.join(os.homedir(), 'Documents', 'Logseq'),
-]
-
-// Find Logseq directory
-function findLogseqDirectory(): string | null {
-	for (const possiblePath of POSSIBLE_LOGSEQ_PATHS) {
-		try {
-			if (fs.existsSync(possiblePath)) {
-				const pagesDir = path.join(possiblePath, 'pages')
-				const journalsDir = path.join(possiblePath, 'journals')
-				if (fs.existsSync(pagesDir) || fs.existsSync(journalsDir)) {
-					return possiblePath
-				}
-			}
-		} catch (error) {
-			// Continue to next path
-		}
-	}
-	return null
-}
-
-const LOGSEQ_PATH = findLogseqDirectory()
-
-interface LogseqBlock {
-	uuid: string
-	content: string
-	level: number
-	todo?: 'TODO' | 'DOING' | 'DONE' | 'LATER' | 'NOW' | 'WAITING' | 'IN-PROGRESS'
-	scheduled?: string
-	deadline?: string
-	priority?: 'A' | 'B' | 'C'
-	properties?: Record<string, any>
-	children?: LogseqBlock[]
-	parent?: string
-	refs?: string[]
-	createdAt?: Date
-	updatedAt?: Date
-}
-
-interface LogseqPage {
-	uuid: string
-	name: string
-	title?: string
-	path: string
-	blocks: LogseqBlock[]
-	properties?: Record<string, any>
-	aliases?: string[]
-	namespace?: string
-	isJournal?: boolean
-	journalDay?: number
-	tags?: string[]
-	lastModified: Date
-	createdAt?: Date
-}
-
-// Utility functions
-function generateUUID(): string {
-	return uuidv4()
-}
-
-function findMarkdownFiles(dir: string): string[] {
-	const files: string[] = []
-	if (!fs.existsSync(dir)) return files
-	
-	try {
-		const items = fs.readdirSync(dir)
-		for (const item of items) {
-			const fullPath = path.join(dir, item)
-			const stat = fs.statSync(fullPath)
-			
-			if (stat.isDirectory()) {
-				files.push(...findMarkdownFiles(fullPath))
-			} else if (item.endsWith('.md') || item.endsWith('.org')) {
-				files.push(fullPath)
-			}
-		}
-	} catch (error) {
-		console.error(`Error reading directory ${dir}:`, error)
-	}
-	
-	return files
-}
-
-function parseBlocks(content: string): LogseqBlock[] {
-	const lines = content.split('\n')
-	const blocks: LogseqBlock[] = []
-
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i]
-		if (line.trim() === '') continue
-		
-		const level = Math.floor((line.match(/^\s*/)?.[0]?.length || 0) / 2)
-		let cleanLine = line.trim()
-		
-		// Skip headers for block parsing
-		if (cleanLine.startsWith('#')) continue
-		
-		// Remove bullet points
-		cleanLine = cleanLine.replace(/^[-*+]\s*/, '')
-		
-		// Parse block UUID if present (full UUID or short 8-char UUID)
-		let uuid = generateUUID()
-		const fullUuidMatch = cleanLine.match(/^([a-f0-9-]{36})\s+(.*)$/)
-		const shortUuidMatch = cleanLine.match(/^([a-f0-9]{8})\s+(.*)$/)
-		
-		if (fullUuidMatch) {
-			uuid = fullUuidMatch[1]
-			cleanLine = fullUuidMatch[2]
-		} else if (shortUuidMatch) {
-			// Generate full UUID from short one for consistency, but keep track of short form
-			uuid = generateUUID()
-			// Store the short UUID as first 8 chars for lookup compatibility
-			uuid = shortUuidMatch[1] + uuid.slice(8)
-			cleanLine = shortUuidMatch[2]
-		}
-		
-		// Parse TODO status
-		let todo: LogseqBlock['todo'] | undefined
-		const todoMatch = cleanLine.match(/^(TODO|DOING|DONE|LATER|NOW|WAITING|IN-PROGRESS)\s+(.*)$/)
-		if (todoMatch) {
-			todo = todoMatch[1] as LogseqBlock['todo']
-			cleanLine = todoMatch[2]
-		}
-		
-		// Parse priority
-		let priority: LogseqBlock['priority'] | undefined
-		const priorityMatch = cleanLine.match(/\[#([ABC])]\s*(.*)$/)
-		if (priorityMatch) {
-			priority = priorityMatch[1] as LogseqBlock['priority']
-			cleanLine = priorityMatch[2]
-		}
-		
-		// Parse scheduled/deadline
-		const scheduledMatch = cleanLine.match(/SCHEDULED:\s*<([^>]+)>/)
-		const deadlineMatch = cleanLine.match(/DEADLINE:\s*<([^>]+)>/)
-		
-		// Parse properties
-		const properties: Record<string, any> = {}
-		const propertyMatches = cleanLine.matchAll(/([a-zA-Z_][a-zA-Z0-9_-]*):\s*([^\s]+)/g)
-		for (const match of propertyMatches) {
-			properties[match[1]] = match[2]
-		}
-		
-		// Parse block references
-		const refs: string[] = []
-		const refMatches = cleanLine.matchAll(/\(\(([a-f0-9-]{36})\)\)/g)
-		for (const match of refMatches) {
-			refs.push(match[1])
-		}
-		
-		// Parse page references  
-		const pageRefMatches = cleanLine.matchAll(/\[\[([^\]]+)\]\]/g)
-		for (const match of pageRefMatches) {
-			refs.push(match[1])
-		}
-		
-		// Parse tags
-		const tagMatches = cleanLine.matchAll(/#([a-zA-Z0-9_-]+)/g)
-		for (const match of tagMatches) {
-			refs.push(match[1])
-		}
-		
-		// Clean content
-		const content_clean = cleanLine
-			.replace(/SCHEDULED:\s*<[^>]+>/g, '')
-			.replace(/DEADLINE:\s*<[^>]+>/g, '')
-			.replace(/([a-zA-Z_][a-zA-Z0-9_-]*):\s*([^\s]+)/g, '')
-			.replace(/\[#[ABC]\]/g, '')
-			.trim()
-		
-		if (content_clean) {
-			const block: LogseqBlock = {
-				uuid,
-				content: content_clean,
-				level,
-				todo,
-				priority,
-				scheduled: scheduledMatch?.[1],
-				deadline: deadlineMatch?.[1],
-				properties: Object.keys(properties).length > 0 ? properties : undefined,
-				refs: refs.length > 0 ? refs : undefined,
-				createdAt: new Date(),
-				updatedAt: new Date()
-			}
-			
-			blocks.push(block)
-		}
-	}
-	
-	return blocks
-}
-
-async function readPageFile(filePath: string): Promise<LogseqPage | null> {
-	try {
-		const content = fs.readFileSync(filePath, 'utf-8')
-		const stats = fs.statSync(filePath)
-		
-		// Parse front matter
-		let properties: Record<string, any> = {}
-		let markdownContent = content
-		
-		if (content.startsWith('---')) {
-			const endIndex = content.indexOf('---', 3)
-			if (endIndex !== -1) {
-				const frontMatter = content.slice(3, endIndex).trim()
-				markdownContent = content.slice(endIndex + 3)
-				
-				frontMatter.split('\n').forEach(line => {
-					const colonIndex = line.indexOf(':')
-					if (colonIndex > 0) {
-						const key = line.slice(0, colonIndex).trim()
-						const value = line.slice(colonIndex + 1).trim()
-						properties[key] = value
-					}
-				})
-			}
-		}
-		
-		const pageName = path.basename(filePath, path.extname(filePath))
-		const blocks = parseBlocks(markdownContent)
-		
-		// Determine if it's a journal page
-		const isJournal = filePath.includes('/journals/')
-		let journalDay: number | undefined
-		if (isJournal) {
-			const dateMatch = pageName.match(/^(\d{4})_(\d{2})_(\d{2})$/)
-			if (dateMatch) {
-				journalDay = parseInt(dateMatch[1] + dateMatch[2] + dateMatch[3])
-			}
-		}
-		
-		// Extract namespace
-		const namespace = pageName.includes('/') ? pageName.split('/').slice(0, -1).join('/') : undefined
-		
-		// Extract aliases
-		const aliases = properties.alias ? 
-			(Array.isArray(properties.alias) ? properties.alias : [properties.alias]) : 
-			undefined
-		
-		return {
-			uuid: generateUUID(),
-			name: pageName,
-			title: properties.title || pageName,
-			path: filePath,
-			blocks,
-			properties: Object.keys(properties).length > 0 ? properties : undefined,
-			aliases,
-			namespace,
-			isJournal,
-			journalDay,
-			lastModified: stats.mtime,
-			createdAt: stats.birthtime
-		}
-	} catch (error) {
-		console.error(`Error reading page file ${filePath}:`, error)
-		return null
-	}
-}
-
-async function getAllPages(): Promise<LogseqPage[]> {
-	if (!LOGSEQ_PATH) {
-		throw new Error('Logseq directory not found')
-	}
-
-	const pages: LogseqPage[] = []
-	
-	// Read pages directory
-	const pagesDir = path.join(LOGSEQ_PATH, 'pages')
-	if (fs.existsSync(pagesDir)) {
-		const pageFiles = findMarkdownFiles(pagesDir)
-		for (const filePath of pageFiles) {
-			const page = await readPageFile(filePath)
-			if (page) pages.push(page)
-		}
-	}
-	
-	// Read journals directory
-	const journalsDir = path.join(LOGSEQ_PATH, 'journals')
-	if (fs.existsSync(journalsDir)) {
-		const journalFiles = findMarkdownFiles(journalsDir)
-		for (const filePath of journalFiles) {
-			const page = await readPageFile(filePath)
-			if (page) pages.push(page)
-		}
-	}
-	
-	return pages
-}
-
-// TOOLS USING CORRECT API
-
-// 1. System Information (no parameters)
-server.registerTool("get_system_info", {
-	description: "Get comprehensive information about the Logseq system",
-	inputSchema: {}
-}, async () => {
-	try {
-		if (!LOGSEQ_PATH) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Logseq directory not found. Checked paths:\n${POSSIBLE_LOGSEQ_PATHS.map(p => `- ${p}`).join('\n')}`
-				}],
-			}
-		}
-		
-		const pages = await getAllPages()
-		const totalBlocks = pages.reduce((sum, page) => sum + page.blocks.length, 0)
-		const totalTodos = pages.reduce((sum, page) => 
-			sum + page.blocks.filter(block => block.todo).length, 0)
-		const journalPages = pages.filter(p => p.isJournal).length
-		const regularPages = pages.length - journalPages
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `🔥 **Logseq Complete MCP Server v4.0** \n\n` +
-					`📁 **Graph Path**: ${LOGSEQ_PATH}\n` +
-					`📄 **Total Pages**: ${pages.length} (${regularPages} regular, ${journalPages} journals)\n` +
-					`📝 **Total Blocks**: ${totalBlocks}\n` +
-					`✅ **Total TODOs**: ${totalTodos}\n` +
-					`🚀 **Complete Logseq control available!**`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 2. List pages (optional filter)
-server.registerTool("list_pages", {
-	description: "List all pages with optional filter",
-	inputSchema: {
-		filter: z.string().optional()
-	}
-}, async ({ filter }) => {
-	try {
-		let pages = await getAllPages()
-		
-		// Apply filter if provided
-		if (filter) {
-			pages = pages.filter(p => 
-				p.name.toLowerCase().includes(filter.toLowerCase()) ||
-				(p.title && p.title.toLowerCase().includes(filter.toLowerCase()))
-			)
-		}
-		
-		// Sort by name
-		pages.sort((a, b) => a.name.localeCompare(b.name))
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `📋 Found ${pages.length} pages:\n\n` + 
-					pages.map(p => {
-						const type = p.isJournal ? '📅' : '📄'
-						const todos = p.blocks.filter(b => b.todo).length
-						return `${type} **${p.name}**\n` +
-							   `   - ${p.blocks.length} blocks, ${todos} todos\n` +
-							   `   - Modified: ${p.lastModified.toLocaleDateString()}`
-					}).join('\n\n')
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 3. Read page (required parameter)
-server.registerTool("read_page", {
-	description: "Read complete page content",
-	inputSchema: {
-		pageName: z.string()
-	}
-}, async ({ pageName }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => 
-			p.name.toLowerCase() === pageName.toLowerCase() ||
-			(p.title && p.title.toLowerCase() === pageName.toLowerCase())
-		)
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found.\n\n📋 Available pages: ${pages.map(p => p.name).slice(0, 10).join(', ')}${pages.length > 10 ? '...' : ''}`
-				}],
-			}
-		}
-		
-		let content = `# 📄 ${page.title || page.name}\n\n`
-		
-		// Add metadata
-		content += `**Metadata:**\n`
-		content += `- UUID: ${page.uuid}\n`
-		content += `- Type: ${page.isJournal ? 'Journal' : 'Regular'} Page\n`
-		content += `- Modified: ${page.lastModified.toLocaleDateString()}\n`
-		content += `- Blocks: ${page.blocks.length}\n\n`
-		
-		// Add blocks
-		content += `**Content:**\n`
-		for (const block of page.blocks) {
-			const indent = '  '.repeat(block.level)
-			let line = `${indent}- `
-			
-			if (block.todo) {
-				const emoji = block.todo === 'DONE' ? '✅' : 
-						     block.todo === 'DOING' ? '🔄' : 
-						     block.todo === 'NOW' ? '🔥' : '⭕'
-				line += `${emoji} ${block.todo} `
-			}
-			
-			if (block.priority) line += `[#${block.priority}] `
-			line += block.content
-			
-			if (block.scheduled) line += ` 📅 ${block.scheduled}`
-			if (block.deadline) line += ` ⏰ ${block.deadline}`
-			
-			content += line + '\n'
-		}
-		
-		return {
-			content: [{ type: 'text', text: content }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 4. Search (required parameter)
-server.registerTool("search", {
-	description: "Search across all content",
-	inputSchema: {
-		query: z.string()
-	}
-}, async ({ query }) => {
-	try {
-		const pages = await getAllPages()
-		const results: any[] = []
-		
-		const searchRegex = new RegExp(
-			query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
-			'gi'
-		)
-		
-		for (const page of pages) {
-			// Search in page name/title
-			if (searchRegex.test(page.name) || (page.title && searchRegex.test(page.title))) {
-				results.push({
-					type: 'page',
-					page: page.name,
-					match: `Page title matches "${query}"`
-				})
-			}
-			
-			// Search in blocks
-			for (const block of page.blocks) {
-				if (searchRegex.test(block.content)) {
-					results.push({
-						type: 'block',
-						page: page.name,
-						content: block.content,
-						blockId: block.uuid.slice(0, 8),
-						todo: block.todo
-					})
-				}
-			}
-		}
-		
-		if (results.length === 0) {
-			return {
-				content: [{
-					type: 'text',
-					text: `🔍 No results found for "${query}"`
-				}],
-			}
-		}
-		
-		let output = `🔍 Found ${results.length} results for "${query}":\n\n`
-		
-		for (const result of results.slice(0, 10)) {
-			if (result.type === 'page') {
-				output += `📄 **${result.page}**: ${result.match}\n`
-			} else {
-				output += `📝 **${result.page}**: ${result.content}\n`
-				if (result.todo) output += `    ${result.todo}`
-				output += `\n    🆔 ${result.blockId}\n`
-			}
-		}
-		
-		if (results.length > 10) {
-			output += `\n... and ${results.length - 10} more results`
-		}
-		
-		return {
-			content: [{ type: 'text', text: output }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error searching: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 5. Create page (required pageName, optional content)
-server.registerTool("create_page", {
-	description: "Create a new page",
-	inputSchema: {
-		pageName: z.string(),
-		content: z.string().optional()
-	}
-}, async ({ pageName, content }) => {
-	try {
-		const pagesDir = path.join(LOGSEQ_PATH!, 'pages')
-		const filePath = path.join(pagesDir, `${pageName}.md`)
-		
-		let pageContent = `# ${pageName}\n\n`
-		if (content) {
-			pageContent += content
-		} else {
-			pageContent += `- Created on ${new Date().toLocaleDateString()}`
-		}
-		
-		fs.writeFileSync(filePath, pageContent)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully created page "${pageName}" at ${filePath}`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error creating page: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 6. Get TODOs (no parameters)
-server.registerTool("get_todos", {
-	description: "Get all TODOs organized by status",
-	inputSchema: {}
-}, async () => {
-	try {
-		const pages = await getAllPages()
-		const todos: { page: string; block: LogseqBlock }[] = []
-		
-		for (const page of pages) {
-			for (const block of page.blocks) {
-				if (block.todo) {
-					todos.push({ page: page.name, block })
-				}
-			}
-		}
-		
-		if (todos.length === 0) {
-			return {
-				content: [{
-					type: 'text',
-					text: '📋 No TODOs found in your Logseq graph'
-				}],
-			}
-		}
-		
-		// Group by status
-		const grouped = todos.reduce((acc, { page, block }) => {
-			const status = block.todo!
-			if (!acc[status]) acc[status] = []
-			acc[status].push({ page, block })
-			return acc
-		}, {} as Record<string, { page: string; block: LogseqBlock }[]>)
-		
-		let output = `✅ **Found ${todos.length} TODOs across your graph:**\n\n`
-		
-		for (const [status, items] of Object.entries(grouped)) {
-			const emoji = status === 'DONE' ? '✅' : 
-						 status === 'DOING' ? '🔄' : 
-						 status === 'NOW' ? '🔥' : 
-						 status === 'LATER' ? '⏰' : '⭕'
-			
-			output += `## ${emoji} ${status} (${items.length})\n`
-			for (const { page, block } of items.slice(0, 5)) {
-				output += `- **${page}**: ${block.content} ${block.uuid.slice(0, 8)}\n`
-			}
-			if (items.length > 5) {
-				output += `  ... and ${items.length - 5} more\n`
-			}
-			output += '\n'
-		}
-		
-		return {
-			content: [{ type: 'text', text: output }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error getting TODOs: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 7. Get config (no parameters)
-server.registerTool("get_config", {
-	description: "Get Logseq configuration",
-	inputSchema: {}
-}, async () => {
-	try {
-		if (!LOGSEQ_PATH) return { content: [{ type: 'text', text: '❌ Logseq path not found' }] }
-		
-		const configPath = path.join(LOGSEQ_PATH, 'logseq', 'config.edn')
-		if (!fs.existsSync(configPath)) {
-			return {
-				content: [{
-					type: 'text',
-					text: `⚙️ **Logseq Configuration:**\n\n📝 No config file found, using defaults\n📅 Journal Format: MMM do, yyyy\n📆 Start of Week: 0 (Sunday)\n📓 Journals Enabled: true\n🎨 Theme: system`
-				}],
-			}
-		}
-		
-		const configContent = fs.readFileSync(configPath, 'utf-8')
-		return {
-			content: [{
-				type: 'text',
-				text: `⚙️ **Logseq Configuration:**\n\n\`\`\`edn\n${configContent}\n\`\`\``
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error reading config: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 8. Debug delete_block (temporary diagnostic tool)
-server.registerTool("debug_delete_block", {
-	description: "Debug tool to analyze block structure for delete_block improvements",
-	inputSchema: {
-		pageName: z.string()
-	}
-}, async ({ pageName }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		const fileContent = fs.readFileSync(page.path, 'utf-8')
-		const lines = fileContent.split('\n')
-		
-		let output = `🔍 **Debug Analysis for "${pageName}"**\n\n`
-		output += `📄 **File path**: ${page.path}\n\n`
-		output += `📝 **Parsed blocks (${page.blocks.length})**:\n`
-		
-		for (const block of page.blocks) {
-			output += `- Block UUID: ${block.uuid}\n`
-			output += `  Short: ${block.uuid.slice(0, 8)}\n`
-			output += `  Content: "${block.content}"\n`
-			output += `  Todo: ${block.todo || 'none'}\n`
-			output += `  Priority: ${block.priority || 'none'}\n\n`
-		}
-		
-		output += `📄 **Raw file lines (${lines.length})**:\n`
-		for (let i = 0; i < lines.length; i++) {
-			if (lines[i].trim()) {
-				output += `${i + 1}: "${lines[i]}"\n`
-			}
-		}
-		
-		return {
-			content: [{ type: 'text', text: output }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Debug error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 9. Test all functions (comprehensive test suite)
-server.registerTool("test_all_functions", {
-	description: "Run comprehensive tests on all MCP functions to verify 100% functionality",
-	inputSchema: {}
-}, async () => {
-	try {
-		let results = []
-		let totalTests = 0
-		let passedTests = 0
-		
-		// Test 1: System info
-		totalTests++
-		try {
-			const pages = await getAllPages()
-			if (pages.length > 0) {
-				results.push("✅ get_system_info: PASS")
-				passedTests++
-			} else {
-				results.push("❌ get_system_info: FAIL - No pages found")
-			}
-		} catch (error) {
-			results.push(`❌ get_system_info: FAIL - ${error.message}`)
-		}
-		
-		// Test 2: Create test page
-		totalTests++
-		const testPageName = `MCP_Test_${Date.now()}`
-		try {
-			const pagesDir = path.join(LOGSEQ_PATH!, 'pages')
-			const filePath = path.join(pagesDir, `${testPageName}.md`)
-			const pageContent = `# ${testPageName}\n\n- This is a test page for MCP validation`
-			fs.writeFileSync(filePath, pageContent)
-			results.push("✅ create_page: PASS")
-			passedTests++
-		} catch (error) {
-			results.push(`❌ create_page: FAIL - ${error.message}`)
-		}
-		
-		// Test 3: Insert blocks for delete testing
-		totalTests++
-		let testUuids = []
-		try {
-			const uuid1 = generateUUID()
-			const uuid2 = generateUUID()
-			const uuid3 = generateUUID()
-			testUuids = [uuid1.slice(0, 8), uuid2.slice(0, 8), uuid3.slice(0, 8)]
-			
-			const pagesDir = path.join(LOGSEQ_PATH!, 'pages')
-			const filePath = path.join(pagesDir, `${testPageName}.md`)
-			const existingContent = fs.readFileSync(filePath, 'utf-8')
-			const newContent = existingContent + 
-				`\n- ${testUuids[0]} Test block 1 for deletion` +
-				`\n- ${testUuids[1]} TODO Test block 2 with TODO` +
-				`\n- ${testUuids[2]} [#A] Test block 3 with priority`
-			fs.writeFileSync(filePath, newContent)
-			results.push("✅ insert_block: PASS")
-			passedTests++
-		} catch (error) {
-			results.push(`❌ insert_block: FAIL - ${error.message}`)
-		}
-		
-		// Test 4-6: Delete blocks one by one
-		for (let i = 0; i < testUuids.length; i++) {
-			totalTests++
-			try {
-				const pages = await getAllPages()
-				const testPage = pages.find(p => p.name === testPageName)
-				
-				if (!testPage) {
-					results.push(`❌ delete_block ${i+1}: FAIL - Test page not found`)
-					continue
-				}
-				
-				// Find the block
-				const targetBlock = testPage.blocks.find(block => 
-					block.uuid.slice(0, 8) === testUuids[i]
-				)
-				
-				if (!targetBlock) {
-					results.push(`❌ delete_block ${i+1}: FAIL - Block not found`)
-					continue
-				}
-				
-				// Try to delete using the same logic as delete_block
-				const fileContent = fs.readFileSync(testPage.path, 'utf-8')
-				const lines = fileContent.split('\n')
-				
-				let lineToDelete = -1
-				for (let j = 0; j < lines.length; j++) {
-					if (lines[j].includes(testUuids[i]) && 
-					    (lines[j].includes('- ') || lines[j].includes('* ') || lines[j].includes('+ '))) {
-						lineToDelete = j
-						break
-					}
-				}
-				
-				if (lineToDelete !== -1) {
-					lines.splice(lineToDelete, 1)
-					fs.writeFileSync(testPage.path, lines.join('\n'), 'utf-8')
-					results.push(`✅ delete_block ${i+1}: PASS`)
-					passedTests++
-				} else {
-					results.push(`❌ delete_block ${i+1}: FAIL - Line not found`)
-				}
-				
-			} catch (error) {
-				results.push(`❌ delete_block ${i+1}: FAIL - ${error.message}`)
-			}
-		}
-		
-		// Test 7: Search functionality
-		totalTests++
-		try {
-			const pages = await getAllPages()
-			if (pages.length > 0) {
-				results.push("✅ search: PASS")
-				passedTests++
-			} else {
-				results.push("❌ search: FAIL")
-			}
-		} catch (error) {
-			results.push(`❌ search: FAIL - ${error.message}`)
-		}
-		
-		// Test 8: Read page
-		totalTests++
-		try {
-			const pages = await getAllPages()
-			const testPage = pages.find(p => p.name === testPageName)
-			if (testPage) {
-				results.push("✅ read_page: PASS")
-				passedTests++
-			} else {
-				results.push("❌ read_page: FAIL")
-			}
-		} catch (error) {
-			results.push(`❌ read_page: FAIL - ${error.message}`)
-		}
-		
-		// Test 9: Clean up - delete test page
-		totalTests++
-		try {
-			const pagesDir = path.join(LOGSEQ_PATH!, 'pages')
-			const filePath = path.join(pagesDir, `${testPageName}.md`)
-			if (fs.existsSync(filePath)) {
-				fs.unlinkSync(filePath)
-				results.push("✅ delete_page: PASS")
-				passedTests++
-			} else {
-				results.push("❌ delete_page: FAIL - File not found")
-			}
-		} catch (error) {
-			results.push(`❌ delete_page: FAIL - ${error.message}`)
-		}
-		
-		const successRate = ((passedTests / totalTests) * 100).toFixed(1)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `🧪 **COMPREHENSIVE MCP FUNCTION TEST RESULTS**\n\n` +
-					  `📊 **Overall Score: ${passedTests}/${totalTests} (${successRate}%)**\n\n` +
-					  `📋 **Individual Test Results:**\n` +
-					  results.join('\n') + '\n\n' +
-					  `🎯 **Status**: ${successRate >= 100 ? '🏆 PERFECT FUNCTIONALITY' : 
-					                   successRate >= 95 ? '🌟 EXCELLENT FUNCTIONALITY' :
-					                   successRate >= 90 ? '✅ VERY GOOD FUNCTIONALITY' :
-					                   successRate >= 80 ? '⚠️ GOOD FUNCTIONALITY' :
-					                   '❌ NEEDS IMPROVEMENT'}\n\n` +
-					  `🔧 **MCP v4.0 Status**: ${successRate >= 95 ? 'PRODUCTION READY' : 'NEEDS WORK'}`
-			}],
-		}
-		
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Test suite error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 10. Export graph (no parameters)
-server.registerTool("export_graph", {
-	description: "Export the entire graph as JSON",
-	inputSchema: {}
-}, async () => {
-	try {
-		const pages = await getAllPages()
-		
-		const exportData = {
-			version: '4.0',
-			exportDate: new Date().toISOString(),
-			totalPages: pages.length,
-			totalBlocks: pages.reduce((sum, p) => sum + p.blocks.length, 0),
-			logseqPath: LOGSEQ_PATH,
-			pages: pages.map(p => ({
-				uuid: p.uuid,
-				name: p.name,
-				title: p.title,
-				isJournal: p.isJournal,
-				blocks: p.blocks.length,
-				lastModified: p.lastModified,
-				properties: p.properties
-			}))
-		}
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `📦 **Graph Export Complete:**\n\n\`\`\`json\n${JSON.stringify(exportData, null, 2)}\n\`\`\``
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error exporting graph: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 9. Insert block
-server.registerTool("insert_block", {
-	description: "Insert a new block into a page",
-	inputSchema: {
-		pageName: z.string(),
-		content: z.string(),
-		todo: z.string().optional(),
-		priority: z.string().optional()
-	}
-}, async ({ pageName, content, todo, priority }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		const uuid = generateUUID()
-		let blockContent = `- ${uuid.slice(0, 8)} `
-		
-		if (todo) blockContent += `${todo} `
-		if (priority) blockContent += `[#${priority}] `
-		blockContent += content
-		
-		const existingContent = fs.readFileSync(page.path, 'utf-8')
-		const newContent = existingContent + '\n' + blockContent
-		
-		fs.writeFileSync(page.path, newContent)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully inserted block into "${pageName}"\n🆔 Block UUID: ${uuid.slice(0, 8)}\n📝 Content: ${blockContent}`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error inserting block: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 10. Create journal page
-server.registerTool("create_journal_page", {
-	description: "Create a journal page for a specific date",
-	inputSchema: {
-		date: z.string().optional()
-	}
-}, async ({ date }) => {
-	try {
-		let targetDate = new Date()
-		
-		if (date) {
-			if (date === 'today') {
-				targetDate = new Date()
-			} else if (date === 'tomorrow') {
-				targetDate = new Date()
-				targetDate.setDate(targetDate.getDate() + 1)
-			} else {
-				const parsed = new Date(date)
-				if (!isNaN(parsed.getTime())) {
-					targetDate = parsed
-				}
-			}
-		}
-		
-		const journalsDir = path.join(LOGSEQ_PATH!, 'journals')
-		const dateStr = targetDate.toISOString().split('T')[0]
-		const filePath = path.join(journalsDir, `${dateStr}.md`)
-		
-		if (fs.existsSync(filePath)) {
-			return {
-				content: [{
-					type: 'text',
-					text: `✅ Journal page for ${dateStr} already exists at ${filePath}`
-				}],
-			}
-		}
-		
-		const journalContent = `# ${dateStr}\n\n- Journal entry for ${targetDate.toLocaleDateString()}\n- TODO Add your thoughts for today\n`
-		
-		fs.writeFileSync(filePath, journalContent)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully created journal page for ${dateStr} at ${filePath}`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error creating journal page: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 11. Get today's journal
-server.registerTool("get_today_journal", {
-	description: "Get today's journal page",
-	inputSchema: {}
-}, async () => {
-	try {
-		const today = new Date().toISOString().split('T')[0]
-		const journalsDir = path.join(LOGSEQ_PATH!, 'journals')
-		const filePath = path.join(journalsDir, `${today}.md`)
-		
-		if (!fs.existsSync(filePath)) {
-			return {
-				content: [{
-					type: 'text',
-					text: `📅 No journal entry for today (${today}). Use create_journal_page to create one.`
-				}],
-			}
-		}
-		
-		const content = fs.readFileSync(filePath, 'utf-8')
-		return {
-			content: [{
-				type: 'text',
-				text: `📅 **Today's Journal (${today}):**\n\n\`\`\`markdown\n${content}\n\`\`\``
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error reading today's journal: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 12. Get journal by date
-server.registerTool("get_journal_by_date", {
-	description: "Get journal for specific date",
-	inputSchema: {
-		date: z.string()
-	}
-}, async ({ date }) => {
-	try {
-		const journalsDir = path.join(LOGSEQ_PATH!, 'journals')
-		const filePath = path.join(journalsDir, `${date}.md`)
-		
-		if (!fs.existsSync(filePath)) {
-			return {
-				content: [{
-					type: 'text',
-					text: `📅 No journal entry for ${date}. Use create_journal_page to create one.`
-				}],
-			}
-		}
-		
-		const content = fs.readFileSync(filePath, 'utf-8')
-		return {
-			content: [{
-				type: 'text',
-				text: `📅 **Journal for ${date}:**\n\n\`\`\`markdown\n${content}\n\`\`\``
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error reading journal for ${date}: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 13. List blocks
-server.registerTool("list_blocks", {
-	description: "List all blocks from a specific page",
-	inputSchema: {
-		pageName: z.string()
-	}
-}, async ({ pageName }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		if (page.blocks.length === 0) {
-			return {
-				content: [{
-					type: 'text',
-					text: `📝 Page "${pageName}" has no blocks`
-				}],
-			}
-		}
-		
-		let output = `📝 **Blocks in "${pageName}" (${page.blocks.length} total):**\n\n`
-		
-		for (let i = 0; i < page.blocks.length; i++) {
-			const block = page.blocks[i]
-			const indent = '  '.repeat(block.level)
-			
-			output += `${i + 1}. ${indent}`
-			if (block.todo) output += `${block.todo} `
-			if (block.priority) output += `[#${block.priority}] `
-			output += `${block.content}\n`
-			output += `   🆔 ${block.uuid.slice(0, 8)}\n\n`
-		}
-		
-		return {
-			content: [{ type: 'text', text: output }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error listing blocks: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 14. Get specific block by UUID
-server.registerTool("get_block", {
-	description: "Get specific block by UUID",
-	inputSchema: {
-		blockUuid: z.string()
-	}
-}, async ({ blockUuid }) => {
-	try {
-		const pages = await getAllPages()
-		
-		for (const page of pages) {
-			for (const block of page.blocks) {
-				// Support both full UUID and partial UUID (8 chars)
-				const blockShortUuid = block.uuid.slice(0, 8)
-				if (block.uuid === blockUuid || blockShortUuid === blockUuid || block.uuid.startsWith(blockUuid)) {
-					let content = `🧱 **Block Found:**\n\n`
-					content += `**Page**: ${page.name}\n`
-					content += `**UUID**: ${block.uuid}\n`
-					content += `**Level**: ${block.level}\n`
-					if (block.todo) content += `**Status**: ${block.todo}\n`
-					if (block.priority) content += `**Priority**: ${block.priority}\n`
-					if (block.scheduled) content += `**Scheduled**: ${block.scheduled}\n`
-					if (block.deadline) content += `**Deadline**: ${block.deadline}\n`
-					content += `**Content**: ${block.content}\n`
-					
-					return {
-						content: [{ type: 'text', text: content }],
-					}
-				}
-			}
-		}
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Block with UUID "${blockUuid}" not found`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error finding block: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 15. Update page content
-server.registerTool("update_page", {
-	description: "Update page content completely",
-	inputSchema: {
-		pageName: z.string(),
-		content: z.string()
-	}
-}, async ({ pageName, content }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		const newContent = `# ${pageName}\n\n${content}`
-		fs.writeFileSync(page.path, newContent)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully updated page "${pageName}"\n📝 New content written to ${page.path}`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error updating page: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 16. Delete page
-server.registerTool("delete_page", {
-	description: "Delete a page completely",
-	inputSchema: {
-		pageName: z.string()
-	}
-}, async ({ pageName }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		fs.unlinkSync(page.path)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully deleted page "${pageName}"\n🗑️ File removed: ${page.path}`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error deleting page: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 17. Update block content
-server.registerTool("update_block", {
-	description: "Update specific block content by UUID",
-	inputSchema: {
-		blockUuid: z.string(),
-		content: z.string()
-	}
-}, async ({ blockUuid, content }) => {
-	try {
-		const pages = await getAllPages()
-		
-		for (const page of pages) {
-			const fileContent = fs.readFileSync(page.path, 'utf-8')
-			const lines = fileContent.split('\n')
-			let updated = false
-			
-			for (let i = 0; i < lines.length; i++) {
-				// Support both full and partial UUID lookup in file content
-				const lineIncludesUuid = lines[i].includes(blockUuid) || 
-					(blockUuid.length >= 8 && lines[i].includes(blockUuid.slice(0, 8))) ||
-					(blockUuid.length <= 8 && lines[i].includes(blockUuid))
-				if (lineIncludesUuid) {
-					// Find the existing content pattern and replace it
-					const line = lines[i]
-					const match = line.match(/^(\s*- )(.*)$/)
-					if (match) {
-						lines[i] = match[1] + content
-						updated = true
-						break
-					}
-				}
-			}
-			
-			if (updated) {
-				fs.writeFileSync(page.path, lines.join('\n'))
-				return {
-					content: [{
-						type: 'text',
-						text: `✅ Successfully updated block ${blockUuid.slice(0, 8)}\n📝 New content: ${content}\n📄 Page: ${page.name}`
-					}],
-				}
-			}
-		}
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Block with UUID "${blockUuid}" not found`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error updating block: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 18. Delete block - ULTIMATE VERSION FOR 100% SUCCESS
-server.registerTool("delete_block", {
-	description: "Delete specific block by UUID with 100% reliability",
-	inputSchema: {
-		blockUuid: z.string()
-	}
-}, async ({ blockUuid }) => {
-	try {
-		const pages = await getAllPages()
-		let targetPage = null
-		let targetBlock = null
-		
-		// First, find the block across all pages
-		for (const page of pages) {
-			for (const block of page.blocks) {
-				const blockShortUuid = block.uuid.slice(0, 8)
-				if (block.uuid === blockUuid || 
-				    blockShortUuid === blockUuid || 
-				    block.uuid.startsWith(blockUuid)) {
-					targetPage = page
-					targetBlock = block
-					break
-				}
-			}
-			if (targetBlock) break
-		}
-		
-		if (!targetBlock || !targetPage) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Block with UUID "${blockUuid}" not found in any page`
-				}],
-			}
-		}
-		
-		// Read the file content
-		const fileContent = fs.readFileSync(targetPage.path, 'utf-8')
-		const lines = fileContent.split('\n')
-		
-		// ULTIMATE SEARCH: Try to find the line using ALL possible approaches
-		let lineToDelete = -1
-		let matchStrategy = ""
-		const shortUuid = targetBlock.uuid.slice(0, 8)
-		const blockContent = targetBlock.content
-		
-		// Search strategies in order of reliability
-		const searchStrategies = [
-			// Strategy 1: Exact UUID match at start
-			{
-				name: "UUID at start",
-				test: (line) => {
-					const trimmed = line.trim()
-					return trimmed.startsWith(`- ${shortUuid} `) || 
-					       trimmed.startsWith(`* ${shortUuid} `) || 
-					       trimmed.startsWith(`+ ${shortUuid} `)
-				}
-			},
-			// Strategy 2: UUID anywhere in bullet line
-			{
-				name: "UUID anywhere in bullet",
-				test: (line) => line.includes(shortUuid) && 
-				                (line.includes('- ') || line.includes('* ') || line.includes('+ '))
-			},
-			// Strategy 3: Exact content match in bullet line
-			{
-				name: "Content in bullet line",
-				test: (line) => line.includes(blockContent) && 
-				                (line.includes('- ') || line.includes('* ') || line.includes('+ '))
-			},
-			// Strategy 4: Content after cleaning markers
-			{
-				name: "Content after cleaning",
-				test: (line) => {
-					const cleaned = line.trim()
-						.replace(/^[-*+]\s*/, '')
-						.replace(/^[a-f0-9]{8}\s+/, '')
-						.replace(/^(TODO|DOING|DONE|LATER|NOW|WAITING|IN-PROGRESS)\s+/, '')
-						.replace(/\[#[ABC]\]\s*/, '')
-						.trim()
-					return cleaned === blockContent || cleaned.includes(blockContent)
-				}
-			},
-			// Strategy 5: Partial content match (last resort)
-			{
-				name: "Partial content match",
-				test: (line) => {
-					if (!(line.includes('- ') || line.includes('* ') || line.includes('+ '))) return false
-					const contentStart = blockContent.slice(0, Math.min(15, blockContent.length))
-					return contentStart.length > 3 && line.includes(contentStart)
-				}
-			}
-		]
-		
-		// Try each strategy
-		for (const strategy of searchStrategies) {
-			for (let i = 0; i < lines.length; i++) {
-				if (strategy.test(lines[i])) {
-					lineToDelete = i
-					matchStrategy = strategy.name
-					break
-				}
-			}
-			if (lineToDelete !== -1) break
-		}
-		
-		if (lineToDelete === -1) {
-			// Ultimate fallback: show complete debug info
-			const filePreview = lines.map((line, idx) => `${idx + 1}: "${line}"`).join('\n')
-			const uuidMatches = lines.map((line, idx) => line.includes(shortUuid) ? `Line ${idx + 1}: "${line}"` : null).filter(Boolean)
-			const contentMatches = lines.map((line, idx) => line.includes(blockContent) ? `Line ${idx + 1}: "${line}"` : null).filter(Boolean)
-			
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ **ULTIMATE SEARCH FAILED** for UUID ${blockUuid.slice(0, 8)}\n\n` +
-						  `🎯 **Target Block:**\n` +
-						  `- UUID: ${targetBlock.uuid}\n` +
-						  `- Short: ${shortUuid}\n` +
-						  `- Content: "${blockContent}"\n` +
-						  `- Page: ${targetPage.name}\n\n` +
-						  `📝 **UUID matches (${uuidMatches.length}):**\n${uuidMatches.join('\n') || 'None'}\n\n` +
-						  `📝 **Content matches (${contentMatches.length}):**\n${contentMatches.join('\n') || 'None'}\n\n` +
-						  `📄 **Full file (${lines.length} lines):**\n${filePreview}`
-				}],
-			}
-		}
-		
-		// Found the line! Delete it
-		const originalLine = lines[lineToDelete]
-		lines.splice(lineToDelete, 1)
-		
-		// Write with maximum reliability
-		const newContent = lines.join('\n')
-		fs.writeFileSync(targetPage.path, newContent, 'utf-8')
-		
-		// Force sync
-		try {
-			const fd = fs.openSync(targetPage.path, 'r+')
-			fs.fsyncSync(fd)
-			fs.closeSync(fd)
-		} catch (e) { /* ignore sync errors */ }
-		
-		// Wait for filesystem
-		await new Promise(resolve => setTimeout(resolve, 100))
-		
-		// Triple verification
-		const verificationContent = fs.readFileSync(targetPage.path, 'utf-8')
-		const originalLineGone = !verificationContent.includes(originalLine.trim())
-		const uuidGone = !verificationContent.includes(shortUuid)
-		const contentGone = !verificationContent.includes(blockContent)
-		const allVerifications = originalLineGone && (uuidGone || contentGone)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ **ULTIMATE DELETE SUCCESS**\n` +
-					  `🎯 Strategy: ${matchStrategy}\n` +
-					  `🆔 UUID: ${shortUuid}\n` +
-					  `📄 Page: ${targetPage.name}\n` +
-					  `📝 Content: "${blockContent}"\n` +
-					  `🗑️ Line ${lineToDelete + 1}: "${originalLine.trim()}"\n\n` +
-					  `✔️ Original line removed: ${originalLineGone ? 'YES' : 'NO'}\n` +
-					  `✔️ UUID removed: ${uuidGone ? 'YES' : 'NO'}\n` +
-					  `✔️ Content removed: ${contentGone ? 'YES' : 'NO'}\n` +
-					  `🎯 **FINAL STATUS: ${allVerifications ? '100% SUCCESS' : 'VERIFICATION ISSUE'}**`
-			}],
-		}
-		
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Ultimate delete error: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 19. Get page properties
-server.registerTool("get_page_properties", {
-	description: "Get all properties of a specific page",
-	inputSchema: {
-		pageName: z.string()
-	}
-}, async ({ pageName }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		if (!page.properties || Object.keys(page.properties).length === 0) {
-			return {
-				content: [{
-					type: 'text',
-					text: `📄 Page "${pageName}" has no properties`
-				}],
-			}
-		}
-		
-		let output = `📊 **Properties for "${pageName}":**\n\n`
-		for (const [key, value] of Object.entries(page.properties)) {
-			output += `- **${key}**: ${value}\n`
-		}
-		
-		return {
-			content: [{ type: 'text', text: output }],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error getting properties: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-// 20. Set page property
-server.registerTool("set_page_property", {
-	description: "Set a property on a specific page",
-	inputSchema: {
-		pageName: z.string(),
-		propertyName: z.string(),
-		propertyValue: z.string()
-	}
-}, async ({ pageName, propertyName, propertyValue }) => {
-	try {
-		const pages = await getAllPages()
-		const page = pages.find(p => p.name.toLowerCase() === pageName.toLowerCase())
-		
-		if (!page) {
-			return {
-				content: [{
-					type: 'text',
-					text: `❌ Page "${pageName}" not found`
-				}],
-			}
-		}
-		
-		let content = fs.readFileSync(page.path, 'utf-8')
-		
-		// Add front matter if it doesn't exist
-		if (!content.startsWith('---')) {
-			content = `---\n${propertyName}: ${propertyValue}\n---\n\n${content}`
-		} else {
-			// Add to existing front matter
-			const endIndex = content.indexOf('---', 3)
-			if (endIndex !== -1) {
-				const frontMatter = content.slice(3, endIndex)
-				const restContent = content.slice(endIndex + 3)
-				const newFrontMatter = frontMatter + `\n${propertyName}: ${propertyValue}`
-				content = `---${newFrontMatter}\n---${restContent}`
-			}
-		}
-		
-		fs.writeFileSync(page.path, content)
-		
-		return {
-			content: [{
-				type: 'text',
-				text: `✅ Successfully set property "${propertyName}" = "${propertyValue}" on page "${pageName}"`
-			}],
-		}
-	} catch (error) {
-		return {
-			content: [{
-				type: 'text',
-				text: `❌ Error setting property: ${error instanceof Error ? error.message : 'Unknown error'}`
-			}],
-		}
-	}
-})
-
-async function main() {
-	const transport = new StdioServerTransport()
-	await server.connect(transport)
-	console.error('🔥 Logseq Complete MCP Server v4.0 running on stdio')
-	console.error(`📁 Logseq path: ${LOGSEQ_PATH || 'Not found'}`)
-	console.error('🚀 Using CORRECT MCP SDK API!')
-	console.error('🎯 Registered 20 COMPLETE tools - 100% FUNCTIONALITY!')
-	console.error('📊 Functions: System(1) + Pages(4) + Blocks(5) + TODOs(1) + Journals(3) + Config(1) + Properties(2) + Search(1) + Export(1) + Advanced(1)')
-}
-
-main().catch(console.error)
\ No newline at end of file
+// The filesystem tools now live in index.ts, written against the GraphBackend
+// interface. This entry point is kept so existing Claude Desktop configs that
+// point at it keep working, and simply selects the filesystem backend. Tools
+// it named differently are still offered under their old names (see
+// CHANGELOG.md).
+process.env.LOGSEQ_BACKEND ||= 'filesystem'
+
+await import('./index.js')
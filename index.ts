@@ -1,421 +1,647 @@
 import * as dotenv from 'dotenv'
 dotenv.config()
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { randomUUID } from 'crypto'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import { z } from 'zod'
-
-const LOGSEQ_TOKEN = process.env.LOGSEQ_TOKEN
-
-const server = new McpServer({
-	name: 'Logseq Tools',
-	version: '1.0.0',
-})
-
-// Regular expression to find Logseq page links like [[page name]]
-const PAGE_LINK_REGEX = /\[\[(.*?)\]\]/g
-
-// Format a date as a string in the format that Logseq journal pages use
-function formatJournalDate(date: Date): string {
-	const month = date.toLocaleString('en-US', { month: 'short' }).toLowerCase()
-	const day = date.getDate()
-	const year = date.getFullYear()
-	return `${month} ${day}${getDaySuffix(day)}, ${year}`
+import {
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+	type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js'
+import { z, type ZodRawShape, type ZodTypeAny } from 'zod'
+import {
+	createAuditLog,
+	defaultAuditLogPath,
+	type AuditTarget,
+} from './src/audit.js'
+import { createAuditedBackend } from './src/backend/audited.js'
+import { blockPageName } from './src/backend/block-page.js'
+import {
+	createBackend,
+	type BlockEntity,
+	type PageEntity,
+	type ChangeEntry,
+	type GraphBackend,
+} from './src/backend/index.js'
+import { loadConfig, type Config } from './src/config.js'
+import {
+	formatJournalDate,
+	fromJournalDay,
+	isJournalDate,
+	journalTitleFromDay,
+	parseIsoDate,
+	parseJournalDate,
+	toIsoDate,
+	toJournalDay,
+} from './src/dates.js'
+import {
+	DATE_RANGE_EXAMPLES,
+	parseDateRange,
+	type DateRange,
+} from './src/date-range.js'
+import { parseQuery, queryParameters, toQueryInput } from './src/datalog.js'
+import { unifiedDiff } from './src/diff.js'
+import { isSymbol } from './src/edn.js'
+import {
+	findEmbeddedQueries,
+	runEmbeddedQuery,
+	type EmbeddedQueryOptions,
+	type EmbeddedQueryResult,
+} from './src/embedded-query.js'
+import { GraphError } from './src/errors.js'
+import {
+	DEFAULT_GRAPH_CONFIG,
+	parseGraphConfig,
+	workflowMarkers,
+	type GraphConfig,
+} from './src/graph-config.js'
+import {
+	createGitRepository,
+	toolCommitMessage,
+	type GitRepository,
+} from './src/git.js'
+import { startHttpServer } from './src/http-server.js'
+import { applyToolPermissions } from './src/permissions.js'
+import { recordTools, registerToolAlias } from './src/tool-aliases.js'
+import {
+	parseSimpleQuery,
+	runSimpleQuery,
+	simpleQueryToDatalog,
+} from './src/simple-query.js'
+import {
+	dryRunResult,
+	errorResult,
+	formatPreview,
+	notFound,
+	resultText,
+	toolError,
+} from './src/tool-result.js'
+import { watchGraph, type GraphChange } from './src/watcher.js'
+
+// Validate the configuration up front so a bad setup fails with a clear message
+let config: Config
+try {
+	config = loadConfig()
+} catch (error) {
+	console.error((error as Error).message)
+	process.exit(1)
 }
-
-// Get the appropriate suffix for a day number (1st, 2nd, 3rd, etc.)
-function getDaySuffix(day: number): string {
-	if (day >= 11 && day <= 13) return 'th'
-
-	switch (day % 10) {
-		case 1:
-			return 'st'
-		case 2:
-			return 'nd'
-		case 3:
-			return 'rd'
-		default:
-			return 'th'
+const backend = createBackend(config)
+
+// Dates are read as whole days: from the start of a "from" day to the end of
+// a "to" day. Full timestamps are taken as they are.
+function parseAuditTime(text: string, bound: 'start' | 'end'): Date {
+	const day = parseIsoDate(text)
+	if (day) {
+		if (bound === 'end') day.setHours(23, 59, 59, 999)
+		return day
+	}
+	const time = new Date(text)
+	if (!/^\d{4}-\d{2}-\d{2}T/.test(text) || isNaN(time.getTime())) {
+		throw new GraphError('INVALID_ARGUMENT', `Invalid date or time: ${text}`)
 	}
+	return time
 }
 
-// Helper function to make API calls to Logseq
-async function callLogseqApi(method: string, args: any[] = []): Promise<any> {
-	const response = await fetch('http://127.0.0.1:12315/api', {
-		method: 'POST',
-		headers: {
-			Authorization: `Bearer ${LOGSEQ_TOKEN}`,
-			'Content-Type': 'application/json',
-		},
-		body: JSON.stringify({
-			method,
-			args,
-		}),
-	})
-
-	if (!response.ok) {
-		throw new Error(
-			`Logseq API error: ${response.status} ${response.statusText}`
+const auditLog = config.audit.enabled
+	? createAuditLog(config.audit.path || defaultAuditLogPath(backend.graphPath))
+	: null
+
+// The repository a filesystem graph is kept in, if any; git reports it
+// missing when a history tool is used
+const gitRepository =
+	backend.kind === 'filesystem' && backend.graphPath
+		? createGitRepository(backend.graphPath)
+		: null
+
+function requireGit(): GitRepository {
+	if (!gitRepository) {
+		throw new GraphError(
+			'UNSUPPORTED',
+			'Page revisions are only available with the filesystem backend (LOGSEQ_BACKEND=filesystem) and a graph kept in git'
 		)
 	}
-
-	return response.json()
+	return gitRepository
 }
 
-// Helper function to add content to a page by creating blocks
-async function addContentToPage(
-	pageName: string,
-	content: string
-): Promise<void> {
+// Commit the page files a change touched when LOGSEQ_MCP_GIT_AUTOCOMMIT is on.
+// The write itself already happened, so failures are only logged.
+async function commitToGit(tool: string, change: ChangeEntry) {
+	if (!gitRepository || !config.git.autoCommit) return
+	const files = change.pages.flatMap((page) =>
+		page.file ? [page.file.path] : []
+	)
 	try {
-		// First get the page to ensure it exists
-		const page = await callLogseqApi('logseq.Editor.getPage', [pageName])
-
-		if (!page) {
-			throw new Error(`Page ${pageName} does not exist`)
-		}
-
-		// Get the page's blocks
-		const blocks = await callLogseqApi('logseq.Editor.getPageBlocksTree', [
-			pageName,
-		])
-
-		// If the page is empty, create initial block
-		if (!blocks || blocks.length === 0) {
-			await callLogseqApi('logseq.Editor.appendBlockInPage', [
-				pageName,
-				content,
-			])
-			return
-		}
-
-		// If the page already has content, append to it
-		// For more complex content structures, we might need to parse the content
-		// and add blocks one by one with proper hierarchy
-		const contentLines = content
-			.split('\n')
-			.filter((line) => line.trim() !== '')
+		await gitRepository.commit(
+			files,
+			toolCommitMessage(
+				tool,
+				change.pages.map((page) => page.page),
+				change.id
+			)
+		)
+	} catch (error) {
+		console.error(`Error committing change ${change.id} to git:`, error)
+	}
+}
 
-		for (const line of contentLines) {
-			await callLogseqApi('logseq.Editor.appendBlockInPage', [pageName, line])
-		}
+// The graph's logseq/config.edn settings. A config that cannot be read leaves
+// Logseq's defaults, so a typo in it does not stop every journal tool.
+async function loadGraphConfig(
+	graph: GraphBackend = backend
+): Promise<GraphConfig> {
+	try {
+		return parseGraphConfig(await graph.getConfig(), config.journalLocale)
 	} catch (error) {
-		console.error(`Error adding content to page ${pageName}:`, error)
-		throw error
+		console.error(`Error reading the graph config: ${(error as Error).message}`)
+		return { ...DEFAULT_GRAPH_CONFIG, locale: config.journalLocale }
 	}
 }
 
-// Check if a string represents a journal page date
-function isJournalDate(pageName: string): boolean {
-	// Journal pages typically have formats like "Mar 14th, 2025"
-	// This regex matches common journal date formats
-	const journalDateRegex =
-		/^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\s+\d{1,2}(st|nd|rd|th)?,\s+\d{4}$/i
-	return journalDateRegex.test(pageName)
+// Title of the journal page for a day, in the graph's journal title format
+async function journalTitle(
+	date: Date,
+	graph: GraphBackend = backend
+): Promise<string> {
+	const { journalTitleFormat, locale } = await loadGraphConfig(graph)
+	return formatJournalDate(date, journalTitleFormat, locale)
+}
+
+// The journal page for a date given as YYYY-MM-DD or as a journal title, in
+// the graph's format or any other Logseq supports; today when there is none
+async function journalPageName(
+	date: string | undefined,
+	graph: GraphBackend = backend
+): Promise<string> {
+	if (date === undefined) return journalTitle(new Date(), graph)
+	const { journalTitleFormat, locale } = await loadGraphConfig(graph)
+	const day =
+		parseIsoDate(date) ||
+		parseJournalDate(date, journalTitleFormat, locale) ||
+		parseJournalDate(date, undefined, locale)
+	return day ? formatJournalDate(day, journalTitleFormat, locale) : date
 }
 
-// Parse text content into a blocks structure for journal pages
-function parseContentToBlocks(content: string): Array<{ content: string }> {
-	const lines = content.split('\n').filter((line) => line.trim() !== '')
-	const blocks: Array<{ content: string }> = []
+// A date range given in words, with weeks starting on the graph's
+// :start-of-week and single days also given as journal titles
+async function journalDateRange(
+	text: string,
+	graph: GraphBackend = backend
+): Promise<DateRange> {
+	const { weekStartsOn, journalTitleFormat, locale } = await loadGraphConfig(
+		graph
+	)
+	return parseDateRange(text, {
+		weekStartsOn,
+		titleFormat: journalTitleFormat,
+		locale,
+	})
+}
 
-	for (const line of lines) {
-		// Skip heading lines (usually the date)
-		if (line.startsWith('#') || line.trim() === '') continue
+// The journal pages of the days in a range, oldest first
+function journalPagesInRange(
+	pages: PageEntity[],
+	range: DateRange
+): PageEntity[] {
+	return pages
+		.filter(
+			(page) =>
+				page['journal?'] &&
+				page.journalDay !== undefined &&
+				page.journalDay >= range.startDay &&
+				page.journalDay <= range.endDay
+		)
+		.sort((a, b) => a.journalDay! - b.journalDay!)
+}
 
-		// Create a block for each line
-		blocks.push({
-			content: line,
-		})
+// Create a journal page and fill it from the graph's default journal
+// template (:default-templates {:journals "name"}), as Logseq does
+async function createJournalPage(graph: GraphBackend, pageName: string) {
+	await graph.createPage(pageName, {}, { journal: true })
+
+	const templateName = (await loadGraphConfig(graph)).defaultTemplates.journals
+	if (!templateName) return
+	const template = await findTemplate(graph, templateName)
+	if (!template) {
+		console.error(`Journal template "${templateName}" not found`)
+		return
 	}
-
-	return blocks
+	await insertTemplateBlocks(graph, pageName, null, template.children || [])
 }
 
-// Helper function to parse date range from natural language
-function parseDateRange(dateRange: string): {
-	start: Date
-	end: Date
-	title: string
-} {
-	const today = new Date()
-	const end = new Date(today)
-	end.setHours(23, 59, 59, 999) // End of today
-	let start = new Date(today)
-	let title = ''
-
-	const normalizedRange = dateRange.toLowerCase().trim()
-
-	switch (normalizedRange) {
-		case 'today':
-			start.setHours(0, 0, 0, 0) // Start of today
-			title = "Today's Journal Summary"
-			break
-		case 'yesterday':
-			start.setDate(today.getDate() - 1)
-			start.setHours(0, 0, 0, 0)
-			end.setDate(today.getDate() - 1)
-			title = "Yesterday's Journal Summary"
-			break
-		case 'this week':
-			start.setDate(today.getDate() - today.getDay()) // Start of week (Sunday)
-			start.setHours(0, 0, 0, 0)
-			title = 'Weekly Journal Summary'
-			break
-		case 'last week':
-			start.setDate(today.getDate() - today.getDay() - 7) // Start of last week
-			start.setHours(0, 0, 0, 0)
-			end.setDate(today.getDate() - today.getDay() - 1)
-			end.setHours(23, 59, 59, 999)
-			title = "Last Week's Journal Summary"
-			break
-		case 'this month':
-			start.setDate(1) // Start of current month
-			start.setHours(0, 0, 0, 0)
-			title = `Journal Summary for ${today.toLocaleString('en-US', {
-				month: 'long',
-			})} ${today.getFullYear()}`
-			break
-		case 'last month':
-			start.setMonth(today.getMonth() - 1, 1) // Start of last month
-			start.setHours(0, 0, 0, 0)
-			end.setDate(0) // Last day of previous month
-			title = `Journal Summary for ${start.toLocaleString('en-US', {
-				month: 'long',
-			})} ${start.getFullYear()}`
-			break
-		case 'this year':
-			start.setMonth(0, 1) // January 1st
-			start.setHours(0, 0, 0, 0)
-			title = `Journal Summary for ${today.getFullYear()}`
-			break
-		case 'last year':
-			start.setFullYear(today.getFullYear() - 1, 0, 1) // January 1st of last year
-			start.setHours(0, 0, 0, 0)
-			end.setFullYear(today.getFullYear() - 1, 11, 31) // December 31st of last year
-			end.setHours(23, 59, 59, 999)
-			title = `Journal Summary for ${today.getFullYear() - 1}`
-			break
-		case 'year to date':
-			start.setMonth(0, 1) // January 1st of current year
-			start.setHours(0, 0, 0, 0)
-			title = `Year-to-Date Journal Summary for ${today.getFullYear()}`
-			break
-		default:
-			// Default to current week if input doesn't match any pattern
-			start.setDate(today.getDate() - today.getDay()) // Start of week (Sunday)
-			start.setHours(0, 0, 0, 0)
-			title = 'Weekly Journal Summary'
+// The block holding a template:: property with this name
+async function findTemplate(
+	graph: GraphBackend,
+	name: string
+): Promise<BlockEntity | null> {
+	const find = (blocks: BlockEntity[]): BlockEntity | null => {
+		for (const block of blocks) {
+			const template = block.properties?.template
+			if (
+				typeof template === 'string' &&
+				template.toLowerCase() === name.toLowerCase()
+			) {
+				return block
+			}
+			const found = find(block.children || [])
+			if (found) return found
+		}
+		return null
 	}
 
-	return { start, end, title }
+	for (const page of await graph.getAllPages()) {
+		const found = find((await graph.getBlocksTree(page.name)) || [])
+		if (found) return found
+	}
+	return null
 }
 
-server.tool('getAllPages', async () => {
-	try {
-		const pages = await callLogseqApi('logseq.Editor.getAllPages')
+// Copy template blocks onto a page, below a parent block or at the end
+async function insertTemplateBlocks(
+	graph: GraphBackend,
+	pageName: string,
+	parentUuid: string | null,
+	blocks: BlockEntity[]
+) {
+	for (const block of blocks) {
+		// The template's block ids stay with the template
+		const content = block.content
+			.split('\n')
+			.filter((line) => !/^(id::|:id:)/i.test(line.trim()))
+			.join('\n')
+		const inserted = parentUuid
+			? await graph.insertBlock(parentUuid, content)
+			: await graph.appendBlock(pageName, content)
+		if (inserted && block.children?.length) {
+			await insertTemplateBlocks(graph, pageName, inserted.uuid, block.children)
+		}
+	}
+}
 
-		return {
-			content: [
-				{
-					type: 'text',
-					text: JSON.stringify(pages),
-				},
-			],
+// Servers currently connected to a client; each is told about graph changes
+const graphChangeListeners = new Set<(change: GraphChange) => Promise<void>>()
+
+// Build a server with every tool, resource and prompt registered. Stdio uses
+// one; the HTTP transport creates one per session.
+function createServer(): McpServer {
+	const server = new McpServer({
+		name: 'Logseq Tools',
+		version: '1.0.0',
+	})
+	applyToolPermissions(server, config.permissions)
+	const tools = recordTools(server)
+
+	// Mutating tools accept dryRun to preview their change instead of making it
+	const DRY_RUN = z
+		.boolean()
+		.optional()
+		.describe(
+			'Preview the change as a block diff (and a unified file diff for the filesystem backend) without making it'
+		)
+
+	// Block writes accept the version a read returned, to fail instead of
+	// overwriting changes made since
+	const EXPECTED_VERSION = z
+		.string()
+		.optional()
+		.describe(
+			'Version of the page from your last read (filesystem backend); the write fails with CONFLICT and a merge suggestion if the page changed since'
+		)
+
+	// "Version: ..." line for a page, so the next write can pass it back. None
+	// in dry runs: the sandbox holds the version the page would get, which the
+	// real write cannot expect.
+	async function versionLine(
+		graph: GraphBackend,
+		pageName: string | null | undefined
+	): Promise<string> {
+		if (!pageName || graph.kind !== 'filesystem' || 'preview' in graph) {
+			return ''
 		}
-	} catch (error) {
+		const version = (await graph.getPage(pageName))?.version
+		return version ? `Version: ${version}` : ''
+	}
+
+	// Settings for running the queries written on a page
+	async function embeddedQueryOptions(
+		pageName: string,
+		limit?: number
+	): Promise<EmbeddedQueryOptions> {
+		const { weekStartsOn, journalTitleFormat, locale } = await loadGraphConfig()
 		return {
-			content: [
-				{
-					type: 'text',
-					text: `Error fetching Logseq pages: ${error.message}`,
-				},
-			],
+			pageName,
+			limit,
+			weekStartsOn,
+			titleFormat: journalTitleFormat,
+			locale,
+			timeoutMs: 10000,
 		}
 	}
-})
 
-// Get content for a specific page by name or UUID
-async function getPageContent(pageNameOrUuid: string) {
-	try {
-		return await callLogseqApi('logseq.Editor.getPageBlocksTree', [
-			pageNameOrUuid,
-		])
-	} catch (error) {
-		console.error(`Error fetching page content: ${error.message}`)
-		return null
+	// Results of a query on a page as outline lines at the given depth
+	function formatEmbeddedQueryResult(
+		result: EmbeddedQueryResult,
+		indent: number
+	): string {
+		const indentation = '  '.repeat(indent)
+		if (result.error) return `${indentation}- Query failed: ${result.error}\n`
+		const lines = [
+			`${indentation}- Query results (${result.total}):`,
+			...result.lines.map(
+				(line) => `${indentation}  - ${line.split('\n').join(' ')}`
+			),
+		]
+		return lines.join('\n') + '\n'
 	}
-}
 
-// Get a page's content and extract linked pages
-server.tool(
-	'getPage',
-	{
-		pageName: z.string().describe('Name of the Logseq page to retrieve'),
-	},
-	async ({ pageName }) => {
+	// Identifies this server in the audit log; HTTP sessions use their own id
+	const serverSession = randomUUID()
+
+	// Append a tool call that wrote to the graph to the audit log. Calls that
+	// touched nothing (including failed ones) are left out.
+	function auditWrite(
+		tool: string,
+		args: Record<string, any>,
+		extra: { sessionId?: string },
+		result: CallToolResult,
+		targets: AuditTarget[],
+		changeId?: string
+	) {
+		if (!auditLog || targets.length === 0) return
+		const client = server.server.getClientVersion()
 		try {
-			const content = await getPageContent(pageName)
+			auditLog.append({
+				time: new Date().toISOString(),
+				tool,
+				arguments: args,
+				session: extra.sessionId || serverSession,
+				client: client && `${client.name} ${client.version}`,
+				outcome: result.isError ? 'error' : 'ok',
+				error: result.isError ? resultText(result) : undefined,
+				changeId,
+				targets,
+			})
+		} catch (error) {
+			console.error('Error writing the audit log:', error)
+		}
+	}
 
-			if (!content) {
+	// Register a mutating tool. Its writes are snapshotted as one change that
+	// undo_change can revert and noted in the audit log; with dryRun it runs
+	// against a sandbox instead and reports what it would have changed. The
+	// tool writes through the graph it is handed.
+	function mutatingTool<Shape extends ZodRawShape>(
+		name: string,
+		schema: Shape,
+		handler: (
+			args: z.objectOutputType<Shape, ZodTypeAny>,
+			graph: GraphBackend
+		) => Promise<CallToolResult>
+	) {
+		return server.tool(
+			name,
+			{ ...schema, dryRun: DRY_RUN },
+			async ({ dryRun, ...args }: any, extra): Promise<CallToolResult> => {
+				if (dryRun) {
+					const sandbox = backend.dryRun()
+					const result = await handler(args, sandbox)
+					if (result.isError) return result
+					return dryRunResult(await sandbox.preview(), result)
+				}
+
+				// Failed tools may have written part of their change, so commit anyway
+				const tracked = createAuditedBackend(backend.track())
+				const result = await handler(args, tracked)
+				const change = await tracked.commit(resultText(result))
+				if (change) await commitToGit(name, change)
+				auditWrite(
+					name,
+					args,
+					extra,
+					result,
+					await tracked.targets(),
+					change?.id
+				)
+				if (!change) return result
 				return {
+					...result,
 					content: [
+						...result.content,
 						{
 							type: 'text',
-							text: `Page "${pageName}" not found or has no content.`,
+							text: `Recorded as change ${change.id}; undo it with undo_change.`,
 						},
 					],
 				}
 			}
+		)
+	}
 
-			// Format the page content
-			let formattedContent = `# ${pageName}\n\n`
+	// Regular expression to find Logseq page links like [[page name]], and
+	// org-mode [[page name][description]] links that are not to URLs or files
+	const PAGE_LINK_REGEX = /\[\[(?!\w+:\/\/|file:)([^\]]*?)\](?:\[[^\]]*\])?\]/g
 
-			// Process blocks to extract text and maintain hierarchy
-			const processBlocks = (blocks: any[], indent = 0) => {
-				let text = ''
-				for (const block of blocks) {
-					if (block.content) {
-						const indentation = '  '.repeat(indent)
-						text += `${indentation}- ${block.content}\n`
+	// Helper function to add content to a page by creating blocks
+	async function addContentToPage(
+		pageName: string,
+		content: string,
+		graph: GraphBackend = backend
+	): Promise<void> {
+		try {
+			// First get the page to ensure it exists
+			const page = await graph.getPage(pageName)
 
-						if (block.children && block.children.length > 0) {
-							text += processBlocks(block.children, indent + 1)
-						}
-					}
-				}
-				return text
+			if (!page) {
+				throw new GraphError('NOT_FOUND', `Page ${pageName} does not exist`)
 			}
 
-			formattedContent += processBlocks(content)
+			// Get the page's blocks
+			const blocks = await graph.getBlocksTree(pageName)
 
-			// --- Fetch and add backlinks ---
-			const backlinks = await findBacklinks(pageName)
-			if (backlinks.length > 0) {
-				formattedContent += `\n\n## Backlinks\n\n`
-				backlinks.forEach((backlinkPageName) => {
-					formattedContent += `- [[${backlinkPageName}]]\n`
-				})
-			} else {
-				formattedContent += '\n\n## Backlinks\n\nNo backlinks found.\n'
+			// If the page is empty, create initial block
+			if (!blocks || blocks.length === 0) {
+				await graph.appendBlock(pageName, content)
+				return
 			}
-			// --- End backlinks ---
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: formattedContent,
-					},
-				],
+			// If the page already has content, append to it
+			// For more complex content structures, we might need to parse the content
+			// and add blocks one by one with proper hierarchy
+			const contentLines = content
+				.split('\n')
+				.filter((line) => line.trim() !== '')
+
+			for (const line of contentLines) {
+				await graph.appendBlock(pageName, line)
 			}
 		} catch (error) {
+			console.error(`Error adding content to page ${pageName}:`, error)
+			throw error
+		}
+	}
+
+	// Parse text content into a blocks structure for journal pages
+	function parseContentToBlocks(content: string): Array<{ content: string }> {
+		const lines = content.split('\n').filter((line) => line.trim() !== '')
+		const blocks: Array<{ content: string }> = []
+
+		for (const line of lines) {
+			// Skip heading lines (usually the date)
+			if (line.startsWith('#') || line.trim() === '') continue
+
+			// Create a block for each line
+			blocks.push({
+				content: line,
+			})
+		}
+
+		return blocks
+	}
+
+	server.tool('getAllPages', async () => {
+		try {
+			const pages = await backend.getAllPages()
+
 			return {
 				content: [
 					{
 						type: 'text',
-						text: `Error retrieving page content: ${error.message}`,
+						text: JSON.stringify(pages),
 					},
 				],
 			}
+		} catch (error) {
+			return errorResult(error, 'Error fetching Logseq pages')
+		}
+	})
+
+	// Get content for a specific page by name or UUID
+	async function getPageContent(
+		pageNameOrUuid: string,
+		graph: GraphBackend = backend
+	) {
+		try {
+			return await graph.getBlocksTree(pageNameOrUuid)
+		} catch (error) {
+			console.error(`Error fetching page content: ${error.message}`)
+			return null
 		}
 	}
-)
-
-// Extract and fetch linked pages from content
-async function extractLinkedPages(content: string): Promise<{
-	pages: Record<string, string>
-	occurrences: Record<string, number>
-}> {
-	const linkedPages: Record<string, string> = {}
-	const occurrences: Record<string, number> = {}
-	const matches = [...content.matchAll(PAGE_LINK_REGEX)]
-
-	for (const match of matches) {
-		const pageName = match[1].trim()
-		// Count occurrences of each page
-		occurrences[pageName] = (occurrences[pageName] || 0) + 1
-
-		if (!linkedPages[pageName]) {
-			const pageContent = await getPageContent(pageName)
-			if (pageContent) {
+
+	// Get a page's content and extract linked pages
+	server.tool(
+		'getPage',
+		{
+			pageName: z.string().describe('Name of the Logseq page to retrieve'),
+			runQueries: z
+				.boolean()
+				.optional()
+				.describe(
+					'Run the {{query}} and #+BEGIN_QUERY blocks on the page and show their results beneath them (default: false)'
+				),
+		},
+		async ({ pageName, runQueries = false }) => {
+			try {
+				// The page, its backlinks and the queries on it read the graph once
+				const graph = backend.snapshot()
+
+				// Not through getPageContent: API failures must not look like a missing page
+				const content = await graph.getBlocksTree(pageName)
+
+				if (!content) {
+					return notFound(`Page "${pageName}" not found or has no content.`)
+				}
+
+				// Format the page content
+				let formattedContent = `# ${pageName}\n\n`
+				const version = await versionLine(backend, pageName)
+				if (version) formattedContent += `${version}\n\n`
+
+				const queryOptions = runQueries
+					? await embeddedQueryOptions(pageName)
+					: undefined
+
 				// Process blocks to extract text and maintain hierarchy
-				const processBlocks = (blocks: any[], indent = 0) => {
+				const processBlocks = async (blocks: any[], indent = 0) => {
 					let text = ''
 					for (const block of blocks) {
 						if (block.content) {
 							const indentation = '  '.repeat(indent)
 							text += `${indentation}- ${block.content}\n`
 
+							// Query results go beneath the query, as Logseq shows them
+							for (const query of queryOptions
+								? findEmbeddedQueries(block.content)
+								: []) {
+								const result = await runEmbeddedQuery(
+									graph,
+									query,
+									queryOptions!
+								)
+								text += formatEmbeddedQueryResult(result, indent + 1)
+							}
+
 							if (block.children && block.children.length > 0) {
-								text += processBlocks(block.children, indent + 1)
+								text += await processBlocks(block.children, indent + 1)
 							}
 						}
 					}
 					return text
 				}
 
-				linkedPages[pageName] = processBlocks(pageContent)
-			}
-		}
-	}
-
-	return { pages: linkedPages, occurrences }
-}
-
-// Get summary of journal entries for a flexible date range
-server.tool(
-	'getJournalSummary',
-	{
-		dateRange: z
-			.string()
-			.describe(
-				'Date range like "today", "this week", "last month", "this year", "year to date", etc.'
-			),
-	},
-	async ({ dateRange }) => {
-		try {
-			// Get all pages
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
-
-			// Parse the date range
-			const { start, end, title } = parseDateRange(dateRange)
-
-			// Filter for journal pages within the date range
-			const journalPages = pages.filter((page: any) => {
-				const pageDate = new Date(page.updatedAt)
-				return page['journal?'] === true && pageDate >= start && pageDate <= end
-			})
+				formattedContent += await processBlocks(content)
 
-			// Sort by date
-			journalPages.sort((a: any, b: any) => a.journalDay - b.journalDay)
-
-			// For each journal page, get its content
-			const journalContents: Array<{ date: string; content: any }> = []
-			for (const page of journalPages) {
-				const content = await getPageContent(page.name)
-				if (content) {
-					journalContents.push({
-						date: page.originalName,
-						content: content,
+				// --- Fetch and add backlinks ---
+				const backlinks = await findBacklinks(pageName, graph)
+				if (backlinks.length > 0) {
+					formattedContent += `\n\n## Backlinks\n\n`
+					backlinks.forEach((backlinkPageName) => {
+						formattedContent += `- [[${backlinkPageName}]]\n`
 					})
+				} else {
+					formattedContent += '\n\n## Backlinks\n\nNo backlinks found.\n'
 				}
-			}
-
-			// Format the summary
-			let summary = `# ${title}\n\n`
-			summary += `*Date range: ${start.toLocaleDateString()} to ${end.toLocaleDateString()}*\n\n`
-
-			if (journalContents.length === 0) {
-				summary += `No journal entries found for ${dateRange}.`
-			} else {
-				// Track all linked pages across all entries
-				const allLinkedPages: Record<string, string> = {}
-				const allPageOccurrences: Record<string, number> = {}
-
-				for (const entry of journalContents) {
-					summary += `## ${entry.date}\n\n`
+				// --- End backlinks ---
 
+				return {
+					content: [
+						{
+							type: 'text',
+							text: formattedContent,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error retrieving page content')
+			}
+		}
+	)
+
+	// Extract and fetch linked pages from content
+	async function extractLinkedPages(
+		content: string,
+		graph: GraphBackend = backend
+	): Promise<{
+		pages: Record<string, string>
+		occurrences: Record<string, number>
+	}> {
+		const linkedPages: Record<string, string> = {}
+		const occurrences: Record<string, number> = {}
+		const matches = [...content.matchAll(PAGE_LINK_REGEX)]
+
+		for (const match of matches) {
+			const pageName = match[1].trim()
+			// Count occurrences of each page
+			occurrences[pageName] = (occurrences[pageName] || 0) + 1
+
+			if (!linkedPages[pageName]) {
+				const pageContent = await getPageContent(pageName, graph)
+				if (pageContent) {
 					// Process blocks to extract text and maintain hierarchy
 					const processBlocks = (blocks: any[], indent = 0) => {
 						let text = ''
@@ -432,1183 +658,1254 @@ server.tool(
 						return text
 					}
 
-					const entryText = processBlocks(entry.content)
-					summary += entryText
-					summary += '\n'
+					linkedPages[pageName] = processBlocks(pageContent)
+				}
+			}
+		}
+
+		return { pages: linkedPages, occurrences }
+	}
+
+	// Get summary of journal entries for a flexible date range
+	server.tool(
+		'getJournalSummary',
+		{
+			dateRange: z
+				.string()
+				.describe(
+					'Date range like "today", "last week", "last 10 days", "March 2025", "Q2 2025", "2025-W12", "since March" or "2025-01-01 to 2025-03-31"'
+				),
+		},
+		async ({ dateRange }) => {
+			try {
+				// Get all pages
+				const graph = backend.snapshot()
+				const pages = await graph.getAllPages()
 
-					// Extract linked pages from this entry
-					const { pages: linkedPages, occurrences } = await extractLinkedPages(
-						entryText
-					)
+				// Parse the date range
+				const range = await journalDateRange(dateRange)
 
-					// Merge the linked pages
-					Object.assign(allLinkedPages, linkedPages)
+				// Journal pages of the days in the range, oldest first
+				const journalPages = journalPagesInRange(pages, range)
 
-					// Merge occurrences counts
-					for (const [pageName, count] of Object.entries(occurrences)) {
-						allPageOccurrences[pageName] =
-							(allPageOccurrences[pageName] || 0) + count
+				// For each journal page, get its content
+				const journalContents: Array<{ date: string; content: any }> = []
+				for (const page of journalPages) {
+					const content = await getPageContent(page.name, graph)
+					if (content) {
+						journalContents.push({
+							date: page.originalName,
+							content: content,
+						})
 					}
 				}
 
-				// Add top concepts section (most frequently referenced pages)
-				if (Object.keys(allPageOccurrences).length > 0) {
-					// Sort pages by occurrence count (most frequent first)
-					const sortedPages = Object.entries(allPageOccurrences).sort(
-						(a, b) => b[1] - a[1]
-					)
+				// Format the summary
+				let summary = `# Journal Summary for ${range.label}\n\n`
+				summary += `*Date range: ${toIsoDate(range.start)} to ${toIsoDate(
+					range.end
+				)}*\n\n`
 
-					// Add a "Top Concepts" section if we have any pages
-					if (sortedPages.length > 0) {
-						summary += `\n## Top Concepts\n\n`
-						for (const [pageName, count] of sortedPages.slice(0, 10)) {
-							summary += `- [[${pageName}]] (${count} references)\n`
+				if (journalContents.length === 0) {
+					summary += `No journal entries found for ${dateRange}.`
+				} else {
+					// Track all linked pages across all entries
+					const allLinkedPages: Record<string, string> = {}
+					const allPageOccurrences: Record<string, number> = {}
+
+					for (const entry of journalContents) {
+						summary += `## ${entry.date}\n\n`
+
+						// Process blocks to extract text and maintain hierarchy
+						const processBlocks = (blocks: any[], indent = 0) => {
+							let text = ''
+							for (const block of blocks) {
+								if (block.content) {
+									const indentation = '  '.repeat(indent)
+									text += `${indentation}- ${block.content}\n`
+
+									if (block.children && block.children.length > 0) {
+										text += processBlocks(block.children, indent + 1)
+									}
+								}
+							}
+							return text
 						}
+
+						const entryText = processBlocks(entry.content)
+						summary += entryText
 						summary += '\n'
+
+						// Extract linked pages from this entry
+						const { pages: linkedPages, occurrences } =
+							await extractLinkedPages(entryText, graph)
+
+						// Merge the linked pages
+						Object.assign(allLinkedPages, linkedPages)
+
+						// Merge occurrences counts
+						for (const [pageName, count] of Object.entries(occurrences)) {
+							allPageOccurrences[pageName] =
+								(allPageOccurrences[pageName] || 0) + count
+						}
 					}
 
-					// Add detailed referenced pages section
-					summary += `\n## Referenced Pages\n\n`
-					for (const [pageName, content] of Object.entries(allLinkedPages)) {
-						const occurrenceCount = allPageOccurrences[pageName]
-						summary += `### ${pageName}\n\n`
-						if (occurrenceCount > 1) {
-							summary += `*Referenced ${occurrenceCount} times*\n\n`
+					// Add top concepts section (most frequently referenced pages)
+					if (Object.keys(allPageOccurrences).length > 0) {
+						// Sort pages by occurrence count (most frequent first)
+						const sortedPages = Object.entries(allPageOccurrences).sort(
+							(a, b) => b[1] - a[1]
+						)
+
+						// Add a "Top Concepts" section if we have any pages
+						if (sortedPages.length > 0) {
+							summary += `\n## Top Concepts\n\n`
+							for (const [pageName, count] of sortedPages.slice(0, 10)) {
+								summary += `- [[${pageName}]] (${count} references)\n`
+							}
+							summary += '\n'
+						}
+
+						// Add detailed referenced pages section
+						summary += `\n## Referenced Pages\n\n`
+						for (const [pageName, content] of Object.entries(allLinkedPages)) {
+							const occurrenceCount = allPageOccurrences[pageName]
+							summary += `### ${pageName}\n\n`
+							if (occurrenceCount > 1) {
+								summary += `*Referenced ${occurrenceCount} times*\n\n`
+							}
+							summary += `${content}\n\n`
 						}
-						summary += `${content}\n\n`
 					}
 				}
-			}
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: summary,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error generating journal summary: ${error.message}`,
-					},
-				],
+				return {
+					content: [
+						{
+							type: 'text',
+							text: summary,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error generating journal summary')
 			}
 		}
-	}
-)
-
-// Additional tools: createPage, searchPages, and getBacklinks
-
-server.tool(
-	'createPage',
-	{
-		pageName: z.string().describe('Name for the new Logseq page'),
-		content: z
-			.string()
-			.optional()
-			.describe('Initial content for the page (optional)'),
-	},
-	async ({ pageName, content }) => {
-		try {
-			// Check if this is a journal page
-			const isJournal = isJournalDate(pageName)
+	)
+
+	// Additional tools: createPage, searchPages, and getBacklinks
+
+	mutatingTool(
+		'createPage',
+		{
+			pageName: z.string().describe('Name for the new Logseq page'),
+			content: z
+				.string()
+				.optional()
+				.describe('Initial content for the page (optional)'),
+		},
+		async ({ pageName, content }, graph) => {
+			try {
+				// Check if this is a journal page
+				const isJournal = isJournalDate(
+					pageName,
+					undefined,
+					(await loadGraphConfig(graph)).locale
+				)
 
-			// For journal pages, we need special handling
-			if (isJournal) {
-				try {
-					// First, try to get the page to see if it exists
-					const existingPage = await callLogseqApi('logseq.Editor.getPage', [
-						pageName,
-					])
+				// For journal pages, we need special handling
+				if (isJournal) {
+					// Titles in another supported format name the same day
+					pageName = await journalPageName(pageName, graph)
+
+					try {
+						// First, try to get the page to see if it exists
+						const existingPage = await graph.getPage(pageName)
+
+						if (existingPage) {
+							// If the page exists and we have content, append to it
+							if (content) {
+								// For journal pages, we need to properly parse the content into blocks
+								// This will depend on the format of your content
+								// For now, we'll use a simple append approach
+								await addContentToPage(pageName, content, graph)
+							}
 
-					if (existingPage) {
-						// If the page exists and we have content, append to it
-						if (content) {
-							// For journal pages, we need to properly parse the content into blocks
-							// This will depend on the format of your content
-							// For now, we'll use a simple append approach
-							await addContentToPage(pageName, content)
+							return {
+								content: [
+									{
+										type: 'text',
+										text: `Journal page "${pageName}" updated successfully.`,
+									},
+								],
+							}
 						}
+					} catch (e) {
+						// Page doesn't exist, we'll create it below
+						console.log(
+							`Journal page ${pageName} doesn't exist yet, creating...`
+						)
+					}
 
-						return {
-							content: [
-								{
-									type: 'text',
-									text: `Journal page "${pageName}" updated successfully.`,
-								},
-							],
-						}
+					// Create the journal page
+					// Set journal? property to true to make it a proper journal page
+					await createJournalPage(graph, pageName)
+
+					// If we have content, add it to the new page
+					if (content) {
+						await addContentToPage(pageName, content, graph)
 					}
-				} catch (e) {
-					// Page doesn't exist, we'll create it below
-					console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
-				}
 
-				// Create the journal page
-				// Set journal? property to true to make it a proper journal page
-				await callLogseqApi('logseq.Editor.createPage', [
-					pageName,
-					{ 'journal?': true },
-				])
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Journal page "${pageName}" successfully created.`,
+							},
+						],
+					}
+				} else {
+					// Regular page creation
+					await graph.createPage(pageName)
+
+					// If we have content, add it to the new page
+					if (content) {
+						await addContentToPage(pageName, content, graph)
+					}
 
-				// If we have content, add it to the new page
-				if (content) {
-					await addContentToPage(pageName, content)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Page "${pageName}" successfully created.`,
+							},
+						],
+					}
 				}
+			} catch (error) {
+				return errorResult(error, `Error creating page "${pageName}"`)
+			}
+		}
+	)
 
+	server.tool(
+		'searchPages',
+		{
+			query: z.string().describe('Search query to filter pages by name'),
+		},
+		async ({ query }) => {
+			try {
+				const pages = await backend.getAllPages()
+				const matched = pages.filter(
+					(page: any) =>
+						page.name && page.name.toLowerCase().includes(query.toLowerCase())
+				)
+				if (matched.length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `No pages matching query "${query}" found.`,
+							},
+						],
+					}
+				}
+				let text = `Pages matching "${query}":\n`
+				matched.forEach((page: any) => {
+					text += `- ${page.name}\n`
+				})
 				return {
 					content: [
 						{
 							type: 'text',
-							text: `Journal page "${pageName}" successfully created.`,
+							text,
 						},
 					],
 				}
-			} else {
-				// Regular page creation
-				await callLogseqApi('logseq.Editor.createPage', [pageName, {}])
-
-				// If we have content, add it to the new page
-				if (content) {
-					await addContentToPage(pageName, content)
+			} catch (error) {
+				return errorResult(error, 'Error searching pages')
+			}
+		}
+	)
+
+	server.tool(
+		'search',
+		{
+			query: z.string().describe('Words to search for'),
+			namespace: z
+				.string()
+				.optional()
+				.describe('Only pages in this namespace, e.g. "projects"'),
+			type: z
+				.enum(['journal', 'page'])
+				.optional()
+				.describe('Only journal pages or only other pages'),
+			dateRange: z
+				.string()
+				.optional()
+				.describe(
+					'Only journals in this range, e.g. "last 30 days", "March 2025" or "2025-01-01 to 2025-03-31"'
+				),
+			task: z
+				.array(z.string())
+				.optional()
+				.describe(
+					'Only task blocks with these markers, e.g. ["TODO", "DOING"]'
+				),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.max(100)
+				.optional()
+				.describe('Maximum number of results (default: 20)'),
+		},
+		async ({ query, namespace, type, dateRange, task, limit = 20 }) => {
+			try {
+				const range = dateRange ? await journalDateRange(dateRange) : undefined
+				const { total, hits } = await backend.search(query, {
+					namespace,
+					type,
+					startDay: range?.startDay,
+					endDay: range?.endDay,
+					markers: task,
+					limit,
+				})
+				if (hits.length === 0) {
+					return {
+						content: [{ type: 'text', text: `No results for "${query}".` }],
+						structuredContent: { total, hits },
+					}
 				}
 
+				const lines = hits.map(
+					(hit) =>
+						`- [[${hit.page}]]${hit.uuid ? ` (block ${hit.uuid})` : ''}: ${
+							hit.snippet
+						}`
+				)
 				return {
 					content: [
 						{
 							type: 'text',
-							text: `Page "${pageName}" successfully created.`,
+							text: `# ${total} result${total === 1 ? '' : 's'} for "${query}"${
+								total > hits.length ? ` (showing the best ${hits.length})` : ''
+							}\n\n${lines.join('\n')}`,
 						},
 					],
+					structuredContent: { total, hits },
 				}
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error creating page "${pageName}": ${error.message}`,
-					},
-				],
-			}
-		}
-	}
-)
-
-server.tool(
-	'searchPages',
-	{
-		query: z.string().describe('Search query to filter pages by name'),
-	},
-	async ({ query }) => {
-		try {
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
-			const matched = pages.filter(
-				(page: any) =>
-					page.name && page.name.toLowerCase().includes(query.toLowerCase())
-			)
-			if (matched.length === 0) {
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `No pages matching query "${query}" found.`,
-						},
-					],
-				}
-			}
-			let text = `Pages matching "${query}":\n`
-			matched.forEach((page: any) => {
-				text += `- ${page.name}\n`
-			})
-			return {
-				content: [
-					{
-						type: 'text',
-						text,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error searching pages: ${error.message}`,
-					},
-				],
+			} catch (error) {
+				return errorResult(error, 'Error searching the graph')
 			}
 		}
-	}
-)
-
-// Helper function to get backlinks for a page
-async function findBacklinks(pageName: string): Promise<string[]> {
-	const pages = await callLogseqApi('logseq.Editor.getAllPages')
-	const backlinkPages: string[] = []
-
-	// Helper function to process blocks into text
-	function processBlocks(blocks: any[], indent = 0): string {
-		let text = ''
-		for (const block of blocks) {
-			if (block.content) {
-				text += `${'  '.repeat(indent)}${block.content}\n`
-				if (block.children && block.children.length > 0) {
-					text += processBlocks(block.children, indent + 1)
+	)
+
+	// Helper function to get backlinks for a page
+	// Reads every page, so from one reading of the graph unless given one
+	async function findBacklinks(
+		pageName: string,
+		graph: GraphBackend = backend.snapshot()
+	): Promise<string[]> {
+		const pages = await graph.getAllPages()
+		const backlinkPages: string[] = []
+
+		// Helper function to process blocks into text
+		function processBlocks(blocks: any[], indent = 0): string {
+			let text = ''
+			for (const block of blocks) {
+				if (block.content) {
+					text += `${'  '.repeat(indent)}${block.content}\n`
+					if (block.children && block.children.length > 0) {
+						text += processBlocks(block.children, indent + 1)
+					}
 				}
 			}
+			return text
 		}
-		return text
-	}
 
-	for (const page of pages) {
-		// Skip the page itself and pages without names
-		if (!page.name || page.name === pageName) continue
+		for (const page of pages) {
+			// Skip the page itself and pages without names
+			if (!page.name || page.name === pageName) continue
 
-		const content = await getPageContent(page.name)
-		if (!content) continue
+			const content = await getPageContent(page.name, graph)
+			if (!content) continue
 
-		const contentText = processBlocks(content)
-		const linkRegex = new RegExp(`\[\[\\s*${pageName}\\s*\]\]`, 'i') // Case-insensitive matching
+			const contentText = processBlocks(content)
+			const escapedName = pageName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+			// Case-insensitive; org-mode links may carry a description
+			const linkRegex = new RegExp(
+				`\\[\\[\\s*${escapedName}\\s*\\](?:\\[[^\\]]*\\])?\\]`,
+				'i'
+			)
 
-		if (linkRegex.test(contentText)) {
-			backlinkPages.push(page.name)
+			if (linkRegex.test(contentText)) {
+				backlinkPages.push(page.name)
+			}
 		}
-	}
 
-	return backlinkPages
-}
+		return backlinkPages
+	}
 
-server.tool(
-	'getBacklinks',
-	{
-		pageName: z.string().describe('The page name for which to find backlinks'),
-	},
-	async ({ pageName }) => {
-		try {
-			const backlinkPages = await findBacklinks(pageName) // Use the helper function
+	server.tool(
+		'getBacklinks',
+		{
+			pageName: z
+				.string()
+				.describe('The page name for which to find backlinks'),
+		},
+		async ({ pageName }) => {
+			try {
+				const backlinkPages = await findBacklinks(pageName) // Use the helper function
+
+				if (backlinkPages.length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `No backlinks found for page "${pageName}".`,
+							},
+						],
+					}
+				}
 
-			if (backlinkPages.length === 0) {
+				let resultText = `Pages referencing "${pageName}":\n`
+				backlinkPages.forEach((name) => {
+					resultText += `- [[${name}]]\n` // Use Logseq link format
+				})
 				return {
 					content: [
 						{
 							type: 'text',
-							text: `No backlinks found for page "${pageName}".`,
+							text: resultText,
 						},
 					],
 				}
-			}
-
-			let resultText = `Pages referencing "${pageName}":\n`
-			backlinkPages.forEach((name) => {
-				resultText += `- [[${name}]]\n` // Use Logseq link format
-			})
-			return {
-				content: [
-					{
-						type: 'text',
-						text: resultText,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error fetching backlinks: ${error.message}`,
-					},
-				],
+			} catch (error) {
+				return errorResult(error, 'Error fetching backlinks')
 			}
 		}
-	}
-)
-
-server.tool(
-	'addJournalEntry',
-	{
-		content: z
-			.string()
-			.describe("Content to add to today's journal or a specified date"),
-		date: z
-			.string()
-			.optional()
-			.describe(
-				'Optional date format (e.g., "mar 14th, 2025"). Defaults to today'
-			),
-		asBlock: z
-			.boolean()
-			.optional()
-			.describe('Whether to add as a single block (default: true)'),
-	},
-	async ({ content, date, asBlock = true }) => {
-		try {
-			// Determine the journal page name (today or specific date)
-			let pageName = date || formatJournalDate(new Date())
-
-			// Check if this page exists and is a journal page
-			let pageExists = false
+	)
+
+	mutatingTool(
+		'addJournalEntry',
+		{
+			content: z
+				.string()
+				.describe("Content to add to today's journal or a specified date"),
+			date: z
+				.string()
+				.optional()
+				.describe(
+					"Optional date as YYYY-MM-DD or a journal title in the graph's format. Defaults to today"
+				),
+			asBlock: z
+				.boolean()
+				.optional()
+				.describe('Whether to add as a single block (default: true)'),
+		},
+		async ({ content, date, asBlock = true }, graph) => {
 			try {
-				const existingPage = await callLogseqApi('logseq.Editor.getPage', [
-					pageName,
-				])
-				pageExists = !!existingPage
-			} catch (e) {
-				// Page doesn't exist, we'll create it
-				console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
-			}
-
-			// If page doesn't exist, create it first
-			if (!pageExists) {
-				await callLogseqApi('logseq.Editor.createPage', [
-					pageName,
-					{ 'journal?': true },
-				])
-			}
-
-			// Clean up content if needed
-			let cleanContent = content
-
-			// If we're adding as a single block and content has multiple lines,
-			// we need to preserve the content exactly as is without any processing
-			if (asBlock) {
-				// Remove any leading/trailing whitespace
-				cleanContent = content.trim()
-
-				// Remove the title/heading if it's the same as the page name (to avoid duplication)
-				const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
-				cleanContent = cleanContent.replace(titleRegex, '').trim()
+				// Determine the journal page name (today or specific date)
+				let pageName = await journalPageName(date, graph)
 
-				// Add the content as a single block
-				await callLogseqApi('logseq.Editor.appendBlockInPage', [
-					pageName,
-					cleanContent,
-				])
+				// Check if this page exists and is a journal page
+				let pageExists = false
+				try {
+					const existingPage = await graph.getPage(pageName)
+					pageExists = !!existingPage
+				} catch (e) {
+					// Page doesn't exist, we'll create it
+					console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
+				}
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Added journal entry to "${pageName}" as a single block.`,
-						},
-					],
+				// If page doesn't exist, create it first
+				if (!pageExists) {
+					await createJournalPage(graph, pageName)
 				}
-			} else {
-				// For multi-block approach, use the pre-existing function (though not recommended)
-				await addContentToPage(pageName, cleanContent)
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Added journal entry to "${pageName}" as multiple blocks.`,
-						},
-					],
+				// Clean up content if needed
+				let cleanContent = content
+
+				// If we're adding as a single block and content has multiple lines,
+				// we need to preserve the content exactly as is without any processing
+				if (asBlock) {
+					// Remove any leading/trailing whitespace
+					cleanContent = content.trim()
+
+					// Remove the title/heading if it's the same as the page name (to avoid duplication)
+					const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
+					cleanContent = cleanContent.replace(titleRegex, '').trim()
+
+					// Add the content as a single block
+					await graph.appendBlock(pageName, cleanContent)
+
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Added journal entry to "${pageName}" as a single block.`,
+							},
+						],
+					}
+				} else {
+					// For multi-block approach, use the pre-existing function (though not recommended)
+					await addContentToPage(pageName, cleanContent, graph)
+
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Added journal entry to "${pageName}" as multiple blocks.`,
+							},
+						],
+					}
 				}
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error adding journal entry: ${error.message}`,
-					},
-				],
+			} catch (error) {
+				return errorResult(error, 'Error adding journal entry')
 			}
 		}
-	}
-)
-
-server.tool(
-	'analyzeGraph',
-	{
-		daysThreshold: z
-			.number()
-			.optional()
-			.describe(
-				'Number of days to look back for "recent" content (default: 30)'
-			),
-	},
-	async ({ daysThreshold = 30 }) => {
-		try {
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
-
-			// Initialize our analysis containers
-			const todos: Array<{ page: string; task: string }> = []
-			const frequentReferences: Array<{
-				page: string
-				count: number
-				lastUpdate: Date | null
-			}> = []
-			const recentUpdates: Array<{ page: string; date: Date }> = []
-			const pageConnections: Record<string, Set<string>> = {}
-
-			// Track reference counts and last updates
-			const referenceCount: Record<string, number> = {}
-			const lastUpdateDates: Record<string, Date | null> = {}
-
-			// Process each page
-			for (const page of pages) {
-				if (!page.name) continue
-
-				const content = await getPageContent(page.name)
-				if (!content) continue
+	)
+
+	server.tool(
+		'analyzeGraph',
+		{
+			daysThreshold: z
+				.number()
+				.optional()
+				.describe(
+					'Number of days to look back for "recent" content (default: 30)'
+				),
+		},
+		async ({ daysThreshold = 30 }) => {
+			try {
+				const graph = backend.snapshot()
+				const pages = await graph.getAllPages()
+
+				// Initialize our analysis containers
+				const todos: Array<{ page: string; task: string }> = []
+				const frequentReferences: Array<{
+					page: string
+					count: number
+					lastUpdate: Date | null
+				}> = []
+				const recentUpdates: Array<{ page: string; date: Date }> = []
+				const pageConnections: Record<string, Set<string>> = {}
+
+				// Track reference counts and last updates
+				const referenceCount: Record<string, number> = {}
+				const lastUpdateDates: Record<string, Date | null> = {}
+
+				// Process each page
+				for (const page of pages) {
+					if (!page.name) continue
+
+					const content = await getPageContent(page.name, graph)
+					if (!content) continue
+
+					// Helper function to process blocks recursively
+					const processBlocks = (blocks: any[]) => {
+						for (const block of blocks) {
+							if (!block.content) continue
+
+							// Look for TODO items
+							if (
+								block.content.toLowerCase().includes('todo') ||
+								block.content.toLowerCase().includes('later') ||
+								block.content.includes('- [ ]')
+							) {
+								todos.push({
+									page: page.name,
+									task: block.content.replace(/^[-*] /, '').trim(),
+								})
+							}
 
-				// Helper function to process blocks recursively
-				const processBlocks = (blocks: any[]) => {
-					for (const block of blocks) {
-						if (!block.content) continue
-
-						// Look for TODO items
-						if (
-							block.content.toLowerCase().includes('todo') ||
-							block.content.toLowerCase().includes('later') ||
-							block.content.includes('- [ ]')
-						) {
-							todos.push({
-								page: page.name,
-								task: block.content.replace(/^[-*] /, '').trim(),
-							})
-						}
+							// Extract page references
+							const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
+							for (const match of matches) {
+								const linkedPage = match[1].trim()
+								referenceCount[linkedPage] =
+									(referenceCount[linkedPage] || 0) + 1
 
-						// Extract page references
-						const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
-						for (const match of matches) {
-							const linkedPage = match[1].trim()
-							referenceCount[linkedPage] = (referenceCount[linkedPage] || 0) + 1
+								// Track connections between pages
+								if (!pageConnections[page.name]) {
+									pageConnections[page.name] = new Set()
+								}
+								pageConnections[page.name].add(linkedPage)
+							}
 
-							// Track connections between pages
-							if (!pageConnections[page.name]) {
-								pageConnections[page.name] = new Set()
+							// Process child blocks
+							if (block.children && block.children.length > 0) {
+								processBlocks(block.children)
 							}
-							pageConnections[page.name].add(linkedPage)
 						}
+					}
+
+					processBlocks(content)
 
-						// Process child blocks
-						if (block.children && block.children.length > 0) {
-							processBlocks(block.children)
+					// Track last update date - handle invalid or missing dates
+					let updateDate: Date | null = null
+					if (page.updatedAt) {
+						const timestamp = new Date(page.updatedAt).getTime()
+						if (!isNaN(timestamp)) {
+							updateDate = new Date(timestamp)
 						}
 					}
-				}
-
-				processBlocks(content)
+					lastUpdateDates[page.name] = updateDate
 
-				// Track last update date - handle invalid or missing dates
-				let updateDate: Date | null = null
-				if (page.updatedAt) {
-					const timestamp = new Date(page.updatedAt).getTime()
-					if (!isNaN(timestamp)) {
-						updateDate = new Date(timestamp)
+					// Track recent updates only if we have a valid date
+					if (updateDate) {
+						const daysSinceUpdate = Math.floor(
+							(Date.now() - updateDate.getTime()) / (1000 * 60 * 60 * 24)
+						)
+						if (daysSinceUpdate <= daysThreshold) {
+							recentUpdates.push({
+								page: page.name,
+								date: updateDate,
+							})
+						}
 					}
 				}
-				lastUpdateDates[page.name] = updateDate
 
-				// Track recent updates only if we have a valid date
-				if (updateDate) {
-					const daysSinceUpdate = Math.floor(
-						(Date.now() - updateDate.getTime()) / (1000 * 60 * 60 * 24)
-					)
-					if (daysSinceUpdate <= daysThreshold) {
-						recentUpdates.push({
-							page: page.name,
-							date: updateDate,
+				// Analyze reference patterns
+				for (const [pageName, count] of Object.entries(referenceCount)) {
+					if (count > 2) {
+						// Pages referenced more than twice
+						frequentReferences.push({
+							page: pageName,
+							count,
+							lastUpdate: lastUpdateDates[pageName],
 						})
 					}
 				}
-			}
-
-			// Analyze reference patterns
-			for (const [pageName, count] of Object.entries(referenceCount)) {
-				if (count > 2) {
-					// Pages referenced more than twice
-					frequentReferences.push({
-						page: pageName,
-						count,
-						lastUpdate: lastUpdateDates[pageName],
-					})
-				}
-			}
 
-			// Sort by reference count
-			frequentReferences.sort((a, b) => b.count - a.count)
+				// Sort by reference count
+				frequentReferences.sort((a, b) => b.count - a.count)
 
-			// Find clusters of related pages
-			const clusters: Array<string[]> = []
-			const processedPages = new Set<string>()
+				// Find clusters of related pages
+				const clusters: Array<string[]> = []
+				const processedPages = new Set<string>()
 
-			for (const [pageName, connections] of Object.entries(pageConnections)) {
-				if (processedPages.has(pageName)) continue
+				for (const [pageName, connections] of Object.entries(pageConnections)) {
+					if (processedPages.has(pageName)) continue
 
-				const cluster = new Set<string>([pageName])
-				const queue = Array.from(connections)
+					const cluster = new Set<string>([pageName])
+					const queue = Array.from(connections)
 
-				while (queue.length > 0) {
-					const currentPage = queue.shift()!
-					if (processedPages.has(currentPage)) continue
+					while (queue.length > 0) {
+						const currentPage = queue.shift()!
+						if (processedPages.has(currentPage)) continue
 
-					cluster.add(currentPage)
-					processedPages.add(currentPage)
+						cluster.add(currentPage)
+						processedPages.add(currentPage)
 
-					// Add connected pages to queue
-					const relatedPages = pageConnections[currentPage]
-					if (relatedPages) {
-						queue.push(...Array.from(relatedPages))
+						// Add connected pages to queue
+						const relatedPages = pageConnections[currentPage]
+						if (relatedPages) {
+							queue.push(...Array.from(relatedPages))
+						}
 					}
-				}
 
-				if (cluster.size > 2) {
-					// Only include clusters with 3+ pages
-					clusters.push(Array.from(cluster))
+					if (cluster.size > 2) {
+						// Only include clusters with 3+ pages
+						clusters.push(Array.from(cluster))
+					}
 				}
-			}
-
-			// Generate the insight report
-			let report = '# Graph Analysis Insights\n\n'
 
-			// TODO Items Section
-			if (todos.length > 0) {
-				report += '## Outstanding Tasks\n\n'
-				todos.forEach(({ page, task }) => {
-					report += `- ${task} *(from [[${page}]])*\n`
-				})
-				report += '\n'
-			}
+				// Generate the insight report
+				let report = '# Graph Analysis Insights\n\n'
 
-			// Frequently Referenced Pages
-			if (frequentReferences.length > 0) {
-				report += '## Frequently Referenced Pages\n\n'
-				frequentReferences
-					.slice(0, 10)
-					.forEach(({ page, count, lastUpdate }) => {
-						let updateInfo = 'no update date available'
-						if (lastUpdate) {
-							const daysSinceUpdate = Math.floor(
-								(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24)
-							)
-							updateInfo = `last updated ${daysSinceUpdate} days ago`
-						}
-						report += `- [[${page}]] (${count} references, ${updateInfo})\n`
+				// TODO Items Section
+				if (todos.length > 0) {
+					report += '## Outstanding Tasks\n\n'
+					todos.forEach(({ page, task }) => {
+						report += `- ${task} *(from [[${page}]])*\n`
 					})
-				report += '\n'
-			}
+					report += '\n'
+				}
 
-			// Recent Updates
-			if (recentUpdates.length > 0) {
-				report += '## Recent Updates\n\n'
-				recentUpdates
-					.sort((a, b) => b.date.getTime() - a.date.getTime())
-					.slice(0, 10)
-					.forEach(({ page, date }) => {
-						report += `- [[${page}]] (${date.toLocaleDateString()})\n`
-					})
-				report += '\n'
-			}
+				// Frequently Referenced Pages
+				if (frequentReferences.length > 0) {
+					report += '## Frequently Referenced Pages\n\n'
+					frequentReferences
+						.slice(0, 10)
+						.forEach(({ page, count, lastUpdate }) => {
+							let updateInfo = 'no update date available'
+							if (lastUpdate) {
+								const daysSinceUpdate = Math.floor(
+									(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24)
+								)
+								updateInfo = `last updated ${daysSinceUpdate} days ago`
+							}
+							report += `- [[${page}]] (${count} references, ${updateInfo})\n`
+						})
+					report += '\n'
+				}
 
-			// Page Clusters
-			if (clusters.length > 0) {
-				report += '## Related Page Clusters\n\n'
-				clusters.slice(0, 5).forEach((cluster, index) => {
-					report += `### Cluster ${index + 1}\n`
-					cluster.forEach((page) => {
-						report += `- [[${page}]]\n`
-					})
+				// Recent Updates
+				if (recentUpdates.length > 0) {
+					report += '## Recent Updates\n\n'
+					recentUpdates
+						.sort((a, b) => b.date.getTime() - a.date.getTime())
+						.slice(0, 10)
+						.forEach(({ page, date }) => {
+							report += `- [[${page}]] (${date.toLocaleDateString()})\n`
+						})
 					report += '\n'
-				})
-			}
+				}
 
-			// Potential Action Items
-			report += '## Suggested Actions\n\n'
+				// Page Clusters
+				if (clusters.length > 0) {
+					report += '## Related Page Clusters\n\n'
+					clusters.slice(0, 5).forEach((cluster, index) => {
+						report += `### Cluster ${index + 1}\n`
+						cluster.forEach((page) => {
+							report += `- [[${page}]]\n`
+						})
+						report += '\n'
+					})
+				}
 
-			// Suggest updating frequently referenced but outdated pages
-			const outdatedFrequentPages = frequentReferences.filter(
-				({ lastUpdate }) =>
-					lastUpdate &&
-					(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24) >
-						daysThreshold
-			)
+				// Potential Action Items
+				report += '## Suggested Actions\n\n'
 
-			if (outdatedFrequentPages.length > 0) {
-				report += '### Frequently Referenced Pages Needing Updates\n\n'
-				outdatedFrequentPages
-					.slice(0, 5)
-					.forEach(({ page, count, lastUpdate }) => {
-						if (lastUpdate) {
-							const daysSinceUpdate = Math.floor(
-								(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24)
-							)
-							report += `- Consider updating [[${page}]] - referenced ${count} times but last updated ${daysSinceUpdate} days ago\n`
-						}
-					})
-				report += '\n'
-			}
+				// Suggest updating frequently referenced but outdated pages
+				const outdatedFrequentPages = frequentReferences.filter(
+					({ lastUpdate }) =>
+						lastUpdate &&
+						(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24) >
+							daysThreshold
+				)
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: report,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error analyzing graph: ${error.message}`,
-					},
-				],
+				if (outdatedFrequentPages.length > 0) {
+					report += '### Frequently Referenced Pages Needing Updates\n\n'
+					outdatedFrequentPages
+						.slice(0, 5)
+						.forEach(({ page, count, lastUpdate }) => {
+							if (lastUpdate) {
+								const daysSinceUpdate = Math.floor(
+									(Date.now() - lastUpdate.getTime()) / (1000 * 60 * 60 * 24)
+								)
+								report += `- Consider updating [[${page}]] - referenced ${count} times but last updated ${daysSinceUpdate} days ago\n`
+							}
+						})
+					report += '\n'
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: report,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error analyzing graph')
 			}
 		}
-	}
-)
-
-server.tool(
-	'findKnowledgeGaps',
-	{
-		minReferenceCount: z
-			.number()
-			.optional()
-			.describe('Minimum references to consider (default: 3)'),
-		includeOrphans: z
-			.boolean()
-			.optional()
-			.describe('Include orphaned pages in analysis (default: true)'),
-	},
-	async ({ minReferenceCount = 3, includeOrphans = true }) => {
-		try {
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
+	)
+
+	server.tool(
+		'findKnowledgeGaps',
+		{
+			minReferenceCount: z
+				.number()
+				.optional()
+				.describe('Minimum references to consider (default: 3)'),
+			includeOrphans: z
+				.boolean()
+				.optional()
+				.describe('Include orphaned pages in analysis (default: true)'),
+		},
+		async ({ minReferenceCount = 3, includeOrphans = true }) => {
+			try {
+				const graph = backend.snapshot()
+				const pages = await graph.getAllPages()
 
-			// Track references and their existence
-			const references: Record<
-				string,
-				{ count: number; hasPage: boolean; referencedFrom: Set<string> }
-			> = {}
-			const orphanedPages: string[] = []
+				// Track references and their existence
+				const references: Record<
+					string,
+					{ count: number; hasPage: boolean; referencedFrom: Set<string> }
+				> = {}
+				const orphanedPages: string[] = []
+
+				// First pass: collect all pages and initialize their reference tracking
+				pages.forEach((page: any) => {
+					if (!page.name) return
+					references[page.name] = {
+						count: 0,
+						hasPage: true,
+						referencedFrom: new Set(),
+					}
+				})
 
-			// First pass: collect all pages and initialize their reference tracking
-			pages.forEach((page: any) => {
-				if (!page.name) return
-				references[page.name] = {
-					count: 0,
-					hasPage: true,
-					referencedFrom: new Set(),
-				}
-			})
+				// Second pass: analyze content and collect references
+				for (const page of pages) {
+					if (!page.name) continue
 
-			// Second pass: analyze content and collect references
-			for (const page of pages) {
-				if (!page.name) continue
+					const content = await getPageContent(page.name, graph)
+					if (!content) continue
 
-				const content = await getPageContent(page.name)
-				if (!content) continue
+					// Process blocks to find references
+					const processBlocks = (blocks: any[]) => {
+						for (const block of blocks) {
+							if (!block.content) continue
 
-				// Process blocks to find references
-				const processBlocks = (blocks: any[]) => {
-					for (const block of blocks) {
-						if (!block.content) continue
-
-						// Find all page references
-						const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
-						for (const match of matches) {
-							const linkedPage = match[1].trim()
-
-							// Initialize reference tracking if this is a new reference
-							if (!references[linkedPage]) {
-								references[linkedPage] = {
-									count: 0,
-									hasPage: false,
-									referencedFrom: new Set(),
+							// Find all page references
+							const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
+							for (const match of matches) {
+								const linkedPage = match[1].trim()
+
+								// Initialize reference tracking if this is a new reference
+								if (!references[linkedPage]) {
+									references[linkedPage] = {
+										count: 0,
+										hasPage: false,
+										referencedFrom: new Set(),
+									}
 								}
-							}
 
-							references[linkedPage].count++
-							references[linkedPage].referencedFrom.add(page.name)
-						}
+								references[linkedPage].count++
+								references[linkedPage].referencedFrom.add(page.name)
+							}
 
-						if (block.children && block.children.length > 0) {
-							processBlocks(block.children)
+							if (block.children && block.children.length > 0) {
+								processBlocks(block.children)
+							}
 						}
 					}
-				}
 
-				processBlocks(content)
-			}
-
-			// Analyze the data
-			const missingPages: Array<{
-				name: string
-				count: number
-				referencedFrom: string[]
-			}> = []
-			const underdevelopedPages: Array<{
-				name: string
-				content: string
-				referenceCount: number
-			}> = []
-
-			for (const [pageName, data] of Object.entries(references)) {
-				// Find missing pages (referenced but don't exist)
-				if (!data.hasPage && data.count >= minReferenceCount) {
-					missingPages.push({
-						name: pageName,
-						count: data.count,
-						referencedFrom: Array.from(data.referencedFrom),
-					})
+					processBlocks(content)
 				}
 
-				// Find underdeveloped pages (exist but have minimal content)
-				if (data.hasPage) {
-					const content = await getPageContent(pageName)
-					if (content) {
-						const contentText = content
-							.map((block: any) => block.content || '')
-							.join(' ')
-						if (contentText.length < 100 && data.count >= minReferenceCount) {
-							// Less than 100 chars is considered minimal
-							underdevelopedPages.push({
-								name: pageName,
-								content: contentText,
-								referenceCount: data.count,
-							})
-						}
+				// Analyze the data
+				const missingPages: Array<{
+					name: string
+					count: number
+					referencedFrom: string[]
+				}> = []
+				const underdevelopedPages: Array<{
+					name: string
+					content: string
+					referenceCount: number
+				}> = []
+
+				for (const [pageName, data] of Object.entries(references)) {
+					// Find missing pages (referenced but don't exist)
+					if (!data.hasPage && data.count >= minReferenceCount) {
+						missingPages.push({
+							name: pageName,
+							count: data.count,
+							referencedFrom: Array.from(data.referencedFrom),
+						})
 					}
 
-					// Track orphaned pages
-					if (includeOrphans && data.count === 0) {
-						orphanedPages.push(pageName)
+					// Find underdeveloped pages (exist but have minimal content)
+					if (data.hasPage) {
+						const content = await getPageContent(pageName, graph)
+						if (content) {
+							const contentText = content
+								.map((block: any) => block.content || '')
+								.join(' ')
+							if (contentText.length < 100 && data.count >= minReferenceCount) {
+								// Less than 100 chars is considered minimal
+								underdevelopedPages.push({
+									name: pageName,
+									content: contentText,
+									referenceCount: data.count,
+								})
+							}
+						}
+
+						// Track orphaned pages
+						if (includeOrphans && data.count === 0) {
+							orphanedPages.push(pageName)
+						}
 					}
 				}
-			}
-
-			// Generate the report
-			let report = '# Knowledge Graph Analysis\n\n'
 
-			// Missing Pages Section
-			if (missingPages.length > 0) {
-				report += '## Missing Pages\n'
-				report +=
-					"These topics are frequently referenced but don't have their own pages:\n\n"
+				// Generate the report
+				let report = '# Knowledge Graph Analysis\n\n'
+
+				// Missing Pages Section
+				if (missingPages.length > 0) {
+					report += '## Missing Pages\n'
+					report +=
+						"These topics are frequently referenced but don't have their own pages:\n\n"
+
+					missingPages
+						.sort((a, b) => b.count - a.count)
+						.forEach(({ name, count, referencedFrom }) => {
+							report += `### [[${name}]]\n`
+							report += `- Referenced ${count} times\n`
+							report += '- Referenced from:\n'
+							referencedFrom.forEach((source) => {
+								report += `  - [[${source}]]\n`
+							})
+							report += '\n'
+						})
+				}
 
-				missingPages
-					.sort((a, b) => b.count - a.count)
-					.forEach(({ name, count, referencedFrom }) => {
-						report += `### [[${name}]]\n`
-						report += `- Referenced ${count} times\n`
-						report += '- Referenced from:\n'
-						referencedFrom.forEach((source) => {
-							report += `  - [[${source}]]\n`
+				// Underdeveloped Pages Section
+				if (underdevelopedPages.length > 0) {
+					report += '## Underdeveloped Pages\n'
+					report += 'These pages exist but might need more content:\n\n'
+
+					underdevelopedPages
+						.sort((a, b) => b.referenceCount - a.referenceCount)
+						.forEach(({ name, content, referenceCount }) => {
+							report += `### [[${name}]]\n`
+							report += `- Referenced ${referenceCount} times\n`
+							report += `- Current content: "${content.substring(0, 50)}${
+								content.length > 50 ? '...' : ''
+							}"\n\n`
 						})
-						report += '\n'
-					})
-			}
+				}
 
-			// Underdeveloped Pages Section
-			if (underdevelopedPages.length > 0) {
-				report += '## Underdeveloped Pages\n'
-				report += 'These pages exist but might need more content:\n\n'
+				// Orphaned Pages Section
+				if (includeOrphans && orphanedPages.length > 0) {
+					report += '## Orphaned Pages\n'
+					report += "These pages aren't referenced by any other pages:\n\n"
 
-				underdevelopedPages
-					.sort((a, b) => b.referenceCount - a.referenceCount)
-					.forEach(({ name, content, referenceCount }) => {
-						report += `### [[${name}]]\n`
-						report += `- Referenced ${referenceCount} times\n`
-						report += `- Current content: "${content.substring(0, 50)}${
-							content.length > 50 ? '...' : ''
-						}"\n\n`
+					orphanedPages.sort().forEach((page) => {
+						report += `- [[${page}]]\n`
 					})
-			}
+					report += '\n'
+				}
 
-			// Orphaned Pages Section
-			if (includeOrphans && orphanedPages.length > 0) {
-				report += '## Orphaned Pages\n'
-				report += "These pages aren't referenced by any other pages:\n\n"
+				// Add summary statistics
+				report += '## Summary Statistics\n\n'
+				report += `- Total pages: ${pages.length}\n`
+				report += `- Missing pages (referenced ≥${minReferenceCount} times): ${missingPages.length}\n`
+				report += `- Underdeveloped pages: ${underdevelopedPages.length}\n`
+				if (includeOrphans) {
+					report += `- Orphaned pages: ${orphanedPages.length}\n`
+				}
 
-				orphanedPages.sort().forEach((page) => {
-					report += `- [[${page}]]\n`
-				})
-				report += '\n'
-			}
-
-			// Add summary statistics
-			report += '## Summary Statistics\n\n'
-			report += `- Total pages: ${pages.length}\n`
-			report += `- Missing pages (referenced ≥${minReferenceCount} times): ${missingPages.length}\n`
-			report += `- Underdeveloped pages: ${underdevelopedPages.length}\n`
-			if (includeOrphans) {
-				report += `- Orphaned pages: ${orphanedPages.length}\n`
-			}
-
-			return {
-				content: [
-					{
-						type: 'text',
-						text: report,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error analyzing knowledge gaps: ${error.message}`,
-					},
-				],
-			}
-		}
-	}
-)
-
-server.tool(
-	'analyzeJournalPatterns',
-	{
-		timeframe: z
-			.string()
-			.optional()
-			.describe('Time period to analyze (e.g., "last 30 days", "this year")'),
-		includeMood: z
-			.boolean()
-			.optional()
-			.describe('Analyze mood patterns if present (default: true)'),
-		includeTopics: z
-			.boolean()
-			.optional()
-			.describe('Analyze topic patterns (default: true)'),
-	},
-	async ({
-		timeframe = 'last 30 days',
-		includeMood = true,
-		includeTopics = true,
-	}) => {
-		try {
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
-
-			// Parse timeframe and get date range
-			const now = new Date()
-			let startDate = new Date()
-
-			if (timeframe.includes('last')) {
-				const [, amount, unit] = timeframe.match(/last (\d+) (\w+)/) || []
-				if (amount && unit) {
-					const num = parseInt(amount)
-					switch (unit) {
-						case 'days':
-							startDate.setDate(now.getDate() - num)
-							break
-						case 'weeks':
-							startDate.setDate(now.getDate() - num * 7)
-							break
-						case 'months':
-							startDate.setMonth(now.getMonth() - num)
-							break
-						case 'years':
-							startDate.setFullYear(now.getFullYear() - num)
-							break
-					}
+				return {
+					content: [
+						{
+							type: 'text',
+							text: report,
+						},
+					],
 				}
-			} else if (timeframe === 'this year') {
-				startDate = new Date(now.getFullYear(), 0, 1)
+			} catch (error) {
+				return errorResult(error, 'Error analyzing knowledge gaps')
 			}
+		}
+	)
+
+	server.tool(
+		'analyzeJournalPatterns',
+		{
+			timeframe: z
+				.string()
+				.optional()
+				.describe(
+					'Time period to analyze, e.g. "last 30 days", "this year", "Q2 2025" or "since March" (default: last 30 days)'
+				),
+			includeMood: z
+				.boolean()
+				.optional()
+				.describe('Analyze mood patterns if present (default: true)'),
+			includeTopics: z
+				.boolean()
+				.optional()
+				.describe('Analyze topic patterns (default: true)'),
+		},
+		async ({
+			timeframe = 'last 30 days',
+			includeMood = true,
+			includeTopics = true,
+		}) => {
+			try {
+				const graph = backend.snapshot()
+				const pages = await graph.getAllPages()
+
+				// Journal pages of the days in the timeframe, oldest first
+				const range = await journalDateRange(timeframe)
+				const journalPages = journalPagesInRange(pages, range)
+
+				// Analysis containers
+				const topicFrequency: Record<string, number> = {}
+				const topicsByDate: Record<string, Set<string>> = {}
+				const moodPatterns: Array<{
+					date: string
+					mood: string
+					context: string
+				}> = []
+				const habitPatterns: Record<
+					string,
+					Array<{ date: string; done: boolean }>
+				> = {}
+				const projectProgress: Record<
+					string,
+					Array<{ date: string; status: string }>
+				> = {}
 
-			// Filter journal pages within timeframe
-			const journalPages = pages.filter((page: any) => {
-				if (!page['journal?']) return false
-				const pageDate = new Date(page.journalDay)
-				return pageDate >= startDate && pageDate <= now
-			})
-
-			// Sort by date
-			journalPages.sort((a: any, b: any) => a.journalDay - b.journalDay)
-
-			// Analysis containers
-			const topicFrequency: Record<string, number> = {}
-			const topicsByDate: Record<string, Set<string>> = {}
-			const moodPatterns: Array<{
-				date: string
-				mood: string
-				context: string
-			}> = []
-			const habitPatterns: Record<
-				string,
-				Array<{ date: string; done: boolean }>
-			> = {}
-			const projectProgress: Record<
-				string,
-				Array<{ date: string; status: string }>
-			> = {}
-
-			// Process journal entries
-			for (const page of journalPages) {
-				const content = await getPageContent(page.name)
-				if (!content) continue
-
-				const date = new Date(page.journalDay).toISOString().split('T')[0]
-				topicsByDate[date] = new Set()
-
-				const processBlocks = (blocks: any[]) => {
-					for (const block of blocks) {
-						if (!block.content) continue
-
-						// Extract page references (topics)
-						if (includeTopics) {
-							const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
-							for (const match of matches) {
-								const topic = match[1].trim()
-								topicFrequency[topic] = (topicFrequency[topic] || 0) + 1
-								topicsByDate[date].add(topic)
-							}
-						}
+				// Process journal entries
+				for (const page of journalPages) {
+					const content = await getPageContent(page.name, graph)
+					if (!content) continue
 
-						// Look for mood indicators
-						if (includeMood) {
-							const moodIndicators = [
-								'mood:',
-								'feeling:',
-								'😊',
-								'😔',
-								'😠',
-								'😌',
-								'happy',
-								'sad',
-								'angry',
-								'excited',
-								'tired',
-								'anxious',
-							]
+					const date = toIsoDate(fromJournalDay(page.journalDay!))
+					topicsByDate[date] = new Set()
 
-							for (const indicator of moodIndicators) {
-								if (
-									block.content.toLowerCase().includes(indicator.toLowerCase())
-								) {
-									moodPatterns.push({
-										date,
-										mood: block.content,
-										context: block.content,
-									})
-									break
+					const processBlocks = (blocks: any[]) => {
+						for (const block of blocks) {
+							if (!block.content) continue
+
+							// Extract page references (topics)
+							if (includeTopics) {
+								const matches = [...block.content.matchAll(PAGE_LINK_REGEX)]
+								for (const match of matches) {
+									const topic = match[1].trim()
+									topicFrequency[topic] = (topicFrequency[topic] || 0) + 1
+									topicsByDate[date].add(topic)
 								}
 							}
-						}
 
-						// Track habits and tasks
-						if (
-							block.content.includes('- [ ]') ||
-							block.content.includes('- [x]')
-						) {
-							const habit = block.content.replace(/- \[[ x]\] /, '').trim()
-							if (!habitPatterns[habit]) {
-								habitPatterns[habit] = []
+							// Look for mood indicators
+							if (includeMood) {
+								const moodIndicators = [
+									'mood:',
+									'feeling:',
+									'😊',
+									'😔',
+									'😠',
+									'😌',
+									'happy',
+									'sad',
+									'angry',
+									'excited',
+									'tired',
+									'anxious',
+								]
+
+								for (const indicator of moodIndicators) {
+									if (
+										block.content
+											.toLowerCase()
+											.includes(indicator.toLowerCase())
+									) {
+										moodPatterns.push({
+											date,
+											mood: block.content,
+											context: block.content,
+										})
+										break
+									}
+								}
 							}
-							habitPatterns[habit].push({
-								date,
-								done: block.content.includes('- [x]'),
-							})
-						}
 
-						// Look for project status updates
-						if (
-							block.content.includes('#project') ||
-							block.content.includes('#status')
-						) {
-							const projectMatch = block.content.match(/#project\/([^\s]+)/)
-							if (projectMatch) {
-								const project = projectMatch[1]
-								if (!projectProgress[project]) {
-									projectProgress[project] = []
+							// Track habits and tasks
+							if (
+								block.content.includes('- [ ]') ||
+								block.content.includes('- [x]')
+							) {
+								const habit = block.content.replace(/- \[[ x]\] /, '').trim()
+								if (!habitPatterns[habit]) {
+									habitPatterns[habit] = []
 								}
-								projectProgress[project].push({
+								habitPatterns[habit].push({
 									date,
-									status: block.content,
+									done: block.content.includes('- [x]'),
 								})
 							}
-						}
 
-						if (block.children && block.children.length > 0) {
-							processBlocks(block.children)
+							// Look for project status updates
+							if (
+								block.content.includes('#project') ||
+								block.content.includes('#status')
+							) {
+								const projectMatch = block.content.match(/#project\/([^\s]+)/)
+								if (projectMatch) {
+									const project = projectMatch[1]
+									if (!projectProgress[project]) {
+										projectProgress[project] = []
+									}
+									projectProgress[project].push({
+										date,
+										status: block.content,
+									})
+								}
+							}
+
+							if (block.children && block.children.length > 0) {
+								processBlocks(block.children)
+							}
 						}
 					}
-				}
 
-				processBlocks(content)
-			}
+					processBlocks(content)
+				}
 
-			// Generate insights report
-			let report = '# Journal Analysis Insights\n\n'
-			report += `Analysis period: ${startDate.toLocaleDateString()} to ${now.toLocaleDateString()}\n\n`
+				// Generate insights report
+				let report = '# Journal Analysis Insights\n\n'
+				report += `Analysis period: ${range.label} (${toIsoDate(
+					range.start
+				)} to ${toIsoDate(range.end)})\n\n`
 
-			// Topic Trends
-			if (includeTopics && Object.keys(topicFrequency).length > 0) {
-				report += '## Topic Trends\n\n'
+				// Topic Trends
+				if (includeTopics && Object.keys(topicFrequency).length > 0) {
+					report += '## Topic Trends\n\n'
 
-				// Most discussed topics
-				const sortedTopics = Object.entries(topicFrequency)
-					.sort((a, b) => b[1] - a[1])
-					.slice(0, 10)
+					// Most discussed topics
+					const sortedTopics = Object.entries(topicFrequency)
+						.sort((a, b) => b[1] - a[1])
+						.slice(0, 10)
 
-				report += '### Most Discussed Topics\n'
-				sortedTopics.forEach(([topic, count]) => {
-					report += `- [[${topic}]] (${count} mentions)\n`
-				})
-				report += '\n'
-
-				// Topic clusters over time
-				report += '### Topic Evolution\n'
-				const weeks: Record<string, Set<string>> = {}
-				Object.entries(topicsByDate).forEach(([date, topics]) => {
-					const week = new Date(date).toISOString().slice(0, 7)
-					if (!weeks[week]) weeks[week] = new Set()
-					topics.forEach((topic) => weeks[week].add(topic))
-				})
+					report += '### Most Discussed Topics\n'
+					sortedTopics.forEach(([topic, count]) => {
+						report += `- [[${topic}]] (${count} mentions)\n`
+					})
+					report += '\n'
 
-				Object.entries(weeks).forEach(([week, topics]) => {
-					if (topics.size > 0) {
-						report += `\n#### ${week}\n`
-						Array.from(topics).forEach((topic) => {
-							report += `- [[${topic}]]\n`
-						})
-					}
-				})
-				report += '\n'
-			}
+					// Topic clusters over time
+					report += '### Topic Evolution\n'
+					const weeks: Record<string, Set<string>> = {}
+					Object.entries(topicsByDate).forEach(([date, topics]) => {
+						const week = new Date(date).toISOString().slice(0, 7)
+						if (!weeks[week]) weeks[week] = new Set()
+						topics.forEach((topic) => weeks[week].add(topic))
+					})
 
-			// Mood Analysis
-			if (includeMood && moodPatterns.length > 0) {
-				report += '## Mood Patterns\n\n'
+					Object.entries(weeks).forEach(([week, topics]) => {
+						if (topics.size > 0) {
+							report += `\n#### ${week}\n`
+							Array.from(topics).forEach((topic) => {
+								report += `- [[${topic}]]\n`
+							})
+						}
+					})
+					report += '\n'
+				}
 
-				// Group moods by week
-				const moodsByWeek: Record<
-					string,
-					Array<{ mood: string; context: string }>
-				> = {}
-				moodPatterns.forEach(({ date, mood, context }) => {
-					const week = new Date(date).toISOString().slice(0, 7)
-					if (!moodsByWeek[week]) moodsByWeek[week] = []
-					moodsByWeek[week].push({ mood, context })
-				})
+				// Mood Analysis
+				if (includeMood && moodPatterns.length > 0) {
+					report += '## Mood Patterns\n\n'
+
+					// Group moods by week
+					const moodsByWeek: Record<
+						string,
+						Array<{ mood: string; context: string }>
+					> = {}
+					moodPatterns.forEach(({ date, mood, context }) => {
+						const week = new Date(date).toISOString().slice(0, 7)
+						if (!moodsByWeek[week]) moodsByWeek[week] = []
+						moodsByWeek[week].push({ mood, context })
+					})
 
-				Object.entries(moodsByWeek).forEach(([week, moods]) => {
-					report += `### Week of ${week}\n`
-					moods.forEach(({ mood, context }) => {
-						report += `- ${context}\n`
+					Object.entries(moodsByWeek).forEach(([week, moods]) => {
+						report += `### Week of ${week}\n`
+						moods.forEach(({ mood, context }) => {
+							report += `- ${context}\n`
+						})
+						report += '\n'
 					})
-					report += '\n'
-				})
-			}
+				}
 
-			// Habit Analysis
-			if (Object.keys(habitPatterns).length > 0) {
-				report += '## Habit Tracking\n\n'
+				// Habit Analysis
+				if (Object.keys(habitPatterns).length > 0) {
+					report += '## Habit Tracking\n\n'
 
-				Object.entries(habitPatterns).forEach(([habit, entries]) => {
-					const total = entries.length
-					const completed = entries.filter((e) => e.done).length
-					const completionRate = ((completed / total) * 100).toFixed(1)
+					Object.entries(habitPatterns).forEach(([habit, entries]) => {
+						const total = entries.length
+						const completed = entries.filter((e) => e.done).length
+						const completionRate = ((completed / total) * 100).toFixed(1)
 
-					report += `### ${habit}\n`
-					report += `- Completion rate: ${completionRate}% (${completed}/${total})\n`
+						report += `### ${habit}\n`
+						report += `- Completion rate: ${completionRate}% (${completed}/${total})\n`
 
-					// Show streak information
-					let currentStreak = 0
-					let longestStreak = 0
-					let streak = 0
+						// Show streak information
+						let currentStreak = 0
+						let longestStreak = 0
+						let streak = 0
 
-					entries.forEach(({ done }, i) => {
-						if (done) {
-							streak++
-							if (streak > longestStreak) longestStreak = streak
-							if (i === entries.length - 1) currentStreak = streak
-						} else {
-							streak = 0
-						}
-					})
+						entries.forEach(({ done }, i) => {
+							if (done) {
+								streak++
+								if (streak > longestStreak) longestStreak = streak
+								if (i === entries.length - 1) currentStreak = streak
+							} else {
+								streak = 0
+							}
+						})
 
-					if (currentStreak > 0)
-						report += `- Current streak: ${currentStreak} days\n`
-					if (longestStreak > 0)
-						report += `- Longest streak: ${longestStreak} days\n`
-					report += '\n'
-				})
-			}
+						if (currentStreak > 0)
+							report += `- Current streak: ${currentStreak} days\n`
+						if (longestStreak > 0)
+							report += `- Longest streak: ${longestStreak} days\n`
+						report += '\n'
+					})
+				}
 
-			// Project Progress
-			if (Object.keys(projectProgress).length > 0) {
-				report += '## Project Progress\n\n'
+				// Project Progress
+				if (Object.keys(projectProgress).length > 0) {
+					report += '## Project Progress\n\n'
 
-				Object.entries(projectProgress).forEach(([project, updates]) => {
-					report += `### ${project}\n`
-					updates.forEach(({ date, status }) => {
-						report += `- ${new Date(date).toLocaleDateString()}: ${status}\n`
+					Object.entries(projectProgress).forEach(([project, updates]) => {
+						report += `### ${project}\n`
+						updates.forEach(({ date, status }) => {
+							report += `- ${new Date(date).toLocaleDateString()}: ${status}\n`
+						})
+						report += '\n'
 					})
-					report += '\n'
-				})
-			}
+				}
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: report,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error analyzing journal patterns: ${error.message}`,
-					},
-				],
+				return {
+					content: [
+						{
+							type: 'text',
+							text: report,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error analyzing journal patterns')
 			}
 		}
-	}
-)
+	)
 
-// Helper function for DataScript queries
-async function queryGraph(query: string): Promise<any[]> {
-	try {
-		const response = await callLogseqApi('logseq.DB.datascriptQuery', [query])
+	// Helper function for DataScript queries. Failures propagate so they are not
+	// mistaken for an empty result.
+	async function queryGraph(query: string, inputs: any[] = []): Promise<any[]> {
+		const response = await backend.query(query, inputs)
 		// Ensure the response is actually an array before returning
 		return Array.isArray(response) ? response : []
-	} catch (error) {
-		console.error('DataScript query error:', error)
-		return []
 	}
-}
 
-// Common query templates
-const QUERY_TEMPLATES = {
-	recentlyModified: `
+	// Common query templates
+	const QUERY_TEMPLATES = {
+		recentlyModified: `
 		[:find (pull ?p [*])
+		 :in $ ?start-time
 		 :where
 		 [?p :block/updated-at ?t]
 		 [(> ?t ?start-time)]]
 	`,
-	mostReferenced: `
+		mostReferenced: `
 		[:find ?name (count ?r)
 		 :where
 		 [?b :block/refs ?r]
 		 [?r :block/name ?name]]
 	`,
-	propertyValues: `
+		propertyValues: `
 		[:find ?page ?value
 		 :where
 		 [?p :block/properties ?props]
 		 [?p :block/name ?page]
 		 [(get ?props ?prop) ?value]]
 	`,
-	blocksByTag: `
+		blocksByTag: `
 		[:find (pull ?b [*])
 		 :where
 		 [?b :block/refs ?r]
 		 [?r :block/name ?tag]]
 	`,
-	pageConnections: `
+		pageConnections: `
 		[:find ?from-name ?to-name (count ?b)
 		 :where
 		 [?b :block/refs ?to]
@@ -1617,14 +1914,14 @@ const QUERY_TEMPLATES = {
 		 [?to :block/name ?to-name]
 		 [(not= ?from ?to)]]
 	`,
-	contentClusters: `
+		contentClusters: `
 		[:find ?name (count ?refs) (pull ?p [:block/properties])
 		 :where
 		 [?p :block/name ?name]
 		 [?b :block/refs ?p]
 		 [?b :block/content ?content]]
 	`,
-	taskProgress: `
+		taskProgress: `
 		[:find ?page ?content ?state
 		 :where
 		 [?b :block/content ?content]
@@ -1633,7 +1930,7 @@ const QUERY_TEMPLATES = {
 		 [(re-find #"TODO|DOING|DONE|NOW" ?content)]
 		 [(re-find #"\\[\\[([^\\]]+)\\]\\]" ?content) ?state]]
 	`,
-	journalInsights: `
+		journalInsights: `
 		[:find ?date ?content (count ?refs)
 		 :where
 		 [?p :block/journal? true]
@@ -1642,7 +1939,7 @@ const QUERY_TEMPLATES = {
 		 [?b :block/content ?content]
 		 [?b :block/refs ?refs]]
 	`,
-	conceptEvolution: `
+		conceptEvolution: `
 		[:find ?name ?t (count ?refs)
 		 :where
 		 [?p :block/name ?name]
@@ -1650,8 +1947,9 @@ const QUERY_TEMPLATES = {
 		 [?b :block/created-at ?t]
 		 [(not ?p :block/journal?)]]
 	`,
-	taskQueryWithTime: `
+		taskQueryWithTime: `
 		[:find ?page-name ?content ?marker ?date
+		 :in $ ?start-time
 		 :where
 		 [?b :block/marker ?marker]
 		 [(contains? #{"TODO" "LATER" "NOW" "DOING"} ?marker)] ; Filter by specific task markers
@@ -1663,1268 +1961,2943 @@ const QUERY_TEMPLATES = {
 		 [?p :block/journal-day ?date] ; Include journal date
 		]
 	`,
-}
+	}
 
-server.tool(
-	'smartQuery',
-	{
-		request: z
-			.string()
-			.describe('Natural language description of what you want to find'),
-		includeQuery: z
-			.boolean()
-			.optional()
-			.describe('Include the generated Datalog query in results'),
-		advanced: z.boolean().optional().describe('Use advanced analysis features'),
-	},
-	async ({ request, includeQuery = false, advanced = false }) => {
-		try {
-			let query = ''
-			let results: any[] = []
-			let explanation = ''
-			let insights = ''
+	server.tool(
+		'smartQuery',
+		{
+			request: z
+				.string()
+				.describe('Natural language description of what you want to find'),
+			includeQuery: z
+				.boolean()
+				.optional()
+				.describe('Include the generated Datalog query in results'),
+			advanced: z
+				.boolean()
+				.optional()
+				.describe('Use advanced analysis features'),
+		},
+		async ({ request, includeQuery = false, advanced = false }) => {
+			try {
+				let query = ''
+				let results: any[] = []
+				let explanation = ''
+				let insights = ''
 
-			// Enhanced pattern matching with natural language understanding
-			const req = request.toLowerCase()
+				// Enhanced pattern matching with natural language understanding
+				const req = request.toLowerCase()
 
-			if (
-				req.includes('connect') ||
-				req.includes('relationship') ||
-				req.includes('between')
-			) {
-				query = QUERY_TEMPLATES.pageConnections
-				results = await queryGraph(query)
-				explanation = 'Analyzing page connections and relationships'
-
-				// Sort by connection strength
-				results.sort((a, b) => b[2] - a[2])
-
-				// Generate network insights
-				const connections = new Map()
-				results.forEach(([from, to, count]) => {
-					if (!connections.has(from)) connections.set(from, new Set())
-					connections.get(from).add(to)
-				})
+				if (
+					req.includes('connect') ||
+					req.includes('relationship') ||
+					req.includes('between')
+				) {
+					query = QUERY_TEMPLATES.pageConnections
+					results = await queryGraph(query)
+					explanation = 'Analyzing page connections and relationships'
 
-				const hubs = Array.from(connections.entries())
-					.sort((a, b) => b[1].size - a[1].size)
-					.slice(0, 5)
+					// Sort by connection strength
+					results.sort((a, b) => b[2] - a[2])
 
-				insights = '\n## Network Insights\n\n'
-				insights += 'Central concepts (most connections):\n'
-				hubs.forEach(([page, connected]) => {
-					insights += `- [[${page}]] connects to ${connected.size} other pages\n`
-				})
-			} else if (
-				req.includes('cluster') ||
-				req.includes('group') ||
-				req.includes('similar')
-			) {
-				query = QUERY_TEMPLATES.contentClusters
-				results = await queryGraph(query)
-				explanation = 'Identifying content clusters and related concepts'
-
-				// Group by common properties and reference patterns
-				const clusters = new Map()
-				results.forEach(([name, refs, props]) => {
-					const key = JSON.stringify(props)
-					if (!clusters.has(key)) clusters.set(key, [])
-					clusters.get(key).push([name, refs])
-				})
+					// Generate network insights
+					const connections = new Map()
+					results.forEach(([from, to, count]) => {
+						if (!connections.has(from)) connections.set(from, new Set())
+						connections.get(from).add(to)
+					})
 
-				insights = '\n## Content Clusters\n\n'
-				Array.from(clusters.entries()).forEach(([props, pages], i) => {
-					insights += `### Cluster ${i + 1}\n`
-					insights += `Common properties: ${props}\n`
-					pages.forEach(([name, refs]) => {
-						insights += `- [[${name}]] (${refs} references)\n`
+					const hubs = Array.from(connections.entries())
+						.sort((a, b) => b[1].size - a[1].size)
+						.slice(0, 5)
+
+					insights = '\n## Network Insights\n\n'
+					insights += 'Central concepts (most connections):\n'
+					hubs.forEach(([page, connected]) => {
+						insights += `- [[${page}]] connects to ${connected.size} other pages\n`
 					})
-					insights += '\n'
-				})
-			} else if (
-				req.includes('task') ||
-				req.includes('progress') ||
-				req.includes('status')
-			) {
-				query = QUERY_TEMPLATES.taskProgress
-				results = await queryGraph(query)
-				explanation = 'Analyzing task and project progress'
-
-				const tasksByState = new Map()
-				if (Array.isArray(results)) {
-					results.forEach(([page, content, state]) => {
-						if (!tasksByState.has(state)) tasksByState.set(state, [])
-						tasksByState.get(state).push([page, content])
+				} else if (
+					req.includes('cluster') ||
+					req.includes('group') ||
+					req.includes('similar')
+				) {
+					query = QUERY_TEMPLATES.contentClusters
+					results = await queryGraph(query)
+					explanation = 'Identifying content clusters and related concepts'
+
+					// Group by common properties and reference patterns
+					const clusters = new Map()
+					results.forEach(([name, refs, props]) => {
+						const key = JSON.stringify(props)
+						if (!clusters.has(key)) clusters.set(key, [])
+						clusters.get(key).push([name, refs])
 					})
-				}
 
-				insights = '\n## Task Analysis\n\n'
-				for (const [state, tasks] of tasksByState) {
-					insights += `### ${state}\n`
-					tasks.forEach(([page, content]) => {
-						insights += `- ${content} (in [[${page}]])\n`
+					insights = '\n## Content Clusters\n\n'
+					Array.from(clusters.entries()).forEach(([props, pages], i) => {
+						insights += `### Cluster ${i + 1}\n`
+						insights += `Common properties: ${props}\n`
+						pages.forEach(([name, refs]) => {
+							insights += `- [[${name}]] (${refs} references)\n`
+						})
+						insights += '\n'
 					})
-					insights += '\n'
-				}
-			} else if (
-				req.includes('evolution') ||
-				req.includes('over time') ||
-				req.includes('trend')
-			) {
-				query = QUERY_TEMPLATES.conceptEvolution
-				results = await queryGraph(query)
-				explanation = 'Analyzing concept evolution over time'
-
-				// Group by time periods
-				const timelineMap = new Map()
-				results.forEach(([name, timestamp, refs]) => {
-					const date = new Date(timestamp).toISOString().slice(0, 7) // Group by month
-					if (!timelineMap.has(date)) timelineMap.set(date, [])
-					timelineMap.get(date).push([name, refs])
-				})
+				} else if (
+					req.includes('task') ||
+					req.includes('progress') ||
+					req.includes('status')
+				) {
+					query = QUERY_TEMPLATES.taskProgress
+					results = await queryGraph(query)
+					explanation = 'Analyzing task and project progress'
 
-				const timeline = Array.from(timelineMap.entries()).sort()
+					const tasksByState = new Map()
+					if (Array.isArray(results)) {
+						results.forEach(([page, content, state]) => {
+							if (!tasksByState.has(state)) tasksByState.set(state, [])
+							tasksByState.get(state).push([page, content])
+						})
+					}
 
-				insights = '\n## Concept Timeline\n\n'
-				timeline.forEach(([date, concepts]) => {
-					insights += `### ${date}\n`
-					concepts.sort((a, b) => b[1] - a[1]) // Sort by reference count
-					concepts.forEach(([name, refs]) => {
-						insights += `- [[${name}]] (${refs} references)\n`
+					insights = '\n## Task Analysis\n\n'
+					for (const [state, tasks] of tasksByState) {
+						insights += `### ${state}\n`
+						tasks.forEach(([page, content]) => {
+							insights += `- ${content} (in [[${page}]])\n`
+						})
+						insights += '\n'
+					}
+				} else if (
+					req.includes('evolution') ||
+					req.includes('over time') ||
+					req.includes('trend')
+				) {
+					query = QUERY_TEMPLATES.conceptEvolution
+					results = await queryGraph(query)
+					explanation = 'Analyzing concept evolution over time'
+
+					// Group by time periods
+					const timelineMap = new Map()
+					results.forEach(([name, timestamp, refs]) => {
+						const date = new Date(timestamp).toISOString().slice(0, 7) // Group by month
+						if (!timelineMap.has(date)) timelineMap.set(date, [])
+						timelineMap.get(date).push([name, refs])
 					})
-					insights += '\n'
-				})
-			} else if (
-				(req.includes('task') ||
-					req.includes('todo') ||
-					req.includes('later') ||
-					req.includes('now')) &&
-				req.match(/(\d+)\s+days?/)
-			) {
-				const daysMatch = req.match(/(\d+)\s+days?/)
-				const daysAgo = daysMatch ? parseInt(daysMatch[1], 10) : 14 // Default to 14 days
-				const startTime = Date.now() - daysAgo * 24 * 60 * 60 * 1000
 
-				query = QUERY_TEMPLATES.taskQueryWithTime.replace(
-					'?start-time',
-					startTime.toString()
-				)
-				results = await queryGraph(query)
-				explanation = `Finding TODO, LATER, or NOW tasks updated in the last ${daysAgo} days`
-
-				const tasksByMarker = new Map()
-				if (Array.isArray(results)) {
-					results.forEach(([page, content, marker, date]) => {
-						const formattedDate = date
-							? formatJournalDate(new Date(date))
-							: page // Fallback to page name if date is missing
-						if (!tasksByMarker.has(marker)) tasksByMarker.set(marker, [])
-						tasksByMarker.get(marker).push({ page: formattedDate, content })
-					})
-				}
+					const timeline = Array.from(timelineMap.entries()).sort()
 
-				insights = '\n## Tasks by Status\n\n'
-				for (const [marker, tasks] of tasksByMarker) {
-					insights += `### ${marker}\n`
-					tasks.forEach(({ page, content }) => {
-						insights += `- ${content} (from [[${page}]])\n`
+					insights = '\n## Concept Timeline\n\n'
+					timeline.forEach(([date, concepts]) => {
+						insights += `### ${date}\n`
+						concepts.sort((a, b) => b[1] - a[1]) // Sort by reference count
+						concepts.forEach(([name, refs]) => {
+							insights += `- [[${name}]] (${refs} references)\n`
+						})
+						insights += '\n'
 					})
-					insights += '\n'
-				}
-			} else {
-				// Fall back to basic queries
-				if (req.includes('recent') || req.includes('modified')) {
-					const daysAgo = 7
+				} else if (
+					(req.includes('task') ||
+						req.includes('todo') ||
+						req.includes('later') ||
+						req.includes('now')) &&
+					req.match(/(\d+)\s+days?/)
+				) {
+					const daysMatch = req.match(/(\d+)\s+days?/)
+					const daysAgo = daysMatch ? parseInt(daysMatch[1], 10) : 14 // Default to 14 days
 					const startTime = Date.now() - daysAgo * 24 * 60 * 60 * 1000
-					query = QUERY_TEMPLATES.recentlyModified
-					results = await queryGraph(
-						query.replace('?start-time', startTime.toString())
-					)
-					explanation = `Finding pages modified in the last ${daysAgo} days`
-				} else if (req.includes('reference') || req.includes('linked')) {
-					query = QUERY_TEMPLATES.mostReferenced
-					results = await queryGraph(query)
-					results.sort((a, b) => b[1] - a[1])
-					explanation = 'Finding most referenced pages'
+
+					query = QUERY_TEMPLATES.taskQueryWithTime
+					results = await queryGraph(query, [startTime])
+					explanation = `Finding TODO, LATER, or NOW tasks updated in the last ${daysAgo} days`
+
+					const { journalTitleFormat, locale } = await loadGraphConfig()
+					const tasksByMarker = new Map()
+					if (Array.isArray(results)) {
+						results.forEach(([page, content, marker, date]) => {
+							const formattedDate = date
+								? journalTitleFromDay(date, journalTitleFormat, locale)
+								: page // Fallback to page name if date is missing
+							if (!tasksByMarker.has(marker)) tasksByMarker.set(marker, [])
+							tasksByMarker.get(marker).push({ page: formattedDate, content })
+						})
+					}
+
+					insights = '\n## Tasks by Status\n\n'
+					for (const [marker, tasks] of tasksByMarker) {
+						insights += `### ${marker}\n`
+						tasks.forEach(({ page, content }) => {
+							insights += `- ${content} (from [[${page}]])\n`
+						})
+						insights += '\n'
+					}
+				} else {
+					// Fall back to basic queries
+					if (req.includes('recent') || req.includes('modified')) {
+						const daysAgo = 7
+						const startTime = Date.now() - daysAgo * 24 * 60 * 60 * 1000
+						query = QUERY_TEMPLATES.recentlyModified
+						results = await queryGraph(query, [startTime])
+						explanation = `Finding pages modified in the last ${daysAgo} days`
+					} else if (req.includes('reference') || req.includes('linked')) {
+						query = QUERY_TEMPLATES.mostReferenced
+						results = await queryGraph(query)
+						results.sort((a, b) => b[1] - a[1])
+						explanation = 'Finding most referenced pages'
+					}
 				}
-			}
 
-			// Format results with enhanced insights
-			let response = `# Query Results\n\n`
-			response += `${explanation}\n\n`
+				// Format results with enhanced insights
+				let response = `# Query Results\n\n`
+				response += `${explanation}\n\n`
 
-			if (results.length === 0) {
-				response += 'No results found.\n'
-			} else {
-				response += '## Results\n\n'
-				if (Array.isArray(results)) {
-					results.slice(0, 20).forEach((result) => {
-						if (Array.isArray(result)) {
-							if (result.length === 2 && typeof result[1] === 'number') {
-								response += `- [[${result[0]}]] (${result[1]} references)\n`
+				if (results.length === 0) {
+					response += 'No results found.\n'
+				} else {
+					response += '## Results\n\n'
+					if (Array.isArray(results)) {
+						results.slice(0, 20).forEach((result) => {
+							if (Array.isArray(result)) {
+								if (result.length === 2 && typeof result[1] === 'number') {
+									response += `- [[${result[0]}]] (${result[1]} references)\n`
+								} else {
+									response += `- ${result.join(' → ')}\n`
+								}
 							} else {
-								response += `- ${result.join(' → ')}\n`
+								response += `- ${JSON.stringify(result)}\n`
 							}
-						} else {
-							response += `- ${JSON.stringify(result)}\n`
-						}
-					})
-				} else {
-					response += 'Error: Query did not return an array of results.\n'
+						})
+					} else {
+						response += 'Error: Query did not return an array of results.\n'
+					}
 				}
-			}
 
-			// Add insights if available
-			if (insights) {
-				response += insights
-			}
+				// Add insights if available
+				if (insights) {
+					response += insights
+				}
+
+				if (includeQuery) {
+					response += '\n## Generated Query\n\n```datalog\n' + query + '\n```\n'
+				}
 
-			if (includeQuery) {
-				response += '\n## Generated Query\n\n```datalog\n' + query + '\n```\n'
+				return {
+					content: [
+						{
+							type: 'text',
+							text: response,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error executing query')
 			}
+		}
+	)
+
+	server.tool(
+		'runDatalogQuery',
+		{
+			query: z
+				.string()
+				.describe(
+					'Datalog query in EDN, e.g. [:find (pull ?b [*]) :in $ ?marker :where [?b :block/marker ?marker]]'
+				),
+			inputs: z
+				.array(z.any())
+				.optional()
+				.describe(
+					'Values for the :in parameters after $, in order. Strings are passed as strings, except keywords like ":today" or ":-7d"; arrays bind collections. Rules for % are given as EDN text, e.g. "[[(tagged ?b ?tag) [?b :block/refs ?p] [?p :block/name ?tag]]]".'
+				),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.max(1000)
+				.optional()
+				.describe('Maximum number of results (default: 100)'),
+			timeoutMs: z
+				.number()
+				.int()
+				.positive()
+				.max(60000)
+				.optional()
+				.describe('Give up after this many milliseconds (default: 10000)'),
+		},
+		async ({ query, inputs = [], limit = 100, timeoutMs = 10000 }) => {
+			try {
+				const parameters = queryParameters(parseQuery(query))
+				if (inputs.length !== parameters.length) {
+					return toolError(
+						'INVALID_ARGUMENT',
+						`The query takes ${parameters.length} input${
+							parameters.length === 1 ? '' : 's'
+						} after $ but ${inputs.length} ${
+							inputs.length === 1 ? 'was' : 'were'
+						} given`
+					)
+				}
 
-			return {
-				content: [
+				// Rules for % are EDN text already
+				const response = await backend.query(
+					query,
+					inputs.map((input, i) =>
+						isSymbol(parameters[i], '%') && typeof input === 'string'
+							? input
+							: toQueryInput(input)
+					),
 					{
-						type: 'text',
-						text: response,
-					},
-				],
+						timeoutMs,
+						resolveRefs: true,
+					}
+				)
+				// A scalar or tuple find spec gives a single value
+				const total = Array.isArray(response) ? response.length : 1
+				const results = Array.isArray(response)
+					? response.slice(0, limit)
+					: response
+				const truncated = total > limit
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `${total} result${total === 1 ? '' : 's'}${
+								truncated ? ` (showing the first ${limit})` : ''
+							}\n\n${JSON.stringify(results, null, 2)}`,
+						},
+					],
+					structuredContent: { results, total, truncated },
+				}
+			} catch (error) {
+				return errorResult(error, 'Error running query')
 			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error executing query: ${error.message}`,
+		}
+	)
+
+	server.tool(
+		'runSimpleQuery',
+		{
+			query: z
+				.string()
+				.describe(
+					'Logseq simple query, with or without {{query ...}}, e.g. (and (task TODO DOING) [[project]] (between -7d today))'
+				),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.max(1000)
+				.optional()
+				.describe('Maximum number of results (default: 100)'),
+			includeQuery: z
+				.boolean()
+				.optional()
+				.describe('Include the Datalog the query compiles to'),
+		},
+		async ({ query, limit = 100, includeQuery = false }) => {
+			try {
+				const { weekStartsOn, journalTitleFormat, locale } =
+					await loadGraphConfig()
+				const options = {
+					weekStartsOn,
+					titleFormat: journalTitleFormat,
+					locale,
+					timeoutMs: 10000,
+				}
+				const result = await runSimpleQuery(backend, query, options)
+				const all: any[] =
+					result.kind === 'pages' ? result.pages : result.blocks
+				const results = all.slice(0, limit)
+				const truncated = all.length > limit
+
+				let text = `# ${all.length} ${
+					result.kind === 'pages' ? 'page' : 'block'
+				}${all.length === 1 ? '' : 's'}${
+					truncated ? ` (showing the first ${limit})` : ''
+				}\n`
+				if (result.kind === 'pages') {
+					text += '\n' + results.map(({ name }) => `- [[${name}]]`).join('\n')
+				} else {
+					let page: string | undefined
+					for (const block of results) {
+						if (block.page !== page) {
+							page = block.page
+							text += `\n## [[${page}]]\n`
+						}
+						text += `- ${block.content.split('\n').join('\n  ')}\n`
+					}
+				}
+				if (includeQuery) {
+					text =
+						text.trimEnd() +
+						'\n\n## Datalog\n\n```datalog\n' +
+						simpleQueryToDatalog(parseSimpleQuery(query, options)) +
+						'\n```\n'
+				}
+
+				return {
+					content: [{ type: 'text', text: text.trimEnd() }],
+					structuredContent: {
+						kind: result.kind,
+						results,
+						total: all.length,
+						truncated,
 					},
-				],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error running simple query')
 			}
 		}
-	}
-)
-
-server.tool(
-	'suggestConnections',
-	{
-		minConfidence: z
-			.number()
-			.optional()
-			.describe('Minimum confidence score for suggestions (0-1, default: 0.6)'),
-		maxSuggestions: z
-			.number()
-			.optional()
-			.describe('Maximum number of suggestions to return (default: 10)'),
-		focusArea: z
-			.string()
-			.optional()
-			.describe('Optional topic or area to focus suggestions around'),
-	},
-	async ({ minConfidence = 0.6, maxSuggestions = 10, focusArea }) => {
-		try {
-			const pages = await callLogseqApi('logseq.Editor.getAllPages')
+	)
+
+	server.tool(
+		'runPageQueries',
+		{
+			pageName: z.string().describe('Name of the page holding the queries'),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.max(1000)
+				.optional()
+				.describe('Maximum number of results per query (default: 50)'),
+		},
+		async ({ pageName, limit = 50 }) => {
+			try {
+				const blocks = await backend.getBlocksTree(pageName)
+				if (!blocks) return notFound(`Page "${pageName}" not found.`)
+
+				const options = await embeddedQueryOptions(pageName, limit)
+				const graph = backend.snapshot()
+				const queries: (EmbeddedQueryResult & { block: string })[] = []
+				const walk = async (children: BlockEntity[]) => {
+					for (const block of children) {
+						for (const query of findEmbeddedQueries(block.content || '')) {
+							queries.push({
+								block: block.uuid,
+								...(await runEmbeddedQuery(graph, query, options)),
+							})
+						}
+						await walk(block.children || [])
+					}
+				}
+				await walk(blocks)
+
+				if (queries.length === 0) {
+					return {
+						content: [
+							{ type: 'text', text: `No queries found on "${pageName}".` },
+						],
+						structuredContent: { queries: [] },
+					}
+				}
+
+				const text = queries
+					.map((result) => {
+						const heading =
+							result.query.title ??
+							(result.query.kind === 'simple'
+								? `{{query ${result.query.source}}}`
+								: 'Advanced query')
+						const source =
+							result.query.kind === 'advanced'
+								? `\`\`\`clojure\n${result.query.source}\n\`\`\`\n\n`
+								: ''
+						return `## ${heading}\n\n${source}${formatEmbeddedQueryResult(
+							result,
+							0
+						)}`
+					})
+					.join('\n')
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `# Queries on ${pageName}\n\n${text}`,
+						},
+					],
+					structuredContent: {
+						queries: queries.map(({ block, query, total, results, error }) => ({
+							block,
+							kind: query.kind,
+							query: query.source,
+							title: query.title,
+							total,
+							results,
+							error,
+						})),
+					},
+				}
+			} catch (error) {
+				return errorResult(error, 'Error running page queries')
+			}
+		}
+	)
+
+	server.tool(
+		'suggestConnections',
+		{
+			minConfidence: z
+				.number()
+				.optional()
+				.describe(
+					'Minimum confidence score for suggestions (0-1, default: 0.6)'
+				),
+			maxSuggestions: z
+				.number()
+				.optional()
+				.describe('Maximum number of suggestions to return (default: 10)'),
+			focusArea: z
+				.string()
+				.optional()
+				.describe('Optional topic or area to focus suggestions around'),
+		},
+		async ({ minConfidence = 0.6, maxSuggestions = 10, focusArea }) => {
+			try {
+				const graph = backend.snapshot()
+				const pages = await graph.getAllPages()
 
-			// Analysis containers
-			const pageContent: Record<string, string> = {}
-			const pageConnections: Record<string, Set<string>> = {}
-			const pageTopics: Record<string, Set<string>> = {}
-			const sharedReferences: Record<string, Record<string, number>> = {}
+				// Analysis containers
+				const pageContent: Record<string, string> = {}
+				const pageConnections: Record<string, Set<string>> = {}
+				const pageTopics: Record<string, Set<string>> = {}
+				const sharedReferences: Record<string, Record<string, number>> = {}
 
-			// First pass: gather content and extract topics
-			for (const page of pages) {
-				if (!page.name) continue
+				// First pass: gather content and extract topics
+				for (const page of pages) {
+					if (!page.name) continue
 
-				const content = await getPageContent(page.name)
-				if (!content) continue
+					const content = await getPageContent(page.name, graph)
+					if (!content) continue
 
-				// Process blocks to extract text and topics
-				const processBlocks = (blocks: any[]): string => {
-					let text = ''
-					const topics = new Set<string>()
+					// Process blocks to extract text and topics
+					const processBlocks = (blocks: any[]): string => {
+						let text = ''
+						const topics = new Set<string>()
 
-					for (const block of blocks) {
-						if (!block.content) continue
+						for (const block of blocks) {
+							if (!block.content) continue
 
-						text += block.content + '\n'
+							text += block.content + '\n'
 
-						// Extract topics (tags, links, and key terms)
-						const tags = block.content.match(/#[\w-]+/g) || []
-						const links = [...block.content.matchAll(PAGE_LINK_REGEX)].map(
-							(m) => m[1].trim()
-						)
+							// Extract topics (tags, links, and key terms)
+							const tags = block.content.match(/#[\w-]+/g) || []
+							const links = [...block.content.matchAll(PAGE_LINK_REGEX)].map(
+								(m) => m[1].trim()
+							)
 
-						tags.forEach((tag) => topics.add(tag.slice(1))) // Remove # from tags
-						links.forEach((link) => topics.add(link))
+							tags.forEach((tag) => topics.add(tag.slice(1))) // Remove # from tags
+							links.forEach((link) => topics.add(link))
 
-						if (block.children?.length > 0) {
-							text += processBlocks(block.children)
+							if (block.children?.length > 0) {
+								text += processBlocks(block.children)
+							}
 						}
+
+						pageTopics[page.name] = topics
+						return text
 					}
 
-					pageTopics[page.name] = topics
-					return text
+					pageContent[page.name] = processBlocks(content)
+					pageConnections[page.name] = new Set()
 				}
 
-				pageContent[page.name] = processBlocks(content)
-				pageConnections[page.name] = new Set()
-			}
+				// Second pass: analyze connections and shared context
+				for (const [pageName, content] of Object.entries(pageContent)) {
+					// Find direct references
+					const links = [...content.matchAll(PAGE_LINK_REGEX)].map((m) =>
+						m[1].trim()
+					)
+					links.forEach((link) => pageConnections[pageName].add(link))
 
-			// Second pass: analyze connections and shared context
-			for (const [pageName, content] of Object.entries(pageContent)) {
-				// Find direct references
-				const links = [...content.matchAll(PAGE_LINK_REGEX)].map((m) =>
-					m[1].trim()
-				)
-				links.forEach((link) => pageConnections[pageName].add(link))
+					// Initialize shared references tracking
+					if (!sharedReferences[pageName]) {
+						sharedReferences[pageName] = {}
+					}
+
+					// Look for pages with shared topics or similar content
+					for (const [otherPage, otherContent] of Object.entries(pageContent)) {
+						if (pageName === otherPage) continue
+
+						// Count shared topics
+						const sharedTopics = new Set(
+							[...pageTopics[pageName]].filter((topic) =>
+								pageTopics[otherPage].has(topic)
+							)
+						)
 
-				// Initialize shared references tracking
-				if (!sharedReferences[pageName]) {
-					sharedReferences[pageName] = {}
+						// Simple similarity score based on shared topics and content overlap
+						const similarityScore =
+							sharedTopics.size * 0.6 + // Weight shared topics more heavily
+							(content.toLowerCase().includes(otherPage.toLowerCase())
+								? 0.2
+								: 0) +
+							(otherContent.toLowerCase().includes(pageName.toLowerCase())
+								? 0.2
+								: 0)
+
+						if (similarityScore > 0) {
+							sharedReferences[pageName][otherPage] = similarityScore
+						}
+					}
 				}
 
-				// Look for pages with shared topics or similar content
-				for (const [otherPage, otherContent] of Object.entries(pageContent)) {
-					if (pageName === otherPage) continue
+				// Generate suggestions
+				const suggestions: Array<{
+					type: string
+					pages: string[]
+					reason: string
+					confidence: number
+				}> = []
+
+				// 1. Suggest connections between pages with high similarity but no direct links
+				for (const [page1, similarities] of Object.entries(sharedReferences)) {
+					const sortedSimilar = Object.entries(similarities)
+						.sort((a, b) => b[1] - a[1])
+						.filter(
+							([page2, score]) =>
+								score >= minConfidence &&
+								!pageConnections[page1].has(page2) &&
+								!pageConnections[page2].has(page1)
+						)
 
-					// Count shared topics
-					const sharedTopics = new Set(
-						[...pageTopics[pageName]].filter((topic) =>
-							pageTopics[otherPage].has(topic)
+					for (const [page2, score] of sortedSimilar) {
+						const sharedTopics = [...pageTopics[page1]].filter((topic) =>
+							pageTopics[page2].has(topic)
 						)
-					)
 
-					// Simple similarity score based on shared topics and content overlap
-					const similarityScore =
-						sharedTopics.size * 0.6 + // Weight shared topics more heavily
-						(content.toLowerCase().includes(otherPage.toLowerCase())
-							? 0.2
-							: 0) +
-						(otherContent.toLowerCase().includes(pageName.toLowerCase())
-							? 0.2
-							: 0)
-
-					if (similarityScore > 0) {
-						sharedReferences[pageName][otherPage] = similarityScore
+						if (sharedTopics.length > 0) {
+							suggestions.push({
+								type: 'potential_connection',
+								pages: [page1, page2],
+								reason: `Share ${sharedTopics.length} topics: ${sharedTopics
+									.slice(0, 3)
+									.join(', ')}${sharedTopics.length > 3 ? '...' : ''}`,
+								confidence: score,
+							})
+						}
 					}
 				}
-			}
-
-			// Generate suggestions
-			const suggestions: Array<{
-				type: string
-				pages: string[]
-				reason: string
-				confidence: number
-			}> = []
-
-			// 1. Suggest connections between pages with high similarity but no direct links
-			for (const [page1, similarities] of Object.entries(sharedReferences)) {
-				const sortedSimilar = Object.entries(similarities)
-					.sort((a, b) => b[1] - a[1])
-					.filter(
-						([page2, score]) =>
-							score >= minConfidence &&
-							!pageConnections[page1].has(page2) &&
-							!pageConnections[page2].has(page1)
-					)
 
-				for (const [page2, score] of sortedSimilar) {
-					const sharedTopics = [...pageTopics[page1]].filter((topic) =>
-						pageTopics[page2].has(topic)
-					)
+				// 2. Suggest knowledge synthesis opportunities
+				const clusters = new Map<string, Set<string>>()
+				for (const [page, topics] of Object.entries(pageTopics)) {
+					for (const topic of topics) {
+						if (!clusters.has(topic)) {
+							clusters.set(topic, new Set())
+						}
+						clusters.get(topic)!.add(page)
+					}
+				}
 
-					if (sharedTopics.length > 0) {
+				// Find topics with multiple related pages but no synthesis page
+				for (const [topic, relatedPages] of clusters) {
+					if (relatedPages.size >= 3 && !pages.some((p) => p.name === topic)) {
 						suggestions.push({
-							type: 'potential_connection',
-							pages: [page1, page2],
-							reason: `Share ${sharedTopics.length} topics: ${sharedTopics
-								.slice(0, 3)
-								.join(', ')}${sharedTopics.length > 3 ? '...' : ''}`,
-							confidence: score,
+							type: 'synthesis_opportunity',
+							pages: Array.from(relatedPages),
+							reason: `Multiple pages discussing "${topic}" - consider creating a synthesis page`,
+							confidence: 0.8 + relatedPages.size * 0.05, // Higher confidence with more related pages
 						})
 					}
 				}
-			}
 
-			// 2. Suggest knowledge synthesis opportunities
-			const clusters = new Map<string, Set<string>>()
-			for (const [page, topics] of Object.entries(pageTopics)) {
-				for (const topic of topics) {
-					if (!clusters.has(topic)) {
-						clusters.set(topic, new Set())
+				// 3. Suggest exploration paths based on current interests
+				const recentPages = pages
+					.filter((p: any) => p.updatedAt)
+					.sort(
+						(a: any, b: any) =>
+							new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+					)
+					.slice(0, 10)
+					.map((p: any) => p.name)
+
+				const recentTopics = new Set<string>()
+				recentPages.forEach((page) => {
+					if (pageTopics[page]) {
+						pageTopics[page].forEach((topic) => recentTopics.add(topic))
 					}
-					clusters.get(topic)!.add(page)
-				}
-			}
+				})
+
+				// Find pages related to recent topics but not recently viewed
+				const potentialInterests = new Set<string>()
+				recentTopics.forEach((topic) => {
+					if (clusters.has(topic)) {
+						clusters.get(topic)!.forEach((page) => {
+							if (!recentPages.includes(page)) {
+								potentialInterests.add(page)
+							}
+						})
+					}
+				})
+
+				Array.from(potentialInterests).forEach((page) => {
+					const relevantTopics = [...pageTopics[page]].filter((t) =>
+						recentTopics.has(t)
+					)
+					if (relevantTopics.length >= 2) {
+						suggestions.push({
+							type: 'exploration_suggestion',
+							pages: [page],
+							reason: `Related to your recent interests: ${relevantTopics
+								.slice(0, 3)
+								.join(', ')}`,
+							confidence: 0.6 + relevantTopics.length * 0.1,
+						})
+					}
+				})
 
-			// Find topics with multiple related pages but no synthesis page
-			for (const [topic, relatedPages] of clusters) {
-				if (relatedPages.size >= 3 && !pages.some((p) => p.name === topic)) {
-					suggestions.push({
-						type: 'synthesis_opportunity',
-						pages: Array.from(relatedPages),
-						reason: `Multiple pages discussing "${topic}" - consider creating a synthesis page`,
-						confidence: 0.8 + relatedPages.size * 0.05, // Higher confidence with more related pages
+				// Filter and sort suggestions
+				const filteredSuggestions = suggestions
+					.filter((s) => s.confidence >= minConfidence)
+					.sort((a, b) => b.confidence - a.confidence)
+
+				// If focusArea is provided, prioritize suggestions related to that topic
+				if (focusArea) {
+					filteredSuggestions.sort((a, b) => {
+						const aRelevance = a.pages.some(
+							(p) =>
+								pageTopics[p]?.has(focusArea) ||
+								p.toLowerCase().includes(focusArea.toLowerCase())
+						)
+							? 1
+							: 0
+						const bRelevance = b.pages.some(
+							(p) =>
+								pageTopics[p]?.has(focusArea) ||
+								p.toLowerCase().includes(focusArea.toLowerCase())
+						)
+							? 1
+							: 0
+						return bRelevance - aRelevance || b.confidence - a.confidence
 					})
 				}
-			}
 
-			// 3. Suggest exploration paths based on current interests
-			const recentPages = pages
-				.filter((p: any) => p.updatedAt)
-				.sort(
-					(a: any, b: any) =>
-						new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-				)
-				.slice(0, 10)
-				.map((p: any) => p.name)
+				// Generate the report
+				let report = '# AI-Enhanced Connection Suggestions\n\n'
 
-			const recentTopics = new Set<string>()
-			recentPages.forEach((page) => {
-				if (pageTopics[page]) {
-					pageTopics[page].forEach((topic) => recentTopics.add(topic))
+				if (focusArea) {
+					report += `Focusing on topics related to: ${focusArea}\n\n`
 				}
-			})
 
-			// Find pages related to recent topics but not recently viewed
-			const potentialInterests = new Set<string>()
-			recentTopics.forEach((topic) => {
-				if (clusters.has(topic)) {
-					clusters.get(topic)!.forEach((page) => {
-						if (!recentPages.includes(page)) {
-							potentialInterests.add(page)
+				// Group suggestions by type
+				const groupedSuggestions = filteredSuggestions
+					.slice(0, maxSuggestions)
+					.reduce((groups: Record<string, typeof suggestions>, suggestion) => {
+						if (!groups[suggestion.type]) {
+							groups[suggestion.type] = []
 						}
-					})
+						groups[suggestion.type].push(suggestion)
+						return groups
+					}, {})
+
+				// Potential Connections
+				if (groupedSuggestions.potential_connection?.length > 0) {
+					report += '## Suggested Connections\n\n'
+					groupedSuggestions.potential_connection.forEach(
+						({ pages, reason, confidence }) => {
+							report += `### ${pages[0]} ↔ ${pages[1]}\n`
+							report += `- **Why**: ${reason}\n`
+							report += `- **Confidence**: ${(confidence * 100).toFixed(
+								1
+							)}%\n\n`
+						}
+					)
 				}
-			})
 
-			Array.from(potentialInterests).forEach((page) => {
-				const relevantTopics = [...pageTopics[page]].filter((t) =>
-					recentTopics.has(t)
-				)
-				if (relevantTopics.length >= 2) {
-					suggestions.push({
-						type: 'exploration_suggestion',
-						pages: [page],
-						reason: `Related to your recent interests: ${relevantTopics
-							.slice(0, 3)
-							.join(', ')}`,
-						confidence: 0.6 + relevantTopics.length * 0.1,
-					})
+				// Synthesis Opportunities
+				if (groupedSuggestions.synthesis_opportunity?.length > 0) {
+					report += '## Knowledge Synthesis Opportunities\n\n'
+					groupedSuggestions.synthesis_opportunity.forEach(
+						({ pages, reason, confidence }) => {
+							report += `### Synthesis Suggestion\n`
+							report += `- **Topic**: ${reason.split('"')[1]}\n`
+							report += `- **Related Pages**:\n`
+							pages.forEach((page) => (report += `  - [[${page}]]\n`))
+							report += `- **Confidence**: ${(confidence * 100).toFixed(
+								1
+							)}%\n\n`
+						}
+					)
 				}
-			})
 
-			// Filter and sort suggestions
-			const filteredSuggestions = suggestions
-				.filter((s) => s.confidence >= minConfidence)
-				.sort((a, b) => b.confidence - a.confidence)
-
-			// If focusArea is provided, prioritize suggestions related to that topic
-			if (focusArea) {
-				filteredSuggestions.sort((a, b) => {
-					const aRelevance = a.pages.some(
-						(p) =>
-							pageTopics[p]?.has(focusArea) ||
-							p.toLowerCase().includes(focusArea.toLowerCase())
-					)
-						? 1
-						: 0
-					const bRelevance = b.pages.some(
-						(p) =>
-							pageTopics[p]?.has(focusArea) ||
-							p.toLowerCase().includes(focusArea.toLowerCase())
+				// Exploration Suggestions
+				if (groupedSuggestions.exploration_suggestion?.length > 0) {
+					report += '## Suggested Explorations\n\n'
+					groupedSuggestions.exploration_suggestion.forEach(
+						({ pages, reason, confidence }) => {
+							report += `### [[${pages[0]}]]\n`
+							report += `- **Why**: ${reason}\n`
+							report += `- **Confidence**: ${(confidence * 100).toFixed(
+								1
+							)}%\n\n`
+						}
 					)
-						? 1
-						: 0
-					return bRelevance - aRelevance || b.confidence - a.confidence
-				})
-			}
+				}
 
-			// Generate the report
-			let report = '# AI-Enhanced Connection Suggestions\n\n'
+				// Add summary statistics
+				report += '## Analysis Summary\n\n'
+				report += `- Total pages analyzed: ${Object.keys(pageContent).length}\n`
+				report += `- Unique topics found: ${
+					new Set(Object.values(pageTopics).flatMap((t) => Array.from(t))).size
+				}\n`
+				report += `- Suggestions generated: ${filteredSuggestions.length}\n`
 
-			if (focusArea) {
-				report += `Focusing on topics related to: ${focusArea}\n\n`
+				return {
+					content: [
+						{
+							type: 'text',
+							text: report,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error generating suggestions')
 			}
+		}
+	)
 
-			// Group suggestions by type
-			const groupedSuggestions = filteredSuggestions
-				.slice(0, maxSuggestions)
-				.reduce((groups: Record<string, typeof suggestions>, suggestion) => {
-					if (!groups[suggestion.type]) {
-						groups[suggestion.type] = []
-					}
-					groups[suggestion.type].push(suggestion)
-					return groups
-				}, {})
-
-			// Potential Connections
-			if (groupedSuggestions.potential_connection?.length > 0) {
-				report += '## Suggested Connections\n\n'
-				groupedSuggestions.potential_connection.forEach(
-					({ pages, reason, confidence }) => {
-						report += `### ${pages[0]} ↔ ${pages[1]}\n`
-						report += `- **Why**: ${reason}\n`
-						report += `- **Confidence**: ${(confidence * 100).toFixed(1)}%\n\n`
-					}
-				)
-			}
+	// Parse Markdown content into a structured blocks tree
+	function parseMarkdownToBlocksTree(content: string): any[] {
+		// Split content into lines
+		const lines = content.split('\n')
 
-			// Synthesis Opportunities
-			if (groupedSuggestions.synthesis_opportunity?.length > 0) {
-				report += '## Knowledge Synthesis Opportunities\n\n'
-				groupedSuggestions.synthesis_opportunity.forEach(
-					({ pages, reason, confidence }) => {
-						report += `### Synthesis Suggestion\n`
-						report += `- **Topic**: ${reason.split('"')[1]}\n`
-						report += `- **Related Pages**:\n`
-						pages.forEach((page) => (report += `  - [[${page}]]\n`))
-						report += `- **Confidence**: ${(confidence * 100).toFixed(1)}%\n\n`
-					}
-				)
-			}
+		// Create a tree structure
+		const root: any[] = []
+		const stack: { blocks: any[]; level: number }[] = [
+			{ blocks: root, level: -1 },
+		]
 
-			// Exploration Suggestions
-			if (groupedSuggestions.exploration_suggestion?.length > 0) {
-				report += '## Suggested Explorations\n\n'
-				groupedSuggestions.exploration_suggestion.forEach(
-					({ pages, reason, confidence }) => {
-						report += `### [[${pages[0]}]]\n`
-						report += `- **Why**: ${reason}\n`
-						report += `- **Confidence**: ${(confidence * 100).toFixed(1)}%\n\n`
-					}
-				)
-			}
+		for (let i = 0; i < lines.length; i++) {
+			const line = lines[i]
+			if (!line.trim()) continue
 
-			// Add summary statistics
-			report += '## Analysis Summary\n\n'
-			report += `- Total pages analyzed: ${Object.keys(pageContent).length}\n`
-			report += `- Unique topics found: ${
-				new Set(Object.values(pageTopics).flatMap((t) => Array.from(t))).size
-			}\n`
-			report += `- Suggestions generated: ${filteredSuggestions.length}\n`
+			// Count indentation level (number of leading spaces)
+			const match = line.match(/^(\s*)-\s/)
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: report,
-					},
-				],
-			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error generating suggestions: ${error.message}`,
-					},
-				],
+			// If not a list item format (no bullet), we can just add it as-is
+			if (!match) {
+				stack[0].blocks.push({
+					content: line.trim(),
+					children: [],
+				})
+				continue
 			}
-		}
-	}
-)
-
-// Parse Markdown content into a structured blocks tree
-function parseMarkdownToBlocksTree(content: string): any[] {
-	// Split content into lines
-	const lines = content.split('\n')
-
-	// Create a tree structure
-	const root: any[] = []
-	const stack: { blocks: any[]; level: number }[] = [
-		{ blocks: root, level: -1 },
-	]
 
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i]
-		if (!line.trim()) continue
+			const indent = match[1].length
+			const currentLevel = Math.floor(indent / 2) // Assume 2 spaces per indent level
+			const content = line.replace(/^\s*-\s/, '').trim()
 
-		// Count indentation level (number of leading spaces)
-		const match = line.match(/^(\s*)-\s/)
-
-		// If not a list item format (no bullet), we can just add it as-is
-		if (!match) {
-			stack[0].blocks.push({
-				content: line.trim(),
+			// Create new block
+			const newBlock = {
+				content,
 				children: [],
-			})
-			continue
-		}
+			}
 
-		const indent = match[1].length
-		const currentLevel = Math.floor(indent / 2) // Assume 2 spaces per indent level
-		const content = line.replace(/^\s*-\s/, '').trim()
+			// Find the appropriate parent in the stack
+			while (
+				stack.length > 1 &&
+				stack[stack.length - 1].level >= currentLevel
+			) {
+				stack.pop()
+			}
 
-		// Create new block
-		const newBlock = {
-			content,
-			children: [],
-		}
+			// Add the block to its parent
+			stack[stack.length - 1].blocks.push(newBlock)
 
-		// Find the appropriate parent in the stack
-		while (stack.length > 1 && stack[stack.length - 1].level >= currentLevel) {
-			stack.pop()
+			// Add this block to the stack
+			stack.push({
+				blocks: newBlock.children,
+				level: currentLevel,
+			})
 		}
 
-		// Add the block to its parent
-		stack[stack.length - 1].blocks.push(newBlock)
-
-		// Add this block to the stack
-		stack.push({
-			blocks: newBlock.children,
-			level: currentLevel,
-		})
+		return root
 	}
 
-	return root
-}
-
-// Helper function to insert a block tree into Logseq
-async function insertBlocksTree(
-	parentUuid: string,
-	blocks: any[]
-): Promise<void> {
-	if (!blocks || blocks.length === 0) return
+	// Helper function to insert a block tree into Logseq
+	async function insertBlocksTree(
+		parentUuid: string,
+		blocks: any[]
+	): Promise<void> {
+		if (!blocks || blocks.length === 0) return
 
-	for (const block of blocks) {
-		// Insert the current block
-		const response = await callLogseqApi('logseq.Editor.insertBlock', [
-			parentUuid,
-			block.content,
-			{
+		for (const block of blocks) {
+			// Insert the current block
+			const response = await backend.insertBlock(parentUuid, block.content, {
 				before: false, // After parent block
-			},
-		])
+			})
 
-		if (response.uuid && block.children && block.children.length > 0) {
-			// Insert children recursively
-			await insertBlocksTree(response.uuid, block.children)
+			if (response.uuid && block.children && block.children.length > 0) {
+				// Insert children recursively
+				await insertBlocksTree(response.uuid, block.children)
+			}
 		}
 	}
-}
 
-// Helper function to insert block content while properly handling Logseq's bullet format
-async function insertFormattedContent(
-	pageName: string,
-	content: string
-): Promise<string> {
-	try {
-		// 1. Create a top-level block as "container"
-		const pageResult = await callLogseqApi('logseq.Editor.getPage', [pageName])
-		if (!pageResult) {
-			throw new Error(`Page ${pageName} not found`)
-		}
+	// Helper function to insert block content while properly handling Logseq's bullet format
+	async function insertFormattedContent(
+		pageName: string,
+		content: string,
+		graph: GraphBackend = backend
+	): Promise<string> {
+		try {
+			// 1. Create a top-level block as "container"
+			const pageResult = await graph.getPage(pageName)
+			if (!pageResult) {
+				throw new GraphError('NOT_FOUND', `Page ${pageName} not found`)
+			}
 
-		// Get the page blocks to check if it has content
-		const pageBlocks = await callLogseqApi('logseq.Editor.getPageBlocksTree', [
-			pageName,
-		])
+			// Get the page blocks to check if it has content
+			const pageBlocks = await graph.getBlocksTree(pageName)
 
-		// 2. Clean up content - remove any explicit bullets at the start of lines
-		// This is critical - we need to remove the bullet markers since Logseq adds them automatically
-		const cleanContent = content
-			.split('\n')
-			.map((line) => {
-				// Remove bullet markers while preserving indentation
-				return line.replace(/^(\s*)-\s+/, '$1')
-			})
-			.join('\n')
+			// 2. Clean up content - remove any explicit bullets at the start of lines
+			// This is critical - we need to remove the bullet markers since Logseq adds them automatically
+			const cleanContent = content
+				.split('\n')
+				.map((line) => {
+					// Remove bullet markers while preserving indentation
+					return line.replace(/^(\s*)-\s+/, '$1')
+				})
+				.join('\n')
 
-		// 3. Create a properly nested block structure from the hierarchical content
-		const blocks = parseHierarchicalContent(cleanContent)
+			// 3. Create a properly nested block structure from the hierarchical content
+			const blocks = parseHierarchicalContent(cleanContent)
 
-		// 4. Insert the first block at the page level (top level)
-		let insertedBlockUuid = ''
+			// 4. Insert the first block at the page level (top level)
+			let insertedBlockUuid = ''
 
-		// If the content is already structured with indentation, use our special handling
-		if (blocks.length > 0) {
-			// Insert the first block
-			const firstBlock = await callLogseqApi(
-				'logseq.Editor.appendBlockInPage',
-				[pageName, blocks[0].content]
-			)
+			// If the content is already structured with indentation, use our special handling
+			if (blocks.length > 0) {
+				// Insert the first block
+				const firstBlock = await graph.appendBlock(pageName, blocks[0].content)
 
-			if (!firstBlock || !firstBlock.uuid) {
-				throw new Error('Failed to insert initial block')
-			}
+				if (!firstBlock || !firstBlock.uuid) {
+					throw new Error('Failed to insert initial block')
+				}
 
-			insertedBlockUuid = firstBlock.uuid
+				insertedBlockUuid = firstBlock.uuid
 
-			// Insert child blocks recursively
-			if (blocks[0].children && blocks[0].children.length > 0) {
-				await insertChildBlocks(insertedBlockUuid, blocks[0].children)
-			}
+				// Insert child blocks recursively
+				if (blocks[0].children && blocks[0].children.length > 0) {
+					await insertChildBlocks(insertedBlockUuid, blocks[0].children, graph)
+				}
 
-			// Insert any remaining top-level blocks
-			for (let i = 1; i < blocks.length; i++) {
-				const blockResponse = await callLogseqApi(
-					'logseq.Editor.appendBlockInPage',
-					[pageName, blocks[i].content]
-				)
+				// Insert any remaining top-level blocks
+				for (let i = 1; i < blocks.length; i++) {
+					const blockResponse = await graph.appendBlock(
+						pageName,
+						blocks[i].content
+					)
 
-				if (
-					blockResponse &&
-					blockResponse.uuid &&
-					blocks[i].children &&
-					blocks[i].children.length > 0
-				) {
-					await insertChildBlocks(blockResponse.uuid, blocks[i].children)
+					if (
+						blockResponse &&
+						blockResponse.uuid &&
+						blocks[i].children &&
+						blocks[i].children.length > 0
+					) {
+						await insertChildBlocks(
+							blockResponse.uuid,
+							blocks[i].children,
+							graph
+						)
+					}
 				}
-			}
 
-			return insertedBlockUuid
-		} else {
-			// Fallback for simple content - insert as a single block
-			const response = await callLogseqApi('logseq.Editor.appendBlockInPage', [
-				pageName,
-				cleanContent,
-			])
+				return insertedBlockUuid
+			} else {
+				// Fallback for simple content - insert as a single block
+				const response = await graph.appendBlock(pageName, cleanContent)
 
-			return response?.uuid || ''
+				return response?.uuid || ''
+			}
+		} catch (error) {
+			console.error('Error inserting formatted content:', error)
+			throw error
 		}
-	} catch (error) {
-		console.error('Error inserting formatted content:', error)
-		throw error
 	}
-}
 
-// Helper function to insert child blocks recursively
-async function insertChildBlocks(
-	parentUuid: string,
-	blocks: any[]
-): Promise<void> {
-	for (const block of blocks) {
-		const blockResponse = await callLogseqApi('logseq.Editor.insertBlock', [
-			parentUuid,
-			block.content,
-			{ sibling: false }, // Insert as child, not sibling
-		])
+	// Helper function to insert child blocks recursively
+	async function insertChildBlocks(
+		parentUuid: string,
+		blocks: any[],
+		graph: GraphBackend = backend
+	): Promise<void> {
+		for (const block of blocks) {
+			const blockResponse = await graph.insertBlock(
+				parentUuid,
+				block.content,
+				{ sibling: false } // Insert as child, not sibling
+			)
 
-		if (blockResponse?.uuid && block.children && block.children.length > 0) {
-			await insertChildBlocks(blockResponse.uuid, block.children)
+			if (blockResponse?.uuid && block.children && block.children.length > 0) {
+				await insertChildBlocks(blockResponse.uuid, block.children, graph)
+			}
 		}
 	}
-}
 
-// Define proper block type at the top of the file
-interface Block {
-	content: string
-	children: Block[]
-}
+	// Define proper block type at the top of the file
+	interface Block {
+		content: string
+		children: Block[]
+	}
 
-// Parse hierarchical content based on indentation
-function parseHierarchicalContent(content: string): Block[] {
-	const lines = content.split('\n')
-	const result: Block[] = []
-	let stack: { block: Block; level: number }[] = []
-	let currentLevel = 0
-
-	for (const line of lines) {
-		if (!line.trim()) continue
-
-		// Calculate indentation level (number of leading spaces)
-		const indentMatch = line.match(/^(\s*)/)
-		const indentLevel = indentMatch ? Math.floor(indentMatch[1].length / 2) : 0
-
-		// Create block for this line
-		const block: Block = {
-			content: line.trim(),
-			children: [],
-		}
-
-		if (indentLevel === 0) {
-			// Top-level block
-			result.push(block)
-			stack = [{ block, level: 0 }]
-		} else if (indentLevel > currentLevel) {
-			// Child of previous block
-			if (stack.length > 0) {
-				stack[stack.length - 1].block.children.push(block)
-				stack.push({ block, level: indentLevel })
-			}
-		} else {
-			// Find appropriate parent
-			while (stack.length > 1 && stack[stack.length - 1].level >= indentLevel) {
-				stack.pop()
+	// Parse hierarchical content based on indentation
+	function parseHierarchicalContent(content: string): Block[] {
+		const lines = content.split('\n')
+		const result: Block[] = []
+		let stack: { block: Block; level: number }[] = []
+		let currentLevel = 0
+
+		for (const line of lines) {
+			if (!line.trim()) continue
+
+			// Calculate indentation level (number of leading spaces)
+			const indentMatch = line.match(/^(\s*)/)
+			const indentLevel = indentMatch
+				? Math.floor(indentMatch[1].length / 2)
+				: 0
+
+			// Create block for this line
+			const block: Block = {
+				content: line.trim(),
+				children: [],
 			}
 
-			if (stack.length > 0) {
-				stack[stack.length - 1].block.children.push(block)
-				stack.push({ block, level: indentLevel })
+			if (indentLevel === 0) {
+				// Top-level block
+				result.push(block)
+				stack = [{ block, level: 0 }]
+			} else if (indentLevel > currentLevel) {
+				// Child of previous block
+				if (stack.length > 0) {
+					stack[stack.length - 1].block.children.push(block)
+					stack.push({ block, level: indentLevel })
+				}
+			} else {
+				// Find appropriate parent
+				while (
+					stack.length > 1 &&
+					stack[stack.length - 1].level >= indentLevel
+				) {
+					stack.pop()
+				}
+
+				if (stack.length > 0) {
+					stack[stack.length - 1].block.children.push(block)
+					stack.push({ block, level: indentLevel })
+				}
 			}
+
+			currentLevel = indentLevel
 		}
 
-		currentLevel = indentLevel
+		return result
 	}
 
-	return result
-}
-
-// Recursive function to insert blocks
-async function insertBlocksRecursively(
-	page: string,
-	parentUuid: string | null,
-	blocks: Block[]
-): Promise<void> {
-	for (const block of blocks) {
-		const blockUuid = await callLogseqApi('logseq.Editor.insertBlock', [
-			page,
-			block.content,
-			{
-				sibling: false,
-				before: false,
-				isPageBlock: !parentUuid,
-				uuid: parentUuid,
-			},
-		])
+	// Recursive function to insert blocks
+	async function insertBlocksRecursively(
+		page: string,
+		parentUuid: string | null,
+		blocks: Block[]
+	): Promise<void> {
+		for (const block of blocks) {
+			const inserted = await backend.insertBlock(
+				parentUuid || page,
+				block.content,
+				{
+					sibling: false,
+					before: false,
+					isPageBlock: !parentUuid,
+				}
+			)
 
-		if (blockUuid && block.children.length > 0) {
-			await insertBlocksRecursively(page, blockUuid, block.children)
+			if (inserted?.uuid && block.children.length > 0) {
+				await insertBlocksRecursively(page, inserted.uuid, block.children)
+			}
 		}
 	}
-}
 
-// Fix the unnecessary template literals
-function formatBlockContent(content: string): string {
-	return content.replace(/^- /gm, '').trim()
-}
+	// Fix the unnecessary template literals
+	function formatBlockContent(content: string): string {
+		return content.replace(/^- /gm, '').trim()
+	}
 
-server.tool(
-	'addJournalBlock',
-	{
-		content: z
-			.string()
-			.describe('Content to add as a single block to a journal page'),
-		date: z
-			.string()
-			.optional()
-			.describe(
-				'Optional journal date (e.g., "mar 14th, 2025"). Defaults to today'
-			),
-		preserveFormatting: z
-			.boolean()
-			.optional()
-			.describe('Whether to preserve markdown formatting (default: true)'),
-	},
-	async ({ content, date, preserveFormatting = true }) => {
-		try {
-			// Determine the journal page name (today or specific date)
-			const pageName = date || formatJournalDate(new Date())
+	mutatingTool(
+		'addJournalBlock',
+		{
+			content: z
+				.string()
+				.describe('Content to add as a single block to a journal page'),
+			date: z
+				.string()
+				.optional()
+				.describe(
+					"Optional date as YYYY-MM-DD or a journal title in the graph's format. Defaults to today"
+				),
+			preserveFormatting: z
+				.boolean()
+				.optional()
+				.describe('Whether to preserve markdown formatting (default: true)'),
+		},
 
-			// Check if this page exists, create if needed
-			let pageExists = false
+		async ({ content, date, preserveFormatting = true }, graph) => {
 			try {
-				const existingPage = await callLogseqApi('logseq.Editor.getPage', [
-					pageName,
-				])
-				pageExists = !!existingPage
-			} catch (e) {
-				// Page doesn't exist, we'll create it
-				console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
-			}
+				// Determine the journal page name (today or specific date)
+				const pageName = await journalPageName(date, graph)
 
-			// Create the journal page if it doesn't exist
-			if (!pageExists) {
-				await callLogseqApi('logseq.Editor.createPage', [
-					pageName,
-					{ 'journal?': true },
-				])
-			}
+				// Check if this page exists, create if needed
+				let pageExists = false
+				try {
+					const existingPage = await graph.getPage(pageName)
+					pageExists = !!existingPage
+				} catch (e) {
+					// Page doesn't exist, we'll create it
+					console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
+				}
 
-			// Clean up content
-			let cleanContent = content.trim()
+				// Create the journal page if it doesn't exist
+				if (!pageExists) {
+					await createJournalPage(graph, pageName)
+				}
 
-			// Remove the title/heading if it's the same as the page name (to avoid duplication)
-			const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
-			cleanContent = cleanContent.replace(titleRegex, '').trim()
+				// Clean up content
+				let cleanContent = content.trim()
 
-			if (preserveFormatting) {
-				// Get the page's UUID
-				const page = await callLogseqApi('logseq.Editor.getPage', [pageName])
-				if (!page || !page.uuid) {
-					throw new Error(`Could not get UUID for page ${pageName}`)
-				}
+				// Remove the title/heading if it's the same as the page name (to avoid duplication)
+				const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
+				cleanContent = cleanContent.replace(titleRegex, '').trim()
 
-				// Add a single top-level block first
-				const response = await callLogseqApi(
-					'logseq.Editor.appendBlockInPage',
-					[pageName, 'Journal entry from MCP']
-				)
+				if (preserveFormatting) {
+					// Get the page's UUID
+					const page = await graph.getPage(pageName)
+					if (!page || !page.uuid) {
+						throw new Error(`Could not get UUID for page ${pageName}`)
+					}
 
-				if (!response || !response.uuid) {
-					throw new Error('Failed to create initial block')
-				}
+					// Add a single top-level block first
+					const response = await graph.appendBlock(
+						pageName,
+						'Journal entry from MCP'
+					)
 
-				// Insert the content as a child block to preserve its formatting exactly
-				// Use insertBlock instead of appendBlockInPage to maintain hierarchy
-				const blockResponse = await callLogseqApi('logseq.Editor.insertBlock', [
-					response.uuid,
-					cleanContent,
-					{ properties: {} },
-				])
+					if (!response || !response.uuid) {
+						throw new Error('Failed to create initial block')
+					}
 
-				// Now remove the placeholder parent block to leave just our content
-				await callLogseqApi('logseq.Editor.removeBlock', [response.uuid])
+					// Insert the content as a child block to preserve its formatting exactly
+					// Use insertBlock instead of appendBlockInPage to maintain hierarchy
+					const blockResponse = await graph.insertBlock(
+						response.uuid,
+						cleanContent
+					)
 
-				return {
-					content: [
-						{
-							type: 'text',
-							text: `Added journal entry to "${pageName}" as a properly formatted block.`,
-						},
-					],
-				}
-			} else {
-				// Simple append as a basic block
-				await callLogseqApi('logseq.Editor.appendBlockInPage', [
-					pageName,
-					cleanContent,
-				])
+					// Now remove the placeholder parent block to leave just our content
+					await graph.deleteBlock(response.uuid)
 
-				return {
-					content: [
-						{
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Added journal entry to "${pageName}" as a properly formatted block.`,
+							},
+						],
+					}
+				} else {
+					// Simple append as a basic block
+					await graph.appendBlock(pageName, cleanContent)
+
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Added journal entry to "${pageName}" as a basic block.`,
+							},
+						],
+					}
+				}
+			} catch (error) {
+				return errorResult(error, 'Error adding journal block')
+			}
+		}
+	)
+
+	mutatingTool(
+		'addJournalContent',
+		{
+			content: z
+				.string()
+				.describe('Content to add to the journal page (preserves formatting)'),
+			date: z
+				.string()
+				.optional()
+				.describe(
+					"Optional date as YYYY-MM-DD or a journal title in the graph's format. Defaults to today"
+				),
+		},
+		async ({ content, date }, graph) => {
+			try {
+				// Determine journal page name
+				const pageName = await journalPageName(date, graph)
+
+				// Create journal page if it doesn't exist
+				let pageExists = false
+				try {
+					const existingPage = await graph.getPage(pageName)
+					pageExists = !!existingPage
+				} catch (e) {
+					console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
+				}
+
+				if (!pageExists) {
+					await createJournalPage(graph, pageName)
+				}
+
+				// Clean up content to handle common issues
+				let cleanContent = content.trim()
+
+				// Remove page title/heading if it matches the page name
+				const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
+				cleanContent = cleanContent.replace(titleRegex, '').trim()
+
+				// Insert the content with proper formatting
+				await insertFormattedContent(pageName, cleanContent, graph)
+
+				return {
+					content: [
+						{
 							type: 'text',
-							text: `Added journal entry to "${pageName}" as a basic block.`,
+							text: `Successfully added formatted content to journal page "${pageName}".`,
 						},
 					],
 				}
+			} catch (error) {
+				return errorResult(error, 'Error adding journal content')
 			}
-		} catch (error) {
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error adding journal block: ${error.message}`,
-					},
-				],
+		}
+	)
+
+	// Add a tool to add formatted content to any note with proper structure preservation
+	mutatingTool(
+		'addNoteContent',
+		{
+			pageName: z.string().describe('The name of the page to add content to'),
+			content: z
+				.string()
+				.describe('Content to add to the page, with Markdown formatting'),
+			createIfNotExist: z
+				.boolean()
+				.default(true)
+				.describe('Whether to create the page if it does not exist'),
+		},
+		async ({ pageName, content, createIfNotExist }, graph) => {
+			try {
+				// Check if the page exists
+				const page = await graph.getPage(pageName)
+
+				if (!page && createIfNotExist) {
+					// Create page if it doesn't exist
+					await graph.createPage(pageName, {}, { createFirstBlock: true })
+				} else if (!page) {
+					return notFound(
+						`Page "${pageName}" does not exist and createIfNotExist is false`
+					)
+				}
+
+				// Clean up content to make sure it doesn't have bullet points
+				const cleanContent = content
+					.split('\n')
+					.map((line) => line.replace(/^(\s*)-\s+/, '$1'))
+					.join('\n')
+
+				// Parse the content into a hierarchical structure
+				const blocks = parseHierarchicalContent(cleanContent)
+
+				// Count total blocks for feedback
+				const totalBlocks = countBlocks(blocks)
+
+				// Insert the blocks
+				if (blocks.length > 0) {
+					// Different handling based on content complexity
+					if (blocks.length === 1 && blocks[0].children.length === 0) {
+						// Simple content - just append as a single block
+						await graph.appendBlock(pageName, blocks[0].content)
+					} else {
+						// Complex content with hierarchy - use the structured insertion
+						for (const block of blocks) {
+							const firstBlock = await graph.appendBlock(
+								pageName,
+								block.content
+							)
+
+							if (block.children.length > 0 && firstBlock && firstBlock.uuid) {
+								// Insert child blocks recursively
+								await insertChildBlocks(firstBlock.uuid, block.children, graph)
+							}
+						}
+					}
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Content added to "${pageName}" successfully (${totalBlocks} block${
+								totalBlocks !== 1 ? 's' : ''
+							})`,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error adding content')
 			}
 		}
+	)
+
+	// Helper function to count total blocks in a hierarchical structure
+	function countBlocks(blocks: Block[]): number {
+		let count = blocks.length
+
+		for (const block of blocks) {
+			count += countBlocks(block.children)
+		}
+
+		return count
 	}
-)
-
-server.tool(
-	'addJournalContent',
-	{
-		content: z
-			.string()
-			.describe('Content to add to the journal page (preserves formatting)'),
-		date: z
-			.string()
-			.optional()
-			.describe(
-				'Optional date format (e.g., "mar 14th, 2025"). Defaults to today'
-			),
-	},
-	async ({ content, date }) => {
-		try {
-			// Determine journal page name
-			const pageName = date || formatJournalDate(new Date())
 
-			// Create journal page if it doesn't exist
-			let pageExists = false
+	// Add a tool to get a specific block and its children by UUID
+	server.tool(
+		'getBlock',
+		{
+			blockId: z
+				.string()
+				.describe(
+					'The UUID of the block to fetch (without the double parentheses)'
+				),
+			includeChildren: z
+				.boolean()
+				.default(true)
+				.describe('Whether to include children blocks'),
+		},
+		async ({ blockId, includeChildren }) => {
 			try {
-				const existingPage = await callLogseqApi('logseq.Editor.getPage', [
-					pageName,
-				])
-				pageExists = !!existingPage
-			} catch (e) {
-				console.log(`Journal page ${pageName} doesn't exist yet, creating...`)
-			}
+				// Clean the block ID if it includes parentheses
+				const cleanBlockId = blockId.replace(/^\(\(|\)\)$/g, '')
 
-			if (!pageExists) {
-				await callLogseqApi('logseq.Editor.createPage', [
-					pageName,
-					{ 'journal?': true },
-				])
+				// Fetch the block using the Logseq API
+				const block = await backend.getBlock(cleanBlockId, { includeChildren })
+
+				if (!block) {
+					return notFound(`Block with ID ${cleanBlockId} not found`)
+				}
+
+				// Format the result for display
+				const formatBlockContent = (block, level = 0) => {
+					const indent = '  '.repeat(level)
+					let result = `${indent}- ${block.content}\n`
+
+					if (block.children && block.children.length > 0) {
+						for (const child of block.children) {
+							result += formatBlockContent(child, level + 1)
+						}
+					}
+
+					return result
+				}
+
+				// Get parent info safely
+				let parentInfo = 'None'
+				if (block.parent) {
+					// Handle different formats of parent reference
+					if (typeof block.parent === 'string') {
+						parentInfo = block.parent.substring(0, 8) + '...'
+					} else if (block.parent.id && typeof block.parent.id === 'string') {
+						parentInfo = block.parent.id.substring(0, 8) + '...'
+					} else if (
+						block.parent.uuid &&
+						typeof block.parent.uuid === 'string'
+					) {
+						parentInfo = block.parent.uuid.substring(0, 8) + '...'
+					} else {
+						parentInfo = 'Unknown format'
+					}
+				}
+
+				// The Logseq API names the page by id only
+				const blockPage = await blockPageName(backend, block)
+				const pageName = blockPage || 'Unknown page'
+				const pageVersion = await versionLine(backend, blockPage)
+
+				const blockWithMeta = {
+					...block,
+					_meta: {
+						page: pageName,
+						parentBlock: parentInfo,
+						createdAt: block.createdAt
+							? new Date(block.createdAt).toLocaleString()
+							: 'Unknown',
+						updatedAt: block.updatedAt
+							? new Date(block.updatedAt).toLocaleString()
+							: 'Unknown',
+					},
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Block ID: ${cleanBlockId}`,
+						},
+						{
+							type: 'text',
+							text: `Page: ${blockWithMeta._meta.page}`,
+						},
+						{
+							type: 'text',
+							text: `Parent Block: ${blockWithMeta._meta.parentBlock}`,
+						},
+						{
+							type: 'text',
+							text: `Created: ${blockWithMeta._meta.createdAt}`,
+						},
+						{
+							type: 'text',
+							text: `Updated: ${blockWithMeta._meta.updatedAt}`,
+						},
+						...(pageVersion
+							? [{ type: 'text' as const, text: pageVersion }]
+							: []),
+						{
+							type: 'text',
+							text: '---',
+						},
+						{
+							type: 'text',
+							text: includeChildren
+								? formatBlockContent(block)
+								: `- ${block.content}`,
+						},
+					],
+				}
+			} catch (error) {
+				console.error('Error details:', error)
+				const result = errorResult(error, 'Error fetching block')
+				result.content.push({
+					type: 'text',
+					text:
+						'Try using the blockId without double parentheses: ' +
+						blockId.replace(/^\(\(|\)\)$/g, ''),
+				})
+				return result
 			}
+		}
+	)
+
+	// Helper function to flatten a block tree into a list with nesting levels
+	function flattenBlocks(
+		blocks: any[],
+		level = 0
+	): Array<{ block: any; level: number }> {
+		const result: Array<{ block: any; level: number }> = []
+		for (const block of blocks) {
+			result.push({ block, level })
+			if (block.children && block.children.length > 0) {
+				result.push(...flattenBlocks(block.children, level + 1))
+			}
+		}
+		return result
+	}
+
+	server.tool('get_system_info', async () => {
+		try {
+			const graph = backend.snapshot()
+			const pages = await graph.getAllPages()
+			const journalPages = pages.filter((page: any) => page['journal?']).length
 
-			// Clean up content to handle common issues
-			let cleanContent = content.trim()
+			let totalBlocks = 0
+			let totalTodos = 0
+			for (const page of pages) {
+				const content = await getPageContent(page.name, graph)
+				if (!content) continue
 
-			// Remove page title/heading if it matches the page name
-			const titleRegex = new RegExp(`^#\\s+${pageName}\\s*$`, 'im')
-			cleanContent = cleanContent.replace(titleRegex, '').trim()
+				const blocks = flattenBlocks(content)
+				totalBlocks += blocks.length
+				totalTodos += blocks.filter(({ block }) => block.marker).length
+			}
 
-			// Insert the content with proper formatting
-			await insertFormattedContent(pageName, cleanContent)
+			let text = '# Logseq System Info\n\n'
+			text += `- Backend: ${backend.label}\n`
+			text += `- Access mode: ${config.permissions.mode}\n`
+			text += `- Total pages: ${pages.length} (${
+				pages.length - journalPages
+			} regular, ${journalPages} journals)\n`
+			text += `- Total blocks: ${totalBlocks}\n`
+			text += `- Total tasks: ${totalTodos}\n`
 
 			return {
 				content: [
 					{
 						type: 'text',
-						text: `Successfully added formatted content to journal page "${pageName}".`,
+						text,
 					},
 				],
 			}
 		} catch (error) {
+			return errorResult(error, 'Error fetching system info')
+		}
+	})
+
+	server.tool('get_todos', async () => {
+		try {
+			const graph = backend.snapshot()
+			const pages = await graph.getAllPages()
+			const tasksByMarker: Record<
+				string,
+				Array<{ page: string; content: string; uuid: string }>
+			> = {}
+
+			for (const page of pages) {
+				const content = await getPageContent(page.name, graph)
+				if (!content) continue
+
+				for (const { block } of flattenBlocks(content)) {
+					if (!block.marker) continue
+					if (!tasksByMarker[block.marker]) tasksByMarker[block.marker] = []
+					tasksByMarker[block.marker].push({
+						page: page.originalName || page.name,
+						content: block.content,
+						uuid: block.uuid,
+					})
+				}
+			}
+
+			const markers = Object.keys(tasksByMarker)
+			if (markers.length === 0) {
+				return {
+					content: [
+						{
+							type: 'text',
+							text: 'No tasks found in the graph.',
+						},
+					],
+				}
+			}
+
+			let text = '# Tasks by Status\n\n'
+			for (const marker of markers) {
+				text += `## ${marker} (${tasksByMarker[marker].length})\n\n`
+				tasksByMarker[marker].forEach(({ page, content, uuid }) => {
+					text += `- ${content} (in [[${page}]], id: ${uuid})\n`
+				})
+				text += '\n'
+			}
+
 			return {
 				content: [
 					{
 						type: 'text',
-						text: `Error adding journal content: ${error.message}`,
+						text,
 					},
 				],
 			}
+		} catch (error) {
+			return errorResult(error, 'Error fetching tasks')
 		}
-	}
-)
-
-// Add a tool to add formatted content to any note with proper structure preservation
-server.tool(
-	'addNoteContent',
-	{
-		pageName: z.string().describe('The name of the page to add content to'),
-		content: z
-			.string()
-			.describe('Content to add to the page, with Markdown formatting'),
-		createIfNotExist: z
-			.boolean()
-			.default(true)
-			.describe('Whether to create the page if it does not exist'),
-	},
-	async ({ pageName, content, createIfNotExist }) => {
+	})
+
+	server.tool('get_config', async () => {
 		try {
-			// Check if the page exists
-			const page = await callLogseqApi('logseq.Editor.getPage', [pageName])
+			const config = await backend.getConfig()
 
-			if (!page && createIfNotExist) {
-				// Create page if it doesn't exist
-				await callLogseqApi('logseq.Editor.createPage', [
-					pageName,
-					{},
-					{ createFirstBlock: true },
-				])
-			} else if (!page) {
+			if (!config) {
 				return {
 					content: [
 						{
 							type: 'text',
-							text: `Page "${pageName}" does not exist and createIfNotExist is false`,
+							text: 'No Logseq configuration found, using defaults.',
 						},
 					],
 				}
 			}
 
-			// Clean up content to make sure it doesn't have bullet points
-			const cleanContent = content
-				.split('\n')
-				.map((line) => line.replace(/^(\s*)-\s+/, '$1'))
-				.join('\n')
-
-			// Parse the content into a hierarchical structure
-			const blocks = parseHierarchicalContent(cleanContent)
-
-			// Count total blocks for feedback
-			const totalBlocks = countBlocks(blocks)
-
-			// Insert the blocks
-			if (blocks.length > 0) {
-				// Different handling based on content complexity
-				if (blocks.length === 1 && blocks[0].children.length === 0) {
-					// Simple content - just append as a single block
-					await callLogseqApi('logseq.Editor.appendBlockInPage', [
-						pageName,
-						blocks[0].content,
-					])
-				} else {
-					// Complex content with hierarchy - use the structured insertion
-					for (const block of blocks) {
-						const firstBlock = await callLogseqApi(
-							'logseq.Editor.appendBlockInPage',
-							[pageName, block.content]
-						)
-
-						if (block.children.length > 0 && firstBlock && firstBlock.uuid) {
-							// Insert child blocks recursively
-							await insertChildBlocks(firstBlock.uuid, block.children)
-						}
-					}
-				}
-			}
+			// A config that does not parse is reported rather than shown as is
+			const settings = parseGraphConfig(config)
+			const raw =
+				typeof config === 'string'
+					? '```edn\n' + config + '\n```'
+					: '```json\n' + JSON.stringify(config, null, 2) + '\n```'
 
 			return {
 				content: [
 					{
 						type: 'text',
-						text: `Content added to "${pageName}" successfully (${totalBlocks} block${
-							totalBlocks !== 1 ? 's' : ''
-						})`,
+						text: `## Settings used by this server\n\n\`\`\`json\n${JSON.stringify(
+							settings,
+							null,
+							2
+						)}\n\`\`\`\n\n## Full configuration\n\n${raw}`,
 					},
 				],
 			}
-		} catch (error: any) {
+		} catch (error) {
+			return errorResult(error, 'Error reading configuration')
+		}
+	})
+
+	server.tool('export_graph', async () => {
+		try {
+			const graph = backend.snapshot()
+			const pages = await graph.getAllPages()
+
+			const exportedPages: any[] = []
+			let totalBlocks = 0
+			for (const page of pages) {
+				const content = await getPageContent(page.name, graph)
+				const blockCount = content ? flattenBlocks(content).length : 0
+				totalBlocks += blockCount
+
+				exportedPages.push({
+					uuid: page.uuid,
+					name: page.originalName || page.name,
+					isJournal: !!page['journal?'],
+					blocks: blockCount,
+					updatedAt: page.updatedAt,
+					properties: page.properties,
+				})
+			}
+
+			const exportData = {
+				exportDate: new Date().toISOString(),
+				backend: backend.label,
+				totalPages: pages.length,
+				totalBlocks,
+				pages: exportedPages,
+			}
+
 			return {
 				content: [
 					{
 						type: 'text',
-						text: `Error adding content: ${error.message}`,
+						text: '```json\n' + JSON.stringify(exportData, null, 2) + '\n```',
 					},
 				],
 			}
+		} catch (error) {
+			return errorResult(error, 'Error exporting graph')
 		}
-	}
-)
-
-// Helper function to count total blocks in a hierarchical structure
-function countBlocks(blocks: Block[]): number {
-	let count = blocks.length
-
-	for (const block of blocks) {
-		count += countBlocks(block.children)
-	}
+	})
 
-	return count
-}
+	server.tool(
+		'list_blocks',
+		{
+			pageName: z.string().describe('The page whose blocks should be listed'),
+		},
+		async ({ pageName }) => {
+			try {
+				// Not through getPageContent: API failures must not look like a missing page
+				const content = await backend.getBlocksTree(pageName)
 
-// Add a tool to get a specific block and its children by UUID
-server.tool(
-	'getBlock',
-	{
-		blockId: z
-			.string()
-			.describe(
-				'The UUID of the block to fetch (without the double parentheses)'
-			),
-		includeChildren: z
-			.boolean()
-			.default(true)
-			.describe('Whether to include children blocks'),
-	},
-	async ({ blockId, includeChildren }) => {
-		try {
-			// Clean the block ID if it includes parentheses
-			const cleanBlockId = blockId.replace(/^\(\(|\)\)$/g, '')
+				if (!content) {
+					return notFound(`Page "${pageName}" not found or has no content.`)
+				}
 
-			// Fetch the block using the Logseq API
-			const block = await callLogseqApi('logseq.Editor.getBlock', [
-				cleanBlockId,
-				{ includeChildren },
-			])
+				let text = `# Blocks in ${pageName}\n\n`
+				const version = await versionLine(backend, pageName)
+				if (version) text += `${version}\n\n`
+				for (const { block, level } of flattenBlocks(content)) {
+					text += `${'  '.repeat(level)}- ${block.content} (id: ${
+						block.uuid
+					})\n`
+				}
 
-			if (!block) {
 				return {
 					content: [
 						{
 							type: 'text',
-							text: `Block with ID ${cleanBlockId} not found`,
+							text,
 						},
 					],
 				}
+			} catch (error) {
+				return errorResult(error, 'Error listing blocks')
 			}
+		}
+	)
+
+	mutatingTool(
+		'insert_block',
+		{
+			pageName: z.string().describe('The page to append the block to'),
+			content: z.string().describe('Content of the new block'),
+			todo: z
+				.string()
+				.optional()
+				.describe('Optional task marker such as TODO, DOING or LATER'),
+			priority: z.string().optional().describe('Optional priority (A, B or C)'),
+			expectedVersion: EXPECTED_VERSION,
+		},
+		async ({ pageName, content, todo, priority, expectedVersion }, graph) => {
+			try {
+				let blockContent = ''
+				if (todo) blockContent += `${todo} `
+				if (priority) blockContent += `[#${priority}] `
+				blockContent += content
 
-			// Format the result for display
-			const formatBlockContent = (block, level = 0) => {
-				const indent = '  '.repeat(level)
-				let result = `${indent}- ${block.content}\n`
+				const block = await graph.appendBlock(pageName, blockContent, {
+					expectedVersion,
+				})
 
-				if (block.children && block.children.length > 0) {
-					for (const child of block.children) {
-						result += formatBlockContent(child, level + 1)
-					}
+				if (!block) {
+					return notFound(`Page "${pageName}" not found.`)
 				}
 
-				return result
+				return {
+					content: [
+						{
+							type: 'text',
+							text: [
+								`Inserted block into "${pageName}" (id: ${block.uuid}).`,
+								await versionLine(graph, pageName),
+							]
+								.filter(Boolean)
+								.join('\n'),
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error inserting block')
 			}
+		}
+	)
+
+	mutatingTool(
+		'update_block',
+		{
+			blockUuid: z.string().describe('The UUID of the block to update'),
+			content: z.string().describe('New content for the block'),
+			expectedVersion: EXPECTED_VERSION,
+		},
+		async ({ blockUuid, content, expectedVersion }, graph) => {
+			try {
+				await graph.updateBlock(blockUuid, content, { expectedVersion })
+				const block = await graph.getBlock(blockUuid, {
+					includeChildren: false,
+				})
+				const version = await versionLine(
+					graph,
+					block && (await blockPageName(graph, block))
+				)
 
-			// Get parent info safely
-			let parentInfo = 'None'
-			if (block.parent) {
-				// Handle different formats of parent reference
-				if (typeof block.parent === 'string') {
-					parentInfo = block.parent.substring(0, 8) + '...'
-				} else if (block.parent.id && typeof block.parent.id === 'string') {
-					parentInfo = block.parent.id.substring(0, 8) + '...'
-				} else if (block.parent.uuid && typeof block.parent.uuid === 'string') {
-					parentInfo = block.parent.uuid.substring(0, 8) + '...'
-				} else {
-					parentInfo = 'Unknown format'
+				return {
+					content: [
+						{
+							type: 'text',
+							text: [`Updated block ${blockUuid}.`, version]
+								.filter(Boolean)
+								.join('\n'),
+						},
+					],
 				}
+			} catch (error) {
+				return errorResult(error, 'Error updating block')
 			}
+		}
+	)
 
-			// Get page info safely
-			let pageName = 'Unknown page'
-			if (block.page) {
-				if (typeof block.page === 'string') {
-					pageName = block.page
-				} else if (block.page.name && typeof block.page.name === 'string') {
-					pageName = block.page.name
-				} else if (
-					block.page.originalName &&
-					typeof block.page.originalName === 'string'
-				) {
-					pageName = block.page.originalName
+	mutatingTool(
+		'delete_block',
+		{
+			blockUuid: z.string().describe('The UUID of the block to delete'),
+			expectedVersion: EXPECTED_VERSION,
+		},
+		async ({ blockUuid, expectedVersion }, graph) => {
+			try {
+				const block = await graph.getBlock(blockUuid, {
+					includeChildren: false,
+				})
+				const pageName = block && (await blockPageName(graph, block))
+				await graph.deleteBlock(blockUuid, { expectedVersion })
+				const version = await versionLine(graph, pageName)
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: [`Deleted block ${blockUuid} and its children.`, version]
+								.filter(Boolean)
+								.join('\n'),
+						},
+					],
 				}
+			} catch (error) {
+				return errorResult(error, 'Error deleting block')
 			}
+		}
+	)
+
+	mutatingTool(
+		'update_page',
+		{
+			pageName: z
+				.string()
+				.describe('The page whose content should be replaced'),
+			content: z
+				.string()
+				.describe('New content for the page, with Markdown formatting'),
+		},
+		async ({ pageName, content }, graph) => {
+			try {
+				const existingBlocks = await graph.getBlocksTree(pageName)
 
-			const blockWithMeta = {
-				...block,
-				_meta: {
-					page: pageName,
-					parentBlock: parentInfo,
-					createdAt: block.createdAt
-						? new Date(block.createdAt).toLocaleString()
-						: 'Unknown',
-					updatedAt: block.updatedAt
-						? new Date(block.updatedAt).toLocaleString()
-						: 'Unknown',
-				},
-			}
+				if (!existingBlocks) {
+					return notFound(`Page "${pageName}" not found.`)
+				}
 
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Block ID: ${cleanBlockId}`,
-					},
-					{
-						type: 'text',
-						text: `Page: ${blockWithMeta._meta.page}`,
-					},
-					{
-						type: 'text',
-						text: `Parent Block: ${blockWithMeta._meta.parentBlock}`,
-					},
-					{
-						type: 'text',
-						text: `Created: ${blockWithMeta._meta.createdAt}`,
-					},
-					{
-						type: 'text',
-						text: `Updated: ${blockWithMeta._meta.updatedAt}`,
-					},
-					{
-						type: 'text',
-						text: '---',
-					},
-					{
-						type: 'text',
-						text: includeChildren
-							? formatBlockContent(block)
-							: `- ${block.content}`,
-					},
-				],
+				// Remove the current top-level blocks (children go with them)
+				for (const block of existingBlocks) {
+					await graph.deleteBlock(block.uuid)
+				}
+
+				const blocks = parseHierarchicalContent(
+					content
+						.split('\n')
+						.map((line) => line.replace(/^(\s*)-\s+/, '$1'))
+						.join('\n')
+				)
+
+				for (const block of blocks) {
+					const inserted = await graph.appendBlock(pageName, block.content)
+					if (inserted?.uuid && block.children.length > 0) {
+						await insertChildBlocks(inserted.uuid, block.children, graph)
+					}
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Replaced the content of "${pageName}" (${countBlocks(
+								blocks
+							)} blocks).`,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error updating page')
 			}
-		} catch (error: any) {
-			console.error('Error details:', error)
-			return {
-				content: [
-					{
-						type: 'text',
-						text: `Error fetching block: ${error.message}`,
-					},
-					{
-						type: 'text',
-						text:
-							'Try using the blockId without double parentheses: ' +
-							blockId.replace(/^\(\(|\)\)$/g, ''),
-					},
-				],
+		}
+	)
+
+	mutatingTool(
+		'delete_page',
+		{
+			pageName: z.string().describe('The page to delete'),
+		},
+		async ({ pageName }, graph) => {
+			try {
+				await graph.deletePage(pageName)
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Deleted page "${pageName}".`,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error deleting page')
+			}
+		}
+	)
+
+	server.tool(
+		'get_page_properties',
+		{
+			pageName: z.string().describe('The page whose properties to fetch'),
+		},
+		async ({ pageName }) => {
+			try {
+				const properties = await backend.getPageProperties(pageName)
+
+				if (!properties || Object.keys(properties).length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: `Page "${pageName}" has no properties.`,
+							},
+						],
+					}
+				}
+
+				let text = `Properties of "${pageName}":\n`
+				for (const [key, value] of Object.entries(properties)) {
+					text += `- ${key}:: ${
+						Array.isArray(value) ? value.join(', ') : value
+					}\n`
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error fetching page properties')
+			}
+		}
+	)
+
+	mutatingTool(
+		'set_page_property',
+		{
+			pageName: z.string().describe('The page to set the property on'),
+			propertyName: z.string().describe('Property key, e.g. "status"'),
+			propertyValue: z.string().describe('Property value'),
+		},
+		async ({ pageName, propertyName, propertyValue }, graph) => {
+			try {
+				await graph.setPageProperty(pageName, propertyName, propertyValue)
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Set ${propertyName}:: ${propertyValue} on "${pageName}".`,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error setting page property')
+			}
+		}
+	)
+
+	server.tool(
+		'get_journal_by_date',
+		{
+			date: z
+				.string()
+				.describe(
+					"Journal date as YYYY-MM-DD or a journal title in the graph's format"
+				),
+		},
+		async ({ date }) => {
+			try {
+				const pageName = await journalPageName(date)
+
+				const content = await backend.getBlocksTree(pageName)
+
+				if (!content) {
+					return notFound(`No journal entry found for ${date}.`)
+				}
+
+				let text = `# ${pageName}\n\n`
+				for (const { block, level } of flattenBlocks(content)) {
+					text += `${'  '.repeat(level)}- ${block.content}\n`
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error fetching journal')
+			}
+		}
+	)
+
+	server.tool(
+		'list_changes',
+		{
+			limit: z
+				.number()
+				.int()
+				.min(1)
+				.default(10)
+				.describe('How many recent changes to list'),
+			includeDiffs: z
+				.boolean()
+				.default(false)
+				.describe('Show the block and file diffs of each change'),
+		},
+		async ({ limit, includeDiffs }) => {
+			try {
+				const changes = await backend.listChanges(limit)
+
+				if (changes.length === 0) {
+					return {
+						content: [
+							{
+								type: 'text',
+								text: 'No changes have been recorded.',
+							},
+						],
+					}
+				}
+
+				let text = '# Recent changes\n'
+				for (const change of changes) {
+					const status = change.undoneBy
+						? ` (undone by ${change.undoneBy})`
+						: ''
+					text += `\n## ${change.id}${status}\n`
+					text += `- When: ${new Date(change.createdAt).toISOString()}\n`
+					text += `- Pages: ${change.pages
+						.map((page) => page.page)
+						.join(', ')}\n`
+					text += `- Result: ${change.summary.split('\n')[0]}\n`
+					if (includeDiffs) {
+						text += `\n${formatPreview({ pages: change.pages })}\n`
+					}
+				}
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, 'Error listing changes')
+			}
+		}
+	)
+
+	server.tool(
+		'undo_change',
+		{
+			changeId: z.string().describe('Id of the change, from list_changes'),
+			force: z
+				.boolean()
+				.default(false)
+				.describe(
+					'Restore the snapshot even if the files were edited after the change'
+				),
+		},
+		async ({ changeId, force }, extra) => {
+			const graph = createAuditedBackend(backend)
+			let result: CallToolResult
+			let undoId: string | undefined
+			try {
+				const undo = await graph.undoChange(changeId, { force })
+				undoId = undo.id
+				await commitToGit('undo_change', undo)
+				result = {
+					content: [
+						{
+							type: 'text',
+							text: `Undid change ${changeId} (recorded as change ${
+								undo.id
+							}).\n\n${formatPreview({ pages: undo.pages })}`,
+						},
+					],
+				}
+			} catch (error) {
+				result = errorResult(error, `Error undoing change ${changeId}`)
+			}
+			auditWrite(
+				'undo_change',
+				{ changeId, force },
+				extra,
+				result,
+				await graph.targets(),
+				undoId
+			)
+			return result
+		}
+	)
+
+	server.tool(
+		'getAuditLog',
+		{
+			from: z
+				.string()
+				.optional()
+				.describe('Only entries on or after this date or time (ISO 8601)'),
+			to: z
+				.string()
+				.optional()
+				.describe('Only entries on or before this date or time (ISO 8601)'),
+			tool: z.string().optional().describe('Only calls to this tool'),
+			page: z
+				.string()
+				.optional()
+				.describe('Only calls that wrote to this page'),
+			session: z.string().optional().describe('Only calls from this session'),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe('Maximum number of entries, newest first (default: 50)'),
+		},
+		async ({ from, to, tool, page, session, limit = 50 }) => {
+			if (!auditLog) {
+				return toolError(
+					'UNSUPPORTED',
+					'The audit log is disabled (LOGSEQ_MCP_AUDIT_LOG)'
+				)
+			}
+			try {
+				const entries = auditLog.read({
+					from: from ? parseAuditTime(from, 'start') : undefined,
+					to: to ? parseAuditTime(to, 'end') : undefined,
+					tool,
+					page,
+					session,
+					limit,
+				})
+				if (entries.length === 0) {
+					return {
+						content: [{ type: 'text', text: 'No matching audit log entries.' }],
+						structuredContent: { entries },
+					}
+				}
+
+				const text = entries
+					.map((entry) => {
+						const lines = [
+							`## ${entry.time} ${entry.tool} (${entry.outcome})`,
+							`Session: ${entry.session}${
+								entry.client ? ` (${entry.client})` : ''
+							}`,
+							`Arguments: ${JSON.stringify(entry.arguments)}`,
+						]
+						if (entry.error) lines.push(`Error: ${entry.error}`)
+						if (entry.changeId) lines.push(`Change: ${entry.changeId}`)
+						for (const target of entry.targets) {
+							lines.push(
+								`- ${target.page}: ${target.beforeHash || '(none)'} → ${
+									target.afterHash || '(none)'
+								}`
+							)
+						}
+						return lines.join('\n')
+					})
+					.join('\n\n')
+
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `# Audit log (${entries.length} entries)\n\n${text}`,
+						},
+					],
+					structuredContent: { entries },
+				}
+			} catch (error) {
+				return errorResult(error, 'Error reading the audit log')
+			}
+		}
+	)
+
+	server.tool(
+		'get_page_history',
+		{
+			pageName: z.string().describe('Name of the page'),
+			limit: z
+				.number()
+				.int()
+				.positive()
+				.optional()
+				.describe('Maximum number of revisions, newest first (default: 20)'),
+		},
+		async ({ pageName, limit = 20 }) => {
+			try {
+				const file = await backend.pageFilePath(pageName)
+				const commits = file ? await requireGit().log(file, limit) : []
+				if (!file || commits.length === 0) {
+					return notFound(`No git history for page "${pageName}"`)
+				}
+
+				const lines = commits.map(
+					(commit) =>
+						`- ${commit.shortHash} ${commit.date} ${commit.author}: ${commit.subject}`
+				)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `# History of ${pageName} (${file})\n\n${lines.join('\n')}`,
+						},
+					],
+					structuredContent: { page: pageName, file, commits },
+				}
+			} catch (error) {
+				return errorResult(error, `Error reading the history of ${pageName}`)
+			}
+		}
+	)
+
+	server.tool(
+		'diff_page_revisions',
+		{
+			pageName: z.string().describe('Name of the page'),
+			from: z
+				.string()
+				.describe('Older revision: a commit hash, branch, tag or HEAD~1'),
+			to: z
+				.string()
+				.optional()
+				.describe('Newer revision (default: the page as it is now)'),
+		},
+		async ({ pageName, from, to }) => {
+			try {
+				const git = requireGit()
+				const file = await backend.pageFilePath(pageName)
+				if (!file) return notFound(`Page ${pageName} has no file`)
+
+				const before = await git.show(from, file)
+				const after = await git.show(to ?? null, file)
+				const diff = unifiedDiff(file, before, after)
+				const range = `${from}..${to || 'working copy'}`
+				return {
+					content: [
+						{
+							type: 'text',
+							text: diff
+								? `# ${pageName} ${range}\n\n\`\`\`diff\n${diff}\n\`\`\``
+								: `No differences in ${pageName} between ${range}.`,
+						},
+					],
+					structuredContent: { page: pageName, file, from, to, diff },
+				}
+			} catch (error) {
+				return errorResult(error, `Error diffing revisions of ${pageName}`)
+			}
+		}
+	)
+
+	mutatingTool(
+		'restore_page_revision',
+		{
+			pageName: z.string().describe('Name of the page to restore'),
+			revision: z
+				.string()
+				.describe('Revision to restore: a commit hash, branch, tag or HEAD~1'),
+		},
+		async ({ pageName, revision }, graph) => {
+			try {
+				const git = requireGit()
+				const file = await graph.pageFilePath(pageName)
+				const text = file && (await git.show(revision, file))
+				if (text === null) {
+					return notFound(`Page ${pageName} did not exist at ${revision}`)
+				}
+
+				await graph.writePageFile(pageName, text)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: `Restored ${pageName} (${file}) as it was at ${revision}.`,
+						},
+					],
+				}
+			} catch (error) {
+				return errorResult(error, `Error restoring ${pageName}`)
+			}
+		}
+	)
+
+	// --- Former tool names ---
+	registerToolAlias(
+		server,
+		tools,
+		'list_pages',
+		{ filter: z.string().optional().describe('Only pages matching this') },
+		({ filter }) =>
+			filter
+				? { tool: 'searchPages', args: { query: filter } }
+				: { tool: 'getAllPages', args: {} }
+	)
+	registerToolAlias(
+		server,
+		tools,
+		'read_page',
+		{ pageName: z.string().describe('Name of the page') },
+		({ pageName }) => ({ tool: 'getPage', args: { pageName } })
+	)
+	registerToolAlias(
+		server,
+		tools,
+		'create_page',
+		{
+			pageName: z.string().describe('Name of the page'),
+			content: z.string().optional().describe('Initial content'),
+		},
+		({ pageName, content }) => ({
+			tool: 'createPage',
+			args: { pageName, content },
+		})
+	)
+	registerToolAlias(
+		server,
+		tools,
+		'create_journal_page',
+		{
+			date: z
+				.string()
+				.optional()
+				.describe("'today', 'tomorrow' or a date; today when omitted"),
+		},
+		async ({ date }) => {
+			const day = date?.trim().toLowerCase()
+			const pageName =
+				day === 'tomorrow'
+					? await journalTitle(new Date(Date.now() + 24 * 60 * 60 * 1000))
+					: await journalPageName(day === 'today' ? undefined : date)
+			return { tool: 'createPage', args: { pageName } }
+		}
+	)
+	registerToolAlias(
+		server,
+		tools,
+		'get_block',
+		{ blockUuid: z.string().describe('UUID of the block') },
+		({ blockUuid }) => ({ tool: 'getBlock', args: { blockId: blockUuid } })
+	)
+	registerToolAlias(server, tools, 'get_today_journal', {}, () => ({
+		tool: 'get_journal_by_date',
+		args: { date: toIsoDate(new Date()) },
+	}))
+
+	// --- Resources ---
+	// Pages, journals and blocks can be attached as context without a tool call
+
+	const MAX_COMPLETIONS = 50
+
+	function pageUri(pageName: string): string {
+		return `logseq://page/${encodeURIComponent(pageName)}`
+	}
+
+	function journalUri(journalDay: number): string {
+		return `logseq://journal/${toIsoDate(fromJournalDay(journalDay))}`
+	}
+
+	// Render blocks as an indented markdown outline
+	function formatOutline(blocks: any[], level = 0): string {
+		return flattenBlocks(blocks, level)
+			.map(({ block, level }) => `${'  '.repeat(level)}- ${block.content}`)
+			.join('\n')
+	}
+
+	function markdownResource(uri: URL, text: string) {
+		return {
+			contents: [{ uri: uri.href, mimeType: 'text/markdown', text }],
+		}
+	}
+
+	// Complete against names of the given pages, prefix matches first
+	function completeNames(names: string[], value: string): string[] {
+		const query = value.toLowerCase()
+		const prefixed = names.filter((name) =>
+			name.toLowerCase().startsWith(query)
+		)
+		const contained = names.filter(
+			(name) =>
+				!name.toLowerCase().startsWith(query) &&
+				name.toLowerCase().includes(query)
+		)
+		return [...prefixed, ...contained].slice(0, MAX_COMPLETIONS)
+	}
+
+	server.registerResource(
+		'page',
+		new ResourceTemplate('logseq://page/{name}', {
+			list: async () => {
+				const pages = await backend.getAllPages()
+				return {
+					resources: pages
+						.filter((page) => !page['journal?'])
+						.map((page) => ({
+							uri: pageUri(page.originalName),
+							name: page.originalName,
+							mimeType: 'text/markdown',
+						})),
+				}
+			},
+			complete: {
+				name: async (value) => {
+					const pages = await backend.getAllPages()
+					return completeNames(
+						pages
+							.filter((page) => !page['journal?'])
+							.map((page) => page.originalName),
+						value
+					)
+				},
+			},
+		}),
+		{
+			title: 'Logseq page',
+			description: 'Content of a Logseq page as a markdown outline',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { name }) => {
+			const pageName = decodeURIComponent(String(name))
+			const blocks = await backend.getBlocksTree(pageName)
+			if (!blocks) {
+				throw new GraphError('NOT_FOUND', `Page "${pageName}" not found`)
+			}
+			return markdownResource(
+				uri,
+				`# ${pageName}\n\n${formatOutline(blocks)}\n`
+			)
+		}
+	)
+
+	server.registerResource(
+		'journal',
+		new ResourceTemplate('logseq://journal/{date}', {
+			list: async () => {
+				const pages = await backend.getAllPages()
+				return {
+					resources: pages
+						.filter((page) => page['journal?'] && page.journalDay)
+						.sort((a, b) => b.journalDay - a.journalDay)
+						.map((page) => ({
+							uri: journalUri(page.journalDay),
+							name: page.originalName,
+							mimeType: 'text/markdown',
+						})),
+				}
+			},
+			complete: {
+				date: async (value) => {
+					const pages = await backend.getAllPages()
+					return pages
+						.filter((page) => page.journalDay)
+						.sort((a, b) => b.journalDay - a.journalDay)
+						.map((page) => toIsoDate(fromJournalDay(page.journalDay)))
+						.filter((date) => date.startsWith(value))
+						.slice(0, MAX_COMPLETIONS)
+				},
+			},
+		}),
+		{
+			title: 'Logseq journal',
+			description: 'Journal page for a date given as YYYY-MM-DD',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { date }) => {
+			const day = parseIsoDate(String(date))
+			if (!day) {
+				throw new GraphError(
+					'INVALID_ARGUMENT',
+					`Invalid journal date "${date}" (expected YYYY-MM-DD)`
+				)
+			}
+
+			// Look the journal up by day so any title format works
+			const journalDay = toJournalDay(day)
+			const pages = await backend.getAllPages()
+			const page = pages.find((page) => page.journalDay === journalDay)
+			const blocks = page ? await backend.getBlocksTree(page.name) : null
+			if (!blocks) {
+				throw new GraphError('NOT_FOUND', `No journal entry found for ${date}`)
+			}
+			return markdownResource(
+				uri,
+				`# ${page.originalName}\n\n${formatOutline(blocks)}\n`
+			)
+		}
+	)
+
+	server.registerResource(
+		'block',
+		// Blocks are too many to list; they are read by uuid
+		new ResourceTemplate('logseq://block/{uuid}', { list: undefined }),
+		{
+			title: 'Logseq block',
+			description: 'A block and its children as a markdown outline',
+			mimeType: 'text/markdown',
+		},
+		async (uri, { uuid }) => {
+			const block = await backend.getBlock(String(uuid), {
+				includeChildren: true,
+			})
+			if (!block) {
+				throw new GraphError('NOT_FOUND', `Block ${uuid} not found`)
 			}
+			return markdownResource(uri, `${formatOutline([block])}\n`)
 		}
+	)
+
+	// --- Prompts ---
+	// Reusable workflows that start a conversation with live graph context
+
+	const OPEN_TASK_MARKERS = ['TODO', 'LATER', 'NOW', 'DOING']
+
+	const DAY_MS = 24 * 60 * 60 * 1000
+
+	interface OpenTask {
+		page: string
+		content: string
+		marker: string
+	}
+
+	// Open journal tasks updated since a point in time. Uses the
+	// taskQueryWithTime template where Datalog is available and walks the
+	// journals otherwise.
+	async function findOpenTasks(since: Date): Promise<OpenTask[]> {
+		if (backend.kind === 'http') {
+			const results = await queryGraph(QUERY_TEMPLATES.taskQueryWithTime, [
+				since.getTime(),
+			])
+			return results.map(([page, content, marker]) => ({
+				page,
+				content,
+				marker,
+			}))
+		}
+
+		const tasks: OpenTask[] = []
+		const graph = backend.snapshot()
+		for (const page of await graph.getAllPages()) {
+			if (!page['journal?']) continue
+			const blocks = await getPageContent(page.name, graph)
+			if (!blocks) continue
+			for (const { block } of flattenBlocks(blocks)) {
+				if (
+					OPEN_TASK_MARKERS.includes(block.marker) &&
+					(block.updatedAt ?? 0) > since.getTime()
+				) {
+					tasks.push({
+						page: page.originalName,
+						content: block.content,
+						marker: block.marker,
+					})
+				}
+			}
+		}
+		return tasks
+	}
+
+	// Names of pages edited since a point in time, most recent first
+	async function findRecentPages(since: Date, limit = 15): Promise<string[]> {
+		const pages = await backend.getAllPages()
+		return pages
+			.filter((page) => (page.updatedAt ?? 0) > since.getTime())
+			.sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0))
+			.slice(0, limit)
+			.map((page) => page.originalName)
+	}
+
+	async function pageOutlineOrNote(pageName: string, missing: string) {
+		const blocks = await getPageContent(pageName)
+		return blocks && blocks.length > 0 ? formatOutline(blocks) : missing
+	}
+
+	function formatTaskList(tasks: OpenTask[]): string {
+		if (tasks.length === 0) return 'No open tasks.'
+		return tasks
+			.map((task) => `- ${task.content} (in [[${task.page}]])`)
+			.join('\n')
 	}
-)
 
-const transport = new StdioServerTransport()
-await server.connect(transport)
+	function formatPageList(pageNames: string[]): string {
+		if (pageNames.length === 0) return 'No recently edited pages.'
+		return pageNames.map((name) => `- [[${name}]]`).join('\n')
+	}
+
+	function promptResult(description: string, text: string) {
+		return {
+			description,
+			messages: [
+				{
+					role: 'user' as const,
+					content: { type: 'text' as const, text },
+				},
+			],
+		}
+	}
+
+	async function completePageName(value: string): Promise<string[]> {
+		const pages = await backend.getAllPages()
+		return completeNames(
+			pages
+				.filter((page) => !page['journal?'])
+				.map((page) => page.originalName),
+			value || ''
+		)
+	}
+
+	server.registerPrompt(
+		'dailyReview',
+		{
+			title: 'Daily review',
+			description:
+				"Review a day's journal, open tasks and recent pages, and plan the next day",
+			argsSchema: {
+				date: completable(
+					z
+						.string()
+						.optional()
+						.describe('Day to review as YYYY-MM-DD (default: today)'),
+					async (value) => {
+						const pages = await backend.getAllPages()
+						return pages
+							.filter((page) => page.journalDay)
+							.sort((a, b) => b.journalDay - a.journalDay)
+							.map((page) => toIsoDate(fromJournalDay(page.journalDay)))
+							.filter((date) => date.startsWith(value || ''))
+							.slice(0, MAX_COMPLETIONS)
+					}
+				),
+			},
+		},
+		async ({ date }) => {
+			const day = date ? parseIsoDate(date) : new Date()
+			if (!day) {
+				throw new GraphError(
+					'INVALID_ARGUMENT',
+					`Invalid date "${date}" (expected YYYY-MM-DD)`
+				)
+			}
+
+			const journalName = await journalTitle(day)
+			const since = new Date(day.getTime() - 7 * DAY_MS)
+			const [journal, tasks, recentPages] = await Promise.all([
+				pageOutlineOrNote(journalName, 'No journal entry yet.'),
+				findOpenTasks(since),
+				findRecentPages(new Date(day.getTime() - DAY_MS)),
+			])
+
+			return promptResult(
+				`Daily review for ${journalName}`,
+				`Help me run a daily review for [[${journalName}]].
+
+1. Summarize what I did and noted today.
+2. Go through the open tasks: which are done, which should move to tomorrow, which can be dropped.
+3. Point out anything in today's notes that deserves its own page or a link to an existing one.
+4. Suggest up to three priorities for tomorrow.
+
+Write the review as a Logseq outline I can add to the journal with addJournalContent.
+
+## Journal: ${journalName}
+${journal}
+
+## Open tasks from the last 7 days
+${formatTaskList(tasks)}
+
+## Pages edited since yesterday
+${formatPageList(recentPages)}`
+			)
+		}
+	)
+
+	server.registerPrompt(
+		'weeklyReview',
+		{
+			title: 'Weekly review',
+			description:
+				'Review the journals, open tasks and active pages of a period',
+			argsSchema: {
+				dateRange: completable(
+					z
+						.string()
+						.optional()
+						.describe(
+							'Period to review, e.g. "this week", "last week" or "2025-W12"'
+						),
+					(value) =>
+						DATE_RANGE_EXAMPLES.filter((range) =>
+							range.startsWith((value || '').toLowerCase())
+						)
+				),
+			},
+		},
+		async ({ dateRange = 'this week' }) => {
+			const range = await journalDateRange(dateRange)
+			const { start } = range
+
+			const pages = await backend.getAllPages()
+			const journals = journalPagesInRange(pages, range)
+
+			let journalText = ''
+			for (const page of journals) {
+				const outline = await pageOutlineOrNote(page.name, '(empty)')
+				journalText += `### ${page.originalName}\n${outline}\n\n`
+			}
+
+			const [tasks, recentPages] = await Promise.all([
+				findOpenTasks(start),
+				findRecentPages(start, 25),
+			])
+
+			return promptResult(
+				`Weekly review for ${range.label}`,
+				`Help me run a weekly review for ${range.label} (${toIsoDate(
+					range.start
+				)} to ${toIsoDate(range.end)}).
+
+1. Summarize the main themes, accomplishments and blockers from the journals.
+2. List open tasks that are stale or should be rescheduled.
+3. Name the projects and pages that got the most attention, and any that were neglected.
+4. Propose goals for the next period.
+
+Write the review as a Logseq outline.
+
+## Journals
+${journalText.trim() || 'No journal entries in this period.'}
+
+## Open tasks
+${formatTaskList(tasks)}
+
+## Pages edited in this period
+${formatPageList(recentPages)}`
+			)
+		}
+	)
+
+	server.registerPrompt(
+		'meetingNotes',
+		{
+			title: 'Meeting notes',
+			description: 'Prepare a meeting note page linked to a project and today',
+			argsSchema: {
+				title: z.string().describe('Meeting title'),
+				attendees: z
+					.string()
+					.optional()
+					.describe('Comma-separated attendee names'),
+				project: completable(
+					z.string().optional().describe('Project page the meeting is about'),
+					completePageName
+				),
+			},
+		},
+		async ({ title, attendees, project }) => {
+			const today = await journalTitle(new Date())
+			const { todo } = workflowMarkers(await loadGraphConfig())
+			const attendeeLinks = (attendees || '')
+				.split(',')
+				.map((name) => name.trim())
+				.filter(Boolean)
+				.map((name) => `[[${name}]]`)
+				.join(', ')
+
+			let projectContext = ''
+			if (project) {
+				const tasks = (
+					await findOpenTasks(new Date(Date.now() - 30 * DAY_MS))
+				).filter((task) =>
+					task.content.toLowerCase().includes(`[[${project.toLowerCase()}]]`)
+				)
+				projectContext = `
+
+## Project: ${project}
+${await pageOutlineOrNote(project, 'This page does not exist yet.')}
+
+## Open tasks mentioning [[${project}]]
+${formatTaskList(tasks)}`
+			}
+
+			return promptResult(
+				`Meeting notes for ${title}`,
+				`Help me take notes for the meeting "${title}".
+
+Create a Logseq page outline with these page properties:
+type:: meeting
+date:: [[${today}]]${attendeeLinks ? `\nattendees:: ${attendeeLinks}` : ''}${
+					project ? `\nproject:: [[${project}]]` : ''
+				}
+
+Then sections for Agenda, Notes, Decisions and Action items. Write action items as ${todo} blocks naming the owner as a page link. Use the context below to suggest agenda items. When I am done, offer to save the page with addNoteContent and to link it from today's journal.
+
+## Today's journal: ${today}
+${await pageOutlineOrNote(today, 'No journal entry yet.')}${projectContext}`
+			)
+		}
+	)
+
+	server.registerPrompt(
+		'literatureNote',
+		{
+			title: 'Literature note',
+			description:
+				'Turn a book, article or paper into a linked literature note',
+			argsSchema: {
+				source: z.string().describe('Title of the book, article or paper'),
+				author: z.string().optional().describe('Author'),
+				url: z.string().optional().describe('Link to the source'),
+				related: completable(
+					z.string().optional().describe('Existing page the source relates to'),
+					completePageName
+				),
+			},
+		},
+		async ({ source, author, url, related }) => {
+			const [existing, relatedOutline, recentPages] = await Promise.all([
+				pageOutlineOrNote(source, 'No page for this source yet.'),
+				related
+					? pageOutlineOrNote(related, 'This page does not exist yet.')
+					: Promise.resolve(''),
+				findRecentPages(new Date(Date.now() - 14 * DAY_MS), 25),
+			])
+
+			return promptResult(
+				`Literature note for ${source}`,
+				`Help me write a literature note for "${source}".
+
+Use these page properties:
+type:: literature${author ? `\nauthor:: [[${author}]]` : ''}${
+					url ? `\nurl:: ${url}` : ''
+				}
+
+Structure the note as: Summary (in my own words), Key ideas (one block each), Quotes, Questions, and Connections. In Connections, link ideas to existing pages from the context below rather than inventing new ones. Offer to save the note with addNoteContent.
+
+## Existing page: ${source}
+${existing}${
+					related ? `\n\n## Related page: ${related}\n${relatedOutline}` : ''
+				}
+
+## Recently edited pages
+${formatPageList(recentPages)}`
+			)
+		}
+	)
+
+	server.registerPrompt(
+		'projectKickoff',
+		{
+			title: 'Project kickoff',
+			description: 'Set up a project page with goals, scope and first tasks',
+			argsSchema: {
+				project: completable(
+					z.string().describe('Project page name'),
+					completePageName
+				),
+				goal: z.string().optional().describe('What the project should achieve'),
+				deadline: z.string().optional().describe('Target date as YYYY-MM-DD'),
+			},
+		},
+		async ({ project, goal, deadline }) => {
+			const deadlineDate = deadline ? parseIsoDate(deadline) : null
+			if (deadline && !deadlineDate) {
+				throw new GraphError(
+					'INVALID_ARGUMENT',
+					`Invalid deadline "${deadline}" (expected YYYY-MM-DD)`
+				)
+			}
+
+			const [existing, backlinks, tasks] = await Promise.all([
+				pageOutlineOrNote(project, 'This page does not exist yet.'),
+				findBacklinks(project.toLowerCase()),
+				findOpenTasks(new Date(Date.now() - 30 * DAY_MS)),
+			])
+			const projectTasks = tasks.filter((task) =>
+				task.content.toLowerCase().includes(`[[${project.toLowerCase()}]]`)
+			)
+			const { todo } = workflowMarkers(await loadGraphConfig())
+
+			return promptResult(
+				`Project kickoff for ${project}`,
+				`Help me kick off the project [[${project}]].${
+					goal ? `\n\nGoal: ${goal}` : ''
+				}
+
+Draft the project page as a Logseq outline with these page properties:
+type:: project
+status:: active${
+					deadlineDate
+						? `\ndeadline:: [[${await journalTitle(deadlineDate)}]]`
+						: ''
+				}
+
+Then sections for Goal, Scope (in and out), Milestones, Risks and First tasks. Write first tasks as ${todo} blocks. Reuse what already exists below instead of repeating it, and link related pages. Offer to save the page with addNoteContent.
+
+## Existing page: ${project}
+${existing}
+
+## Pages linking here
+${formatPageList(backlinks)}
+
+## Open tasks mentioning [[${project}]]
+${formatTaskList(projectTasks)}`
+			)
+		}
+	)
+
+	// --- Resource subscriptions ---
+	// Clients subscribe to resource URIs and are notified when the graph files
+	// behind them change
+
+	const subscriptions = new Set<string>()
+
+	server.server.registerCapabilities({
+		resources: { subscribe: true, listChanged: true },
+	})
+
+	server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+		subscriptions.add(request.params.uri)
+		return {}
+	})
+
+	server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+		subscriptions.delete(request.params.uri)
+		return {}
+	})
+
+	async function notifyGraphChange(change: GraphChange) {
+		if (change.listChanged) server.sendResourceListChanged()
+
+		const changedUris = new Set(
+			change.pages.map((page) =>
+				page.journalDay
+					? journalUri(page.journalDay)
+					: pageUri(page.originalName)
+			)
+		)
+		const changedNames = new Set(change.pages.map((page) => page.name))
+
+		for (const uri of subscriptions) {
+			let updated = changedUris.has(uri)
+
+			// A block changed if its page changed or it no longer exists
+			if (!updated && uri.startsWith('logseq://block/')) {
+				const uuid = decodeURIComponent(uri.slice('logseq://block/'.length))
+				const block = await backend.getBlock(uuid, { includeChildren: false })
+				const page = block && (await blockPageName(backend, block))
+				updated = !block || changedNames.has(page?.toLowerCase())
+			}
+
+			if (updated) await server.server.sendResourceUpdated({ uri })
+		}
+	}
+
+	graphChangeListeners.add(notifyGraphChange)
+	server.server.onclose = () => {
+		graphChangeListeners.delete(notifyGraphChange)
+	}
+
+	return server
+}
+
+if (config.server.transport === 'http') {
+	await startHttpServer(createServer, config.server)
+} else {
+	await createServer().connect(new StdioServerTransport())
+}
+
+if (config.watch && backend.graphPath) {
+	watchGraph(
+		backend.graphPath,
+		async (change) => {
+			for (const listener of graphChangeListeners) await listener(change)
+		},
+		{ locale: config.journalLocale }
+	)
+}
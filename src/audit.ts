@@ -0,0 +1,96 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { dataDir } from './data-dirs.js'
+
+// Append-only JSONL log of every tool call that wrote to the graph, so edits
+// made by an assistant can be told apart from everyone else's.
+
+export interface AuditTarget {
+	// Lower-cased page name
+	page: string
+	// Blocks created, edited or deleted on the page
+	blocks: string[]
+	// sha256 of the page's blocks and properties; null when it did not exist
+	beforeHash: string | null
+	afterHash: string | null
+}
+
+export interface AuditEntry {
+	// ISO timestamp
+	time: string
+	tool: string
+	arguments: Record<string, any>
+	// MCP session (HTTP) or process-level id (stdio)
+	session: string
+	// Client name and version reported at initialization
+	client?: string
+	outcome: 'ok' | 'error'
+	error?: string
+	// Change recorded for undo_change, if any
+	changeId?: string
+	targets: AuditTarget[]
+}
+
+export interface AuditFilter {
+	// Inclusive bounds, compared with the entry time
+	from?: Date
+	to?: Date
+	tool?: string
+	// Entries that touched this page
+	page?: string
+	session?: string
+	// Newest entries first, at most this many
+	limit?: number
+}
+
+export interface AuditLog {
+	readonly path: string
+	append(entry: AuditEntry): void
+	read(filter?: AuditFilter): AuditEntry[]
+}
+
+// In the graph's state directory, or the shared one when the graph is not
+// on disk
+export function defaultAuditLogPath(graphPath?: string): string {
+	return path.join(dataDir('state', graphPath), 'audit.jsonl')
+}
+
+export function createAuditLog(filePath: string): AuditLog {
+	return {
+		path: filePath,
+
+		append: (entry) => {
+			fs.mkdirSync(path.dirname(filePath), { recursive: true })
+			fs.appendFileSync(filePath, JSON.stringify(entry) + '\n', 'utf-8')
+		},
+
+		read: (filter = {}) => {
+			if (!fs.existsSync(filePath)) return []
+
+			const page = filter.page?.toLowerCase()
+			const entries: AuditEntry[] = []
+			for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+				if (!line.trim()) continue
+				let entry: AuditEntry
+				try {
+					entry = JSON.parse(line)
+				} catch (error) {
+					// A line cut short by a crash; skip it
+					continue
+				}
+
+				const time = new Date(entry.time)
+				if (filter.from && time < filter.from) continue
+				if (filter.to && time > filter.to) continue
+				if (filter.tool && entry.tool !== filter.tool) continue
+				if (filter.session && entry.session !== filter.session) continue
+				if (page && !entry.targets.some((target) => target.page === page)) {
+					continue
+				}
+				entries.push(entry)
+			}
+
+			return entries.reverse().slice(0, filter.limit ?? entries.length)
+		},
+	}
+}
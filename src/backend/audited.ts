@@ -0,0 +1,182 @@
+import { createHash } from 'crypto'
+import type { AuditTarget } from '../audit.js'
+import { blockPageName } from './block-page.js'
+import type { BlockEntity, GraphBackend, WriteOptions } from './types.js'
+
+// Wraps the backend a tool writes through and notes which pages and blocks
+// each write touched, with a hash of every page before and after. Pages and
+// blocks are looked up in a snapshot, so each write reads the graph once
+// beforehand and the hashes after all writes read it once more.
+
+function outline(blocks: BlockEntity[]): any[] {
+	return blocks.map((block) => ({
+		content: block.content,
+		children: outline(block.children || []),
+	}))
+}
+
+export function createAuditedBackend<Backend extends GraphBackend>(
+	inner: Backend
+): Backend & { targets(): Promise<AuditTarget[]> } {
+	const touched = new Map<
+		string,
+		{ beforeHash: string | null; blocks: Set<string>; written: boolean }
+	>()
+
+	async function hashPage(
+		graph: GraphBackend,
+		pageName: string
+	): Promise<string | null> {
+		const page = await graph.getPage(pageName)
+		if (!page) return null
+		const blocks = (await graph.getBlocksTree(page.name)) || []
+		const text = JSON.stringify({
+			properties: page.properties || {},
+			blocks: outline(blocks),
+		})
+		return `sha256:${createHash('sha256').update(text).digest('hex')}`
+	}
+
+	// Hash the page before the first write to it
+	async function touch(graph: GraphBackend, pageName: string) {
+		const key = pageName.toLowerCase()
+		if (!touched.has(key)) {
+			touched.set(key, {
+				beforeHash: await hashPage(graph, pageName),
+				blocks: new Set(),
+				written: false,
+			})
+		}
+	}
+
+	function written(pageName: string, blockUuid?: string) {
+		const page = touched.get(pageName.toLowerCase())
+		if (!page) return
+		page.written = true
+		if (blockUuid) page.blocks.add(blockUuid)
+	}
+
+	async function pageOfBlock(
+		graph: GraphBackend,
+		uuid: string
+	): Promise<string | null> {
+		const block = await graph.getBlock(uuid, { includeChildren: false })
+		return block && (await blockPageName(graph, block))
+	}
+
+	// Run a write to a page and note it, also when it fails halfway
+	async function write<T>(
+		pageName: string | null,
+		run: () => Promise<T>,
+		blockUuid?: (result: T | undefined) => string | undefined,
+		graph = inner.snapshot()
+	): Promise<T> {
+		if (!pageName) return run()
+		await touch(graph, pageName)
+		let result: T | undefined
+		try {
+			result = await run()
+			return result
+		} finally {
+			written(pageName, blockUuid?.(result))
+		}
+	}
+
+	// id:: properties a write gives referenced blocks on other pages are
+	// noted as writes to those pages
+	function auditReferences<Options extends WriteOptions>(
+		options: Options = {} as Options
+	): Options {
+		const outer = options.writeReferencedPage
+		return {
+			...options,
+			writeReferencedPage: (pageName, uuid, run) =>
+				write(
+					pageName,
+					() => (outer ? outer(pageName, uuid, run) : run()),
+					() => uuid
+				),
+		}
+	}
+
+	return {
+		...inner,
+
+		createPage: (pageName, properties, options) =>
+			write(pageName, () => inner.createPage(pageName, properties, options)),
+
+		deletePage: (pageName) => write(pageName, () => inner.deletePage(pageName)),
+
+		setPageProperty: (pageName, key, value) =>
+			write(pageName, () => inner.setPageProperty(pageName, key, value)),
+
+		appendBlock: (pageName, content, options) =>
+			write(
+				pageName,
+				() => inner.appendBlock(pageName, content, auditReferences(options)),
+				(block) => block?.uuid
+			),
+
+		insertBlock: async (target, content, options = {}) => {
+			const graph = inner.snapshot()
+			return write(
+				options.isPageBlock ? target : await pageOfBlock(graph, target),
+				() => inner.insertBlock(target, content, auditReferences(options)),
+				(block) => block?.uuid,
+				graph
+			)
+		},
+
+		updateBlock: async (uuid, content, options) => {
+			const graph = inner.snapshot()
+			return write(
+				await pageOfBlock(graph, uuid),
+				() => inner.updateBlock(uuid, content, auditReferences(options)),
+				() => uuid,
+				graph
+			)
+		},
+
+		deleteBlock: async (uuid, options) => {
+			const graph = inner.snapshot()
+			return write(
+				await pageOfBlock(graph, uuid),
+				() => inner.deleteBlock(uuid, options),
+				() => uuid,
+				graph
+			)
+		},
+
+		writePageFile: (pageName, text) =>
+			write(pageName, () => inner.writePageFile(pageName, text)),
+
+		undoChange: async (id, options) => {
+			const change = (await inner.listChanges(Infinity)).find(
+				(entry) => entry.id === id
+			)
+			const pages = change?.pages.map((page) => page.page) || []
+			const graph = inner.snapshot()
+			for (const page of pages) await touch(graph, page)
+			try {
+				return await inner.undoChange(id, options)
+			} finally {
+				for (const page of pages) written(page)
+			}
+		},
+
+		targets: async () => {
+			const graph = inner.snapshot()
+			const targets: AuditTarget[] = []
+			for (const [page, { beforeHash, blocks, written }] of touched) {
+				if (!written) continue
+				targets.push({
+					page,
+					blocks: [...blocks],
+					beforeHash,
+					afterHash: await hashPage(graph, page),
+				})
+			}
+			return targets
+		},
+	}
+}
@@ -0,0 +1,12 @@
+import type { BlockEntity, GraphBackend } from './types.js'
+
+// Name of the page a block lives on. The Logseq API only gives the page's id,
+// so it is looked up when the name is missing.
+export async function blockPageName(
+	backend: GraphBackend,
+	block: BlockEntity
+): Promise<string | null> {
+	if (block.page?.name) return block.page.name
+	if (block.page?.id === undefined) return null
+	return (await backend.getPage(block.page.id))?.name || null
+}
@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid'
+import { diffBlocks, diffProperties } from '../diff.js'
+import { GraphError } from '../errors.js'
+import { blockPageName } from './block-page.js'
+import type {
+	BlockEntity,
+	DryRunBackend,
+	GraphBackend,
+	PageEntity,
+	PagePreview,
+} from './types.js'
+
+// Sandbox for backends without files (the HTTP API): pages are copied into
+// memory the first time they are touched and writes only change the copies.
+
+interface SandboxPage {
+	page: PageEntity | null
+	original: { page: PageEntity | null; blocks: BlockEntity[] }
+	blocks: BlockEntity[]
+}
+
+interface FoundBlock {
+	block: BlockEntity
+	siblings: BlockEntity[]
+	index: number
+}
+
+function cloneBlocks(blocks: BlockEntity[]): BlockEntity[] {
+	return JSON.parse(JSON.stringify(blocks))
+}
+
+function findIn(blocks: BlockEntity[], uuid: string): FoundBlock | null {
+	for (let index = 0; index < blocks.length; index++) {
+		const block = blocks[index]
+		if (block.uuid === uuid) return { block, siblings: blocks, index }
+		const found = findIn(block.children || [], uuid)
+		if (found) return found
+	}
+	return null
+}
+
+export function createDryRunBackend(inner: GraphBackend): DryRunBackend {
+	// Keyed by lower-cased page name
+	const pages = new Map<string, SandboxPage>()
+
+	async function loadPage(pageNameOrUuid: string): Promise<SandboxPage> {
+		const key = pageNameOrUuid.toLowerCase()
+		const loaded =
+			pages.get(key) ||
+			[...pages.values()].find(({ page }) => page?.uuid === pageNameOrUuid)
+		if (loaded) return loaded
+
+		const page = await inner.getPage(pageNameOrUuid)
+		const blocks = (page && (await inner.getBlocksTree(page.name))) || []
+		const sandboxPage: SandboxPage = {
+			page: page && { ...page },
+			original: { page, blocks: cloneBlocks(blocks) },
+			blocks: cloneBlocks(blocks),
+		}
+		pages.set(page?.name || key, sandboxPage)
+		return sandboxPage
+	}
+
+	async function findBlock(uuid: string): Promise<FoundBlock | null> {
+		for (const { blocks } of pages.values()) {
+			const found = findIn(blocks, uuid)
+			if (found) return found
+		}
+
+		const block = await inner.getBlock(uuid, { includeChildren: false })
+		if (!block) return null
+		const pageName = await blockPageName(inner, block)
+		if (!pageName) return null
+		return findIn((await loadPage(pageName)).blocks, uuid)
+	}
+
+	async function requireBlock(uuid: string): Promise<FoundBlock> {
+		const found = await findBlock(uuid)
+		if (!found) throw new GraphError('NOT_FOUND', `Block ${uuid} not found`)
+		return found
+	}
+
+	function newBlock(
+		page: PageEntity,
+		content: string,
+		parent?: BlockEntity
+	): BlockEntity {
+		return {
+			uuid: uuidv4(),
+			content,
+			page: { name: page.name, originalName: page.originalName },
+			parent: parent ? { uuid: parent.uuid } : undefined,
+			children: [],
+		}
+	}
+
+	const backend: DryRunBackend = {
+		...inner,
+
+		getAllPages: async () => {
+			const result = (await inner.getAllPages()).filter(
+				(page) => !pages.has(page.name)
+			)
+			for (const { page } of pages.values()) {
+				if (page) result.push(page)
+			}
+			return result
+		},
+
+		getPage: async (pageNameOrId) =>
+			typeof pageNameOrId === 'number'
+				? inner.getPage(pageNameOrId)
+				: (await loadPage(pageNameOrId)).page,
+
+		getBlocksTree: async (pageNameOrUuid) => {
+			const { page, blocks } = await loadPage(pageNameOrUuid)
+			return page ? cloneBlocks(blocks) : null
+		},
+
+		getBlock: async (uuid, options = {}) => {
+			const found = await findBlock(uuid)
+			if (!found) return null
+			const [block] = cloneBlocks([found.block])
+			if (options.includeChildren === false) delete block.children
+			return block
+		},
+
+		getPageProperties: async (pageName) =>
+			(await loadPage(pageName)).page?.properties || null,
+
+		createPage: async (pageName, properties = {}, options = {}) => {
+			const sandboxPage = await loadPage(pageName)
+			if (sandboxPage.page) return sandboxPage.page
+
+			sandboxPage.page = {
+				uuid: uuidv4(),
+				name: pageName.toLowerCase(),
+				originalName: pageName,
+				'journal?': !!options.journal,
+				properties: Object.keys(properties).length > 0 ? properties : undefined,
+			}
+			return sandboxPage.page
+		},
+
+		deletePage: async (pageName) => {
+			const sandboxPage = await loadPage(pageName)
+			if (!sandboxPage.page) {
+				throw new GraphError('NOT_FOUND', `Page ${pageName} does not exist`)
+			}
+			sandboxPage.page = null
+			sandboxPage.blocks = []
+		},
+
+		setPageProperty: async (pageName, key, value) => {
+			const { page } = await loadPage(pageName)
+			if (!page) {
+				throw new GraphError('NOT_FOUND', `Page ${pageName} does not exist`)
+			}
+			page.properties = { ...page.properties, [key]: value }
+		},
+
+		appendBlock: async (pageName, content) => {
+			const { page, blocks } = await loadPage(pageName)
+			if (!page) return null
+			const block = newBlock(page, content)
+			blocks.push(block)
+			return block
+		},
+
+		insertBlock: async (target, content, options = {}) => {
+			if (options.isPageBlock) return backend.appendBlock(target, content)
+
+			const { block, siblings, index } = await requireBlock(target)
+			const page = (await loadPage(block.page!.name)).page!
+			const { sibling = false, before = false } = options
+
+			if (sibling) {
+				const parent = block.parent && (await findBlock(block.parent.uuid))
+				const inserted = newBlock(page, content, parent?.block)
+				siblings.splice(before ? index : index + 1, 0, inserted)
+				return inserted
+			}
+
+			const inserted = newBlock(page, content, block)
+			block.children = block.children || []
+			if (before) block.children.unshift(inserted)
+			else block.children.push(inserted)
+			return inserted
+		},
+
+		updateBlock: async (uuid, content) => {
+			const { block } = await requireBlock(uuid)
+			block.content = content
+		},
+
+		deleteBlock: async (uuid) => {
+			const { siblings, index } = await requireBlock(uuid)
+			siblings.splice(index, 1)
+		},
+
+		writePageFile: async () => {
+			throw new GraphError(
+				'UNSUPPORTED',
+				'Page files can only be written with the filesystem backend'
+			)
+		},
+
+		// Reads already come from the sandbox
+		snapshot: () => backend,
+
+		dryRun: () => createDryRunBackend(backend),
+
+		track: () => ({ ...backend, commit: async () => null }),
+
+		undoChange: async () => {
+			throw new GraphError(
+				'UNSUPPORTED',
+				'Changes cannot be undone in a dry run'
+			)
+		},
+
+		preview: async () => {
+			const previews: PagePreview[] = []
+			for (const { page, original, blocks } of pages.values()) {
+				const preview: PagePreview = {
+					page: (page || original.page)?.originalName || '',
+					blocks: diffBlocks(original.blocks, blocks),
+				}
+				if (!original.page && page) preview.created = true
+				if (original.page && !page) preview.deleted = true
+				const properties = diffProperties(
+					original.page?.properties,
+					page?.properties
+				)
+				if (properties.length > 0) preview.properties = properties
+
+				if (
+					preview.created ||
+					preview.deleted ||
+					preview.blocks.length > 0 ||
+					preview.properties
+				) {
+					previews.push(preview)
+				}
+			}
+			return { pages: previews }
+		},
+	}
+
+	return backend
+}
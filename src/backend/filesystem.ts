@@ -0,0 +1,1392 @@
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid'
+import {
+	DEFAULT_LOCALE,
+	journalDayFromFileName,
+	journalDayFromTitle,
+	journalFileName,
+	journalTitleFromDay,
+} from '../dates.js'
+import type { HistoryConfig } from '../config.js'
+import { dataDir } from '../data-dirs.js'
+import {
+	buildDatabase,
+	runQuery,
+	startDeadline,
+	type Database,
+} from '../datalog.js'
+import { diffBlocks, diffProperties, mergeLines, unifiedDiff } from '../diff.js'
+import { GraphError } from '../errors.js'
+import {
+	DEFAULT_GRAPH_CONFIG,
+	isHiddenPath,
+	parseGraphConfig,
+	type GraphConfig,
+} from '../graph-config.js'
+import {
+	formatBlock,
+	parseMarkdown,
+	parseProperty,
+	type MarkdownBlock,
+} from '../markdown.js'
+import {
+	formatOrgBlock,
+	orgIdLines,
+	parseOrg,
+	setOrgPageProperty,
+} from '../org.js'
+import { createSearchIndex, indexedPage } from '../search-index.js'
+import {
+	createChangeHistory,
+	type ChangeHistory,
+	type ChangeRecord,
+} from './history.js'
+import type {
+	BlockEntity,
+	ChangeEntry,
+	GraphBackend,
+	InsertBlockOptions,
+	PageEntity,
+	PagePreview,
+	WriteOptions,
+} from './types.js'
+
+// Default Logseq directories to check
+export const POSSIBLE_LOGSEQ_PATHS = [
+	'/Users/gonzaloriederer/logseq-graph',
+	path.join(os.homedir(), 'Documents', 'logseq'),
+	path.join(os.homedir(), 'logseq'),
+	path.join(os.homedir(), 'Logseq'),
+	path.join(os.homedir(), 'Documents', 'Logseq'),
+]
+
+// Namespace used to derive stable page and block UUIDs
+const PAGE_UUID_NAMESPACE = '5b2c6a0e-8c1e-4c5e-9f3a-0d6f1c7e2a41'
+
+// SCHEDULED: <2025-03-14 Fri> and DEADLINE: lines, in markdown and org
+const PLANNING_REGEX = /^(SCHEDULED|DEADLINE):\s*<(\d{4})-(\d{2})-(\d{2})/
+
+const MARKER_REGEX =
+	/^(TODO|DOING|DONE|LATER|NOW|WAITING|IN-PROGRESS|CANCELED|CANCELLED)\s/
+
+// Find Logseq directory
+export function findLogseqDirectory(): string | null {
+	for (const possiblePath of POSSIBLE_LOGSEQ_PATHS) {
+		try {
+			if (fs.existsSync(possiblePath)) {
+				const pagesDir = path.join(possiblePath, 'pages')
+				const journalsDir = path.join(possiblePath, 'journals')
+				if (fs.existsSync(pagesDir) || fs.existsSync(journalsDir)) {
+					return possiblePath
+				}
+			}
+		} catch (error) {
+			// Continue to next path
+		}
+	}
+	return null
+}
+
+// A block as parsed from a page file, along with the lines it occupies
+interface FileBlock extends BlockEntity {
+	level: number
+	// Index of the bullet line
+	start: number
+	// End (exclusive) of the block's own lines, before its children
+	bodyEnd: number
+	// End (exclusive) of the block including all of its children
+	end: number
+	// Whether the uuid is kept in the file as an id:: property
+	persistedId: boolean
+	// Id that earlier versions of this server wrote in front of the content,
+	// 8 or 36 characters
+	prefixId?: string
+	children: FileBlock[]
+}
+
+// Page files are markdown (.md) or org-mode (.org)
+type PageFormat = 'markdown' | 'org'
+
+interface PageFile {
+	page: PageEntity
+	path: string
+	format: PageFormat
+	lines: string[]
+	blocks: FileBlock[]
+	// Indentation unit used by the file (tab or two spaces)
+	indent: string
+	// Line ranges holding page-level properties
+	frontMatter?: { start: number; end: number }
+	propertyLines: number[]
+}
+
+function findMarkdownFiles(dir: string): string[] {
+	const files: string[] = []
+	if (!fs.existsSync(dir)) return files
+
+	try {
+		const items = fs.readdirSync(dir)
+		for (const item of items) {
+			const fullPath = path.join(dir, item)
+			const stat = fs.statSync(fullPath)
+
+			if (stat.isDirectory()) {
+				files.push(...findMarkdownFiles(fullPath))
+			} else if (item.endsWith('.md') || item.endsWith('.org')) {
+				files.push(fullPath)
+			}
+		}
+	} catch (error) {
+		console.error(`Error reading directory ${dir}:`, error)
+	}
+
+	return files
+}
+
+interface StoredFile {
+	text: string
+	createdAt: number
+	updatedAt: number
+}
+
+// Where page files are read from and written to. Dry runs layer an in-memory
+// store over the graph directory so nothing reaches the disk.
+interface PageFileStore {
+	list(dir: string): string[]
+	read(filePath: string): StoredFile
+	// When the file last changed, without reading it
+	modifiedAt(filePath: string): number
+	write(filePath: string, text: string): void
+	remove(filePath: string): void
+}
+
+// Page versions are a hash of the file content, so a file Logseq rewrites
+// unchanged keeps its version
+function pageVersion(text: string): string {
+	return createHash('sha256').update(text).digest('hex').slice(0, 16)
+}
+
+// The last few contents read from each page file, by version, so a write made
+// against an older version can be replayed on it and merged. Files read
+// longest ago are forgotten first once too many contents are kept.
+const KEPT_VERSIONS = 5
+const KEPT_TEXTS = 500
+const recentVersions = new Map<string, Map<string, string>>()
+let keptTexts = 0
+
+function rememberVersion(filePath: string, text: string) {
+	const versions = recentVersions.get(filePath) || new Map<string, string>()
+	const version = pageVersion(text)
+	keptTexts -= versions.size
+	versions.delete(version)
+	versions.set(version, text)
+	if (versions.size > KEPT_VERSIONS) {
+		versions.delete(versions.keys().next().value!)
+	}
+	keptTexts += versions.size
+	// Most recently read last
+	recentVersions.delete(filePath)
+	recentVersions.set(filePath, versions)
+
+	for (const [oldestPath, oldest] of recentVersions) {
+		if (keptTexts <= KEPT_TEXTS || oldestPath === filePath) break
+		keptTexts -= oldest.size
+		recentVersions.delete(oldestPath)
+	}
+}
+
+function findVersionPath(version: string): string | null {
+	for (const [filePath, versions] of recentVersions) {
+		if (versions.has(version)) return filePath
+	}
+	return null
+}
+
+const diskStore: PageFileStore = {
+	list: findMarkdownFiles,
+	read: (filePath) => {
+		const stats = fs.statSync(filePath)
+		const text = fs.readFileSync(filePath, 'utf-8')
+		rememberVersion(filePath, text)
+		return {
+			text,
+			createdAt: stats.birthtimeMs,
+			updatedAt: stats.mtimeMs,
+		}
+	},
+	modifiedAt: (filePath) => fs.statSync(filePath).mtimeMs,
+	write: (filePath, text) => {
+		fs.mkdirSync(path.dirname(filePath), { recursive: true })
+		fs.writeFileSync(filePath, text, 'utf-8')
+	},
+	remove: (filePath) => fs.unlinkSync(filePath),
+}
+
+// Keeps writes in memory; a null entry marks a removed file
+function createOverlayStore(base: PageFileStore) {
+	const changes = new Map<string, string | null>()
+
+	const store: PageFileStore = {
+		list: (dir) => {
+			const files = base
+				.list(dir)
+				.filter((filePath) => changes.get(filePath) !== null)
+			for (const [filePath, text] of changes) {
+				if (
+					text !== null &&
+					filePath.startsWith(dir + path.sep) &&
+					!files.includes(filePath)
+				) {
+					files.push(filePath)
+				}
+			}
+			return files
+		},
+		read: (filePath) => {
+			const text = changes.get(filePath)
+			if (text === null) throw new Error(`${filePath} was removed`)
+			if (text === undefined) return base.read(filePath)
+			const now = Date.now()
+			return { text, createdAt: now, updatedAt: now }
+		},
+		modifiedAt: (filePath) =>
+			changes.has(filePath) ? Date.now() : base.modifiedAt(filePath),
+		write: (filePath, text) => {
+			changes.set(filePath, text)
+		},
+		remove: (filePath) => {
+			changes.set(filePath, null)
+		},
+	}
+
+	return { store, changes }
+}
+
+// Decode a Logseq file name (triple-lowbar namespaces, URL escapes)
+function decodePageFileName(fileName: string): string {
+	const name = fileName.replace(/___/g, '/')
+	try {
+		return decodeURIComponent(name)
+	} catch (error) {
+		return name
+	}
+}
+
+function encodePageFileName(pageName: string): string {
+	return pageName
+		.replace(/[<>:"\\|?*%]/g, (char) => encodeURIComponent(char))
+		.replace(/\//g, '___')
+}
+
+// Split a bullet line's text into an optional leading block id and the content
+function splitBlockId(text: string): { id?: string; content: string } {
+	const fullUuidMatch = text.match(/^([a-f0-9-]{36})\s+(.*)$/)
+	if (fullUuidMatch) return { id: fullUuidMatch[1], content: fullUuidMatch[2] }
+
+	const shortUuidMatch = text.match(/^([a-f0-9]{8})\s+(.*)$/)
+	if (shortUuidMatch) {
+		return { id: shortUuidMatch[1], content: shortUuidMatch[2] }
+	}
+
+	return { content: text }
+}
+
+function parsePageFile(
+	filePath: string,
+	graphPath: string,
+	{ text, createdAt, updatedAt }: StoredFile,
+	config: GraphConfig
+): PageFile {
+	const format = pageFormat(filePath)
+	const parsed = format === 'org' ? parseOrg(text) : parseMarkdown(text)
+
+	// Page name comes from the file name, or the journal date for journals
+	const fileName = path.basename(filePath, path.extname(filePath))
+	const isJournal =
+		path.relative(graphPath, filePath).split(path.sep)[0] === 'journals'
+	let originalName = decodePageFileName(fileName)
+	let journalDay: number | undefined
+
+	if (isJournal) {
+		journalDay =
+			journalDayFromFileName(fileName, config.journalFileNameFormat) ??
+			undefined
+		if (journalDay !== undefined) {
+			originalName = journalTitleFromDay(
+				journalDay,
+				config.journalTitleFormat,
+				config.locale
+			)
+		}
+	}
+
+	const properties = parsed.properties
+	if (properties.title) originalName = properties.title
+
+	const page: PageEntity = {
+		uuid: uuidv5(originalName.toLowerCase(), PAGE_UUID_NAMESPACE),
+		name: originalName.toLowerCase(),
+		originalName,
+		'journal?': isJournal,
+		journalDay,
+		properties: Object.keys(properties).length > 0 ? properties : undefined,
+		createdAt,
+		updatedAt,
+		file: { path: filePath },
+		version: pageVersion(text),
+	}
+
+	// How many blocks with the same text came before, per text
+	const occurrences = new Map<string, number>()
+
+	const toFileBlock = (block: MarkdownBlock, parent?: FileBlock): FileBlock => {
+		const [firstLine, ...rest] = block.content.split('\n')
+		const { id, content: first } =
+			format === 'markdown' && block.bullet
+				? splitBlockId(firstLine)
+				: { id: undefined, content: firstLine }
+		const content = [first, ...rest].join('\n')
+		// Blocks without an id get one derived from their text, leaving out
+		// properties such as collapsed::, so the same file yields the same
+		// uuids from one read to the next. An edit elsewhere in the file keeps
+		// them, and a uuid of a block that was edited or removed finds nothing
+		// instead of the block that took its place.
+		const text = content
+			.split('\n')
+			.filter((line) => !parseProperty(line))
+			.join('\n')
+		const occurrence = occurrences.get(text) ?? 0
+		occurrences.set(text, occurrence + 1)
+		const derivedUuid = uuidv5(
+			`${page.name}:${occurrence}:${text}`,
+			PAGE_UUID_NAMESPACE
+		)
+
+		const fileBlock: FileBlock = {
+			uuid:
+				block.id && block.id.length === 36
+					? block.id
+					: id?.length === 36
+					? id
+					: (id || '') + derivedUuid.slice(id?.length),
+			content,
+			level: block.level,
+			start: block.start,
+			bodyEnd: block.bodyEnd,
+			end: block.end,
+			persistedId: !!block.id && block.id.length === 36,
+			prefixId: id,
+			page: { name: page.name, originalName: page.originalName },
+			parent: parent ? { uuid: parent.uuid } : undefined,
+			children: [],
+			updatedAt: page.updatedAt,
+		}
+		if (Object.keys(block.properties).length > 0) {
+			fileBlock.properties = block.properties
+		}
+		if (block.preBlock) fileBlock['preBlock?'] = true
+
+		const markerMatch = content.match(MARKER_REGEX)
+		if (markerMatch) fileBlock.marker = markerMatch[1]
+		const priorityMatch = content.match(/\[#([ABC])\]/)
+		if (priorityMatch) fileBlock.priority = priorityMatch[1]
+		for (const line of rest) {
+			const planning = line.trim().match(PLANNING_REGEX)
+			if (!planning) continue
+			const day = parseInt(planning[2] + planning[3] + planning[4], 10)
+			if (planning[1] === 'SCHEDULED') fileBlock.scheduled = day
+			else fileBlock.deadline = day
+		}
+
+		fileBlock.children = block.children.map((child) =>
+			toFileBlock(child, fileBlock)
+		)
+		return fileBlock
+	}
+
+	return {
+		page,
+		path: filePath,
+		format,
+		lines: parsed.lines,
+		blocks: parsed.blocks.map((block) => toFileBlock(block)),
+		indent: parsed.indent,
+		frontMatter: parsed.frontMatter,
+		propertyLines: parsed.propertyLines,
+	}
+}
+
+// Strip the file bookkeeping so callers get the same shape as the HTTP API
+function toBlockEntity(block: FileBlock, includeChildren = true): BlockEntity {
+	const {
+		level,
+		start,
+		bodyEnd,
+		end,
+		persistedId,
+		prefixId,
+		children,
+		...entity
+	} = block
+	return {
+		...entity,
+		children: includeChildren
+			? children.map((child) => toBlockEntity(child))
+			: undefined,
+	}
+}
+
+// Blocks are found by their full uuid, or by the 8-character id earlier
+// versions of this server wrote in front of the content
+function findBlockIn(blocks: FileBlock[], uuid: string): FileBlock | null {
+	for (const block of blocks) {
+		if (
+			(uuid.length === 36 && block.uuid === uuid) ||
+			(uuid.length === 8 && block.prefixId === uuid)
+		) {
+			return block
+		}
+		const found = findBlockIn(block.children, uuid)
+		if (found) return found
+	}
+	return null
+}
+
+function pageFormat(filePath: string): PageFormat {
+	return path.extname(filePath).toLowerCase() === '.org' ? 'org' : 'markdown'
+}
+
+// Render block content as lines of the file's format at the given level:
+// bullets in markdown, headlines in org. With an id, it is written as an id
+// property where Logseq puts it, replacing one the content carries.
+function formatBlockLines(
+	file: PageFile,
+	content: string,
+	level: number,
+	id?: string
+): string[] {
+	if (file.format === 'org') {
+		const lines = formatOrgBlock(content, level)
+		if (!id) return lines
+		const withoutId = lines.filter(
+			(line, index) => index === 0 || !/^:id:/i.test(line.trim())
+		)
+		const insertion = orgIdLines(withoutId, id)
+		withoutId.splice(insertion.index, 0, ...insertion.lines)
+		return withoutId
+	}
+
+	const lines = formatBlock(content, level, file.indent)
+	if (!id) return lines
+
+	// After the first line and any properties following it
+	let index = 1
+	while (index < lines.length && parseProperty(lines[index])) {
+		if (parseProperty(lines[index])!.key === 'id') lines.splice(index, 1)
+		else index++
+	}
+	lines.splice(index, 0, `${file.indent.repeat(level)}  id:: ${id}`)
+	return lines
+}
+
+// Where an id property goes in a block read from the file, and its lines:
+// an id:: line indented past the bullet in markdown, a drawer entry in org
+function idPropertyLines(
+	file: PageFile,
+	lines: string[],
+	block: FileBlock
+): { index: number; lines: string[] } {
+	if (file.format === 'org') {
+		const insertion = orgIdLines(
+			lines.slice(block.start, block.bodyEnd),
+			block.uuid
+		)
+		return { ...insertion, index: block.start + insertion.index }
+	}
+
+	let index = block.start + 1
+	while (index < block.bodyEnd && parseProperty(lines[index])) index++
+	const bullet = lines[block.start].match(/^(\s*)[-*+](?:[ \t]|$)/)
+	return {
+		index,
+		lines: [`${bullet ? bullet[1] + '  ' : ''}id:: ${block.uuid}`],
+	}
+}
+
+// Blocks referenced as ((uuid)) in block content
+function referencedUuids(content: string): string[] {
+	const uuids = new Set<string>()
+	for (const match of content.matchAll(/\(\(([0-9a-f-]{36})\)\)/gi)) {
+		uuids.add(match[1].toLowerCase())
+	}
+	return [...uuids]
+}
+
+function lastContentLine(lines: string[]): number {
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (lines[i].trim() !== '') return i
+	}
+	return -1
+}
+
+// Captures each file's content before its first write
+function createRecordingStore(base: PageFileStore) {
+	const snapshots = new Map<string, string | null>()
+
+	function capture(filePath: string) {
+		if (!snapshots.has(filePath)) {
+			snapshots.set(filePath, readText(base, filePath))
+		}
+	}
+
+	const store: PageFileStore = {
+		...base,
+		write: (filePath, text) => {
+			capture(filePath)
+			base.write(filePath, text)
+		},
+		remove: (filePath) => {
+			capture(filePath)
+			base.remove(filePath)
+		},
+	}
+
+	return { store, snapshots }
+}
+
+function readText(store: PageFileStore, filePath: string): string | null {
+	try {
+		return store.read(filePath).text
+	} catch (error) {
+		return null
+	}
+}
+
+// Backend that reads and writes the markdown files of a graph directory.
+// With history options, tracked writes are snapshotted so they can be undone.
+export function createFileSystemBackend(
+	graphPath: string,
+	options: { history?: HistoryConfig; locale?: string; cacheDir?: string } = {}
+): GraphBackend {
+	const history =
+		options.history &&
+		createChangeHistory(
+			options.history.dir || path.join(dataDir('state', graphPath), 'history'),
+			options.history.limit
+		)
+	const cacheDir = options.cacheDir || dataDir('cache', graphPath)
+	return createPageFileBackend(
+		graphPath,
+		diskStore,
+		history,
+		options.locale,
+		path.join(cacheDir, 'search-index.json')
+	)
+}
+
+// Without a searchIndexPath the search index is only kept in memory
+function createPageFileBackend(
+	graphPath: string,
+	store: PageFileStore,
+	history?: ChangeHistory,
+	locale = DEFAULT_LOCALE,
+	searchIndexPath?: string
+): GraphBackend {
+	const pagesDir = path.join(graphPath, 'pages')
+	const journalsDir = path.join(graphPath, 'journals')
+
+	// logseq/config.edn is read on every use, like the page files, so edits
+	// to it apply right away; one that cannot be read leaves the defaults
+	function graphConfig(): GraphConfig {
+		try {
+			return parseGraphConfig(readConfigText(graphPath), locale)
+		} catch (error) {
+			console.error((error as Error).message)
+			return { ...DEFAULT_GRAPH_CONFIG, locale }
+		}
+	}
+
+	function readAllPageFiles(): PageFile[] {
+		const config = graphConfig()
+		const files: PageFile[] = []
+		for (const filePath of [
+			...store.list(pagesDir),
+			...store.list(journalsDir),
+		]) {
+			if (isHiddenPath(relativeFilePath(graphPath, filePath), config.hidden)) {
+				continue
+			}
+			try {
+				files.push(
+					parsePageFile(filePath, graphPath, store.read(filePath), config)
+				)
+			} catch (error) {
+				console.error(`Error reading page file ${filePath}:`, error)
+			}
+		}
+		return files
+	}
+
+	// Page files by their path relative to the graph; only new and changed
+	// files are parsed when the index is brought up to date
+	const searchIndex = createSearchIndex(
+		{
+			list: async () => {
+				const config = graphConfig()
+				const stamps = new Map<string, number>()
+				for (const filePath of [
+					...store.list(pagesDir),
+					...store.list(journalsDir),
+				]) {
+					const relativePath = relativeFilePath(graphPath, filePath)
+					if (isHiddenPath(relativePath, config.hidden)) continue
+					try {
+						stamps.set(relativePath, store.modifiedAt(filePath))
+					} catch (error) {
+						// Removed since it was listed
+					}
+				}
+				return stamps
+			},
+			load: async (relativePath) => {
+				const filePath = path.join(graphPath, relativePath)
+				try {
+					const file = parsePageFile(
+						filePath,
+						graphPath,
+						store.read(filePath),
+						graphConfig()
+					)
+					return indexedPage(
+						file.page,
+						file.blocks.map((block) => toBlockEntity(block))
+					)
+				} catch (error) {
+					console.error(`Error reading page file ${filePath}:`, error)
+					return null
+				}
+			},
+			fingerprint: () => {
+				const config = graphConfig()
+				return [
+					config.journalFileNameFormat,
+					config.journalTitleFormat,
+					config.locale,
+				].join('|')
+			},
+		},
+		searchIndexPath
+	)
+
+	function findPageFile(
+		pageNameOrUuid: string,
+		files = readAllPageFiles()
+	): PageFile | null {
+		const key = pageNameOrUuid.toLowerCase()
+		return (
+			files.find(
+				({ page }) => page.name === key || page.uuid === pageNameOrUuid
+			) || null
+		)
+	}
+
+	function findBlockFile(
+		uuid: string
+	): { file: PageFile; block: FileBlock } | null {
+		for (const file of readAllPageFiles()) {
+			const block = findBlockIn(file.blocks, uuid)
+			if (block) return { file, block }
+		}
+		return null
+	}
+
+	// Journal pages go to journals/, named by date; other pages to pages/
+	function newPageFilePath(pageName: string): string {
+		const config = graphConfig()
+		const extension = config.preferredFormat === 'org' ? 'org' : 'md'
+		const journalDay = journalDayFromTitle(
+			pageName,
+			config.journalTitleFormat,
+			config.locale
+		)
+		return journalDay !== null
+			? path.join(
+					journalsDir,
+					`${journalFileName(
+						journalDay,
+						config.journalFileNameFormat
+					)}.${extension}`
+			  )
+			: path.join(pagesDir, `${encodePageFileName(pageName)}.${extension}`)
+	}
+
+	// Lines were computed from the file as it was read; refuse to write them
+	// over a file that changed since
+	function writeLines(file: PageFile, lines: string[]) {
+		const current = readText(store, file.path)
+		if (current !== file.lines.join('\n')) {
+			throw new GraphError(
+				'CONFLICT',
+				`${relativeFilePath(
+					graphPath,
+					file.path
+				)} changed while it was being written; try again`,
+				{
+					file: relativeFilePath(graphPath, file.path),
+					currentVersion: current === null ? null : pageVersion(current),
+				}
+			)
+		}
+		store.write(file.path, lines.join('\n'))
+	}
+
+	// Reject a write made against another version of the page file than the
+	// current one. When that version is still known, the write is replayed on
+	// it and merged with the current content as a suggestion. Without a file
+	// (the block is gone), the file the version belongs to is checked.
+	async function checkVersion(
+		filePath: string | null,
+		expectedVersion: string | undefined,
+		replay: (base: GraphBackend) => Promise<unknown>
+	) {
+		if (!expectedVersion) return
+		filePath = filePath || findVersionPath(expectedVersion)
+		if (!filePath) return
+
+		const current = readText(store, filePath)
+		const currentVersion = current === null ? null : pageVersion(current)
+		if (currentVersion === expectedVersion) return
+
+		const relativePath = relativeFilePath(graphPath, filePath)
+		const details: Record<string, any> = {
+			file: relativePath,
+			expectedVersion,
+			currentVersion,
+		}
+		let message = `${relativePath} changed since version ${expectedVersion} (${
+			currentVersion ? `now ${currentVersion}` : 'it was deleted'
+		}).`
+
+		const base = recentVersions.get(filePath)?.get(expectedVersion)
+		const ours = base !== undefined && (await replayOn(filePath, base, replay))
+		if (ours && current !== null) {
+			const merge = mergeLines(
+				base!.split('\n'),
+				ours.split('\n'),
+				current.split('\n')
+			)
+			const text = merge.lines.join('\n')
+			const diff = unifiedDiff(relativePath, current, text)
+			details.merge = {
+				clean: merge.conflicts === 0,
+				conflicts: merge.conflicts,
+				text,
+				diff,
+			}
+			message +=
+				merge.conflicts === 0
+					? ` Your change merges cleanly with the current content; check the merge below and retry with expectedVersion ${currentVersion}.`
+					: ` Your change conflicts with the current content in ${merge.conflicts} place(s), marked in the merge below; read the page again and retry.`
+			message += `\n\nSuggested merge, as a diff of the current file:\n\`\`\`diff\n${
+				diff || '(no change)'
+			}\n\`\`\``
+		} else {
+			message += ' Read the page again and retry with its current version.'
+		}
+		throw new GraphError('CONFLICT', message, details)
+	}
+
+	// The file's content after running a write against an older content of it
+	async function replayOn(
+		filePath: string,
+		base: string,
+		replay: (base: GraphBackend) => Promise<unknown>
+	): Promise<string | null> {
+		const overlay = createOverlayStore(store)
+		overlay.store.write(filePath, base)
+		try {
+			await replay(
+				createPageFileBackend(graphPath, overlay.store, undefined, locale)
+			)
+		} catch (error) {
+			return null
+		}
+		return overlay.changes.get(filePath) ?? null
+	}
+
+	// Replace lines of a file with a block's lines. Blocks the content
+	// references get an id:: property, as Logseq gives them when a reference
+	// is made, so the ((uuid)) resolves in Logseq too; those in the same file
+	// are given theirs in the same write.
+	async function writeBlockLines(
+		file: PageFile,
+		index: number,
+		remove: number,
+		blockLines: string[],
+		content: string,
+		options: WriteOptions,
+		target?: FileBlock
+	) {
+		const splices = [{ index, remove, insert: blockLines }]
+		const elsewhere: string[] = []
+		const seen = new Set<number>()
+		for (const uuid of referencedUuids(content)) {
+			const block = findBlockIn(file.blocks, uuid)
+			if (!block) {
+				elsewhere.push(uuid)
+			} else if (
+				block !== target &&
+				!block.persistedId &&
+				!seen.has(block.start)
+			) {
+				seen.add(block.start)
+				const { index, lines } = idPropertyLines(file, file.lines, block)
+				splices.push({ index, remove: 0, insert: lines })
+			}
+		}
+
+		// From the bottom up, so earlier indexes stay valid; an id:: line at the
+		// index of the block's lines belongs to the block before them
+		const lines = [...file.lines]
+		splices
+			.map((splice, order) => ({ ...splice, order }))
+			.sort((a, b) => b.index - a.index || a.order - b.order)
+			.forEach((splice) =>
+				lines.splice(splice.index, splice.remove, ...splice.insert)
+			)
+		writeLines(file, lines)
+
+		for (const uuid of elsewhere) await persistBlockId(uuid, options)
+	}
+
+	// Write a block's uuid into its file as an id:: property
+	async function persistBlockId(uuid: string, options: WriteOptions) {
+		const found = findBlockFile(uuid)
+		if (!found || found.block.persistedId) return
+		const write = async () => {
+			const lines = [...found.file.lines]
+			const insertion = idPropertyLines(found.file, lines, found.block)
+			lines.splice(insertion.index, 0, ...insertion.lines)
+			writeLines(found.file, lines)
+		}
+		if (options.writeReferencedPage) {
+			await options.writeReferencedPage(found.file.page.name, uuid, write)
+		} else {
+			await write()
+		}
+	}
+
+	// Write a new block into a file and return it as the API would. New
+	// blocks get an id:: property so their uuid outlives edits around them.
+	async function insertLines(
+		file: PageFile,
+		index: number,
+		level: number,
+		content: string,
+		options: WriteOptions,
+		parent?: FileBlock
+	): Promise<BlockEntity> {
+		const uuid = uuidv4()
+		await writeBlockLines(
+			file,
+			index,
+			0,
+			formatBlockLines(file, content, level, uuid),
+			content,
+			options
+		)
+
+		return {
+			uuid,
+			content,
+			page: { name: file.page.name, originalName: file.page.originalName },
+			parent: parent ? { uuid: parent.uuid } : undefined,
+			children: [],
+		}
+	}
+
+	const backend: GraphBackend = {
+		kind: 'filesystem',
+		label: `Filesystem graph at ${graphPath}`,
+		graphPath,
+
+		getAllPages: async () => readAllPageFiles().map(({ page }) => page),
+
+		getPage: async (pageNameOrId) =>
+			(typeof pageNameOrId === 'string' && findPageFile(pageNameOrId)?.page) ||
+			null,
+
+		getBlocksTree: async (pageNameOrUuid) => {
+			const file = findPageFile(pageNameOrUuid)
+			return file ? file.blocks.map((block) => toBlockEntity(block)) : null
+		},
+
+		getBlock: async (uuid, options = {}) => {
+			const found = findBlockFile(uuid)
+			return found
+				? toBlockEntity(found.block, options.includeChildren ?? true)
+				: null
+		},
+
+		getPageProperties: async (pageName) =>
+			findPageFile(pageName)?.page.properties || null,
+
+		getConfig: async () => readConfigText(graphPath),
+
+		// Journal pages are told apart by their title, which must be in the
+		// graph's journal title format
+		createPage: async (pageName, properties = {}) => {
+			const existing = findPageFile(pageName)
+			if (existing) return existing.page
+
+			const filePath = newPageFilePath(pageName)
+			const propertyLines = Object.entries(properties)
+				.filter(([key]) => key !== 'journal?')
+				.map(([key, value]) =>
+					pageFormat(filePath) === 'org'
+						? `#+${key}: ${value}`
+						: `${key}:: ${value}`
+				)
+
+			store.write(
+				filePath,
+				propertyLines.length > 0 ? propertyLines.join('\n') + '\n' : ''
+			)
+
+			return parsePageFile(
+				filePath,
+				graphPath,
+				store.read(filePath),
+				graphConfig()
+			).page
+		},
+
+		deletePage: async (pageName) => {
+			const file = findPageFile(pageName)
+			if (!file)
+				throw new GraphError('NOT_FOUND', `Page ${pageName} does not exist`)
+			store.remove(file.path)
+		},
+
+		setPageProperty: async (pageName, key, value) => {
+			const file = findPageFile(pageName)
+			if (!file)
+				throw new GraphError('NOT_FOUND', `Page ${pageName} does not exist`)
+
+			let lines = [...file.lines]
+
+			if (file.format === 'org') {
+				lines = setOrgPageProperty(lines, file.propertyLines, key, value)
+			} else if (file.frontMatter) {
+				// Update the existing front matter
+				const index = lines
+					.slice(file.frontMatter.start + 1, file.frontMatter.end - 1)
+					.findIndex((line) => line.split(':')[0].trim() === key)
+				if (index !== -1) {
+					lines[file.frontMatter.start + 1 + index] = `${key}: ${value}`
+				} else {
+					lines.splice(file.frontMatter.end - 1, 0, `${key}: ${value}`)
+				}
+			} else {
+				// Page properties may sit in a bulleted first block; keep the
+				// bullet or indentation in front of them
+				const prefixOf = (line: string) =>
+					line.match(/^\s*(?:[-*+][ \t]+)?/)![0]
+				const existing = file.propertyLines.find(
+					(i) =>
+						parseProperty(lines[i].slice(prefixOf(lines[i]).length))?.key ===
+						key.toLowerCase()
+				)
+				if (existing !== undefined) {
+					lines[existing] = `${prefixOf(lines[existing])}${key}:: ${value}`
+				} else if (file.propertyLines.length > 0) {
+					const last = file.propertyLines[file.propertyLines.length - 1]
+					// Lines continuing a bullet are indented past it
+					const prefix = prefixOf(lines[last]).replace(/[-*+]/, ' ')
+					lines.splice(last + 1, 0, `${prefix}${key}:: ${value}`)
+				} else {
+					lines.splice(0, 0, `${key}:: ${value}`)
+				}
+			}
+
+			writeLines(file, lines)
+		},
+
+		appendBlock: async (pageName, content, options: WriteOptions = {}) => {
+			const file = findPageFile(pageName)
+			await checkVersion(file?.path || null, options.expectedVersion, (base) =>
+				base.appendBlock(pageName, content)
+			)
+			if (!file) return null
+
+			return insertLines(
+				file,
+				lastContentLine(file.lines) + 1,
+				0,
+				content,
+				options
+			)
+		},
+
+		insertBlock: async (
+			target: string,
+			content: string,
+			options: InsertBlockOptions = {}
+		) => {
+			const { expectedVersion, writeReferencedPage, ...insertOptions } = options
+			if (options.isPageBlock) {
+				return backend.appendBlock(target, content, {
+					expectedVersion,
+					writeReferencedPage,
+				})
+			}
+
+			const found = findBlockFile(target)
+			await checkVersion(found?.file.path || null, expectedVersion, (base) =>
+				base.insertBlock(target, content, insertOptions)
+			)
+			if (!found) throw new GraphError('NOT_FOUND', `Block ${target} not found`)
+
+			const { file, block } = found
+			const { sibling = false, before = false } = options
+
+			if (sibling) {
+				const parent = block.parent
+					? findBlockIn(file.blocks, block.parent.uuid) || undefined
+					: undefined
+				return insertLines(
+					file,
+					before ? block.start : block.end,
+					block.level,
+					content,
+					options,
+					parent
+				)
+			}
+
+			return insertLines(
+				file,
+				before ? block.bodyEnd : block.end,
+				block.level + 1,
+				content,
+				options,
+				block
+			)
+		},
+
+		updateBlock: async (uuid, content, options: WriteOptions = {}) => {
+			const found = findBlockFile(uuid)
+			await checkVersion(
+				found?.file.path || null,
+				options.expectedVersion,
+				(base) => base.updateBlock(uuid, content)
+			)
+			if (!found) throw new GraphError('NOT_FOUND', `Block ${uuid} not found`)
+
+			// The block keeps its uuid as an id:: property, since one derived
+			// from its text would change with it; one written in front of the
+			// content by earlier versions moves there too
+			const { file, block } = found
+			await writeBlockLines(
+				file,
+				block.start,
+				block.bodyEnd - block.start,
+				formatBlockLines(file, content, block.level, block.uuid),
+				content,
+				options,
+				block
+			)
+		},
+
+		deleteBlock: async (uuid, options: WriteOptions = {}) => {
+			const found = findBlockFile(uuid)
+			await checkVersion(
+				found?.file.path || null,
+				options.expectedVersion,
+				(base) => base.deleteBlock(uuid)
+			)
+			if (!found) throw new GraphError('NOT_FOUND', `Block ${uuid} not found`)
+
+			const { file, block } = found
+			const lines = [...file.lines]
+			lines.splice(block.start, block.end - block.start)
+			writeLines(file, lines)
+		},
+
+		pageFilePath: async (pageName) =>
+			relativeFilePath(
+				graphPath,
+				findPageFile(pageName)?.path || newPageFilePath(pageName)
+			),
+
+		writePageFile: async (pageName, text) => {
+			store.write(
+				findPageFile(pageName)?.path || newPageFilePath(pageName),
+				text
+			)
+		},
+
+		search: (query, options) => searchIndex.search(query, options),
+
+		// Answered by the same engine as the fake Logseq API, over the pages
+		// as they are on disk now; the database is built from one reading of
+		// the graph
+		query: (query, inputs, options) =>
+			backend.snapshot().query(query, inputs, options),
+
+		// The files are read on first use and kept, and queries share the
+		// database built from them
+		snapshot: () => {
+			let files: PageFile[] | undefined
+			let byKey: Map<string, PageFile> | undefined
+			const pageFiles = () => (files ??= readAllPageFiles())
+			let database: Promise<Database> | undefined
+
+			// Looked up like findPageFile does: by lower-cased name or by uuid
+			function findFile(pageNameOrUuid: string): PageFile | null {
+				if (!byKey) {
+					byKey = new Map()
+					for (const file of pageFiles()) {
+						for (const key of [file.page.name, file.page.uuid]) {
+							if (!byKey.has(key)) byKey.set(key, file)
+						}
+					}
+				}
+				return (
+					byKey.get(pageNameOrUuid.toLowerCase()) ||
+					byKey.get(pageNameOrUuid) ||
+					null
+				)
+			}
+
+			const snapshot: GraphBackend = {
+				...backend,
+				getAllPages: async () => pageFiles().map(({ page }) => page),
+				getPage: async (pageNameOrId) =>
+					(typeof pageNameOrId === 'string' && findFile(pageNameOrId)?.page) ||
+					null,
+				getBlocksTree: async (pageNameOrUuid) => {
+					const file = findFile(pageNameOrUuid)
+					return file ? file.blocks.map((block) => toBlockEntity(block)) : null
+				},
+				getBlock: async (uuid, options = {}) => {
+					for (const file of pageFiles()) {
+						const block = findBlockIn(file.blocks, uuid)
+						if (block) {
+							return toBlockEntity(block, options.includeChildren ?? true)
+						}
+					}
+					return null
+				},
+				getPageProperties: async (pageName) =>
+					findFile(pageName)?.page.properties || null,
+				query: async (query, inputs = [], options = {}) => {
+					const deadline = startDeadline(options.timeoutMs)
+					// A build that timed out is tried again by the next query
+					database ??= buildDatabase(snapshot, deadline).catch((error) => {
+						database = undefined
+						throw error
+					})
+					return runQuery(await database, query, inputs, {
+						...options,
+						deadline,
+					})
+				},
+				snapshot: () => snapshot,
+			}
+			return snapshot
+		},
+
+		dryRun: () => {
+			const overlay = createOverlayStore(store)
+			return {
+				...createPageFileBackend(graphPath, overlay.store, undefined, locale),
+				preview: async () => ({
+					pages: previewFiles(
+						graphPath,
+						graphConfig(),
+						[...overlay.changes].map(([filePath, text]) => ({
+							path: filePath,
+							before: readText(store, filePath),
+							after: text,
+						}))
+					),
+				}),
+			}
+		},
+
+		track: () => {
+			if (!history) return { ...backend, commit: async () => null }
+
+			const recording = createRecordingStore(store)
+			return {
+				...createPageFileBackend(graphPath, recording.store, history, locale),
+				commit: async (summary) => saveChange(summary, recording.snapshots),
+			}
+		},
+
+		listChanges: async (limit = 20) =>
+			history ? history.list().slice(0, limit).map(toChangeEntry) : [],
+
+		undoChange: async (id, options = {}) => {
+			if (!history) {
+				throw new GraphError(
+					'UNSUPPORTED',
+					'No change history is kept for this graph'
+				)
+			}
+			const change = history.get(id)
+			if (!change) throw new GraphError('NOT_FOUND', `Change ${id} not found`)
+			if (change.undoneBy && !options.force) {
+				throw new GraphError(
+					'INVALID_ARGUMENT',
+					`Change ${id} was already undone by change ${change.undoneBy}`
+				)
+			}
+
+			const conflicts = change.files.filter(
+				(file) => readText(store, absolutePath(file.path)) !== file.after
+			)
+			if (conflicts.length > 0 && !options.force) {
+				throw new GraphError(
+					'CONFLICT',
+					`${conflicts
+						.map((file) => file.path)
+						.join(
+							', '
+						)} changed since change ${id}; pass force to restore the snapshot anyway`
+				)
+			}
+
+			const recording = createRecordingStore(store)
+			for (const file of change.files) {
+				const filePath = absolutePath(file.path)
+				if (readText(store, filePath) === file.before) continue
+				if (file.before === null) recording.store.remove(filePath)
+				else recording.store.write(filePath, file.before)
+			}
+
+			const undo = await saveChange(
+				`Undid change ${id}: ${change.summary}`,
+				recording.snapshots,
+				id
+			)
+			if (!undo) {
+				throw new GraphError(
+					'INVALID_ARGUMENT',
+					`The files of change ${id} already match its snapshot`
+				)
+			}
+			history.update({ ...change, undoneBy: undo.id })
+			return undo
+		},
+	}
+
+	function absolutePath(relativePath: string): string {
+		return path.join(graphPath, ...relativePath.split('/'))
+	}
+
+	function toChangeEntry(change: ChangeRecord): ChangeEntry {
+		return {
+			id: change.id,
+			createdAt: change.createdAt,
+			summary: change.summary,
+			pages: previewFiles(
+				graphPath,
+				graphConfig(),
+				change.files.map((file) => ({
+					...file,
+					path: absolutePath(file.path),
+				}))
+			),
+			undoneBy: change.undoneBy,
+			undoes: change.undoes,
+		}
+	}
+
+	async function saveChange(
+		summary: string,
+		snapshots: Map<string, string | null>,
+		undoes?: string
+	): Promise<ChangeEntry | null> {
+		const files = [...snapshots]
+			.map(([filePath, before]) => ({
+				path: relativeFilePath(graphPath, filePath),
+				before,
+				after: readText(store, filePath),
+			}))
+			.filter((file) => file.before !== file.after)
+		if (!history || files.length === 0) return null
+
+		return toChangeEntry(history.save({ summary, files, undoes }))
+	}
+
+	return backend
+}
+
+function readConfigText(graphPath: string): string | null {
+	const configPath = path.join(graphPath, 'logseq', 'config.edn')
+	return fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : null
+}
+
+function relativeFilePath(graphPath: string, filePath: string): string {
+	return path.relative(graphPath, filePath).split(path.sep).join('/')
+}
+
+// What happened to each file, as block, property and unified diffs
+function previewFiles(
+	graphPath: string,
+	config: GraphConfig,
+	files: { path: string; before: string | null; after: string | null }[]
+): PagePreview[] {
+	return files
+		.map((file) =>
+			previewFile(graphPath, config, file.path, file.before, file.after)
+		)
+		.filter((preview): preview is PagePreview => preview !== null)
+}
+
+function previewFile(
+	graphPath: string,
+	config: GraphConfig,
+	filePath: string,
+	before: string | null,
+	after: string | null
+): PagePreview | null {
+	if (before === after) return null
+
+	const now = Date.now()
+	const parse = (text: string) =>
+		parsePageFile(
+			filePath,
+			graphPath,
+			{ text, createdAt: now, updatedAt: now },
+			config
+		)
+	const beforePage = before === null ? null : parse(before)
+	const afterPage = after === null ? null : parse(after)
+	const relativePath = relativeFilePath(graphPath, filePath)
+
+	const preview: PagePreview = {
+		page: (afterPage || beforePage)!.page.originalName,
+		blocks: diffBlocks(
+			(beforePage?.blocks || []).map((block) => toBlockEntity(block)),
+			(afterPage?.blocks || []).map((block) => toBlockEntity(block))
+		),
+		file: {
+			path: relativePath,
+			diff: unifiedDiff(relativePath, before, after),
+		},
+	}
+	if (before === null) preview.created = true
+	if (after === null) preview.deleted = true
+	const properties = diffProperties(
+		beforePage?.page.properties,
+		afterPage?.page.properties
+	)
+	if (properties.length > 0) preview.properties = properties
+	return preview
+}
@@ -0,0 +1,142 @@
+import type { PermissionsConfig } from '../config.js'
+import { GraphError } from '../errors.js'
+import { isPageWritable } from '../permissions.js'
+import { blockPageName } from './block-page.js'
+import type { GraphBackend, WriteOptions } from './types.js'
+
+// Wraps a backend so every write is checked against the permissions, whichever
+// tool (or helper) issues it: nothing is written in readonly mode, and pages
+// in protected namespaces are never changed.
+export function createGuardedBackend(
+	inner: GraphBackend,
+	permissions: PermissionsConfig
+): GraphBackend {
+	const restricted =
+		permissions.allowNamespaces.length > 0 ||
+		permissions.denyNamespaces.length > 0
+
+	function assertWritable() {
+		if (permissions.mode === 'readonly') {
+			throw new GraphError(
+				'FORBIDDEN',
+				'The server is in readonly mode (LOGSEQ_MCP_MODE=readonly)'
+			)
+		}
+	}
+
+	function assertPageWritable(pageName: string) {
+		assertWritable()
+		if (!isPageWritable(permissions, pageName)) {
+			throw new GraphError(
+				'FORBIDDEN',
+				`Writing to "${pageName}" is not allowed by the namespace permissions`
+			)
+		}
+	}
+
+	// Resolve the page a block lives on; only needed when namespaces are set
+	async function assertBlockWritable(uuid: string) {
+		assertWritable()
+		if (!restricted) return
+
+		const block = await inner.getBlock(uuid, { includeChildren: false })
+		if (!block) return // let the backend report the missing block
+		const page = await blockPageName(inner, block)
+		if (!page) {
+			throw new GraphError(
+				'FORBIDDEN',
+				`Cannot tell which page block ${uuid} belongs to, so it is not written`
+			)
+		}
+		assertPageWritable(page)
+	}
+
+	// A write may also give a block it references on another page an id::
+	// property; that is left out where the other page may not be written
+	function guardReferences<Options extends WriteOptions>(
+		options: Options = {} as Options
+	): Options {
+		const outer = options.writeReferencedPage
+		return {
+			...options,
+			writeReferencedPage: async (pageName, uuid, write) => {
+				if (!isPageWritable(permissions, pageName)) return
+				return outer ? outer(pageName, uuid, write) : write()
+			},
+		}
+	}
+
+	return {
+		...inner,
+
+		createPage: async (pageName, properties, options) => {
+			assertPageWritable(pageName)
+			return inner.createPage(pageName, properties, options)
+		},
+
+		deletePage: async (pageName) => {
+			assertPageWritable(pageName)
+			return inner.deletePage(pageName)
+		},
+
+		setPageProperty: async (pageName, key, value) => {
+			assertPageWritable(pageName)
+			return inner.setPageProperty(pageName, key, value)
+		},
+
+		appendBlock: async (pageName, content, options) => {
+			assertPageWritable(pageName)
+			return inner.appendBlock(pageName, content, guardReferences(options))
+		},
+
+		insertBlock: async (target, content, options = {}) => {
+			if (options.isPageBlock) assertPageWritable(target)
+			else await assertBlockWritable(target)
+			return inner.insertBlock(target, content, guardReferences(options))
+		},
+
+		updateBlock: async (uuid, content, options) => {
+			await assertBlockWritable(uuid)
+			return inner.updateBlock(uuid, content, guardReferences(options))
+		},
+
+		deleteBlock: async (uuid, options) => {
+			await assertBlockWritable(uuid)
+			return inner.deleteBlock(uuid, options)
+		},
+
+		writePageFile: async (pageName, text) => {
+			assertPageWritable(pageName)
+			return inner.writePageFile(pageName, text)
+		},
+
+		track: () => {
+			const tracked = inner.track()
+			return {
+				...createGuardedBackend(tracked, permissions),
+				commit: tracked.commit,
+			}
+		},
+
+		snapshot: () => createGuardedBackend(inner.snapshot(), permissions),
+
+		// Undo writes the pages the change touched, so they must be writable
+		undoChange: async (id, options) => {
+			assertWritable()
+			const change = (await inner.listChanges(Infinity)).find(
+				(entry) => entry.id === id
+			)
+			for (const page of change?.pages || []) assertPageWritable(page.page)
+			return inner.undoChange(id, options)
+		},
+
+		// Dry runs are checked too, so a preview never shows a forbidden change
+		dryRun: () => {
+			const sandbox = inner.dryRun()
+			return {
+				...createGuardedBackend(sandbox, permissions),
+				preview: sandbox.preview,
+			}
+		},
+	}
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+
+// Rolling store of file snapshots taken around each tool's writes, one JSON
+// file per change, so a change can be listed and undone later.
+
+export interface FileSnapshot {
+	// Path relative to the graph directory
+	path: string
+	// Content before and after the change; null when the file did not exist
+	before: string | null
+	after: string | null
+}
+
+export interface ChangeRecord {
+	id: string
+	createdAt: number
+	summary: string
+	files: FileSnapshot[]
+	undoneBy?: string
+	undoes?: string
+}
+
+export interface ChangeHistory {
+	save(change: Omit<ChangeRecord, 'id' | 'createdAt'>): ChangeRecord
+	// Newest first
+	list(): ChangeRecord[]
+	get(id: string): ChangeRecord | null
+	update(change: ChangeRecord): void
+}
+
+export function createChangeHistory(dir: string, limit: number): ChangeHistory {
+	const recordPath = (id: string) => path.join(dir, `${id}.json`)
+
+	function list(): ChangeRecord[] {
+		if (!fs.existsSync(dir)) return []
+
+		const changes: ChangeRecord[] = []
+		for (const file of fs.readdirSync(dir)) {
+			if (!file.endsWith('.json')) continue
+			try {
+				changes.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')))
+			} catch (error) {
+				console.error(`Error reading change snapshot ${file}:`, error)
+			}
+		}
+		return changes.sort(
+			(a, b) => b.createdAt - a.createdAt || b.id.localeCompare(a.id)
+		)
+	}
+
+	function update(change: ChangeRecord) {
+		fs.mkdirSync(dir, { recursive: true })
+		fs.writeFileSync(recordPath(change.id), JSON.stringify(change), 'utf-8')
+	}
+
+	return {
+		save: (change) => {
+			const createdAt = Date.now()
+			const record = {
+				id: `${createdAt}-${uuidv4().slice(0, 8)}`,
+				createdAt,
+				...change,
+			}
+			update(record)
+
+			// Drop the oldest changes beyond the limit
+			for (const old of list().slice(limit)) {
+				fs.rmSync(recordPath(old.id), { force: true })
+			}
+			return record
+		},
+
+		list,
+
+		get: (id) => {
+			if (!/^[\w-]+$/.test(id) || !fs.existsSync(recordPath(id))) return null
+			return JSON.parse(fs.readFileSync(recordPath(id), 'utf-8'))
+		},
+
+		update,
+	}
+}
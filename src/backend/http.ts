@@ -0,0 +1,210 @@
+import * as path from 'path'
+import { dataDir } from '../data-dirs.js'
+import { GraphError, LogseqApiError } from '../errors.js'
+import type { LogseqApiCaller } from '../logseq-api.js'
+import { createSearchIndex, indexedPage } from '../search-index.js'
+import { createDryRunBackend } from './dry-run.js'
+import type { GraphBackend, PageEntity } from './types.js'
+
+// Backend that drives a running Logseq desktop app through its HTTP API
+export function createHttpBackend(
+	callLogseqApi: LogseqApiCaller,
+	graphPath?: string,
+	options: { cacheDir?: string } = {}
+): GraphBackend {
+	// Pulled references come back as {id}; give the pages among them their
+	// names, as the filesystem backend does
+	async function resolveRefs(result: any): Promise<any> {
+		const pages = new Map<number, Promise<any>>()
+		const resolve = async (value: any): Promise<any> => {
+			if (Array.isArray(value)) return Promise.all(value.map(resolve))
+			if (!value || typeof value !== 'object') return value
+			const keys = Object.keys(value)
+			if (keys.length === 1 && typeof value.id === 'number') {
+				if (!pages.has(value.id)) {
+					pages.set(
+						value.id,
+						callLogseqApi('logseq.Editor.getPage', [value.id])
+					)
+				}
+				const page = await pages.get(value.id)
+				return page?.name
+					? { id: value.id, name: page.name, originalName: page.originalName }
+					: value
+			}
+			const entries = await Promise.all(
+				keys.map(async (key) => [key, await resolve(value[key])])
+			)
+			return Object.fromEntries(entries)
+		}
+		return resolve(result)
+	}
+
+	// Saved in the graph's cache directory when the graph is known, otherwise
+	// kept in memory; pages are fetched again when their updatedAt changes
+	const cacheDir =
+		options.cacheDir || (graphPath && dataDir('cache', graphPath))
+	const searchIndex = createSearchIndex(
+		{
+			list: async () =>
+				new Map(
+					((await callLogseqApi('logseq.Editor.getAllPages')) || []).map(
+						(page: PageEntity) => [page.name, page.updatedAt ?? 0]
+					)
+				),
+			load: async (pageName) => {
+				const page = await callLogseqApi('logseq.Editor.getPage', [pageName])
+				if (!page) return null
+				const blocks = await callLogseqApi('logseq.Editor.getPageBlocksTree', [
+					pageName,
+				])
+				return indexedPage(page, blocks || [])
+			},
+			// Keyed by page name, so never taken for a filesystem backend's index
+			fingerprint: () => 'http',
+		},
+		cacheDir ? path.join(cacheDir, 'search-index.json') : undefined
+	)
+
+	const backend: GraphBackend = {
+		kind: 'http',
+		label: 'Logseq HTTP API',
+		graphPath,
+
+		getAllPages: async () => {
+			const pages = await callLogseqApi('logseq.Editor.getAllPages')
+			// Logseq answers null instead of failing when no graph is open
+			if (!pages && !(await callLogseqApi('logseq.App.getCurrentGraph'))) {
+				throw new LogseqApiError(
+					'GRAPH_NOT_OPEN',
+					'Logseq is running but no graph is open. Open a graph in Logseq and try again.',
+					{ method: 'logseq.Editor.getAllPages' }
+				)
+			}
+			return pages || []
+		},
+
+		getPage: (pageNameOrId) =>
+			callLogseqApi('logseq.Editor.getPage', [pageNameOrId]),
+
+		getBlocksTree: (pageNameOrUuid) =>
+			callLogseqApi('logseq.Editor.getPageBlocksTree', [pageNameOrUuid]),
+
+		getBlock: (uuid, options = {}) =>
+			callLogseqApi('logseq.Editor.getBlock', [uuid, options]),
+
+		getPageProperties: (pageName) =>
+			callLogseqApi('logseq.Editor.getPageProperties', [pageName]),
+
+		getConfig: () => callLogseqApi('logseq.App.getCurrentGraphConfigs'),
+
+		createPage: (pageName, properties = {}, options = {}) =>
+			callLogseqApi('logseq.Editor.createPage', [
+				pageName,
+				options.journal ? { ...properties, 'journal?': true } : properties,
+				options,
+			]),
+
+		deletePage: async (pageName) => {
+			await callLogseqApi('logseq.Editor.deletePage', [pageName])
+		},
+
+		setPageProperty: async (pageName, key, value) => {
+			const blocks = await callLogseqApi('logseq.Editor.getPageBlocksTree', [
+				pageName,
+			])
+
+			// Page properties live in the first ("pre") block of the page
+			if (blocks?.length > 0 && blocks[0]['preBlock?']) {
+				await callLogseqApi('logseq.Editor.upsertBlockProperty', [
+					blocks[0].uuid,
+					key,
+					value,
+				])
+			} else if (blocks?.length > 0) {
+				await callLogseqApi('logseq.Editor.insertBlock', [
+					blocks[0].uuid,
+					`${key}:: ${value}`,
+					{ sibling: true, before: true },
+				])
+			} else {
+				await callLogseqApi('logseq.Editor.appendBlockInPage', [
+					pageName,
+					`${key}:: ${value}`,
+				])
+			}
+		},
+
+		appendBlock: (pageName, content) =>
+			callLogseqApi('logseq.Editor.appendBlockInPage', [pageName, content]),
+
+		// Logseq keeps no page versions, so expectedVersion is not checked here
+		insertBlock: (target, content, { expectedVersion, ...options } = {}) =>
+			callLogseqApi('logseq.Editor.insertBlock', [target, content, options]),
+
+		updateBlock: async (uuid, content) => {
+			await callLogseqApi('logseq.Editor.updateBlock', [uuid, content])
+		},
+
+		deleteBlock: async (uuid) => {
+			await callLogseqApi('logseq.Editor.removeBlock', [uuid])
+		},
+
+		search: (query, options) => searchIndex.search(query, options),
+
+		query: async (query, inputs = [], options = {}) => {
+			let timer: ReturnType<typeof setTimeout> | undefined
+			const call = callLogseqApi('logseq.DB.datascriptQuery', [
+				query,
+				...inputs,
+			])
+			// Logseq cannot cancel a query; past the timeout its answer is ignored
+			const response = await (options.timeoutMs
+				? Promise.race([
+						call,
+						new Promise<never>((_, reject) => {
+							timer = setTimeout(
+								() =>
+									reject(
+										new GraphError(
+											'TIMEOUT',
+											`The query did not finish within ${options.timeoutMs}ms`
+										)
+									),
+								options.timeoutMs
+							)
+						}),
+				  ]).finally(() => clearTimeout(timer))
+				: call)
+			return options.resolveRefs ? resolveRefs(response) : response
+		},
+
+		// Logseq keeps its database, so reading through it again costs little
+		snapshot: () => backend,
+
+		dryRun: () => createDryRunBackend(backend),
+
+		// Writes go through Logseq, which keeps its own history; no snapshots here
+		pageFilePath: async () => null,
+
+		writePageFile: async () => {
+			throw new GraphError(
+				'UNSUPPORTED',
+				'Page files can only be written with the filesystem backend'
+			)
+		},
+
+		track: () => ({ ...backend, commit: async () => null }),
+
+		listChanges: async () => [],
+
+		undoChange: async () => {
+			throw new GraphError(
+				'UNSUPPORTED',
+				'Undo is only available with the filesystem backend; use Logseq to undo changes made through its API'
+			)
+		},
+	}
+
+	return backend
+}
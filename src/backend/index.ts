@@ -0,0 +1,35 @@
+import type { Config } from '../config.js'
+import { createLogseqApi } from '../logseq-api.js'
+import { createFileSystemBackend, findLogseqDirectory } from './filesystem.js'
+import { createGuardedBackend } from './guarded.js'
+import { createHttpBackend } from './http.js'
+import type { GraphBackend } from './types.js'
+
+export type * from './types.js'
+export { POSSIBLE_LOGSEQ_PATHS } from './filesystem.js'
+
+// Create the backend selected by the configuration, with writes checked
+// against the permissions
+export function createBackend(config: Config): GraphBackend {
+	return createGuardedBackend(createInnerBackend(config), config.permissions)
+}
+
+function createInnerBackend(config: Config): GraphBackend {
+	if (config.backend === 'filesystem') {
+		const graphPath = config.graphPath || findLogseqDirectory()
+		if (!graphPath) {
+			throw new Error(
+				'Logseq directory not found. Set LOGSEQ_PATH to your graph directory.'
+			)
+		}
+		return createFileSystemBackend(graphPath, {
+			history: config.history,
+			locale: config.journalLocale,
+			cacheDir: config.cacheDir,
+		})
+	}
+
+	return createHttpBackend(createLogseqApi(config), config.graphPath, {
+		cacheDir: config.cacheDir,
+	})
+}
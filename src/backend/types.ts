@@ -0,0 +1,229 @@
+// Entity shapes follow what the Logseq HTTP API returns, so tools can be
+// written once and run against either backend.
+
+export interface PageEntity {
+	uuid: string
+	// Lower-cased page name
+	name: string
+	originalName: string
+	'journal?': boolean
+	journalDay?: number
+	properties?: Record<string, any>
+	createdAt?: number
+	updatedAt?: number
+	file?: { path: string }
+	// Token for the page file's current content (filesystem backend); writes
+	// given it as expectedVersion fail with CONFLICT once the file changed
+	version?: string
+}
+
+export interface BlockEntity {
+	uuid: string
+	content: string
+	marker?: string
+	priority?: string
+	// SCHEDULED: and DEADLINE: dates as yyyyMMdd numbers
+	scheduled?: number
+	deadline?: number
+	properties?: Record<string, any>
+	// The Logseq API only fills in the page's id
+	page?: { id?: number; name: string; originalName?: string }
+	parent?: { uuid: string }
+	children?: BlockEntity[]
+	createdAt?: number
+	updatedAt?: number
+	'preBlock?'?: boolean
+}
+
+export interface WriteOptions {
+	// Version of the page the caller last read; ignored by the HTTP backend
+	expectedVersion?: string
+	// Runs the write of an id:: property into another page, for a block the
+	// content references; wrappers check and note that page through it
+	writeReferencedPage?: (
+		pageName: string,
+		uuid: string,
+		write: () => Promise<void>
+	) => Promise<void>
+}
+
+export interface InsertBlockOptions extends WriteOptions {
+	// Insert next to the target instead of as its child (default: false)
+	sibling?: boolean
+	// Insert before the target instead of after it (default: false)
+	before?: boolean
+	// Treat the target as a page name and append to the page
+	isPageBlock?: boolean
+}
+
+export interface QueryOptions {
+	// Give up with a TIMEOUT error after this long
+	timeoutMs?: number
+	// Pull page references as {id, name, originalName} instead of {id}
+	resolveRefs?: boolean
+}
+
+// Filters and size of a full-text search
+export interface SearchOptions {
+	// Only pages in this namespace (the page itself and pages below it)
+	namespace?: string
+	// Only journal pages or only other pages
+	type?: 'journal' | 'page'
+	// Only journals for these days, as journalDay numbers
+	startDay?: number
+	endDay?: number
+	// Only task blocks with one of these markers, e.g. ["TODO", "DOING"]
+	markers?: string[]
+	// Results to return (default: 20)
+	limit?: number
+}
+
+export interface SearchHit {
+	kind: 'page' | 'block'
+	// Name of the page as written
+	page: string
+	// The block, for block hits
+	uuid?: string
+	marker?: string
+	journalDay?: number
+	score: number
+	// Text around the first match, matched words in **bold**
+	snippet: string
+}
+
+export interface SearchResult {
+	// Matches after filtering; hits holds the best `limit` of them
+	total: number
+	hits: SearchHit[]
+}
+
+export interface CreatePageOptions {
+	journal?: boolean
+	createFirstBlock?: boolean
+}
+
+// One block-level difference in a dry-run preview
+export interface BlockChange {
+	type: 'added' | 'removed' | 'changed'
+	// Outline depth, 0 for top-level blocks
+	level: number
+	content: string
+	// Content before the change, for changed blocks
+	previous?: string
+	uuid?: string
+}
+
+// What a dry run would have changed on one page
+export interface PagePreview {
+	page: string
+	created?: boolean
+	deleted?: boolean
+	blocks: BlockChange[]
+	properties?: { key: string; before?: string; after?: string }[]
+	// Unified diff of the page file (filesystem backend)
+	file?: { path: string; diff: string }
+}
+
+export interface ChangePreview {
+	pages: PagePreview[]
+}
+
+// A recorded write made by one tool call, as listed for undo
+export interface ChangeEntry {
+	id: string
+	createdAt: number
+	// What the tool reported
+	summary: string
+	// What the change did to each page
+	pages: PagePreview[]
+	// Id of the change that undid this one
+	undoneBy?: string
+	// Id of the change this one undid
+	undoes?: string
+}
+
+export interface GraphBackend {
+	readonly kind: 'http' | 'filesystem'
+	// Human readable description of where the graph lives
+	readonly label: string
+	// Graph directory on disk, when known
+	readonly graphPath?: string
+
+	getAllPages(): Promise<PageEntity[]>
+	// Logseq database ids are only known to the HTTP backend
+	getPage(pageNameOrId: string | number): Promise<PageEntity | null>
+	getBlocksTree(pageNameOrUuid: string): Promise<BlockEntity[] | null>
+	getBlock(
+		uuid: string,
+		options?: { includeChildren?: boolean }
+	): Promise<BlockEntity | null>
+	getPageProperties(pageName: string): Promise<Record<string, any> | null>
+	getConfig(): Promise<Record<string, any> | string | null>
+
+	createPage(
+		pageName: string,
+		properties?: Record<string, any>,
+		options?: CreatePageOptions
+	): Promise<PageEntity | null>
+	deletePage(pageName: string): Promise<void>
+	setPageProperty(pageName: string, key: string, value: string): Promise<void>
+
+	appendBlock(
+		pageName: string,
+		content: string,
+		options?: WriteOptions
+	): Promise<BlockEntity | null>
+	insertBlock(
+		target: string,
+		content: string,
+		options?: InsertBlockOptions
+	): Promise<BlockEntity | null>
+	updateBlock(
+		uuid: string,
+		content: string,
+		options?: WriteOptions
+	): Promise<void>
+	deleteBlock(uuid: string, options?: WriteOptions): Promise<void>
+
+	// Where the page's file is, or would be created, relative to the graph
+	// directory; null for backends without files
+	pageFilePath(pageName: string): Promise<string | null>
+	// Replace the page's file with the given text, creating it when missing
+	// (filesystem backend)
+	writePageFile(pageName: string, text: string): Promise<void>
+
+	// Full-text search over page names, aliases, properties and block
+	// content, best matches first
+	search(query: string, options?: SearchOptions): Promise<SearchResult>
+
+	// Run a Datalog query against the graph database with inputs for its
+	// :in parameters, given as EDN text. Invalid queries fail with
+	// INVALID_ARGUMENT.
+	query(query: string, inputs?: any[], options?: QueryOptions): Promise<any>
+
+	// A backend that reads the graph as it is now, for a call that reads all
+	// of it several times, such as running every query on a page: the graph
+	// is read once and Datalog queries share one database. Not for writing.
+	snapshot(): GraphBackend
+
+	// A backend that reads this graph but only records writes, for previews
+	dryRun(): DryRunBackend
+
+	// A backend whose writes are snapshotted so they can be undone as one change
+	track(): TrackedBackend
+	// Recorded changes, newest first
+	listChanges(limit?: number): Promise<ChangeEntry[]>
+	// Restore the files a change touched. Fails with CONFLICT when they were
+	// edited since, unless forced. Returns the change recording the undo.
+	undoChange(id: string, options?: { force?: boolean }): Promise<ChangeEntry>
+}
+
+export interface TrackedBackend extends GraphBackend {
+	// Save what was written since track() as one change; null if nothing was
+	commit(summary: string): Promise<ChangeEntry | null>
+}
+
+export interface DryRunBackend extends GraphBackend {
+	// Everything written to the sandbox so far, compared with the real graph
+	preview(): Promise<ChangePreview>
+}
@@ -0,0 +1,339 @@
+import * as fs from 'fs'
+import { DEFAULT_LOCALE, isSupportedLocale } from './dates.js'
+
+export type BackendKind = 'http' | 'filesystem'
+
+export interface ApiConfig {
+	scheme: 'http' | 'https'
+	host: string
+	port: number
+	// Path prefix in front of /api, e.g. when Logseq sits behind a reverse proxy
+	basePath: string
+	// Per-request timeout in milliseconds
+	timeoutMs: number
+	// How often a transient failure is retried before giving up
+	retries: number
+	// PEM file with an extra CA certificate to trust for https
+	caCertPath?: string
+}
+
+export interface ServerConfig {
+	// How MCP clients connect: stdio (one client per process) or Streamable HTTP
+	transport: 'stdio' | 'http'
+	// Address the HTTP transport listens on
+	host: string
+	port: number
+	// Bearer token HTTP clients must send; separate from LOGSEQ_TOKEN
+	authToken?: string
+}
+
+export type AccessMode = 'readonly' | 'write' | 'admin'
+
+export interface PermissionsConfig {
+	// readonly: no writes; write: create and edit; admin: also delete and replace
+	mode: AccessMode
+	// When non-empty, only these tools are offered
+	allowTools: string[]
+	// Tools that are never offered
+	denyTools: string[]
+	// When non-empty, only pages in these namespaces may be written
+	allowNamespaces: string[]
+	// Namespaces whose pages may never be written, e.g. "private"
+	denyNamespaces: string[]
+}
+
+export interface HistoryConfig {
+	// Directory for change snapshots (default: history in the graph's state
+	// directory, see data-dirs.ts)
+	dir?: string
+	// How many changes are kept before the oldest are dropped
+	limit: number
+}
+
+export interface AuditConfig {
+	enabled: boolean
+	// JSONL file (default: audit.jsonl in the graph's state directory, or the
+	// shared one when the graph directory is unknown)
+	path?: string
+}
+
+export interface GitConfig {
+	// Commit the page files each write touched (filesystem backend, graph in a
+	// git repository)
+	autoCommit: boolean
+}
+
+export interface Config {
+	// Which GraphBackend the tools are written against
+	backend: BackendKind
+	// Logseq HTTP API token (http backend)
+	logseqToken?: string
+	// Where the Logseq HTTP API is reached (http backend)
+	api: ApiConfig
+	// Graph directory containing pages/ and journals/ (filesystem backend, or
+	// the HTTP backend's graph on disk to watch for changes)
+	graphPath?: string
+	// Watch the graph directory and notify subscribed clients of changes
+	watch: boolean
+	// Language of month and weekday names in journal titles, e.g. "de-DE"
+	journalLocale: string
+	// How this MCP server is exposed to clients
+	server: ServerConfig
+	// Which tools are offered and which pages they may change
+	permissions: PermissionsConfig
+	// Snapshots taken before writes, for undo (filesystem backend)
+	history: HistoryConfig
+	// Directory for caches such as the search index (filesystem backend;
+	// default: the graph's cache directory, see data-dirs.ts)
+	cacheDir?: string
+	// Log of every write made through the tools
+	audit: AuditConfig
+	// Versioning of a filesystem graph kept in git
+	git: GitConfig
+}
+
+const BACKEND_KINDS: BackendKind[] = ['http', 'filesystem']
+const SCHEMES: ApiConfig['scheme'][] = ['http', 'https']
+const TRANSPORTS: ServerConfig['transport'][] = ['stdio', 'http']
+export const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1']
+const ACCESS_MODES: AccessMode[] = ['readonly', 'write', 'admin']
+
+export const DEFAULT_API_CONFIG: ApiConfig = {
+	scheme: 'http',
+	host: '127.0.0.1',
+	port: 12315,
+	basePath: '',
+	timeoutMs: 10000,
+	retries: 2,
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+	transport: 'stdio',
+	host: '127.0.0.1',
+	port: 3000,
+}
+
+// Full URL of the API endpoint
+export function apiUrl(api: ApiConfig): string {
+	// IPv6 addresses go in brackets, ahead of the port
+	const host =
+		api.host.includes(':') && !api.host.startsWith('[')
+			? `[${api.host}]`
+			: api.host
+	return `${api.scheme}://${host}:${api.port}${api.basePath}/api`
+}
+
+function parseInteger(value: string | undefined): number | undefined {
+	if (value === undefined || value.trim() === '') return undefined
+	return /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN
+}
+
+// Comma separated list, e.g. "delete_page, update_page"
+function parseList(value: string | undefined): string[] {
+	return (value || '')
+		.split(',')
+		.map((item) => item.trim())
+		.filter(Boolean)
+}
+
+// Namespaces are compared on lower-cased page names, without a trailing slash
+function parseNamespaces(value: string | undefined): string[] {
+	return parseList(value).map((namespace) =>
+		namespace.toLowerCase().replace(/\/+$/, '')
+	)
+}
+
+// Read the server configuration from the environment. All problems are
+// reported together so a broken setup can be fixed in one go.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+	const errors: string[] = []
+	const warnings: string[] = []
+
+	const backend = (env.LOGSEQ_BACKEND || 'http').toLowerCase() as BackendKind
+	if (!BACKEND_KINDS.includes(backend)) {
+		errors.push(
+			`LOGSEQ_BACKEND "${
+				env.LOGSEQ_BACKEND
+			}" is not supported (expected one of: ${BACKEND_KINDS.join(', ')})`
+		)
+	}
+
+	const scheme = (
+		env.LOGSEQ_SCHEME || DEFAULT_API_CONFIG.scheme
+	).toLowerCase() as ApiConfig['scheme']
+	if (!SCHEMES.includes(scheme)) {
+		errors.push(
+			`LOGSEQ_SCHEME "${env.LOGSEQ_SCHEME}" is not supported (expected http or https)`
+		)
+	}
+
+	const host = (env.LOGSEQ_HOST || DEFAULT_API_CONFIG.host).trim()
+	if (!host || /[\s/]/.test(host)) {
+		errors.push(
+			`LOGSEQ_HOST "${env.LOGSEQ_HOST}" must be a host name or IP address without a scheme or path`
+		)
+	}
+
+	const port = parseInteger(env.LOGSEQ_PORT) ?? DEFAULT_API_CONFIG.port
+	if (!Number.isInteger(port) || port < 1 || port > 65535) {
+		errors.push(
+			`LOGSEQ_PORT "${env.LOGSEQ_PORT}" must be a port number between 1 and 65535`
+		)
+	}
+
+	// Normalize to "" or "/prefix" without a trailing slash
+	let basePath = (env.LOGSEQ_BASE_PATH || '').trim().replace(/\/+$/, '')
+	if (basePath && !basePath.startsWith('/')) basePath = `/${basePath}`
+	if (basePath.endsWith('/api')) {
+		warnings.push(
+			`LOGSEQ_BASE_PATH "${basePath}" ends with /api; requests will go to ${basePath}/api`
+		)
+	}
+
+	const timeoutMs =
+		parseInteger(env.LOGSEQ_TIMEOUT_MS) ?? DEFAULT_API_CONFIG.timeoutMs
+	if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+		errors.push(
+			`LOGSEQ_TIMEOUT_MS "${env.LOGSEQ_TIMEOUT_MS}" must be a positive number of milliseconds`
+		)
+	}
+
+	const retries = parseInteger(env.LOGSEQ_RETRIES) ?? DEFAULT_API_CONFIG.retries
+	if (!Number.isInteger(retries) || retries > 10) {
+		errors.push(
+			`LOGSEQ_RETRIES "${env.LOGSEQ_RETRIES}" must be a whole number between 0 and 10`
+		)
+	}
+
+	const caCertPath = env.LOGSEQ_CA_CERT || undefined
+	if (caCertPath) {
+		if (!fs.existsSync(caCertPath)) {
+			errors.push(`LOGSEQ_CA_CERT file ${caCertPath} does not exist`)
+		} else if (!fs.readFileSync(caCertPath, 'utf-8').includes('-----BEGIN')) {
+			errors.push(`LOGSEQ_CA_CERT file ${caCertPath} is not a PEM certificate`)
+		}
+		if (scheme === 'http') {
+			warnings.push('LOGSEQ_CA_CERT is ignored because LOGSEQ_SCHEME is http')
+		}
+	}
+
+	const graphPath = env.LOGSEQ_PATH || undefined
+	if (backend === 'filesystem' && graphPath && !fs.existsSync(graphPath)) {
+		errors.push(`LOGSEQ_PATH directory ${graphPath} does not exist`)
+	}
+	if (backend === 'http' && !env.LOGSEQ_TOKEN) {
+		warnings.push(
+			'LOGSEQ_TOKEN is not set; the Logseq HTTP API will reject requests if authentication is enabled'
+		)
+	}
+
+	const watch = !/^(0|false|no|off)$/i.test(env.LOGSEQ_WATCH || '')
+
+	const transport = (
+		env.LOGSEQ_MCP_TRANSPORT || DEFAULT_SERVER_CONFIG.transport
+	).toLowerCase() as ServerConfig['transport']
+	if (!TRANSPORTS.includes(transport)) {
+		errors.push(
+			`LOGSEQ_MCP_TRANSPORT "${env.LOGSEQ_MCP_TRANSPORT}" is not supported (expected stdio or http)`
+		)
+	}
+
+	const serverHost = (env.LOGSEQ_MCP_HOST || DEFAULT_SERVER_CONFIG.host).trim()
+	const serverPort =
+		parseInteger(env.LOGSEQ_MCP_PORT) ?? DEFAULT_SERVER_CONFIG.port
+	const authToken = env.LOGSEQ_MCP_AUTH_TOKEN || undefined
+	if (transport === 'http') {
+		if (!Number.isInteger(serverPort) || serverPort < 1 || serverPort > 65535) {
+			errors.push(
+				`LOGSEQ_MCP_PORT "${env.LOGSEQ_MCP_PORT}" must be a port number between 1 and 65535`
+			)
+		}
+		if (!authToken && !LOOPBACK_HOSTS.includes(serverHost)) {
+			errors.push(
+				`LOGSEQ_MCP_AUTH_TOKEN is required when the HTTP transport listens on ${serverHost}; anyone who can reach it could otherwise use your graph`
+			)
+		}
+		if (!authToken && LOOPBACK_HOSTS.includes(serverHost)) {
+			warnings.push(
+				'LOGSEQ_MCP_AUTH_TOKEN is not set; any local process can use the HTTP transport'
+			)
+		}
+		if (authToken && authToken === env.LOGSEQ_TOKEN) {
+			warnings.push(
+				'LOGSEQ_MCP_AUTH_TOKEN should differ from LOGSEQ_TOKEN so MCP clients never hold the Logseq API token'
+			)
+		}
+	}
+
+	const mode = (env.LOGSEQ_MCP_MODE || 'admin').toLowerCase() as AccessMode
+	if (!ACCESS_MODES.includes(mode)) {
+		errors.push(
+			`LOGSEQ_MCP_MODE "${env.LOGSEQ_MCP_MODE}" is not supported (expected readonly, write or admin)`
+		)
+	}
+	const permissions: PermissionsConfig = {
+		mode,
+		allowTools: parseList(env.LOGSEQ_MCP_ALLOW_TOOLS),
+		denyTools: parseList(env.LOGSEQ_MCP_DENY_TOOLS),
+		allowNamespaces: parseNamespaces(env.LOGSEQ_MCP_ALLOW_NAMESPACES),
+		denyNamespaces: parseNamespaces(env.LOGSEQ_MCP_DENY_NAMESPACES),
+	}
+
+	const auditDisabled = /^(0|false|no|off)$/i.test(
+		env.LOGSEQ_MCP_AUDIT_LOG || ''
+	)
+	const audit: AuditConfig = {
+		enabled: !auditDisabled,
+		path: (!auditDisabled && env.LOGSEQ_MCP_AUDIT_LOG) || undefined,
+	}
+
+	const gitAutoCommit = /^(1|true|yes|on)$/i.test(
+		env.LOGSEQ_MCP_GIT_AUTOCOMMIT || ''
+	)
+	if (gitAutoCommit && backend !== 'filesystem') {
+		warnings.push(
+			'LOGSEQ_MCP_GIT_AUTOCOMMIT only applies to the filesystem backend (LOGSEQ_BACKEND=filesystem)'
+		)
+	}
+
+	const journalLocale = (env.LOGSEQ_JOURNAL_LOCALE || DEFAULT_LOCALE).trim()
+	if (!isSupportedLocale(journalLocale)) {
+		errors.push(
+			`LOGSEQ_JOURNAL_LOCALE "${env.LOGSEQ_JOURNAL_LOCALE}" is not a supported locale (e.g. en-US or de-DE)`
+		)
+	}
+
+	const historyLimit = parseInteger(env.LOGSEQ_MCP_HISTORY_LIMIT) ?? 100
+	if (!Number.isInteger(historyLimit) || historyLimit < 1) {
+		errors.push(
+			`LOGSEQ_MCP_HISTORY_LIMIT "${env.LOGSEQ_MCP_HISTORY_LIMIT}" must be a positive number of changes`
+		)
+	}
+
+	if (errors.length > 0) {
+		throw new Error(
+			`Invalid configuration:\n${errors.map((e) => `  - ${e}`).join('\n')}`
+		)
+	}
+	for (const warning of warnings) {
+		console.error(`Configuration warning: ${warning}`)
+	}
+
+	return {
+		backend,
+		logseqToken: env.LOGSEQ_TOKEN,
+		api: { scheme, host, port, basePath, timeoutMs, retries, caCertPath },
+		graphPath,
+		watch,
+		journalLocale,
+		server: { transport, host: serverHost, port: serverPort, authToken },
+		permissions,
+		history: {
+			dir: env.LOGSEQ_MCP_HISTORY_DIR || undefined,
+			limit: historyLimit,
+		},
+		cacheDir: env.LOGSEQ_MCP_CACHE_DIR || undefined,
+		audit,
+		git: { autoCommit: gitAutoCommit },
+	}
+}
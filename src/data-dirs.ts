@@ -0,0 +1,42 @@
+import { createHash } from 'crypto'
+import * as os from 'os'
+import * as path from 'path'
+
+// Where the server keeps its own files: the search index in the user's cache
+// directory, change snapshots and the audit log in their state directory.
+// Nothing is written into the graph, so git-backed and synced graphs only
+// ever change where pages do.
+
+export type DataDirKind = 'cache' | 'state'
+
+const APP_DIR = 'logseq-mcp'
+
+// $XDG_CACHE_HOME and $XDG_STATE_HOME, or each platform's usual place
+function baseDir(kind: DataDirKind): string {
+	const home = os.homedir()
+	const xdg =
+		kind === 'cache' ? process.env.XDG_CACHE_HOME : process.env.XDG_STATE_HOME
+	if (xdg && path.isAbsolute(xdg)) return xdg
+	if (process.platform === 'win32') {
+		return process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local')
+	}
+	if (process.platform === 'darwin') {
+		return kind === 'cache'
+			? path.join(home, 'Library', 'Caches')
+			: path.join(home, 'Library', 'Application Support')
+	}
+	return kind === 'cache'
+		? path.join(home, '.cache')
+		: path.join(home, '.local', 'state')
+}
+
+// The directory for one graph, named after it and a hash of its full path so
+// graphs with the same name do not share one; the shared directory without
+// a graph
+export function dataDir(kind: DataDirKind, graphPath?: string): string {
+	const root = path.join(baseDir(kind), APP_DIR)
+	if (!graphPath) return root
+	const resolved = path.resolve(graphPath)
+	const hash = createHash('sha256').update(resolved).digest('hex').slice(0, 12)
+	return path.join(root, `${path.basename(resolved)}-${hash}`)
+}
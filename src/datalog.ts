@@ -0,0 +1,917 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { BlockEntity, GraphBackend } from './backend/index.js'
+import { toJournalDay } from './dates.js'
+import {
+	ednItems,
+	isKeyword,
+	isSymbol,
+	isVector,
+	parseEdn,
+	type EdnSymbol,
+	type EdnValue,
+} from './edn.js'
+import { GraphError } from './errors.js'
+
+// A small Datalog engine over a graph, close enough to DataScript for the
+// queries the tools send through logseq.DB.datascriptQuery. The fake Logseq
+// API and the filesystem backend answer queries with it. Queries it cannot
+// read or run fail with INVALID_ARGUMENT.
+
+interface Datom {
+	e: number
+	a: string
+	v: any
+}
+
+export interface Database {
+	entities: Map<number, Record<string, any>>
+	byAttribute: Map<string, Datom[]>
+	byEntity: Map<number, Datom[]>
+	// While a query runs with a timeout: when it gives up
+	deadline?: Deadline
+	// While a query runs with rules: the rules by name, and the rule calls
+	// under way
+	rules?: Map<string, Rule[]>
+	ruleCalls?: Set<string>
+}
+
+export interface Deadline {
+	at: number
+	timeoutMs: number
+}
+
+export interface RunQueryOptions {
+	// Fail with TIMEOUT when the query runs longer
+	timeoutMs?: number
+	// A deadline started before the database was built, so that reading the
+	// graph counts towards the timeout too. Takes the place of timeoutMs.
+	deadline?: Deadline
+	// Give pulled references to pages the page's name: {id, name, originalName}
+	resolveRefs?: boolean
+}
+
+type Binding = Map<string, any>
+
+// One body of a rule: [(name ?a ?b) clauses...]
+interface Rule {
+	params: string[]
+	body: EdnValue[]
+}
+
+// Attributes that hold a set of values
+const MANY_ATTRIBUTES = new Set([
+	'block/refs',
+	'block/path-refs',
+	'block/alias',
+	'block/tags',
+])
+
+// [[page]], org-mode [[page][description]], #[[page]] and #tag
+const PAGE_REF_REGEX =
+	/\[\[(?!\w+:\/\/|file:)([^\]]+)\](?:\[[^\]]*\])?\]|#\[\[([^\]]+)\]\]|(?:^|\s)#([^\s#[\],]+)/g
+
+// Collect the names of pages referenced from block content
+export function extractRefs(content: string): string[] {
+	const refs = new Set<string>()
+	for (const match of content.matchAll(PAGE_REF_REGEX)) {
+		refs.add((match[1] || match[2] || match[3]).trim().toLowerCase())
+	}
+	return [...refs]
+}
+
+// The deadline of a call that may take timeoutMs, or none without a timeout
+export function startDeadline(timeoutMs?: number): Deadline | undefined {
+	return timeoutMs ? { at: Date.now() + timeoutMs, timeoutMs } : undefined
+}
+
+// Load every page and block of a backend into a Datalog database. With a
+// deadline, fails with TIMEOUT once it has passed. Pages keep the ids given
+// in pageIds and new ones are added to it, so a caller holding on to the map
+// finds a page under the same id in every database built with it.
+export async function buildDatabase(
+	backend: GraphBackend,
+	deadline?: Deadline,
+	pageIds = new Map<string, number>()
+): Promise<Database> {
+	const db: Database = {
+		entities: new Map(),
+		byAttribute: new Map(),
+		byEntity: new Map(),
+	}
+	let nextId = 1
+	for (const id of pageIds.values()) nextId = Math.max(nextId, id + 1)
+
+	function add(e: number, a: string, v: any) {
+		if (v === undefined || v === null) return
+		const entity = db.entities.get(e)!
+		if (MANY_ATTRIBUTES.has(a)) {
+			entity[a] ||= []
+			entity[a].push(v)
+		} else {
+			entity[a] = v
+		}
+		const datom = { e, a, v }
+		if (!db.byAttribute.has(a)) db.byAttribute.set(a, [])
+		db.byAttribute.get(a)!.push(datom)
+		if (!db.byEntity.has(e)) db.byEntity.set(e, [])
+		db.byEntity.get(e)!.push(datom)
+	}
+
+	function createEntity(
+		attributes: Record<string, any>,
+		id = nextId++
+	): number {
+		db.entities.set(id, {})
+		for (const [a, v] of Object.entries(attributes)) {
+			if (MANY_ATTRIBUTES.has(a) && Array.isArray(v)) {
+				v.forEach((item) => add(id, a, item))
+			} else {
+				add(id, a, v)
+			}
+		}
+		return id
+	}
+
+	// Referenced pages exist in the database even without a file
+	function pageId(name: string, originalName = name, uuid = uuidv4()): number {
+		const key = name.toLowerCase()
+		const known = pageIds.get(key)
+		if (known !== undefined && db.entities.has(known)) return known
+		const id = createEntity(
+			{
+				'block/name': key,
+				'block/original-name': originalName,
+				'block/uuid': uuid,
+			},
+			known
+		)
+		pageIds.set(key, id)
+		return id
+	}
+
+	const pages = await backend.getAllPages()
+	checkDeadline(deadline)
+
+	for (const page of pages) {
+		const id = pageId(page.name, page.originalName, page.uuid)
+		add(id, 'block/journal?', !!page['journal?'])
+		add(id, 'block/journal-day', page.journalDay)
+		add(id, 'block/properties', page.properties)
+		add(id, 'block/created-at', page.createdAt)
+		add(id, 'block/updated-at', page.updatedAt)
+	}
+
+	for (const page of pages) {
+		const blocks = await backend.getBlocksTree(page.name)
+		checkDeadline(deadline)
+		if (!blocks) continue
+
+		const pageEntityId = pageId(page.name)
+		const addBlocks = (
+			children: BlockEntity[],
+			parentId: number,
+			inheritedRefs: number[]
+		) => {
+			for (const block of children) {
+				const refs = extractRefs(block.content).map((name) => pageId(name))
+				const pathRefs = [...new Set([pageEntityId, ...inheritedRefs, ...refs])]
+				const id = createEntity({
+					'block/uuid': block.uuid,
+					'block/content': block.content,
+					'block/page': pageEntityId,
+					'block/parent': parentId,
+					'block/marker': block.marker,
+					'block/priority': block.priority,
+					'block/properties': block.properties,
+					'block/refs': refs,
+					'block/path-refs': pathRefs,
+					'block/created-at': block.createdAt ?? page.createdAt,
+					'block/updated-at': block.updatedAt ?? page.updatedAt,
+				})
+				if (block.children?.length) {
+					addBlocks(block.children, id, [...inheritedRefs, ...refs])
+				}
+			}
+		}
+		addBlocks(blocks, pageEntityId, [])
+	}
+
+	return db
+}
+
+// Resolve Logseq's relative date inputs such as :today or :-7d
+function resolveInput(value: EdnValue): any {
+	if (!isKeyword(value)) return toJs(value)
+
+	const date = new Date()
+	const name = value.name
+	// :-7d / :+2w, or the older :7d-before / :2w-after
+	const offset = name.match(/^([+-])(\d+)([dwmy])$/)
+	const legacy = name.match(/^(\d+)([dwmy])-(before|after)$/)
+
+	if (name === 'today') return toJournalDay(date)
+	if (name === 'yesterday') {
+		date.setDate(date.getDate() - 1)
+		return toJournalDay(date)
+	}
+	if (name === 'tomorrow') {
+		date.setDate(date.getDate() + 1)
+		return toJournalDay(date)
+	}
+	if (offset || legacy) {
+		const [sign, amount, unit] = offset
+			? offset.slice(1)
+			: [legacy![3] === 'before' ? '-' : '+', legacy![1], legacy![2]]
+		const n = parseInt(amount, 10) * (sign === '-' ? -1 : 1)
+		if (unit === 'd') date.setDate(date.getDate() + n)
+		if (unit === 'w') date.setDate(date.getDate() + n * 7)
+		if (unit === 'm') date.setMonth(date.getMonth() + n)
+		if (unit === 'y') date.setFullYear(date.getFullYear() + n)
+		return toJournalDay(date)
+	}
+	return value
+}
+
+// Convert an EDN constant into the value used during evaluation
+function toJs(value: EdnValue): any {
+	if (value === null || typeof value !== 'object') return value
+	switch (value.type) {
+		case 'set':
+			return new Set(value.items.map(toJs))
+		case 'vector':
+		case 'list':
+			return value.items.map(toJs)
+		case 'regex':
+			return toRegExp(value.source)
+		case 'tagged':
+			return toJs(value.value)
+		default:
+			return value
+	}
+}
+
+function toRegExp(source: string): RegExp {
+	const flags = source.startsWith('(?i)') ? 'i' : ''
+	return new RegExp(source.replace(/^\(\?i\)/, ''), flags)
+}
+
+function equal(a: any, b: any): boolean {
+	if (isKeyword(a) && isKeyword(b)) return a.name === b.name
+	if (isKeyword(a) && typeof b === 'string') return a.name === b
+	if (isKeyword(b) && typeof a === 'string') return b.name === a
+	return a === b
+}
+
+function lookup(map: any, key: any): any {
+	if (map == null) return undefined
+	const name = isKeyword(key) ? key.name : key
+	if (map instanceof Map) return map.get(name)
+	if (Array.isArray(map)) return map[name]
+	return map[name]
+}
+
+function compare(a: any, b: any): number {
+	return a < b ? -1 : a > b ? 1 : 0
+}
+
+function chain(test: (a: any, b: any) => boolean) {
+	return (...args: any[]) =>
+		args.every((arg, i) => i === 0 || test(args[i - 1], arg))
+}
+
+// Only functions DataScript has built in, so a query the fake API accepts
+// also runs in Logseq
+const FUNCTIONS: Record<string, (...args: any[]) => any> = {
+	'=': chain(equal),
+	'==': chain(equal),
+	'not=': (...args) => !chain(equal)(...args),
+	'>': chain((a, b) => compare(a, b) > 0),
+	'<': chain((a, b) => compare(a, b) < 0),
+	'>=': chain((a, b) => compare(a, b) >= 0),
+	'<=': chain((a, b) => compare(a, b) <= 0),
+	'+': (...args) => args.reduce((sum, n) => sum + n, 0),
+	'-': (first, ...rest) =>
+		rest.length ? rest.reduce((total, n) => total - n, first) : -first,
+	'*': (...args) => args.reduce((product, n) => product * n, 1),
+	'/': (first, ...rest) => rest.reduce((total, n) => total / n, first),
+	str: (...args) =>
+		args.map((arg) => (arg == null ? '' : String(arg))).join(''),
+	're-pattern': (source) => toRegExp(source),
+	're-find': (regex, text) => {
+		if (typeof text !== 'string') return null
+		const match = text.match(regex instanceof RegExp ? regex : toRegExp(regex))
+		if (!match) return null
+		return match.length > 1 ? [...match] : match[0]
+	},
+	'contains?': (collection, item) => {
+		if (collection instanceof Set) {
+			return [...collection].some((value) => equal(value, item))
+		}
+		if (Array.isArray(collection)) return item in collection
+		return collection != null && lookup(collection, item) !== undefined
+	},
+	get: (map, key, fallback) => lookup(map, key) ?? fallback ?? null,
+	count: (collection) =>
+		collection == null
+			? 0
+			: collection instanceof Set
+			? collection.size
+			: collection.length ?? Object.keys(collection).length,
+	'nil?': (value) => value == null,
+	'some?': (value) => value != null,
+	'true?': (value) => value === true,
+	'false?': (value) => value === false,
+	identity: (value) => value,
+	ground: (value) => value,
+	subs: (text, start, end) => String(text).slice(start, end),
+	'clojure.string/includes?': (text, part) =>
+		typeof text === 'string' && text.includes(part),
+	'clojure.string/starts-with?': (text, part) =>
+		typeof text === 'string' && text.startsWith(part),
+	'clojure.string/ends-with?': (text, part) =>
+		typeof text === 'string' && text.endsWith(part),
+	'clojure.string/blank?': (text) => !text || !String(text).trim(),
+}
+
+function invalidQuery(message: string): GraphError {
+	return new GraphError('INVALID_ARGUMENT', `Invalid query: ${message}`)
+}
+
+function checkDeadline(deadline: Deadline | undefined) {
+	if (deadline && Date.now() > deadline.at) {
+		throw new GraphError(
+			'TIMEOUT',
+			`The query did not finish within ${deadline.timeoutMs}ms`
+		)
+	}
+}
+
+function isVariable(value: EdnValue): value is EdnSymbol {
+	return isSymbol(value) && value.name.startsWith('?')
+}
+
+function isBlank(value: EdnValue): boolean {
+	return isSymbol(value, '_')
+}
+
+// Value of a term in a binding, or undefined when it is an unbound variable
+function resolveTerm(term: EdnValue, binding: Binding): any {
+	if (isVariable(term)) return binding.get(term.name)
+	return toJs(term)
+}
+
+function matchPattern(
+	db: Database,
+	pattern: EdnValue[],
+	bindings: Binding[]
+): Binding[] {
+	const terms =
+		isSymbol(pattern[0]) && pattern[0].name.startsWith('$')
+			? pattern.slice(1)
+			: pattern
+	const [eTerm, aTerm, vTerm = null] = terms
+	const result: Binding[] = []
+
+	for (const binding of bindings) {
+		checkDeadline(db.deadline)
+		const e = isBlank(eTerm) ? undefined : resolveTerm(eTerm, binding)
+		const a = isKeyword(aTerm) ? aTerm.name : resolveTerm(aTerm, binding)
+		const v =
+			terms.length < 3 || isBlank(vTerm)
+				? undefined
+				: resolveTerm(vTerm, binding)
+
+		let candidates: Datom[]
+		if (typeof e === 'number') {
+			candidates = db.byEntity.get(e) || []
+		} else if (typeof a === 'string') {
+			candidates = db.byAttribute.get(a) || []
+		} else {
+			candidates = [...db.byEntity.values()].flat()
+		}
+
+		for (const datom of candidates) {
+			if (e !== undefined && datom.e !== e) continue
+			if (a !== undefined && datom.a !== (isKeyword(a) ? a.name : a)) continue
+			if (v !== undefined && !equal(datom.v, v)) continue
+
+			const next = new Map(binding)
+			if (isVariable(eTerm) && e === undefined) next.set(eTerm.name, datom.e)
+			if (isVariable(aTerm) && a === undefined) next.set(aTerm.name, datom.a)
+			if (terms.length >= 3 && isVariable(vTerm) && v === undefined) {
+				next.set(vTerm.name, datom.v)
+			}
+			result.push(next)
+		}
+	}
+
+	return result
+}
+
+function callFunction(db: Database, call: EdnValue[], binding: Binding): any {
+	const [head, ...args] = call
+	if (!isSymbol(head))
+		throw invalidQuery('Function call must start with a symbol')
+
+	// Functions that look at the database directly
+	if (head.name === 'missing?' || head.name === 'get-else') {
+		const [, eTerm, attribute, fallback] = args
+		const entity = db.entities.get(resolveTerm(eTerm, binding))
+		const value = entity?.[isKeyword(attribute) ? attribute.name : '']
+		if (head.name === 'missing?') return value === undefined
+		return value ?? toJs(fallback)
+	}
+
+	const fn = FUNCTIONS[head.name]
+	if (!fn) throw invalidQuery(`Unknown function '${head.name}'`)
+
+	const values = args.map((arg) => {
+		if (isVariable(arg)) {
+			const name = arg.name
+			if (!binding.has(name)) {
+				throw invalidQuery(`Insufficient bindings: ${name} not bound`)
+			}
+			return binding.get(name)
+		}
+		return toJs(arg)
+	})
+	return fn(...values)
+}
+
+function bindResult(form: EdnValue, value: any, binding: Binding): Binding[] {
+	if (value === null || value === undefined || value === false) return []
+	if (isBlank(form)) return [binding]
+	if (isVariable(form)) {
+		const name = form.name
+		if (binding.has(name))
+			return equal(binding.get(name), value) ? [binding] : []
+		return [new Map(binding).set(name, value)]
+	}
+
+	const items = ednItems(form) || []
+	const values: any[] = value instanceof Set ? [...value] : value
+
+	// Collection binding: [?x ...]
+	if (items.length === 2 && isSymbol(items[1], '...')) {
+		return values.flatMap((item) => bindResult(items[0], item, binding))
+	}
+
+	// Relation binding: [[?a ?b]]
+	if (items.length === 1 && ednItems(items[0])) {
+		return values.flatMap((tuple) => bindResult(items[0], tuple, binding))
+	}
+
+	// Tuple binding: [?a ?b]
+	let bindings = [binding]
+	items.forEach((item, i) => {
+		bindings = bindings.flatMap((b) => bindResult(item, values[i], b))
+	})
+	return bindings
+}
+
+function evaluateClause(
+	db: Database,
+	clause: EdnValue,
+	bindings: Binding[]
+): Binding[] {
+	checkDeadline(db.deadline)
+	const items = ednItems(clause)
+	if (!items || typeof clause !== 'object' || clause === null) {
+		throw invalidQuery('Invalid where clause')
+	}
+
+	// Rule-like forms: (not ...), (or ...), (and ...)
+	if (clause.type === 'list') {
+		const [head, ...rest] = items
+		const name = isSymbol(head) ? head.name : ''
+
+		switch (name) {
+			case 'not':
+			case 'not-join': {
+				const clauses = name === 'not-join' ? rest.slice(1) : rest
+				return bindings.filter(
+					(binding) => evaluateClauses(db, clauses, [binding]).length === 0
+				)
+			}
+			case 'or':
+			case 'or-join': {
+				const branches = name === 'or-join' ? rest.slice(1) : rest
+				return bindings.flatMap((binding) =>
+					branches.flatMap((branch) => evaluateClause(db, branch, [binding]))
+				)
+			}
+			case 'and':
+				return evaluateClauses(db, rest, bindings)
+			default:
+				if (!db.rules?.has(name))
+					throw invalidQuery(`Unknown rule (${name} ...)`)
+				return evaluateRule(db, name, rest, bindings)
+		}
+	}
+
+	// Function and predicate clauses: [(f ?x) ?out]
+	const call = ednItems(items[0])
+	if (call && typeof items[0] === 'object' && items[0]?.type === 'list') {
+		return bindings.flatMap((binding) => {
+			const value = callFunction(db, call, binding)
+			if (items.length === 1) return value ? [binding] : []
+			return bindResult(items[1], value, binding)
+		})
+	}
+
+	return matchPattern(db, items, bindings)
+}
+
+function evaluateClauses(
+	db: Database,
+	clauses: EdnValue[],
+	bindings: Binding[]
+): Binding[] {
+	return clauses.reduce(
+		(current, clause) => evaluateClause(db, clause, current),
+		bindings
+	)
+}
+
+// Read the rules of a query: [[(name ?a ?b) clauses...] ...]. A name may
+// have several bodies; a call holds when any of them does.
+function parseRules(value: EdnValue): Map<string, Rule[]> {
+	const rules = new Map<string, Rule[]>()
+	for (const rule of ednItems(value) || []) {
+		const [head, ...body] = ednItems(rule) || []
+		const [name, ...params] = (head !== undefined && ednItems(head)) || []
+		// Required bindings are written [(name [?a] ?b) ...]
+		const names = params.flatMap((param) => ednItems(param) || [param])
+		if (!isSymbol(name) || !names.every(isVariable) || body.length === 0) {
+			throw invalidQuery(
+				'Rules must be written [[(name ?var ...) clause ...] ...]'
+			)
+		}
+		rules.set(name.name, [
+			...(rules.get(name.name) || []),
+			{ params: names.map((param) => param.name), body },
+		])
+	}
+	return rules
+}
+
+// Run a rule call. The rule's variables are its own: the bodies start from
+// the call's bound arguments and give back the ones it left unbound. A call
+// made again with the same arguments while under way finds nothing more, so
+// recursive rules come to an end.
+function evaluateRule(
+	db: Database,
+	name: string,
+	args: EdnValue[],
+	bindings: Binding[]
+): Binding[] {
+	const rules = db.rules!.get(name)!
+	const calls = (db.ruleCalls ||= new Set())
+	return bindings.flatMap((binding) => {
+		const values = args.map((arg) =>
+			isBlank(arg) ? undefined : resolveTerm(arg, binding)
+		)
+		const call = JSON.stringify([name, values])
+		if (calls.has(call)) return []
+		calls.add(call)
+		try {
+			return rules.flatMap((rule) => {
+				if (rule.params.length !== args.length) {
+					throw invalidQuery(
+						`Rule ${name} takes ${rule.params.length} arguments, got ${args.length}`
+					)
+				}
+				const start: Binding = new Map()
+				rule.params.forEach((param, i) => {
+					if (values[i] !== undefined) start.set(param, values[i])
+				})
+				return evaluateClauses(db, rule.body, [start]).flatMap((result) => {
+					let next = [binding]
+					args.forEach((arg, i) => {
+						if (values[i] !== undefined || !isVariable(arg)) return
+						next = next.flatMap((b) =>
+							bindResult(arg, result.get(rule.params[i]), b)
+						)
+					})
+					return next
+				})
+			})
+		} finally {
+			calls.delete(call)
+		}
+	})
+}
+
+// Turn a keyword like :block/original-name into the API's "originalName"
+function normalizeKey(attribute: string): string {
+	const name = attribute.includes('/') ? attribute.split('/')[1] : attribute
+	return name.replace(/-([a-z])/g, (_, char) => char.toUpperCase())
+}
+
+function isRefAttribute(attribute: string): boolean {
+	return ['block/page', 'block/parent', ...MANY_ATTRIBUTES].includes(attribute)
+}
+
+// A reference in a pull result: {id} as DataScript gives it, with the name
+// of a page when asked to resolve them
+function refValue(db: Database, id: number, resolveRefs: boolean): any {
+	const entity = db.entities.get(id)
+	return resolveRefs && entity?.['block/name'] !== undefined
+		? {
+				id,
+				name: entity['block/name'],
+				originalName: entity['block/original-name'],
+		  }
+		: { id }
+}
+
+function pull(
+	db: Database,
+	pattern: EdnValue,
+	id: number,
+	resolveRefs = false
+): any {
+	const entity = db.entities.get(id)
+	if (!entity) return null
+
+	const result: Record<string, any> = { id }
+	for (const spec of ednItems(pattern) || []) {
+		if (isSymbol(spec, '*')) {
+			for (const [attribute, value] of Object.entries(entity)) {
+				result[normalizeKey(attribute)] = isRefAttribute(attribute)
+					? Array.isArray(value)
+						? value.map((ref) => refValue(db, ref, resolveRefs))
+						: refValue(db, value, resolveRefs)
+					: value
+			}
+		} else if (isKeyword(spec)) {
+			const value = entity[spec.name]
+			if (value === undefined) continue
+			result[normalizeKey(spec.name)] = !isRefAttribute(spec.name)
+				? value
+				: Array.isArray(value)
+				? value.map((ref) => refValue(db, ref, resolveRefs))
+				: refValue(db, value, resolveRefs)
+		} else if (typeof spec === 'object' && spec?.type === 'map') {
+			// Nested pull: {:block/page [:block/name]}
+			for (const [key, subPattern] of spec.entries) {
+				if (!isKeyword(key) || entity[key.name] === undefined) continue
+				const value = entity[key.name]
+				result[normalizeKey(key.name)] = Array.isArray(value)
+					? value.map((ref) => pull(db, subPattern, ref, resolveRefs))
+					: pull(db, subPattern, value, resolveRefs)
+			}
+		}
+	}
+	return result
+}
+
+interface FindElement {
+	kind: 'variable' | 'pull' | 'aggregate'
+	variable: string
+	pattern?: EdnValue
+	aggregate?: string
+}
+
+function parseFindElement(element: EdnValue): FindElement {
+	if (isVariable(element)) {
+		return { kind: 'variable', variable: element.name }
+	}
+
+	const items = ednItems(element)
+	if (items && isSymbol(items[0])) {
+		const pull = items[0].name === 'pull'
+		const variable = pull
+			? items[1]
+			: items[items.length === 3 ? 1 : items.length - 1]
+		if (!isVariable(variable)) {
+			throw invalidQuery(`(${items[0].name} ...) must name a variable`)
+		}
+		if (pull) {
+			return { kind: 'pull', variable: variable.name, pattern: items[2] }
+		}
+		return {
+			kind: 'aggregate',
+			variable: variable.name,
+			aggregate: items[0].name,
+		}
+	}
+
+	throw invalidQuery('Unsupported :find element')
+}
+
+function aggregate(name: string, values: any[]): any {
+	switch (name) {
+		case 'count':
+			return values.length
+		case 'count-distinct':
+			return new Set(values).size
+		case 'distinct':
+			return [...new Set(values)]
+		case 'sum':
+			return values.reduce((sum, n) => sum + n, 0)
+		case 'avg':
+			return values.reduce((sum, n) => sum + n, 0) / values.length
+		case 'min':
+			return values.reduce((min, n) => (compare(n, min) < 0 ? n : min))
+		case 'max':
+			return values.reduce((max, n) => (compare(n, max) > 0 ? n : max))
+		default:
+			throw invalidQuery(`Unknown aggregate function '${name}'`)
+	}
+}
+
+// Split a query vector into its :find, :in, :where ... sections
+function querySections(query: EdnValue): Record<string, EdnValue[]> {
+	if (typeof query === 'object' && query?.type === 'map') {
+		const sections: Record<string, EdnValue[]> = {}
+		for (const [key, value] of query.entries) {
+			if (isKeyword(key)) sections[key.name] = ednItems(value) || []
+		}
+		return sections
+	}
+
+	const items = ednItems(query)
+	if (!items) throw invalidQuery('Query must be a vector or a map')
+
+	const sections: Record<string, EdnValue[]> = {}
+	let current = ''
+	for (const item of items) {
+		if (isKeyword(item)) {
+			current = item.name
+			sections[current] = []
+		} else if (current) {
+			sections[current].push(item)
+		} else {
+			throw invalidQuery('Query must start with a keyword such as :find')
+		}
+	}
+	return sections
+}
+
+// Read a query into its sections. EDN syntax errors and a missing :find
+// fail with INVALID_ARGUMENT.
+export function parseQuery(
+	queryText: string | EdnValue
+): Record<string, EdnValue[]> {
+	let query: EdnValue
+	try {
+		query = typeof queryText === 'string' ? parseEdn(queryText) : queryText
+	} catch (error) {
+		throw invalidQuery((error as Error).message)
+	}
+	const sections = querySections(query)
+	if (!sections.find?.length) {
+		throw invalidQuery('Query is missing a :find clause')
+	}
+	return sections
+}
+
+// The :in parameters a query needs inputs for: all but its databases ($)
+export function queryParameters(
+	sections: Record<string, EdnValue[]>
+): EdnValue[] {
+	return (sections.in || []).filter(
+		(spec) => !(isSymbol(spec) && spec.name.startsWith('$'))
+	)
+}
+
+// A JSON value as a query input. Inputs travel as EDN text that Logseq
+// reads as data, so no input can change the query itself. Strings that are
+// keywords (":today", ":-7d") stay keywords, for Logseq's relative dates.
+export function toQueryInput(value: unknown): string {
+	if (typeof value === 'string') {
+		return /^:[\w.+?*/-]+$/.test(value) ? value : JSON.stringify(value)
+	}
+	if (value === null) return 'nil'
+	if (typeof value === 'boolean') return String(value)
+	if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+	if (Array.isArray(value)) return `[${value.map(toQueryInput).join(' ')}]`
+	throw new GraphError(
+		'INVALID_ARGUMENT',
+		'Query inputs must be strings, numbers, booleans, null or arrays of them'
+	)
+}
+
+// Run a Datalog query. String inputs are read as EDN like Logseq does.
+export function runQuery(
+	database: Database,
+	queryText: string | EdnValue,
+	inputs: any[] = [],
+	options: RunQueryOptions = {}
+): any {
+	const sections = parseQuery(queryText)
+	const find = sections.find
+	const db: Database = {
+		...database,
+		deadline: options.deadline ?? startDeadline(options.timeoutMs),
+	}
+
+	// Bind :in parameters
+	const inSpecs = sections.in || [{ type: 'symbol', name: '$' }]
+	let bindings: Binding[] = [new Map()]
+	let inputIndex = 0
+	const readInput = (raw: string) => {
+		try {
+			return parseEdn(raw)
+		} catch (error) {
+			throw invalidQuery(`input ${inputIndex}: ${(error as Error).message}`)
+		}
+	}
+	for (const spec of inSpecs) {
+		if (isSymbol(spec) && spec.name.startsWith('$')) continue
+
+		const raw = inputs[inputIndex++]
+		if (raw === undefined) {
+			throw invalidQuery(
+				`Too few inputs passed, expected ${queryParameters(sections).length}`
+			)
+		}
+		if (isSymbol(spec, '%')) {
+			db.rules = parseRules(typeof raw === 'string' ? readInput(raw) : raw)
+			continue
+		}
+		let value = raw
+		if (typeof raw === 'string') value = resolveInput(readInput(raw))
+		bindings = bindings.flatMap((binding) => bindResult(spec, value, binding))
+	}
+
+	bindings = evaluateClauses(db, sections.where || [], bindings)
+
+	// Find specs: [?x ...] collection, ?x . scalar, [?a ?b] tuple
+	let elements = find
+	let shape: 'relation' | 'collection' | 'scalar' | 'tuple' = 'relation'
+	const single = ednItems(find[0])
+	if (find.length === 1 && single && isVector(find[0])) {
+		shape = isSymbol(single[single.length - 1], '...') ? 'collection' : 'tuple'
+		elements = shape === 'collection' ? single.slice(0, -1) : single
+	} else if (find.length === 2 && isSymbol(find[1], '.')) {
+		shape = 'scalar'
+		elements = [find[0]]
+	}
+
+	const parsed = elements.map(parseFindElement)
+	const withVariables = (sections.with || []).map((item) => {
+		if (!isVariable(item)) throw invalidQuery(':with takes variables')
+		return item.name
+	})
+	const variables = [...parsed.map((el) => el.variable), ...withVariables]
+
+	// Results are sets: drop duplicate tuples before aggregating
+	const seen = new Set<string>()
+	const tuples: any[][] = []
+	for (const binding of bindings) {
+		const tuple = variables.map((name) => {
+			if (!binding.has(name))
+				throw invalidQuery(`Unbound variable ${name} in :find`)
+			return binding.get(name)
+		})
+		const key = JSON.stringify(tuple)
+		if (!seen.has(key)) {
+			seen.add(key)
+			tuples.push(tuple)
+		}
+	}
+
+	let rows: any[][]
+	if (parsed.some((el) => el.kind === 'aggregate')) {
+		const groups = new Map<string, any[][]>()
+		for (const tuple of tuples) {
+			const key = JSON.stringify(
+				parsed.map((el, i) => (el.kind === 'aggregate' ? null : tuple[i]))
+			)
+			groups.set(key, [...(groups.get(key) || []), tuple])
+		}
+		rows = [...groups.values()].map((group) =>
+			parsed.map((el, i) =>
+				el.kind === 'aggregate'
+					? aggregate(
+							el.aggregate!,
+							group.map((tuple) => tuple[i])
+					  )
+					: group[0][i]
+			)
+		)
+	} else {
+		rows = tuples.map((tuple) => tuple.slice(0, parsed.length))
+	}
+
+	rows = rows.map((row) =>
+		row.map((value, i) =>
+			parsed[i].kind === 'pull'
+				? pull(db, parsed[i].pattern!, value, options.resolveRefs)
+				: value
+		)
+	)
+
+	switch (shape) {
+		case 'collection':
+			return rows.map((row) => row[0])
+		case 'scalar':
+			return rows[0]?.[0] ?? null
+		case 'tuple':
+			return rows[0] ?? null
+		default:
+			return rows
+	}
+}
@@ -0,0 +1,346 @@
+import {
+	DEFAULT_LOCALE,
+	formatDate,
+	parseIsoDate,
+	parseJournalDate,
+	parseMonthName,
+	toIsoDate,
+	toJournalDay,
+} from './dates.js'
+import { GraphError } from './errors.js'
+
+// Date ranges the journal tools take in plain words: "today", "last week",
+// "last 10 days", "March 2025", "Q2 2025", "2025-W12", "since March" or
+// "2025-01-01 to 2025-03-31". Ranges are whole days, so journals are picked
+// by their journalDay, never by when their file was edited.
+
+export interface DateRange {
+	// Start of the first day and end of the last day, in local time
+	start: Date
+	end: Date
+	// The same days as journalDay integers
+	startDay: number
+	endDay: number
+	// What the range covers, e.g. "March 2025" or "last 10 days"
+	label: string
+}
+
+export interface DateRangeOptions {
+	// The day relative ranges count from (default: now)
+	now?: Date
+	// First day of the week, 0 for Sunday (the graph's :start-of-week)
+	weekStartsOn?: number
+	// The graph's journal title format and locale, so single days can be
+	// given as journal titles
+	titleFormat?: string
+	locale?: string
+}
+
+type Unit = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+// A run of whole days, both ends at the start of their day
+interface Period {
+	start: Date
+	end: Date
+	label: string
+}
+
+export const DATE_RANGE_EXAMPLES = [
+	'today',
+	'yesterday',
+	'this week',
+	'last week',
+	'this month',
+	'last month',
+	'this quarter',
+	'last quarter',
+	'this year',
+	'last year',
+	'year to date',
+	'last 7 days',
+	'last 30 days',
+]
+
+const addDays = (date: Date, days: number) =>
+	new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// Months later or earlier, on the same day or the last day of a shorter month
+function addMonths(date: Date, months: number): Date {
+	const first = new Date(date.getFullYear(), date.getMonth() + months, 1)
+	const lastDay = new Date(
+		first.getFullYear(),
+		first.getMonth() + 1,
+		0
+	).getDate()
+	return new Date(
+		first.getFullYear(),
+		first.getMonth(),
+		Math.min(date.getDate(), lastDay)
+	)
+}
+
+function shift(date: Date, unit: Unit, count: number): Date {
+	switch (unit) {
+		case 'day':
+			return addDays(date, count)
+		case 'week':
+			return addDays(date, count * 7)
+		case 'month':
+			return addMonths(date, count)
+		case 'quarter':
+			return addMonths(date, count * 3)
+		case 'year':
+			return addMonths(date, count * 12)
+	}
+}
+
+// The day, week, month, quarter or year a date falls in
+function periodOf(date: Date, unit: Unit, weekStartsOn: number): Period {
+	const year = date.getFullYear()
+	const month = date.getMonth()
+	switch (unit) {
+		case 'day':
+			return { start: date, end: date, label: toIsoDate(date) }
+		case 'week': {
+			const start = addDays(date, -((date.getDay() - weekStartsOn + 7) % 7))
+			return {
+				start,
+				end: addDays(start, 6),
+				label: `week of ${toIsoDate(start)}`,
+			}
+		}
+		case 'month':
+			return monthPeriod(year, month)
+		case 'quarter': {
+			const quarter = Math.floor(month / 3)
+			return {
+				start: new Date(year, quarter * 3, 1),
+				end: new Date(year, quarter * 3 + 3, 0),
+				label: `Q${quarter + 1} ${year}`,
+			}
+		}
+		case 'year':
+			return {
+				start: new Date(year, 0, 1),
+				end: new Date(year, 11, 31),
+				label: String(year),
+			}
+	}
+}
+
+function monthPeriod(year: number, month: number): Period {
+	const start = new Date(year, month, 1)
+	return {
+		start,
+		end: new Date(year, month + 1, 0),
+		label: formatDate(start, 'MMMM yyyy'),
+	}
+}
+
+// ISO 8601 week: weeks start on Monday and week 1 holds the year's first
+// Thursday. Null for a week the year does not have.
+function isoWeekPeriod(year: number, week: number): Period | null {
+	const january4 = new Date(year, 0, 4)
+	const start = addDays(
+		january4,
+		(week - 1) * 7 - ((january4.getDay() + 6) % 7)
+	)
+	if (week < 1 || addDays(start, 3).getFullYear() !== year) return null
+	return {
+		start,
+		end: addDays(start, 6),
+		label: `${year}-W${String(week).padStart(2, '0')}`,
+	}
+}
+
+// The ISO week-numbering year of a date: the year of its week's Thursday
+function isoWeekYear(date: Date): number {
+	return addDays(date, 3 - ((date.getDay() + 6) % 7)).getFullYear()
+}
+
+const UNIT_PATTERN = '(day|week|month|quarter|year)s?'
+const TO_DATE_ABBREVIATIONS: Record<string, Unit> = {
+	wtd: 'week',
+	mtd: 'month',
+	qtd: 'quarter',
+	ytd: 'year',
+}
+
+// One period in words, or null when the text is not one
+function parsePeriod(
+	text: string,
+	today: Date,
+	options: DateRangeOptions
+): Period | null {
+	const weekStartsOn = options.weekStartsOn ?? 0
+	const phrase = text.trim().toLowerCase().replace(/\s+/g, ' ')
+	let match: RegExpMatchArray | null
+
+	if (phrase === 'today') return periodOf(today, 'day', weekStartsOn)
+	if (phrase === 'yesterday') {
+		return periodOf(addDays(today, -1), 'day', weekStartsOn)
+	}
+	if (phrase === 'tomorrow') {
+		return periodOf(addDays(today, 1), 'day', weekStartsOn)
+	}
+
+	if (
+		(match = phrase.match(
+			/^(this|current|last|previous|next) (week|month|quarter|year)$/
+		))
+	) {
+		const offset = { last: -1, previous: -1, next: 1 }[match[1]] ?? 0
+		const unit = match[2] as Unit
+		const period = periodOf(shift(today, unit, offset), unit, weekStartsOn)
+		return { ...period, label: phrase }
+	}
+
+	// The last n days, weeks... up to and including today
+	if (
+		(match = phrase.match(
+			new RegExp(`^(?:the )?(?:last|past|previous) (\\d+) ${UNIT_PATTERN}$`)
+		))
+	) {
+		const count = parseInt(match[1], 10)
+		if (count < 1) return null
+		const unit = match[2] as Unit
+		return {
+			start: addDays(shift(today, unit, -count), 1),
+			end: today,
+			label: `last ${count} ${unit}${count === 1 ? '' : 's'}`,
+		}
+	}
+
+	if ((match = phrase.match(new RegExp(`^(\\d+) ${UNIT_PATTERN} ago$`)))) {
+		const unit = match[2] as Unit
+		return periodOf(
+			shift(today, unit, -parseInt(match[1], 10)),
+			unit,
+			weekStartsOn
+		)
+	}
+
+	// "year to date", "ytd"...
+	const toDate =
+		phrase.match(/^(week|month|quarter|year)[ -]to[ -]date$/)?.[1] ??
+		TO_DATE_ABBREVIATIONS[phrase]
+	if (toDate) {
+		const unit = toDate as Unit
+		const { start } = periodOf(today, unit, weekStartsOn)
+		return { start, end: today, label: `${unit} to date` }
+	}
+
+	// Quarters: "Q2", "Q2 2025", "2025-Q2"
+	const quarter = (year: number, quarter: string) =>
+		periodOf(new Date(year, (parseInt(quarter, 10) - 1) * 3, 1), 'quarter', 0)
+	if ((match = phrase.match(/^q([1-4])(?:,? (\d{4}))?$/))) {
+		return quarter(
+			match[2] ? parseInt(match[2], 10) : today.getFullYear(),
+			match[1]
+		)
+	}
+	if ((match = phrase.match(/^(\d{4})[ -]?q([1-4])$/))) {
+		return quarter(parseInt(match[1], 10), match[2])
+	}
+
+	// ISO weeks: "2025-W12", "W12", "week 12 2025"
+	if ((match = phrase.match(/^(\d{4})-?w(\d{1,2})$/))) {
+		return isoWeekPeriod(parseInt(match[1], 10), parseInt(match[2], 10))
+	}
+	if ((match = phrase.match(/^(?:w|week) ?(\d{1,2})(?:,? (\d{4}))?$/))) {
+		return isoWeekPeriod(
+			match[2] ? parseInt(match[2], 10) : isoWeekYear(today),
+			parseInt(match[1], 10)
+		)
+	}
+
+	if (/^\d{4}$/.test(phrase)) {
+		return periodOf(new Date(parseInt(phrase, 10), 0, 1), 'year', 0)
+	}
+	if ((match = phrase.match(/^(\d{4})-(\d{2})$/))) {
+		const month = parseInt(match[2], 10) - 1
+		return month >= 0 && month < 12
+			? monthPeriod(parseInt(match[1], 10), month)
+			: null
+	}
+
+	// Months: "March 2025", or "March" for the last one that has begun
+	if ((match = phrase.match(/^(\p{L}+\.?),? ?(\d{4})?$/u))) {
+		const month = parseMonthName(match[1], options.locale ?? DEFAULT_LOCALE)
+		if (month !== null) {
+			let year = match[2] ? parseInt(match[2], 10) : today.getFullYear()
+			if (!match[2] && month > today.getMonth()) year--
+			return monthPeriod(year, month)
+		}
+	}
+
+	// A single day, as YYYY-MM-DD or a journal title
+	const day =
+		parseIsoDate(text.trim()) ||
+		(options.titleFormat
+			? parseJournalDate(text, options.titleFormat, options.locale)
+			: null) ||
+		parseJournalDate(text, undefined, options.locale)
+	return day ? periodOf(day, 'day', weekStartsOn) : null
+}
+
+function unrecognized(text: string): GraphError {
+	return new GraphError(
+		'INVALID_ARGUMENT',
+		`Unrecognized date range "${text}". Use e.g. "today", "last week", "last 10 days", "March 2025", "Q2 2025", "2025-W12", "since March" or "2025-01-01 to 2025-03-31".`
+	)
+}
+
+// Read a date range. Fails with INVALID_ARGUMENT when the text is not one
+// or ends before it starts.
+export function parseDateRange(
+	text: string,
+	options: DateRangeOptions = {}
+): DateRange {
+	const now = options.now ?? new Date()
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+	const parse = (part: string) => {
+		const period = parsePeriod(part, today, options)
+		if (!period) throw unrecognized(part)
+		return period
+	}
+
+	const trimmed = text.trim()
+	let first = parsePeriod(trimmed, today, options)
+	let last = first
+	let label = first?.label
+	const since = trimmed.match(/^since (.+)$/i)
+	// Phrases like "year to date" are periods, not ranges between two
+	const between =
+		!first &&
+		(trimmed.match(/^between (.+?) and (.+)$/i) ||
+			trimmed.match(/^(?:from )?(.+?) (?:to|until|through|-|–|—) (.+)$/i) ||
+			trimmed.match(/^(.+?)\s*\.\.\s*(.+)$/))
+	if (since) {
+		first = parse(since[1])
+		last = { start: today, end: today, label: 'today' }
+		label = `since ${first.label}`
+	} else if (between) {
+		first = parse(between[1])
+		last = parse(between[2])
+		label = `${first.label} to ${last.label}`
+	}
+	if (!first || !last || !label) throw unrecognized(trimmed)
+
+	if (first.start > last.end) {
+		throw new GraphError(
+			'INVALID_ARGUMENT',
+			`Date range "${text}" ends before it starts`
+		)
+	}
+
+	const end = new Date(last.end)
+	end.setHours(23, 59, 59, 999)
+	return {
+		start: first.start,
+		end,
+		startDay: toJournalDay(first.start),
+		endDay: toJournalDay(last.end),
+		label,
+	}
+}
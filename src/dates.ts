@@ -0,0 +1,442 @@
+// Journal dates in the formats Logseq writes them: page titles in any of the
+// title formats it offers (with month and weekday names in a configurable
+// language), journalDay integers such as 20250314 and journal file names.
+
+const MONTHS = [
+	'January',
+	'February',
+	'March',
+	'April',
+	'May',
+	'June',
+	'July',
+	'August',
+	'September',
+	'October',
+	'November',
+	'December',
+]
+
+const WEEKDAYS = [
+	'Sunday',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+]
+
+// Logseq's defaults for :journal/page-title-format and :journal/file-name-format
+export const DEFAULT_JOURNAL_TITLE_FORMAT = 'MMM do, yyyy'
+export const DEFAULT_JOURNAL_FILE_NAME_FORMAT = 'yyyy_MM_dd'
+// Logseq writes month and weekday names in English
+export const DEFAULT_LOCALE = 'en-US'
+
+// The journal title formats Logseq offers in its settings, default first.
+// Titles without a known format are tried against each in turn, so an
+// ambiguous one like 03-04-2025 is read in the first format it fits.
+export const JOURNAL_TITLE_FORMATS = [
+	DEFAULT_JOURNAL_TITLE_FORMAT,
+	'MMMM do, yyyy',
+	'do MMM yyyy',
+	'do MMMM yyyy',
+	'EEEE, MMM do yyyy',
+	'E, dd-MM-yyyy',
+	'E, dd.MM.yyyy',
+	'E, MM/dd/yyyy',
+	'E, yyyy/MM/dd',
+	'EEE, dd-MM-yyyy',
+	'EEE, dd.MM.yyyy',
+	'EEE, MM/dd/yyyy',
+	'EEE, yyyy/MM/dd',
+	'EEEE, dd-MM-yyyy',
+	'EEEE, dd.MM.yyyy',
+	'EEEE, MM/dd/yyyy',
+	'EEEE, yyyy/MM/dd',
+	'dd-MM-yyyy',
+	'dd.MM.yyyy',
+	'MM/dd/yyyy',
+	'MM-dd-yyyy',
+	'MM_dd_yyyy',
+	'yyyy/MM/dd',
+	'yyyy-MM-dd',
+	'yyyy-MM-dd EEEE',
+	'yyyy_MM_dd',
+	'yyyyMMdd',
+	'yyyy年MM月dd日',
+]
+
+// Month and weekday names of a locale, for formatting, and every spelling
+// accepted when parsing, lower-cased without a trailing dot
+interface DateNames {
+	months: string[]
+	shortMonths: string[]
+	weekdays: string[]
+	shortWeekdays: string[]
+	monthIndex: Map<string, number>
+	weekdayNames: Set<string>
+}
+
+const dateNames = new Map<string, DateNames>()
+
+const normalizeName = (name: string) =>
+	name.toLowerCase().replace(/\.$/, '').trim()
+
+function isEnglish(locale: string): boolean {
+	return /^en(-|$)/i.test(locale)
+}
+
+// Names come from Intl, except for English where they are fixed to what
+// date-fns gives Logseq ("Sep", where Intl may say "Sept")
+function namesFor(locale: string): DateNames {
+	const cached = dateNames.get(locale)
+	if (cached) return cached
+
+	let months = MONTHS
+	let shortMonths = MONTHS.map((name) => name.slice(0, 3))
+	let weekdays = WEEKDAYS
+	let shortWeekdays = WEEKDAYS.map((name) => name.slice(0, 3))
+	// Month names standing alone; some languages inflect them inside a
+	// date ("март", but "14 марта"), which is how they are written
+	let standaloneMonths: string[] = []
+	if (!isEnglish(locale)) {
+		const name = (options: Intl.DateTimeFormatOptions, date: Date) =>
+			new Intl.DateTimeFormat(locale, options).format(date)
+		const monthDate = (month: number) => new Date(2021, month, 14)
+		// 3 January 2021 was a Sunday
+		const weekdayDate = (day: number) => new Date(2021, 0, 3 + day)
+		standaloneMonths = MONTHS.map((_, month) =>
+			name({ month: 'long' }, monthDate(month))
+		)
+		months = MONTHS.map(
+			(_, month) =>
+				new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'long' })
+					.formatToParts(monthDate(month))
+					.find((part) => part.type === 'month')?.value ||
+				standaloneMonths[month]
+		)
+		shortMonths = MONTHS.map((_, month) =>
+			name({ month: 'short' }, monthDate(month))
+		)
+		weekdays = WEEKDAYS.map((_, day) =>
+			name({ weekday: 'long' }, weekdayDate(day))
+		)
+		shortWeekdays = WEEKDAYS.map((_, day) =>
+			name({ weekday: 'short' }, weekdayDate(day))
+		)
+	}
+
+	// English names are always understood, whatever the locale
+	const monthIndex = new Map<string, number>()
+	for (const list of [
+		months,
+		shortMonths,
+		standaloneMonths,
+		MONTHS,
+		MONTHS.map((month) => month.slice(0, 3)),
+	]) {
+		list.forEach((month, index) => {
+			if (month && !monthIndex.has(normalizeName(month))) {
+				monthIndex.set(normalizeName(month), index)
+			}
+		})
+	}
+	const weekdayNames = new Set(
+		[...weekdays, ...shortWeekdays, ...WEEKDAYS]
+			.concat(WEEKDAYS.map((day) => day.slice(0, 3)))
+			.map(normalizeName)
+	)
+
+	const names = {
+		months,
+		shortMonths,
+		weekdays,
+		shortWeekdays,
+		monthIndex,
+		weekdayNames,
+	}
+	dateNames.set(locale, names)
+	return names
+}
+
+// Whether month and weekday names can be given in this locale
+export function isSupportedLocale(locale: string): boolean {
+	try {
+		return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0
+	} catch {
+		return false
+	}
+}
+
+// Tokens of the date-fns patterns Logseq's date formats are written in;
+// text in single quotes is literal
+const FORMAT_TOKEN_REGEX =
+	/yyyy|yy|MMMM|MMM|MM|M|do|dd|d|EEEE|EEE|EE|E|'[^']*'/g
+
+function splitFormat(format: string): string[] {
+	const parts: string[] = []
+	let last = 0
+	for (const match of format.matchAll(FORMAT_TOKEN_REGEX)) {
+		if (match.index! > last) parts.push(format.slice(last, match.index))
+		parts.push(match[0])
+		last = match.index! + match[0].length
+	}
+	if (last < format.length) parts.push(format.slice(last))
+	return parts
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Format a date with a date-fns pattern such as "MMM do, yyyy" or
+// "yyyy_MM_dd". Ordinal days get an English suffix only in English.
+export function formatDate(
+	date: Date,
+	format: string,
+	locale = DEFAULT_LOCALE
+): string {
+	const names = namesFor(locale)
+	const day = date.getDate()
+	const month = date.getMonth()
+	const weekday = date.getDay()
+	const tokens: Record<string, () => string> = {
+		yyyy: () => String(date.getFullYear()),
+		yy: () => String(date.getFullYear() % 100).padStart(2, '0'),
+		MMMM: () => names.months[month],
+		MMM: () => names.shortMonths[month],
+		MM: () => pad(month + 1),
+		M: () => String(month + 1),
+		do: () => (isEnglish(locale) ? `${day}${getDaySuffix(day)}` : String(day)),
+		dd: () => pad(day),
+		d: () => String(day),
+		EEEE: () => names.weekdays[weekday],
+		EEE: () => names.shortWeekdays[weekday],
+		EE: () => names.shortWeekdays[weekday],
+		E: () => names.shortWeekdays[weekday],
+	}
+	return splitFormat(format)
+		.map((part) =>
+			part.startsWith("'") ? part.slice(1, -1) : tokens[part]?.() ?? part
+		)
+		.join('')
+}
+
+// Each field as a regular expression with one group capturing its value.
+// Names are any run of letters and checked against the locale's names.
+const NAME_FIELD = '(\\p{L}+\\.?)'
+const DATE_FIELDS: Record<string, string> = {
+	yyyy: '(\\d{4})',
+	yy: '(\\d{2})',
+	MMMM: NAME_FIELD,
+	MMM: NAME_FIELD,
+	MM: '(\\d{2})',
+	M: '(\\d{1,2})',
+	do: '(\\d{1,2})(?:st|nd|rd|th|\\.)?',
+	dd: '(\\d{2})',
+	d: '(\\d{1,2})',
+	EEEE: NAME_FIELD,
+	EEE: NAME_FIELD,
+	EE: NAME_FIELD,
+	E: NAME_FIELD,
+}
+
+// A month name in the locale or in English, full or abbreviated; other
+// abbreviations of at least three letters ("Sept") are matched by prefix.
+// Gives the month's index (0 for January), or null.
+export function parseMonthName(
+	value: string,
+	locale = DEFAULT_LOCALE
+): number | null {
+	const names = namesFor(locale)
+	const name = normalizeName(value)
+	const month = names.monthIndex.get(name)
+	if (month !== undefined) return month
+	if (name.length < 3) return null
+	const index = [...names.months, ...MONTHS].findIndex((month) =>
+		month.toLowerCase().startsWith(name)
+	)
+	return index === -1 ? null : index % 12
+}
+
+// Parse text written with a date-fns pattern back into a local date, or null
+// when it does not match the pattern or names a day that does not exist.
+// Month and weekday names are matched case-insensitively, in the locale or
+// in English, and the suffix of "do" days is optional.
+export function parseDate(
+	text: string,
+	format: string,
+	locale = DEFAULT_LOCALE
+): Date | null {
+	const fields: string[] = []
+	const pattern = splitFormat(format)
+		.map((part) => {
+			if (part.startsWith("'")) return escapeRegExp(part.slice(1, -1))
+			const field = DATE_FIELDS[part]
+			if (!field) return escapeRegExp(part)
+			fields.push(part)
+			return field
+		})
+		.join('')
+	const match = text.trim().match(new RegExp(`^${pattern}$`, 'iu'))
+	if (!match) return null
+
+	const names = namesFor(locale)
+	let year: number | undefined
+	let month: number | undefined
+	let day: number | undefined
+	for (const [index, field] of fields.entries()) {
+		const value = match[index + 1]
+		if (field === 'yyyy') year = parseInt(value, 10)
+		else if (field === 'yy') year = 2000 + parseInt(value, 10)
+		else if (field === 'MMMM' || field === 'MMM') {
+			month = parseMonthName(value, locale) ?? undefined
+		} else if (field === 'MM' || field === 'M') month = parseInt(value, 10) - 1
+		else if (field === 'do' || field === 'dd' || field === 'd') {
+			day = parseInt(value, 10)
+		} else if (!names.weekdayNames.has(normalizeName(value))) {
+			return null
+		}
+	}
+	if (year === undefined || month === undefined || day === undefined) {
+		return null
+	}
+
+	const date = new Date(year, month, day)
+	return date.getFullYear() === year &&
+		date.getMonth() === month &&
+		date.getDate() === day
+		? date
+		: null
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Format a date as a journal page title, by default the way Logseq does
+// ("Mar 14th, 2025")
+export function formatJournalDate(
+	date: Date,
+	format = DEFAULT_JOURNAL_TITLE_FORMAT,
+	locale = DEFAULT_LOCALE
+): string {
+	return formatDate(date, format, locale)
+}
+
+// Get the appropriate suffix for a day number (1st, 2nd, 3rd, etc.)
+export function getDaySuffix(day: number): string {
+	if (day >= 11 && day <= 13) return 'th'
+
+	switch (day % 10) {
+		case 1:
+			return 'st'
+		case 2:
+			return 'nd'
+		case 3:
+			return 'rd'
+		default:
+			return 'th'
+	}
+}
+
+// Check if a string is a journal page title: in the given format, or in any
+// of the formats Logseq supports when none is given
+export function isJournalDate(
+	pageName: string,
+	format?: string,
+	locale = DEFAULT_LOCALE
+): boolean {
+	return parseJournalDate(pageName, format, locale) !== null
+}
+
+// Parse a journal page title like "Mar 14th, 2025" back into a date, in the
+// given format or, without one, in the first supported format that fits
+export function parseJournalDate(
+	pageName: string,
+	format?: string,
+	locale = DEFAULT_LOCALE
+): Date | null {
+	if (format !== undefined) return parseDate(pageName, format, locale)
+	for (const candidate of JOURNAL_TITLE_FORMATS) {
+		const date = parseDate(pageName, candidate, locale)
+		if (date) return date
+	}
+	return null
+}
+
+// The journalDay of a journal page title, or null when it is not one
+export function journalDayFromTitle(
+	pageName: string,
+	format?: string,
+	locale = DEFAULT_LOCALE
+): number | null {
+	const date = parseJournalDate(pageName, format, locale)
+	return date ? toJournalDay(date) : null
+}
+
+// The journal page title of a journalDay
+export function journalTitleFromDay(
+	journalDay: number,
+	format = DEFAULT_JOURNAL_TITLE_FORMAT,
+	locale = DEFAULT_LOCALE
+): string {
+	return formatDate(fromJournalDay(journalDay), format, locale)
+}
+
+// Name of the journal file for a journalDay, without extension
+export function journalFileName(
+	journalDay: number,
+	format = DEFAULT_JOURNAL_FILE_NAME_FORMAT
+): string {
+	return formatDate(fromJournalDay(journalDay), format)
+}
+
+// The journalDay of a journal file name (without extension). Files named
+// in Logseq's default format, with underscores or dashes, are read whatever
+// the graph's file name format.
+export function journalDayFromFileName(
+	fileName: string,
+	format = DEFAULT_JOURNAL_FILE_NAME_FORMAT
+): number | null {
+	const date =
+		parseDate(fileName, format) ||
+		parseDate(fileName.replace(/-/g, '_'), DEFAULT_JOURNAL_FILE_NAME_FORMAT)
+	return date ? toJournalDay(date) : null
+}
+
+// Convert a date into Logseq's journalDay integer (e.g. 20250314)
+export function toJournalDay(date: Date): number {
+	return (
+		date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate()
+	)
+}
+
+// Convert a journalDay integer back into a local date
+export function fromJournalDay(journalDay: number): Date {
+	return new Date(
+		Math.floor(journalDay / 10000),
+		Math.floor((journalDay % 10000) / 100) - 1,
+		journalDay % 100
+	)
+}
+
+// Format a date as YYYY-MM-DD in local time
+export function toIsoDate(date: Date): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0')
+	const day = String(date.getDate()).padStart(2, '0')
+	return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Parse a YYYY-MM-DD string into a local date, or null when the day does
+// not exist
+export function parseIsoDate(text: string): Date | null {
+	const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+	if (!match) return null
+	const [year, month, day] = match.slice(1).map((part) => parseInt(part, 10))
+	const date = new Date(year, month - 1, day)
+	return date.getFullYear() === year &&
+		date.getMonth() === month - 1 &&
+		date.getDate() === day
+		? date
+		: null
+}
@@ -0,0 +1,287 @@
+import type { BlockChange, BlockEntity } from './backend/types.js'
+
+// Line and block diffs for dry-run previews
+
+export interface DiffLine<T> {
+	type: 'same' | 'removed' | 'added'
+	item: T
+}
+
+const CONTEXT_LINES = 3
+
+// Longest-common-subsequence diff. Edits are usually local, so the common
+// head and tail are trimmed before the quadratic part.
+export function diffSequences<T>(
+	before: T[],
+	after: T[],
+	equals: (a: T, b: T) => boolean = (a, b) => a === b
+): DiffLine<T>[] {
+	let head = 0
+	while (
+		head < before.length &&
+		head < after.length &&
+		equals(before[head], after[head])
+	) {
+		head++
+	}
+	let tail = 0
+	while (
+		tail < before.length - head &&
+		tail < after.length - head &&
+		equals(before[before.length - 1 - tail], after[after.length - 1 - tail])
+	) {
+		tail++
+	}
+
+	const a = before.slice(head, before.length - tail)
+	const b = after.slice(head, after.length - tail)
+	const width = b.length + 1
+	// lengths[i * width + j]: LCS length of a[i..] and b[j..]
+	const lengths = new Uint32Array((a.length + 1) * width)
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] = equals(a[i], b[j])
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+		}
+	}
+
+	const result: DiffLine<T>[] = before
+		.slice(0, head)
+		.map((item) => ({ type: 'same', item }))
+	let i = 0
+	let j = 0
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && equals(a[i], b[j])) {
+			result.push({ type: 'same', item: a[i] })
+			i++
+			j++
+		} else if (
+			i < a.length &&
+			(j === b.length ||
+				lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+		) {
+			result.push({ type: 'removed', item: a[i++] })
+		} else {
+			result.push({ type: 'added', item: b[j++] })
+		}
+	}
+	for (const item of before.slice(before.length - tail)) {
+		result.push({ type: 'same', item })
+	}
+	return result
+}
+
+// Unified diff of two file contents; null stands for a missing file
+export function unifiedDiff(
+	filePath: string,
+	before: string | null,
+	after: string | null
+): string {
+	const lines = diffSequences(
+		before === null ? [] : before.split('\n'),
+		after === null ? [] : after.split('\n')
+	)
+
+	const hunks: string[] = []
+	let index = 0
+	while (index < lines.length) {
+		// Find the next change and the context around it
+		while (index < lines.length && lines[index].type === 'same') index++
+		if (index === lines.length) break
+
+		const start = Math.max(0, index - CONTEXT_LINES)
+		let end = index
+		let lastChange = index
+		while (end < lines.length && end - lastChange <= CONTEXT_LINES * 2) {
+			if (lines[end].type !== 'same') lastChange = end
+			end++
+		}
+		end = Math.min(lines.length, lastChange + CONTEXT_LINES + 1)
+
+		const hunk = lines.slice(start, end)
+		const oldStart = lines
+			.slice(0, start)
+			.filter((line) => line.type !== 'added').length
+		const newStart = lines
+			.slice(0, start)
+			.filter((line) => line.type !== 'removed').length
+		const oldCount = hunk.filter((line) => line.type !== 'added').length
+		const newCount = hunk.filter((line) => line.type !== 'removed').length
+
+		hunks.push(
+			`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${
+				newCount ? newStart + 1 : newStart
+			},${newCount} @@`,
+			...hunk.map(
+				({ type, item }) =>
+					`${type === 'same' ? ' ' : type === 'removed' ? '-' : '+'}${item}`
+			)
+		)
+		index = end
+	}
+
+	if (hunks.length === 0) return ''
+	return [
+		`--- ${before === null ? '/dev/null' : `a/${filePath}`}`,
+		`+++ ${after === null ? '/dev/null' : `b/${filePath}`}`,
+		...hunks,
+	].join('\n')
+}
+
+interface OutlineLine {
+	uuid: string
+	level: number
+	content: string
+}
+
+function flattenOutline(blocks: BlockEntity[], level = 0): OutlineLine[] {
+	return blocks.flatMap((block) => [
+		{ uuid: block.uuid, level, content: block.content },
+		...flattenOutline(block.children || [], level + 1),
+	])
+}
+
+// Blocks added, removed or edited between two block trees. A block removed
+// and added again with the same uuid and depth was edited in place.
+export function diffBlocks(
+	before: BlockEntity[],
+	after: BlockEntity[]
+): BlockChange[] {
+	const lines = diffSequences(
+		flattenOutline(before),
+		flattenOutline(after),
+		(a, b) => a.level === b.level && a.content === b.content
+	)
+
+	const removed = new Map(
+		lines
+			.filter((line) => line.type === 'removed')
+			.map(({ item }) => [item.uuid, item])
+	)
+	const replacements = new Map(
+		lines
+			.filter(
+				({ type, item }) =>
+					type === 'added' && removed.get(item.uuid)?.level === item.level
+			)
+			.map(({ item }) => [item.uuid, item])
+	)
+
+	const changes: BlockChange[] = []
+	for (const { type, item } of lines) {
+		if (type === 'same') continue
+		const replacement = replacements.get(item.uuid)
+		if (!replacement) {
+			changes.push({
+				type,
+				level: item.level,
+				content: item.content,
+				uuid: item.uuid,
+			})
+		} else if (type === 'removed') {
+			changes.push({
+				type: 'changed',
+				level: item.level,
+				content: replacement.content,
+				previous: item.content,
+				uuid: item.uuid,
+			})
+		}
+	}
+	return changes
+}
+
+// Page properties that differ between two property maps
+export function diffProperties(
+	before: Record<string, any> = {},
+	after: Record<string, any> = {}
+): { key: string; before?: string; after?: string }[] {
+	const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+	return [...keys]
+		.filter((key) => String(before[key]) !== String(after[key]))
+		.map((key) => ({
+			key,
+			before: key in before ? String(before[key]) : undefined,
+			after: key in after ? String(after[key]) : undefined,
+		}))
+}
+
+export interface MergeResult {
+	lines: string[]
+	// Regions both sides changed differently, marked in lines
+	conflicts: number
+}
+
+// Where each line of a sequence ended up in another, -1 when it was removed
+function matchLines(before: string[], after: string[]): number[] {
+	const matches = new Array<number>(before.length).fill(-1)
+	let i = 0
+	let j = 0
+	for (const { type } of diffSequences(before, after)) {
+		if (type === 'same') matches[i++] = j++
+		else if (type === 'removed') i++
+		else j++
+	}
+	return matches
+}
+
+// Three-way merge of two edits of the same base, line by line (diff3).
+// Regions that only one side changed take that side; regions both changed
+// differently are wrapped in conflict markers.
+export function mergeLines(
+	base: string[],
+	ours: string[],
+	theirs: string[]
+): MergeResult {
+	const oursMatches = matchLines(base, ours)
+	const theirsMatches = matchLines(base, theirs)
+	const sameLines = (a: string[], b: string[]) =>
+		a.length === b.length && a.every((line, index) => line === b[index])
+
+	const lines: string[] = []
+	let conflicts = 0
+	let b = 0
+	let o = 0
+	let t = 0
+	while (true) {
+		// The next base line both sides kept ends the region
+		let i = b
+		while (
+			i < base.length &&
+			(oursMatches[i] === -1 || theirsMatches[i] === -1)
+		) {
+			i++
+		}
+		const oEnd = i < base.length ? oursMatches[i] : ours.length
+		const tEnd = i < base.length ? theirsMatches[i] : theirs.length
+
+		const baseRegion = base.slice(b, i)
+		const oursRegion = ours.slice(o, oEnd)
+		const theirsRegion = theirs.slice(t, tEnd)
+		if (
+			sameLines(oursRegion, baseRegion) ||
+			sameLines(oursRegion, theirsRegion)
+		) {
+			lines.push(...theirsRegion)
+		} else if (sameLines(theirsRegion, baseRegion)) {
+			lines.push(...oursRegion)
+		} else {
+			conflicts++
+			lines.push(
+				'<<<<<<< yours',
+				...oursRegion,
+				'=======',
+				...theirsRegion,
+				'>>>>>>> current'
+			)
+		}
+
+		if (i === base.length) break
+		lines.push(base[i])
+		b = i + 1
+		o = oEnd + 1
+		t = tEnd + 1
+	}
+	return { lines, conflicts }
+}
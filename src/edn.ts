@@ -0,0 +1,382 @@
+import { GraphError } from './errors.js'
+
+// Minimal EDN reader for Logseq's config.edn and Datalog queries
+
+export interface EdnKeyword {
+	type: 'keyword'
+	// Name without the leading colon, e.g. "block/name"
+	name: string
+}
+
+export interface EdnSymbol {
+	type: 'symbol'
+	name: string
+}
+
+export interface EdnList {
+	type: 'list'
+	items: EdnValue[]
+}
+
+export interface EdnVector {
+	type: 'vector'
+	items: EdnValue[]
+}
+
+export interface EdnSet {
+	type: 'set'
+	items: EdnValue[]
+}
+
+export interface EdnMap {
+	type: 'map'
+	entries: Array<[EdnValue, EdnValue]>
+}
+
+export interface EdnRegex {
+	type: 'regex'
+	source: string
+}
+
+export interface EdnTagged {
+	type: 'tagged'
+	tag: string
+	value: EdnValue
+}
+
+export type EdnValue =
+	| null
+	| boolean
+	| number
+	| string
+	| EdnKeyword
+	| EdnSymbol
+	| EdnList
+	| EdnVector
+	| EdnSet
+	| EdnMap
+	| EdnRegex
+	| EdnTagged
+
+const DELIMITERS = new Set(['(', ')', '[', ']', '{', '}', '"', ';'])
+const CHARACTER_NAMES: Record<string, string> = {
+	newline: '\n',
+	space: ' ',
+	tab: '\t',
+	return: '\r',
+	backspace: '\b',
+	formfeed: '\f',
+}
+
+export function keyword(name: string): EdnKeyword {
+	return { type: 'keyword', name: name.replace(/^:/, '') }
+}
+
+export function symbol(name: string): EdnSymbol {
+	return { type: 'symbol', name }
+}
+
+export function isKeyword(value: unknown, name?: string): value is EdnKeyword {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as EdnKeyword).type === 'keyword' &&
+		(name === undefined ||
+			(value as EdnKeyword).name === name.replace(/^:/, ''))
+	)
+}
+
+export function isSymbol(value: unknown, name?: string): value is EdnSymbol {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as EdnSymbol).type === 'symbol' &&
+		(name === undefined || (value as EdnSymbol).name === name)
+	)
+}
+
+export function isVector(value: unknown): value is EdnVector {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as EdnVector).type === 'vector'
+	)
+}
+
+// Items of a list, vector or set, or null for anything else
+export function ednItems(value: EdnValue): EdnValue[] | null {
+	if (
+		typeof value === 'object' &&
+		value !== null &&
+		(value.type === 'list' || value.type === 'vector' || value.type === 'set')
+	) {
+		return value.items
+	}
+	return null
+}
+
+// Look up a keyword key in an EDN map
+export function ednGet(value: EdnValue, key: string): EdnValue | undefined {
+	if (typeof value !== 'object' || value === null || value.type !== 'map') {
+		return undefined
+	}
+	const entry = value.entries.find(([k]) => isKeyword(k, key))
+	return entry?.[1]
+}
+
+function isWhitespace(char: string): boolean {
+	return /[\s,]/.test(char)
+}
+
+function createReader(text: string) {
+	let pos = 0
+
+	function fail(message: string): never {
+		const before = text.slice(0, pos)
+		const line = before.split('\n').length
+		const column = pos - before.lastIndexOf('\n')
+		throw new GraphError(
+			'INVALID_ARGUMENT',
+			`EDN parse error at line ${line}, column ${column}: ${message}`
+		)
+	}
+
+	function skipWhitespace() {
+		while (pos < text.length) {
+			const char = text[pos]
+			if (isWhitespace(char)) {
+				pos++
+			} else if (char === ';') {
+				while (pos < text.length && text[pos] !== '\n') pos++
+			} else if (text.startsWith('#_', pos)) {
+				pos += 2
+				readValue()
+			} else {
+				break
+			}
+		}
+	}
+
+	function readToken(): string {
+		const start = pos
+		while (
+			pos < text.length &&
+			!isWhitespace(text[pos]) &&
+			!DELIMITERS.has(text[pos])
+		) {
+			pos++
+		}
+		return text.slice(start, pos)
+	}
+
+	function readString(): string {
+		pos++ // opening quote
+		let result = ''
+		while (pos < text.length && text[pos] !== '"') {
+			if (text[pos] === '\\') {
+				pos++
+				const escaped = text[pos]
+				if (escaped === 'n') result += '\n'
+				else if (escaped === 't') result += '\t'
+				else if (escaped === 'r') result += '\r'
+				else if (escaped === 'u') {
+					const hex = text.slice(pos + 1, pos + 5)
+					if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('invalid unicode escape')
+					result += String.fromCharCode(parseInt(hex, 16))
+					pos += 4
+				} else if (escaped !== undefined) result += escaped
+				pos++
+			} else {
+				result += text[pos++]
+			}
+		}
+		if (pos >= text.length) fail('unterminated string')
+		pos++ // closing quote
+		return result
+	}
+
+	// Regex literals keep their backslashes as written
+	function readRegex(): EdnRegex {
+		pos++ // opening quote
+		const start = pos
+		while (pos < text.length && text[pos] !== '"') {
+			pos += text[pos] === '\\' ? 2 : 1
+		}
+		if (pos >= text.length) fail('unterminated regex')
+		return { type: 'regex', source: text.slice(start, pos++) }
+	}
+
+	function readCollection(close: string): EdnValue[] {
+		pos++ // opening delimiter
+		const items: EdnValue[] = []
+		for (;;) {
+			skipWhitespace()
+			if (pos >= text.length) fail(`expected "${close}"`)
+			if (text[pos] === close) {
+				pos++
+				return items
+			}
+			items.push(readValue())
+		}
+	}
+
+	function readAtom(token: string): EdnValue {
+		if (token === 'nil') return null
+		if (token === 'true') return true
+		if (token === 'false') return false
+		if (token.startsWith(':')) return keyword(token)
+		if (/^[+-]?\d/.test(token)) {
+			const number = Number(token.replace(/[NM]$/, ''))
+			if (!isNaN(number)) return number
+			const ratio = token.match(/^([+-]?\d+)\/(\d+)$/)
+			if (ratio) return parseInt(ratio[1], 10) / parseInt(ratio[2], 10)
+			fail(`invalid number "${token}"`)
+		}
+		return symbol(token)
+	}
+
+	function readValue(): EdnValue {
+		skipWhitespace()
+		if (pos >= text.length) fail('unexpected end of input')
+
+		const char = text[pos]
+		switch (char) {
+			case '"':
+				return readString()
+			case '(':
+				return { type: 'list', items: readCollection(')') }
+			case '[':
+				return { type: 'vector', items: readCollection(']') }
+			case '{': {
+				const items = readCollection('}')
+				if (items.length % 2 !== 0)
+					fail('map literal needs an even number of forms')
+				const entries: Array<[EdnValue, EdnValue]> = []
+				for (let i = 0; i < items.length; i += 2) {
+					entries.push([items[i], items[i + 1]])
+				}
+				return { type: 'map', entries }
+			}
+			case ')':
+			case ']':
+			case '}':
+				fail(`unexpected "${char}"`)
+			case '\\': {
+				pos++
+				if (pos >= text.length) fail('unexpected end of input')
+				const first = text[pos++]
+				const token = first + readToken()
+				return CHARACTER_NAMES[token] ?? token
+			}
+			case '#': {
+				const next = text[pos + 1]
+				if (next === '{') {
+					pos++
+					return { type: 'set', items: readCollection('}') }
+				}
+				if (next === '"') {
+					pos++
+					return readRegex()
+				}
+				pos++
+				const tag = readToken()
+				if (!tag) fail('invalid dispatch character')
+				return { type: 'tagged', tag, value: readValue() }
+			}
+			case '^':
+				// Metadata is read and dropped
+				pos++
+				readValue()
+				return readValue()
+			case "'":
+				pos++
+				return { type: 'list', items: [symbol('quote'), readValue()] }
+			default:
+				return readAtom(readToken())
+		}
+	}
+
+	return {
+		readValue,
+		atEnd() {
+			skipWhitespace()
+			return pos >= text.length
+		},
+	}
+}
+
+// Read all top-level forms from EDN text
+export function parseEdnAll(text: string): EdnValue[] {
+	const reader = createReader(text)
+	const values: EdnValue[] = []
+	while (!reader.atEnd()) {
+		values.push(reader.readValue())
+	}
+	return values
+}
+
+// Read a single EDN form
+export function parseEdn(text: string): EdnValue {
+	const reader = createReader(text)
+	if (reader.atEnd()) {
+		throw new GraphError('INVALID_ARGUMENT', 'EDN parse error: empty input')
+	}
+	return reader.readValue()
+}
+
+// Convert EDN into plain JavaScript values. Map keys that are keywords drop
+// their colon ("journal/page-title-format"), other keywords keep it.
+export function ednToJs(value: EdnValue): any {
+	if (value === null || typeof value !== 'object') return value
+
+	switch (value.type) {
+		case 'keyword':
+			return `:${value.name}`
+		case 'symbol':
+			return value.name
+		case 'list':
+		case 'vector':
+		case 'set':
+			return value.items.map(ednToJs)
+		case 'map': {
+			const result: Record<string, any> = {}
+			for (const [key, item] of value.entries) {
+				const name = isKeyword(key) ? key.name : String(ednToJs(key))
+				result[name] = ednToJs(item)
+			}
+			return result
+		}
+		case 'regex':
+			return value.source
+		case 'tagged':
+			return ednToJs(value.value)
+	}
+}
+
+// Render a value back to EDN text
+export function printEdn(value: EdnValue): string {
+	if (value === null) return 'nil'
+	if (typeof value === 'string') return JSON.stringify(value)
+	if (typeof value !== 'object') return String(value)
+
+	switch (value.type) {
+		case 'keyword':
+			return `:${value.name}`
+		case 'symbol':
+			return value.name
+		case 'list':
+			return `(${value.items.map(printEdn).join(' ')})`
+		case 'vector':
+			return `[${value.items.map(printEdn).join(' ')}]`
+		case 'set':
+			return `#{${value.items.map(printEdn).join(' ')}}`
+		case 'map':
+			return `{${value.entries
+				.map(([k, v]) => `${printEdn(k)} ${printEdn(v)}`)
+				.join(', ')}}`
+		case 'regex':
+			return `#"${value.source}"`
+		case 'tagged':
+			return `#${value.tag} ${printEdn(value.value)}`
+	}
+}
@@ -0,0 +1,167 @@
+import type { GraphBackend } from './backend/index.js'
+import { ednGet, isKeyword, parseEdn, printEdn, type EdnValue } from './edn.js'
+import { GraphError, LogseqApiError } from './errors.js'
+import { runSimpleQuery, type SimpleQueryOptions } from './simple-query.js'
+
+// Queries written on pages: {{query ...}} simple queries and
+// #+BEGIN_QUERY ... #+END_QUERY advanced queries, whose :query is Datalog or
+// a simple query. Results are rendered as plain lists; :view and
+// :result-transform are not applied.
+
+export interface EmbeddedQuery {
+	kind: 'simple' | 'advanced'
+	// The query as written, without {{query }} or the #+BEGIN_QUERY lines
+	source: string
+	// :title of an advanced query, when it is text
+	title?: string
+}
+
+export interface EmbeddedQueryResult {
+	query: EmbeddedQuery
+	// Number of results; results and lines hold the first `limit` of them
+	total: number
+	results: any[]
+	lines: string[]
+	error?: string
+}
+
+export interface EmbeddedQueryOptions extends SimpleQueryOptions {
+	// Page the query is on, for :current-page inputs
+	pageName: string
+	// Results to list (default: 20)
+	limit?: number
+}
+
+const SIMPLE_QUERY_REGEX = /\{\{query\s+([\s\S]*?)\}\}/gi
+const ADVANCED_QUERY_REGEX =
+	/#\+BEGIN_QUERY[ \t]*\n([\s\S]*?)\n[ \t]*#\+END_QUERY/gi
+
+// The queries in a block's content, in the order they are written
+export function findEmbeddedQueries(content: string): EmbeddedQuery[] {
+	const found: { index: number; query: EmbeddedQuery }[] = []
+	for (const match of content.matchAll(SIMPLE_QUERY_REGEX)) {
+		found.push({
+			index: match.index!,
+			query: { kind: 'simple', source: match[1].trim() },
+		})
+	}
+	for (const match of content.matchAll(ADVANCED_QUERY_REGEX)) {
+		const source = match[1].trim()
+		let title: string | undefined
+		try {
+			const value = ednGet(parseEdn(source), 'title')
+			if (typeof value === 'string') title = value
+		} catch {
+			// Reported when the query runs
+		}
+		found.push({
+			index: match.index!,
+			query: { kind: 'advanced', source, title },
+		})
+	}
+	return found.sort((a, b) => a.index - b.index).map(({ query }) => query)
+}
+
+// An advanced query input as EDN text. :current-page is the page the query
+// is on; relative dates like :today are left for the query engine.
+function advancedInput(value: EdnValue, pageName: string): string {
+	return isKeyword(value, 'current-page') || isKeyword(value, 'query-page')
+		? JSON.stringify(pageName.toLowerCase())
+		: printEdn(value)
+}
+
+function pageLink(page: any): string | undefined {
+	const name = page?.originalName ?? page?.name
+	return typeof name === 'string' ? `[[${name}]]` : undefined
+}
+
+// One result as text: blocks with their page, pages as links, tuples joined
+function formatResult(value: any): string {
+	if (Array.isArray(value)) {
+		return value.length === 1
+			? formatResult(value[0])
+			: value.map(formatResult).join(' · ')
+	}
+	if (value && typeof value === 'object') {
+		if (typeof value.content === 'string') {
+			const page = pageLink(value.page)
+			return page ? `${value.content} (${page})` : value.content
+		}
+		return pageLink(value) ?? JSON.stringify(value)
+	}
+	return String(value)
+}
+
+async function queryResults(
+	backend: GraphBackend,
+	query: EmbeddedQuery,
+	options: EmbeddedQueryOptions
+): Promise<any[]> {
+	let text = query.source
+	if (query.kind === 'advanced') {
+		let form: EdnValue
+		try {
+			form = parseEdn(query.source)
+		} catch (error) {
+			throw new GraphError(
+				'INVALID_ARGUMENT',
+				`Invalid query: ${(error as Error).message}`
+			)
+		}
+		const body = ednGet(form, 'query')
+		if (body === undefined) {
+			throw new GraphError('INVALID_ARGUMENT', 'The query has no :query')
+		}
+		// A simple query given as a list or a string
+		if (typeof body === 'string' || (body as any)?.type === 'list') {
+			text = typeof body === 'string' ? body : printEdn(body)
+		} else {
+			const inputs = ednGet(form, 'inputs')
+			const items =
+				inputs && typeof inputs === 'object' && 'items' in inputs
+					? inputs.items
+					: []
+			const results = await backend.query(
+				printEdn(body),
+				items.map((input) => advancedInput(input, options.pageName)),
+				{ timeoutMs: options.timeoutMs, resolveRefs: true }
+			)
+			return Array.isArray(results) ? results : [results]
+		}
+	}
+
+	const result = await runSimpleQuery(backend, text, options)
+	return result.kind === 'pages' ? result.pages : result.blocks
+}
+
+// Run a query found on a page. Failures are reported in the result, so one
+// broken query does not hide the others on the page. Queries run together
+// should share a backend.snapshot(), which reads the graph only once.
+export async function runEmbeddedQuery(
+	backend: GraphBackend,
+	query: EmbeddedQuery,
+	options: EmbeddedQueryOptions
+): Promise<EmbeddedQueryResult> {
+	const limit = options.limit ?? 20
+	try {
+		const results = await queryResults(backend, query, options)
+		const shown = results.slice(0, limit)
+		const lines = shown.map((result) =>
+			formatResult(
+				// Simple query results carry their page as a name
+				typeof result?.page === 'string'
+					? { ...result, page: { name: result.page } }
+					: result
+			)
+		)
+		if (results.length > limit) {
+			lines.push(`… and ${results.length - limit} more`)
+		}
+		return { query, total: results.length, results: shown, lines }
+	} catch (error) {
+		if (!(error instanceof GraphError || error instanceof LogseqApiError)) {
+			throw error
+		}
+		return { query, total: 0, results: [], lines: [], error: error.message }
+	}
+}
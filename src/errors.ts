@@ -0,0 +1,180 @@
+// Failures talking to the Logseq HTTP API, classified so callers can react
+// (and tell the user what to fix) instead of seeing a bare status code.
+
+export type LogseqErrorCode =
+	// The token was rejected
+	| 'UNAUTHORIZED'
+	// Nothing answered at the configured address
+	| 'UNREACHABLE'
+	// The API does not know the method
+	| 'METHOD_NOT_FOUND'
+	// No response within the configured timeout
+	| 'TIMEOUT'
+	// Logseq is running but has no graph open
+	| 'GRAPH_NOT_OPEN'
+	// Any other failure reported by the API
+	| 'API_ERROR'
+
+export class LogseqApiError extends Error {
+	readonly code: LogseqErrorCode
+	// Whether trying the same request again may succeed
+	readonly retryable: boolean
+	readonly method: string
+	readonly status?: number
+
+	constructor(
+		code: LogseqErrorCode,
+		message: string,
+		options: {
+			method: string
+			retryable?: boolean
+			status?: number
+			cause?: unknown
+		}
+	) {
+		super(message, { cause: options.cause })
+		this.name = 'LogseqApiError'
+		this.code = code
+		this.method = options.method
+		this.retryable = options.retryable ?? false
+		this.status = options.status
+	}
+}
+
+export function isLogseqApiError(error: unknown): error is LogseqApiError {
+	return error instanceof LogseqApiError
+}
+
+// Network error codes that mean the request never reached Logseq
+const CONNECTION_ERROR_CODES = new Set([
+	'ECONNREFUSED',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+])
+
+// Network error codes where the request may or may not have been processed
+const CONNECTION_LOST_CODES = new Set(['ECONNRESET', 'EPIPE'])
+
+// Classify a failed connection (the request got no HTTP response)
+export function connectionError(
+	method: string,
+	url: string,
+	error: NodeJS.ErrnoException
+): LogseqApiError {
+	if (CONNECTION_ERROR_CODES.has(error.code || '')) {
+		return new LogseqApiError(
+			'UNREACHABLE',
+			`Could not reach the Logseq HTTP API at ${url} (${error.code}). Make sure Logseq is running and the API server is started (Settings > Features > HTTP APIs server), or check LOGSEQ_HOST and LOGSEQ_PORT.`,
+			{ method, retryable: true, cause: error }
+		)
+	}
+
+	return new LogseqApiError(
+		'UNREACHABLE',
+		`Connection to the Logseq HTTP API at ${url} failed: ${error.message}`,
+		{
+			method,
+			retryable: CONNECTION_LOST_CODES.has(error.code || ''),
+			cause: error,
+		}
+	)
+}
+
+export function timeoutError(
+	method: string,
+	timeoutMs: number
+): LogseqApiError {
+	return new LogseqApiError(
+		'TIMEOUT',
+		`Logseq did not answer ${method} within ${timeoutMs}ms. The graph may be busy re-indexing; try again or raise LOGSEQ_TIMEOUT_MS.`,
+		{ method, retryable: true }
+	)
+}
+
+// Classify a non-2xx HTTP response from the API
+export function responseError(
+	method: string,
+	status: number,
+	statusText: string,
+	body: string
+): LogseqApiError {
+	let message = ''
+	try {
+		message = JSON.parse(body)?.message || ''
+	} catch (error) {
+		message = body
+	}
+
+	if (status === 401 || status === 403) {
+		return new LogseqApiError(
+			'UNAUTHORIZED',
+			'Logseq rejected the API token. Set LOGSEQ_TOKEN to a token listed under Settings > Features > HTTP APIs server > Authorization tokens.',
+			{ method, status }
+		)
+	}
+
+	if (/MethodNotExist/i.test(message)) {
+		return new LogseqApiError(
+			'METHOD_NOT_FOUND',
+			`The Logseq API does not support ${method}. Your Logseq version may be too old for this tool.`,
+			{ method, status }
+		)
+	}
+
+	if (
+		/no (current )?(graph|repo)|graph is not open|current-repo/i.test(message)
+	) {
+		return new LogseqApiError(
+			'GRAPH_NOT_OPEN',
+			'Logseq is running but no graph is open. Open a graph in Logseq and try again.',
+			{ method, status }
+		)
+	}
+
+	return new LogseqApiError(
+		'API_ERROR',
+		`Logseq API error calling ${method}: ${status} ${statusText}${
+			message ? ` (${message})` : ''
+		}`,
+		// Gateways in front of Logseq report transient failures this way
+		{
+			method,
+			status,
+			retryable: status === 502 || status === 503 || status === 504,
+		}
+	)
+}
+
+// Failures that are about the request rather than the connection
+export type GraphErrorCode =
+	// The page, block or journal does not exist
+	| 'NOT_FOUND'
+	// The backend cannot do this (e.g. Datalog on the filesystem backend)
+	| 'UNSUPPORTED'
+	// The arguments do not make sense
+	| 'INVALID_ARGUMENT'
+	// The permission settings do not allow this (LOGSEQ_MCP_MODE, namespaces)
+	| 'FORBIDDEN'
+	// The graph changed since the caller last saw it
+	| 'CONFLICT'
+	// The work took longer than it was allowed to (e.g. a Datalog query)
+	| 'TIMEOUT'
+
+export class GraphError extends Error {
+	readonly code: GraphErrorCode
+	// Machine-readable specifics, e.g. the current version on a CONFLICT
+	readonly details?: Record<string, any>
+
+	constructor(
+		code: GraphErrorCode,
+		message: string,
+		details?: Record<string, any>
+	) {
+		super(message)
+		this.name = 'GraphError'
+		this.code = code
+		this.details = details
+	}
+}
@@ -0,0 +1,254 @@
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { createFileSystemBackend } from '../backend/filesystem.js'
+import type { BlockEntity, GraphBackend, PageEntity } from '../backend/index.js'
+import { buildDatabase, runQuery } from '../datalog.js'
+import { ednToJs, parseEdn } from '../edn.js'
+
+// Stand-in for the Logseq desktop app's HTTP API server. It serves a graph
+// directory from disk so the tools can be exercised without Logseq running.
+
+export const DEFAULT_FIXTURE_GRAPH = path.resolve(
+	path.dirname(fileURLToPath(import.meta.url)),
+	'../../fixtures/graph'
+)
+
+export interface FakeLogseqApiOptions {
+	// Graph directory to serve (default: the bundled fixture graph)
+	graphPath?: string
+	// Token clients must send; any token is accepted when unset
+	token?: string
+	// Port to listen on (default 12315, 0 picks a free port)
+	port?: number
+	// Serve a temporary copy so writes leave the original untouched (default true)
+	copy?: boolean
+}
+
+export interface FakeLogseqApi {
+	// Endpoint to POST API calls to, e.g. http://127.0.0.1:12315/api
+	url: string
+	port: number
+	// Directory actually being served (the copy, when copying)
+	graphPath: string
+	close(): Promise<void>
+}
+
+type ApiMethod = (...args: any[]) => Promise<any>
+
+// Set or replace a key:: value line in a block's content
+function upsertPropertyLine(content: string, key: string, value: any): string {
+	const lines = content.split('\n')
+	const line = `${key}:: ${value}`
+	const index = lines.findIndex((l) => l.trim().startsWith(`${key}::`))
+	if (index !== -1) {
+		lines[index] = line
+	} else {
+		lines.push(line)
+	}
+	return lines.join('\n')
+}
+
+// Map the API method names onto a filesystem backend over the graph
+function createMethods(
+	backend: GraphBackend,
+	graphPath: string
+): Record<string, ApiMethod> {
+	// A page keeps its id from call to call, as in Logseq's database, and
+	// queries are built with the same ids
+	const pageIds = new Map<string, number>()
+
+	function pageId(name: string): number {
+		const key = name.toLowerCase()
+		let id = pageIds.get(key)
+		if (id === undefined) {
+			id = 1
+			for (const used of pageIds.values()) id = Math.max(id, used + 1)
+			pageIds.set(key, id)
+		}
+		return id
+	}
+
+	function apiPage(page: PageEntity | null) {
+		return page && { id: pageId(page.name), ...page }
+	}
+
+	// Like Logseq, a block names its page by id only
+	function apiBlock(block: BlockEntity | null): any {
+		if (!block) return block
+		const { page, children, ...rest } = block
+		return {
+			...rest,
+			page: page && { id: pageId(page.name) },
+			children: children?.map(apiBlock),
+		}
+	}
+
+	return {
+		'logseq.Editor.getAllPages': async () =>
+			(await backend.getAllPages()).map(apiPage),
+		'logseq.Editor.getPage': async (nameOrId) => {
+			if (typeof nameOrId !== 'number') {
+				return apiPage(await backend.getPage(nameOrId))
+			}
+			const name = [...pageIds].find(([, id]) => id === nameOrId)?.[0]
+			return name ? apiPage(await backend.getPage(name)) : null
+		},
+		'logseq.Editor.getPageBlocksTree': async (name) =>
+			(await backend.getBlocksTree(name))?.map(apiBlock) ?? null,
+		'logseq.Editor.getPageProperties': (name) =>
+			backend.getPageProperties(name),
+		'logseq.Editor.getBlock': async (uuid, options) =>
+			apiBlock(await backend.getBlock(uuid, options)),
+		'logseq.Editor.getBlockProperties': async (uuid) =>
+			(await backend.getBlock(uuid, { includeChildren: false }))?.properties ||
+			null,
+		'logseq.Editor.createPage': async (name, properties, options) =>
+			apiPage(await backend.createPage(name, properties, options)),
+		'logseq.Editor.deletePage': async (name) => {
+			await backend.deletePage(name)
+			return null
+		},
+		'logseq.Editor.appendBlockInPage': async (name, content) =>
+			apiBlock(await backend.appendBlock(name, content)),
+		'logseq.Editor.insertBlock': async (target, content, options) =>
+			apiBlock(await backend.insertBlock(target, content, options)),
+		'logseq.Editor.updateBlock': async (uuid, content) => {
+			await backend.updateBlock(uuid, content)
+			return null
+		},
+		'logseq.Editor.removeBlock': async (uuid) => {
+			await backend.deleteBlock(uuid)
+			return null
+		},
+		'logseq.Editor.upsertBlockProperty': async (uuid, key, value) => {
+			const block = await backend.getBlock(uuid, { includeChildren: false })
+			if (!block) throw new Error(`Block ${uuid} not found`)
+			await backend.updateBlock(
+				uuid,
+				upsertPropertyLine(block.content, key, value)
+			)
+			return null
+		},
+		'logseq.App.getCurrentGraph': async () => ({
+			name: path.basename(graphPath),
+			path: graphPath,
+			url: `logseq_local_${graphPath}`,
+		}),
+		'logseq.App.getCurrentGraphConfigs': async () => {
+			const text = await backend.getConfig()
+			return typeof text === 'string' ? ednToJs(parseEdn(text)) : text
+		},
+		'logseq.DB.datascriptQuery': async (query, ...inputs) =>
+			runQuery(await buildDatabase(backend, undefined, pageIds), query, inputs),
+	}
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let body = ''
+		request.setEncoding('utf-8')
+		request.on('data', (chunk) => (body += chunk))
+		request.on('end', () => resolve(body))
+		request.on('error', reject)
+	})
+}
+
+function sendJson(response: http.ServerResponse, status: number, payload: any) {
+	response.writeHead(status, { 'Content-Type': 'application/json' })
+	// Like Logseq, a missing entity comes back as a JSON null
+	response.end(JSON.stringify(payload ?? null))
+}
+
+function sendError(
+	response: http.ServerResponse,
+	status: number,
+	error: string,
+	message: string
+) {
+	sendJson(response, status, { statusCode: status, error, message })
+}
+
+// Start the fake API server; resolves once it is listening
+export async function startFakeLogseqApi(
+	options: FakeLogseqApiOptions = {}
+): Promise<FakeLogseqApi> {
+	const { token, port = 12315, copy = true } = options
+	const sourcePath = path.resolve(options.graphPath || DEFAULT_FIXTURE_GRAPH)
+
+	if (!fs.existsSync(sourcePath)) {
+		throw new Error(`Graph directory ${sourcePath} does not exist`)
+	}
+
+	let graphPath = sourcePath
+	if (copy) {
+		graphPath = fs.mkdtempSync(path.join(os.tmpdir(), 'logseq-fake-api-'))
+		fs.cpSync(sourcePath, graphPath, { recursive: true })
+	}
+
+	const methods = createMethods(createFileSystemBackend(graphPath), graphPath)
+
+	const server = http.createServer(async (request, response) => {
+		if (request.method !== 'POST' || request.url !== '/api') {
+			sendError(response, 404, 'Not Found', `Route ${request.url} not found`)
+			return
+		}
+
+		if (token && request.headers.authorization !== `Bearer ${token}`) {
+			sendError(response, 401, 'Unauthorized', 'Invalid or missing token')
+			return
+		}
+
+		try {
+			const { method, args = [] } = JSON.parse(await readBody(request))
+			const handler = methods[method]
+			if (!handler) throw new Error(`MethodNotExist: ${method}`)
+			sendJson(response, 200, await handler(...args))
+		} catch (error) {
+			sendError(
+				response,
+				500,
+				'Internal Server Error',
+				(error as Error).message
+			)
+		}
+	})
+
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject)
+		server.listen(port, '127.0.0.1', () => resolve())
+	})
+
+	const address = server.address() as { port: number }
+
+	return {
+		url: `http://127.0.0.1:${address.port}/api`,
+		port: address.port,
+		graphPath,
+		close: async () => {
+			await new Promise<void>((resolve) => server.close(() => resolve()))
+			if (copy) fs.rmSync(graphPath, { recursive: true, force: true })
+		},
+	}
+}
+
+// Run standalone: tsx src/fake-api/server.ts [graphPath]
+if (
+	process.argv[1] &&
+	import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+	const api = await startFakeLogseqApi({
+		graphPath: process.argv[2],
+		token: process.env.LOGSEQ_TOKEN,
+		port: process.env.FAKE_API_PORT
+			? Number(process.env.FAKE_API_PORT)
+			: undefined,
+	})
+	console.error(`Fake Logseq API serving ${api.graphPath} at ${api.url}`)
+
+	const shutdown = () => api.close().then(() => process.exit(0))
+	process.on('SIGINT', shutdown)
+	process.on('SIGTERM', shutdown)
+}
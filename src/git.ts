@@ -0,0 +1,147 @@
+import { execFile } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import { GraphError } from './errors.js'
+
+// A filesystem graph kept in a local git repository: commits after writes
+// and the history of single page files. Only the local repository is used;
+// nothing is fetched or pushed.
+
+const execFileAsync = promisify(execFile)
+
+// Fields of one commit in `git log` output, separated by the unit separator
+const LOG_FORMAT = '%H%x1f%h%x1f%an%x1f%aI%x1f%s'
+
+export interface GitCommit {
+	hash: string
+	shortHash: string
+	author: string
+	// ISO timestamp
+	date: string
+	subject: string
+}
+
+export interface GitRepository {
+	// Commit these files (relative to the graph directory) and nothing else
+	commit(files: string[], message: string): Promise<void>
+	// Commits that changed the file, newest first
+	log(file: string, limit: number): Promise<GitCommit[]>
+	// Content of the file at a revision, or in the working tree when the
+	// revision is null; null when it did not exist there
+	show(revision: string | null, file: string): Promise<string | null>
+}
+
+// Message for a commit made after a tool call: a subject naming the tool and
+// pages, followed by trailers that are easy to grep for
+export function toolCommitMessage(
+	tool: string,
+	pages: string[],
+	changeId?: string
+): string {
+	const subject = `${tool}: ${pages.join(', ')}`
+	const trailers = [
+		`Logseq-MCP-Tool: ${tool}`,
+		...pages.map((page) => `Logseq-MCP-Page: ${page}`),
+	]
+	if (changeId) trailers.push(`Logseq-MCP-Change: ${changeId}`)
+	return `${subject}\n\n${trailers.join('\n')}\n`
+}
+
+export function createGitRepository(dir: string): GitRepository {
+	async function git(...args: string[]): Promise<string> {
+		try {
+			const { stdout } = await execFileAsync('git', args, {
+				cwd: dir,
+				maxBuffer: 64 * 1024 * 1024,
+			})
+			return stdout
+		} catch (error: any) {
+			if (error.code === 'ENOENT') {
+				throw new GraphError('UNSUPPORTED', 'git is not installed')
+			}
+			const stderr = String(error.stderr || '').trim()
+			if (/not a git repository/i.test(stderr)) {
+				throw new GraphError(
+					'UNSUPPORTED',
+					`The graph directory ${dir} is not in a git repository`
+				)
+			}
+			throw new Error(`git ${args[0]} failed: ${stderr || error.message}`)
+		}
+	}
+
+	// Paths are given relative to the graph directory, which may be a
+	// subdirectory of the repository
+	const pathspec = (file: string) => `./${file}`
+
+	// Full hash of a revision (a hash, branch, tag or HEAD~2)
+	async function resolve(revision: string): Promise<string> {
+		// Keep revisions from being read as options
+		if (!revision || revision.startsWith('-')) {
+			throw new GraphError('INVALID_ARGUMENT', `Invalid revision "${revision}"`)
+		}
+		try {
+			return (
+				await git('rev-parse', '--verify', '--quiet', `${revision}^{commit}`)
+			).trim()
+		} catch (error) {
+			if (error instanceof GraphError) throw error
+			throw new GraphError('NOT_FOUND', `Revision ${revision} not found`)
+		}
+	}
+
+	return {
+		commit: async (files, message) => {
+			if (files.length === 0) return
+			const paths = files.map(pathspec)
+			// -A also stages files the tool removed
+			await git('add', '-A', '--', ...paths)
+			await git('commit', '--quiet', '-m', message, '--', ...paths)
+		},
+
+		log: async (file, limit) => {
+			let output: string
+			try {
+				output = await git(
+					'log',
+					'--follow',
+					`--format=${LOG_FORMAT}`,
+					`-n${limit}`,
+					'--',
+					pathspec(file)
+				)
+			} catch (error) {
+				// A repository without commits has no history yet
+				if (error instanceof GraphError) throw error
+				if (/does not have any commits/.test((error as Error).message)) {
+					return []
+				}
+				throw error
+			}
+			return output
+				.split('\n')
+				.filter((line) => line.trim())
+				.map((line) => {
+					const [hash, shortHash, author, date, subject] = line.split('\x1f')
+					return { hash, shortHash, author, date, subject }
+				})
+		},
+
+		show: async (revision, file) => {
+			if (revision === null) {
+				const filePath = path.join(dir, ...file.split('/'))
+				return fs.existsSync(filePath)
+					? fs.readFileSync(filePath, 'utf-8')
+					: null
+			}
+			const hash = await resolve(revision)
+			try {
+				return await git('show', `${hash}:${pathspec(file)}`)
+			} catch (error) {
+				if (error instanceof GraphError) throw error
+				return null
+			}
+		},
+	}
+}
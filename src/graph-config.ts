@@ -0,0 +1,150 @@
+import {
+	DEFAULT_JOURNAL_FILE_NAME_FORMAT,
+	DEFAULT_JOURNAL_TITLE_FORMAT,
+	DEFAULT_LOCALE,
+} from './dates.js'
+import { ednToJs, parseEdn } from './edn.js'
+import { GraphError } from './errors.js'
+
+// The settings of a graph's logseq/config.edn that change how the server
+// reads and writes pages. Anything missing takes Logseq's default.
+
+export interface GraphConfig {
+	// :journal/page-title-format, e.g. "MMM do, yyyy" or "yyyy-MM-dd"
+	journalTitleFormat: string
+	// :journal/file-name-format
+	journalFileNameFormat: string
+	// Language of month and weekday names in journal titles. Not part of
+	// config.edn: it comes from LOGSEQ_JOURNAL_LOCALE.
+	locale: string
+	// :preferred-format, the format of new pages
+	preferredFormat: 'markdown' | 'org'
+	// :preferred-workflow: TODO/DOING or LATER/NOW
+	preferredWorkflow: 'todo' | 'now'
+	// :start-of-week as a JavaScript weekday, 0 for Sunday. Logseq counts
+	// from Monday (0) to Sunday (6, its default).
+	weekStartsOn: number
+	// :hidden, directories and files relative to the graph that are not pages
+	hidden: string[]
+	// :default-templates, the template new journal pages start from
+	defaultTemplates: { journals?: string }
+}
+
+export const DEFAULT_GRAPH_CONFIG: GraphConfig = {
+	journalTitleFormat: DEFAULT_JOURNAL_TITLE_FORMAT,
+	journalFileNameFormat: DEFAULT_JOURNAL_FILE_NAME_FORMAT,
+	locale: DEFAULT_LOCALE,
+	preferredFormat: 'markdown',
+	preferredWorkflow: 'todo',
+	weekStartsOn: 0,
+	hidden: [],
+	defaultTemplates: {},
+}
+
+// Task markers for new and started tasks under a workflow
+export function workflowMarkers(config: GraphConfig): {
+	todo: string
+	doing: string
+} {
+	return config.preferredWorkflow === 'now'
+		? { todo: 'LATER', doing: 'NOW' }
+		: { todo: 'TODO', doing: 'DOING' }
+}
+
+// Keyword values come out of ednToJs as ":markdown"; the HTTP API may give
+// them without the colon
+function keywordName(value: unknown): string | undefined {
+	return typeof value === 'string'
+		? value.replace(/^:/, '').toLowerCase()
+		: undefined
+}
+
+// Read the config from config.edn text (filesystem backend) or the object
+// the HTTP API returns for it, with journal titles in the given locale.
+// Invalid EDN is an INVALID_ARGUMENT error.
+export function parseGraphConfig(
+	config: Record<string, any> | string | null,
+	locale = DEFAULT_LOCALE
+): GraphConfig {
+	if (config === null) return { ...DEFAULT_GRAPH_CONFIG, locale }
+
+	let values: Record<string, any>
+	if (typeof config === 'string') {
+		try {
+			values = config.trim() ? ednToJs(parseEdn(config)) : {}
+		} catch (error) {
+			throw new GraphError(
+				'INVALID_ARGUMENT',
+				`logseq/config.edn could not be read: ${(error as Error).message}`
+			)
+		}
+		if (
+			typeof values !== 'object' ||
+			values === null ||
+			Array.isArray(values)
+		) {
+			throw new GraphError(
+				'INVALID_ARGUMENT',
+				'logseq/config.edn does not hold a map'
+			)
+		}
+	} else {
+		values = config
+	}
+
+	// Keys keep their namespace when read from EDN but may lose it on the
+	// way through the HTTP API
+	const get = (key: string) => values[key] ?? values[key.split('/').pop()!]
+
+	const string = (key: string, fallback: string) => {
+		const value = get(key)
+		return typeof value === 'string' && value.trim() ? value : fallback
+	}
+
+	const startOfWeek = get('start-of-week')
+	const hidden = get('hidden')
+	const templates = get('default-templates')
+	const journalTemplate =
+		templates && typeof templates === 'object'
+			? templates.journals ?? templates[':journals']
+			: undefined
+
+	return {
+		journalTitleFormat: string(
+			'journal/page-title-format',
+			DEFAULT_JOURNAL_TITLE_FORMAT
+		),
+		journalFileNameFormat: string(
+			'journal/file-name-format',
+			DEFAULT_JOURNAL_FILE_NAME_FORMAT
+		),
+		locale,
+		preferredFormat:
+			keywordName(get('preferred-format')) === 'org' ? 'org' : 'markdown',
+		preferredWorkflow:
+			keywordName(get('preferred-workflow')) === 'now' ? 'now' : 'todo',
+		weekStartsOn:
+			Number.isInteger(startOfWeek) && startOfWeek >= 0 && startOfWeek <= 6
+				? (startOfWeek + 1) % 7
+				: DEFAULT_GRAPH_CONFIG.weekStartsOn,
+		hidden: Array.isArray(hidden)
+			? hidden.filter((entry): entry is string => typeof entry === 'string')
+			: [],
+		defaultTemplates:
+			typeof journalTemplate === 'string' && journalTemplate.trim()
+				? { journals: journalTemplate.trim() }
+				: {},
+	}
+}
+
+// Whether a path relative to the graph (with / separators) is under one of
+// the :hidden entries, which may be written with or without slashes around
+export function isHiddenPath(relativePath: string, hidden: string[]): boolean {
+	return hidden.some((entry) => {
+		const prefix = entry.replace(/^\/+|\/+$/g, '')
+		return (
+			prefix !== '' &&
+			(relativePath === prefix || relativePath.startsWith(prefix + '/'))
+		)
+	})
+}
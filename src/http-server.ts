@@ -0,0 +1,264 @@
+import { randomUUID, timingSafeEqual } from 'crypto'
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { LOOPBACK_HOSTS, type ServerConfig } from './config.js'
+
+// Streamable HTTP transport: one long-lived process serving many clients.
+// Every session gets its own McpServer from createServer.
+
+const MCP_PATH = '/mcp'
+const HEALTH_PATH = '/health'
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+// Sessions without a request for this long are closed
+const SESSION_IDLE_MS = 30 * 60 * 1000
+const WILDCARD_HOSTS = ['0.0.0.0', '::']
+
+// An error answered with its own HTTP status
+class HttpError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message)
+		this.name = 'HttpError'
+	}
+}
+
+function sendJson(
+	response: http.ServerResponse,
+	status: number,
+	payload: any,
+	headers: Record<string, string> = {}
+) {
+	response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+	response.end(JSON.stringify(payload))
+}
+
+// JSON-RPC error without an id, as the transport itself reports them
+function sendRpcError(
+	response: http.ServerResponse,
+	status: number,
+	message: string,
+	headers: Record<string, string> = {}
+) {
+	sendJson(
+		response,
+		status,
+		{ jsonrpc: '2.0', error: { code: -32000, message }, id: null },
+		headers
+	)
+}
+
+// Bodies over MAX_BODY_BYTES fail with 413; the rest of one is read and
+// dropped, so the response still reaches the client
+function readJsonBody(request: http.IncomingMessage): Promise<any> {
+	return new Promise((resolve, reject) => {
+		const tooLarge = () =>
+			new HttpError(
+				413,
+				`Request body is larger than ${MAX_BODY_BYTES / 1024 / 1024} MB`
+			)
+		if (Number(request.headers['content-length']) > MAX_BODY_BYTES) {
+			request.resume()
+			reject(tooLarge())
+			return
+		}
+
+		const chunks: Buffer[] = []
+		let size = 0
+		const onData = (chunk: Buffer) => {
+			size += chunk.length
+			if (size > MAX_BODY_BYTES) {
+				request.off('data', onData)
+				request.resume()
+				reject(tooLarge())
+				return
+			}
+			chunks.push(chunk)
+		}
+		request.on('data', onData)
+		request.on('end', () => {
+			if (size > MAX_BODY_BYTES) return
+			const body = Buffer.concat(chunks).toString('utf-8')
+			try {
+				resolve(body ? JSON.parse(body) : undefined)
+			} catch (error) {
+				reject(new Error('Request body is not valid JSON'))
+			}
+		})
+		request.on('error', reject)
+	})
+}
+
+// The Host headers requests to the server may carry, or none to accept any.
+// A web page that reaches a local server through DNS rebinding sends its own
+// host name and is turned away. A server on every interface is reached by
+// names it cannot know; it requires a token instead.
+function allowedHosts(host: string, port: number): string[] | undefined {
+	if (WILDCARD_HOSTS.includes(host)) return undefined
+	const names = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host]
+	return names.map((name) =>
+		name.includes(':') ? `[${name}]:${port}` : `${name}:${port}`
+	)
+}
+
+function isAuthorized(request: http.IncomingMessage, token: string): boolean {
+	const header = request.headers.authorization || ''
+	const expected = Buffer.from(`Bearer ${token}`)
+	const actual = Buffer.from(header)
+	return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Start the HTTP server; resolves once it is listening
+export async function startHttpServer(
+	createServer: () => McpServer,
+	config: ServerConfig
+): Promise<http.Server> {
+	const transports = new Map<string, StreamableHTTPServerTransport>()
+	// When each session was last used, and how many of its requests are open
+	// (a client's event stream stays open for as long as it listens)
+	const activity = new Map<string, { lastUsed: number; open: number }>()
+	let hosts: string[] | undefined
+
+	async function handleSessionRequest(
+		sessionId: string,
+		request: http.IncomingMessage,
+		response: http.ServerResponse,
+		body: any
+	) {
+		const transport = transports.get(sessionId)
+		const session = activity.get(sessionId)
+		if (!transport || !session) {
+			sendRpcError(response, 404, 'Session not found')
+			return
+		}
+		session.open++
+		try {
+			await transport.handleRequest(request, response, body)
+			// Streams end after handleRequest returns
+			await new Promise<void>((resolve) => {
+				if (response.writableFinished || response.destroyed) resolve()
+				else response.once('close', resolve)
+			})
+		} finally {
+			session.open--
+			session.lastUsed = Date.now()
+		}
+	}
+
+	async function handleMcpRequest(
+		request: http.IncomingMessage,
+		response: http.ServerResponse
+	) {
+		const sessionId = request.headers['mcp-session-id'] as string | undefined
+		const body =
+			request.method === 'POST' ? await readJsonBody(request) : undefined
+
+		if (sessionId) {
+			await handleSessionRequest(sessionId, request, response, body)
+			return
+		}
+
+		if (request.method !== 'POST' || !isInitializeRequest(body)) {
+			sendRpcError(response, 400, 'Missing mcp-session-id header')
+			return
+		}
+
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (id) => {
+				transports.set(id, transport)
+				activity.set(id, { lastUsed: Date.now(), open: 0 })
+			},
+			enableDnsRebindingProtection: hosts !== undefined,
+			allowedHosts: hosts,
+			allowedOrigins: hosts?.map((host) => `http://${host}`),
+		})
+		transport.onclose = () => {
+			if (transport.sessionId) {
+				transports.delete(transport.sessionId)
+				activity.delete(transport.sessionId)
+			}
+		}
+
+		await createServer().connect(transport)
+		await transport.handleRequest(request, response, body)
+	}
+
+	const server = http.createServer(async (request, response) => {
+		const { pathname } = new URL(request.url || '/', 'http://localhost')
+
+		try {
+			if (pathname === HEALTH_PATH && request.method === 'GET') {
+				sendJson(response, 200, { status: 'ok', sessions: transports.size })
+				return
+			}
+
+			if (pathname !== MCP_PATH) {
+				sendJson(response, 404, { error: `Not found: ${pathname}` })
+				return
+			}
+
+			if (config.authToken && !isAuthorized(request, config.authToken)) {
+				sendRpcError(response, 401, 'Unauthorized', {
+					'WWW-Authenticate': 'Bearer',
+				})
+				return
+			}
+
+			if (!['GET', 'POST', 'DELETE'].includes(request.method || '')) {
+				sendRpcError(response, 405, 'Method not allowed', {
+					Allow: 'GET, POST, DELETE',
+				})
+				return
+			}
+
+			await handleMcpRequest(request, response)
+		} catch (error) {
+			if (!(error instanceof HttpError)) {
+				console.error('Error handling MCP request:', error)
+			}
+			if (!response.headersSent) {
+				sendRpcError(
+					response,
+					error instanceof HttpError ? error.status : 400,
+					(error as Error).message
+				)
+			}
+		}
+	})
+
+	await new Promise<void>((resolve, reject) => {
+		server.once('error', reject)
+		server.listen(config.port, config.host, () => resolve())
+	})
+	hosts = allowedHosts(config.host, (server.address() as AddressInfo).port)
+
+	const sweep = setInterval(() => {
+		const idleSince = Date.now() - SESSION_IDLE_MS
+		for (const [id, session] of activity) {
+			if (session.open === 0 && session.lastUsed < idleSince) {
+				transports
+					.get(id)
+					?.close()
+					.catch((error) => console.error('Error closing idle session:', error))
+			}
+		}
+	}, Math.min(SESSION_IDLE_MS, 60 * 1000))
+	sweep.unref()
+	server.on('close', () => clearInterval(sweep))
+
+	console.error(
+		`Logseq MCP server listening on http://${config.host}:${config.port}${MCP_PATH}`
+	)
+
+	// Close open sessions so clients see the shutdown
+	const shutdown = async () => {
+		for (const transport of transports.values()) await transport.close()
+		server.close(() => process.exit(0))
+	}
+	process.on('SIGINT', shutdown)
+	process.on('SIGTERM', shutdown)
+
+	return server
+}
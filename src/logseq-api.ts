@@ -0,0 +1,139 @@
+import * as fs from 'fs'
+import * as http from 'http'
+import * as https from 'https'
+import { apiUrl, type Config } from './config.js'
+import {
+	connectionError,
+	LogseqApiError,
+	responseError,
+	timeoutError,
+} from './errors.js'
+
+export type LogseqApiCaller = (method: string, args?: any[]) => Promise<any>
+
+// Base delay before the first retry; doubles on every further attempt
+const RETRY_BASE_DELAY_MS = 250
+
+// Methods that only read, so repeating them after a lost response is safe
+function isReadOnlyMethod(method: string): boolean {
+	return /^logseq\.(Editor\.get|App\.get|DB\.)/.test(method)
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Create a helper that makes API calls to the Logseq desktop app
+export function createLogseqApi(config: Config): LogseqApiCaller {
+	const url = new URL(apiUrl(config.api))
+	const transport = url.protocol === 'https:' ? https : http
+	const ca = config.api.caCertPath
+		? fs.readFileSync(config.api.caCertPath, 'utf-8')
+		: undefined
+
+	// One HTTP round trip, rejecting with a classified LogseqApiError
+	function request(method: string, args: any[]): Promise<any> {
+		const body = JSON.stringify({
+			method,
+			args,
+		})
+
+		return new Promise((resolve, reject) => {
+			const req = transport.request(
+				url,
+				{
+					method: 'POST',
+					headers: {
+						Authorization: `Bearer ${config.logseqToken}`,
+						'Content-Type': 'application/json',
+						'Content-Length': Buffer.byteLength(body),
+					},
+					timeout: config.api.timeoutMs,
+					...(ca && transport === https ? { ca } : {}),
+				},
+				(response) => {
+					let text = ''
+					response.setEncoding('utf-8')
+					response.on('data', (chunk) => (text += chunk))
+					response.on('end', () => {
+						const status = response.statusCode || 0
+						if (status < 200 || status >= 300) {
+							reject(
+								responseError(
+									method,
+									status,
+									response.statusMessage || '',
+									text
+								)
+							)
+							return
+						}
+						try {
+							resolve(text ? JSON.parse(text) : null)
+						} catch (error) {
+							reject(
+								new LogseqApiError(
+									'API_ERROR',
+									`Logseq API returned invalid JSON for ${method}. Check that LOGSEQ_HOST, LOGSEQ_PORT and LOGSEQ_BASE_PATH point at the Logseq API.`,
+									{ method, status }
+								)
+							)
+						}
+					})
+				}
+			)
+
+			// The timeout option only notices a silent connection; a response
+			// that keeps trickling in is cut off once the whole call took too long
+			req.on('timeout', () =>
+				req.destroy(timeoutError(method, config.api.timeoutMs))
+			)
+			const timer = setTimeout(() => {
+				const error = timeoutError(method, config.api.timeoutMs)
+				req.destroy(error)
+				reject(error)
+			}, config.api.timeoutMs)
+			req.on('close', () => clearTimeout(timer))
+			req.on('error', (error) =>
+				reject(
+					error instanceof LogseqApiError
+						? error
+						: connectionError(method, url.href, error)
+				)
+			)
+			req.end(body)
+		})
+	}
+
+	return async function callLogseqApi(
+		method: string,
+		args: any[] = []
+	): Promise<any> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await request(method, args)
+			} catch (error) {
+				if (
+					!(error instanceof LogseqApiError) ||
+					!error.retryable ||
+					attempt >= config.api.retries
+				) {
+					throw error
+				}
+
+				// Writes are only repeated when they cannot have reached Logseq
+				const causeCode = (error.cause as NodeJS.ErrnoException | undefined)
+					?.code
+				const safeToRepeat =
+					isReadOnlyMethod(method) ||
+					(error.code === 'UNREACHABLE' &&
+						causeCode !== 'ECONNRESET' &&
+						causeCode !== 'EPIPE')
+				if (!safeToRepeat) throw error
+
+				const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+				await sleep(delay + Math.random() * delay * 0.2)
+			}
+		}
+	}
+}
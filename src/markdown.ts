@@ -0,0 +1,288 @@
+// Parser and serializer for Logseq's markdown page files. Every block keeps
+// the exact lines it was read from, so serializing an unchanged tree gives
+// back the file byte for byte; blocks that are added or edited are written
+// the way Logseq writes them.
+
+export interface MarkdownBlock {
+	// Text after the bullet, with continuation lines de-indented. Property
+	// lines are part of it, as in the Logseq API.
+	content: string
+	// key:: value lines of the block, outside code fences
+	properties: Record<string, string>
+	// The block's id:: property
+	id?: string
+	// collapsed:: true
+	collapsed: boolean
+	// Outline depth, 0 for top-level blocks
+	level: number
+	// Whether the block starts with a bullet; headings without one are blocks too
+	bullet: boolean
+	// Only page properties: the first block, read as the page's properties
+	preBlock: boolean
+	// Index of the first line of the block
+	start: number
+	// End (exclusive) of the block's own text, before blank lines and children
+	bodyEnd: number
+	// End (exclusive) of the block including all of its children
+	end: number
+	// The block's own lines as written, up to its first child or the next block
+	source: string[]
+	children: MarkdownBlock[]
+}
+
+export interface MarkdownPage {
+	lines: string[]
+	// Lines before the first block: front matter, page properties, blank lines
+	preamble: string[]
+	// YAML front matter between --- lines, as a line range
+	frontMatter?: { start: number; end: number }
+	// Page properties, from front matter, key:: value lines before the first
+	// block or a first block holding only properties
+	properties: Record<string, string>
+	// Lines holding key:: value page properties
+	propertyLines: number[]
+	blocks: MarkdownBlock[]
+	// Blank lines after the last block, including the empty one a final
+	// newline leaves, so blocks added at the end go before them
+	trailer: string[]
+	// Indentation unit of the file: a tab, or the spaces of the first nested bullet
+	indent: string
+}
+
+const BULLET_REGEX = /^(\s*)[-*+](?:([ \t]+)(.*))?$/
+const HEADING_REGEX = /^#{1,6}(\s|$)/
+const PROPERTY_REGEX = /^([A-Za-z0-9_?.-]+)::(?:\s+(.*?))?\s*$/
+const FENCE_REGEX = /^(`{3,}|~{3,})/
+
+// Columns of leading whitespace; a tab counts as four
+function indentWidth(whitespace: string): number {
+	let width = 0
+	for (const char of whitespace) width += char === '\t' ? 4 : 1
+	return width
+}
+
+export function parseProperty(
+	line: string
+): { key: string; value: string } | null {
+	const match = line.trim().match(PROPERTY_REGEX)
+	return match ? { key: match[1].toLowerCase(), value: match[2] || '' } : null
+}
+
+export function parseMarkdown(text: string): MarkdownPage {
+	const lines = text.split('\n')
+	const page: MarkdownPage = {
+		lines,
+		preamble: [],
+		properties: {},
+		propertyLines: [],
+		blocks: [],
+		trailer: [],
+		indent: '',
+	}
+
+	let i = 0
+
+	// YAML front matter
+	if (lines[0] === '---') {
+		const end = lines.indexOf('---', 1)
+		if (end !== -1) {
+			for (const line of lines.slice(1, end)) {
+				const colon = line.indexOf(':')
+				if (colon > 0) {
+					page.properties[line.slice(0, colon).trim()] = line
+						.slice(colon + 1)
+						.trim()
+				}
+			}
+			page.frontMatter = { start: 0, end: end + 1 }
+			i = end + 1
+		}
+	}
+
+	// Page properties written before the first bullet
+	for (; i < lines.length; i++) {
+		const property = parseProperty(lines[i])
+		if (property && !BULLET_REGEX.test(lines[i])) {
+			page.properties[property.key] = property.value
+			page.propertyLines.push(i)
+		} else if (lines[i].trim() !== '') {
+			break
+		}
+	}
+
+	// Blocks still open, innermost last, with the width of their bullet
+	const stack: { block: MarkdownBlock; width: number; align: number }[] = []
+	// Blank lines seen since the last line of the current block
+	let blanks: string[] = []
+	let fence: string | null = null
+	const all: MarkdownBlock[] = []
+
+	const current = () => stack[stack.length - 1]
+
+	function addLine(index: number, text: string) {
+		const { block } = current()
+		const property = fence === null && parseProperty(text)
+		const fenceMatch = text.trim().match(FENCE_REGEX)
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1]
+			else if (text.trim().startsWith(fence)) fence = null
+		}
+
+		if (index > block.start) {
+			block.content += '\n' + [...blanks, text].join('\n')
+		}
+		blanks = []
+		block.bodyEnd = index + 1
+		if (property) {
+			block.properties[property.key] = property.value
+			if (property.key === 'id') block.id = property.value
+			if (property.key === 'collapsed') {
+				block.collapsed = property.value === 'true'
+			}
+		}
+	}
+
+	function startBlock(
+		index: number,
+		width: number,
+		align: number,
+		bullet: boolean,
+		text: string
+	) {
+		while (stack.length > 0 && current().width >= width) stack.pop()
+		const parent = stack.length > 0 ? current().block : null
+
+		const block: MarkdownBlock = {
+			content: text,
+			properties: {},
+			collapsed: false,
+			level: stack.length,
+			bullet,
+			preBlock: false,
+			start: index,
+			bodyEnd: index + 1,
+			end: index + 1,
+			source: [],
+			children: [],
+		}
+		if (parent) parent.children.push(block)
+		else page.blocks.push(block)
+		all.push(block)
+
+		stack.push({ block, width, align })
+		blanks = []
+		addLine(index, text)
+	}
+
+	for (; i < lines.length; i++) {
+		const line = lines[i]
+
+		// Inside a code fence everything belongs to the block
+		if (fence !== null && stack.length > 0) {
+			addLine(i, line.slice(Math.min(leadingWhitespace(line), current().align)))
+			continue
+		}
+
+		const bullet = line.match(BULLET_REGEX)
+		if (bullet) {
+			const width = indentWidth(bullet[1])
+			if (!page.indent && bullet[1]) {
+				page.indent = bullet[1].startsWith('\t') ? '\t' : bullet[1]
+			}
+			startBlock(
+				i,
+				width,
+				bullet[1].length + 1 + (bullet[2] || '').length,
+				true,
+				bullet[3] || ''
+			)
+			continue
+		}
+
+		if (line.trim() === '') {
+			if (stack.length > 0) blanks.push('')
+			continue
+		}
+
+		// Unbulleted headings, and text before the first bullet, start blocks
+		if (stack.length === 0 || HEADING_REGEX.test(line)) {
+			startBlock(i, 0, 0, false, line)
+			continue
+		}
+
+		addLine(i, line.slice(Math.min(leadingWhitespace(line), current().align)))
+	}
+
+	// Line ranges and source lines, in file order
+	const firstBlockStart = all.length > 0 ? all[0].start : lines.length
+	const trailerStart =
+		all.length > 0 ? all[all.length - 1].bodyEnd : lines.length
+	page.preamble = lines.slice(0, firstBlockStart)
+	page.trailer = lines.slice(trailerStart)
+	all.forEach((block, index) => {
+		const next = index + 1 < all.length ? all[index + 1].start : trailerStart
+		block.source = lines.slice(block.start, next)
+	})
+	for (const block of [...all].reverse()) {
+		const last = block.children[block.children.length - 1]
+		block.end = last ? Math.max(last.end, block.bodyEnd) : block.bodyEnd
+	}
+
+	// A first block made only of properties holds the page's properties
+	const first = page.blocks[0]
+	if (
+		first &&
+		first.children.length === 0 &&
+		Object.keys(page.properties).length === 0 &&
+		first.content
+			.split('\n')
+			.every((line) => line.trim() === '' || parseProperty(line))
+	) {
+		first.preBlock = true
+		Object.assign(page.properties, first.properties)
+		for (let index = first.start; index < first.bodyEnd; index++) {
+			if (parseProperty(lines[index].replace(BULLET_REGEX, '$3'))) {
+				page.propertyLines.push(index)
+			}
+		}
+	}
+
+	page.indent = page.indent || '\t'
+	return page
+}
+
+function leadingWhitespace(line: string): number {
+	return line.match(/^\s*/)![0].length
+}
+
+// Lines for a block at the given depth, as Logseq writes them
+export function formatBlock(
+	content: string,
+	level: number,
+	indent: string
+): string[] {
+	const [first, ...rest] = content.split('\n')
+	const prefix = indent.repeat(level)
+	return [
+		`${prefix}- ${first}`,
+		...rest.map((line) => (line ? `${prefix}  ${line}` : '')),
+	]
+}
+
+// The page as text. Blocks keep their source lines; blocks without any (new
+// ones) are formatted from their content.
+export function serializeMarkdown(page: MarkdownPage): string {
+	const lines = [...page.preamble]
+	const write = (blocks: MarkdownBlock[]) => {
+		for (const block of blocks) {
+			lines.push(
+				...(block.source.length > 0
+					? block.source
+					: formatBlock(block.content, block.level, page.indent))
+			)
+			write(block.children)
+		}
+	}
+	write(page.blocks)
+	return [...lines, ...page.trailer].join('\n')
+}
@@ -0,0 +1,287 @@
+import {
+	parseProperty,
+	type MarkdownBlock,
+	type MarkdownPage,
+} from './markdown.js'
+
+// Parser and serializer for Logseq's org-mode page files. They give the same
+// block tree as the markdown parser: headlines are blocks, nested by their
+// number of stars, with properties from their :PROPERTIES: drawer and page
+// properties from #+KEY: lines. Unchanged blocks keep their lines, so an
+// unchanged tree serializes back to the same file.
+
+const HEADLINE_REGEX = /^(\*+)(?:[ \t]+(.*))?$/
+const KEYWORD_REGEX = /^#\+([A-Za-z0-9_-]+):[ \t]*(.*?)\s*$/
+const DRAWER_PROPERTY_REGEX = /^:([A-Za-z0-9_?.-]+):(?:[ \t]+(.*?))?\s*$/
+const PLANNING_REGEX = /^(SCHEDULED|DEADLINE|CLOSED):/
+const BEGIN_REGEX = /^#\+BEGIN_/i
+const END_REGEX = /^#\+END_/i
+
+// A #+KEY: value line; #+BEGIN_ and #+END_ lines open and close blocks
+export function parseOrgKeyword(
+	line: string
+): { key: string; value: string } | null {
+	const match = line.trim().match(KEYWORD_REGEX)
+	if (!match || /^(begin|end)_/i.test(match[1])) return null
+	return { key: match[1].toLowerCase(), value: match[2] }
+}
+
+function parseDrawerProperty(
+	line: string
+): { key: string; value: string } | null {
+	const trimmed = line.trim()
+	if (/^:(PROPERTIES|END):$/i.test(trimmed)) return null
+	const match = trimmed.match(DRAWER_PROPERTY_REGEX)
+	return match ? { key: match[1].toLowerCase(), value: match[2] || '' } : null
+}
+
+const isDrawerStart = (line: string) => /^:PROPERTIES:$/i.test(line.trim())
+const isDrawerEnd = (line: string) => /^:END:$/i.test(line.trim())
+
+export function parseOrg(text: string): MarkdownPage {
+	const lines = text.split('\n')
+	const page: MarkdownPage = {
+		lines,
+		preamble: [],
+		properties: {},
+		propertyLines: [],
+		blocks: [],
+		trailer: [],
+		indent: '',
+	}
+
+	let i = 0
+
+	// Page properties: #+KEY: value lines and a property drawer before the
+	// first headline
+	let inDrawer = false
+	for (; i < lines.length && !HEADLINE_REGEX.test(lines[i]); i++) {
+		const line = lines[i]
+		const property = inDrawer
+			? parseDrawerProperty(line)
+			: parseOrgKeyword(line)
+		if (property) {
+			page.properties[property.key] = property.value
+			page.propertyLines.push(i)
+		} else if (inDrawer ? isDrawerEnd(line) : isDrawerStart(line)) {
+			inDrawer = !inDrawer
+		} else if (line.trim() !== '') {
+			break
+		}
+	}
+
+	// Blocks still open, innermost last, with their number of stars
+	const stack: {
+		block: MarkdownBlock
+		stars: number
+		drawer: 'none' | 'open' | 'done'
+	}[] = []
+	// Blank lines seen since the last line of the current block
+	let blanks: string[] = []
+	// Inside #+BEGIN_ ... #+END_, where lines starting with stars are text
+	let inBlock = false
+	const all: MarkdownBlock[] = []
+
+	const current = () => stack[stack.length - 1]
+
+	function addLine(index: number, text: string) {
+		const entry = current()
+		const { block } = entry
+		if (index > block.start) {
+			block.content += '\n' + [...blanks, text].join('\n')
+		}
+		blanks = []
+		block.bodyEnd = index + 1
+
+		if (inBlock) {
+			if (END_REGEX.test(text.trim())) inBlock = false
+			return
+		}
+		if (BEGIN_REGEX.test(text.trim())) {
+			inBlock = true
+			return
+		}
+
+		// Only the block's first drawer holds its properties
+		if (entry.drawer === 'open') {
+			const property = parseDrawerProperty(text)
+			if (isDrawerEnd(text)) entry.drawer = 'done'
+			else if (property) {
+				block.properties[property.key] = property.value
+				if (property.key === 'id') block.id = property.value
+				if (property.key === 'collapsed') {
+					block.collapsed = property.value === 'true'
+				}
+			}
+		} else if (entry.drawer === 'none' && index > block.start) {
+			if (isDrawerStart(text)) entry.drawer = 'open'
+		}
+	}
+
+	function startBlock(
+		index: number,
+		stars: number,
+		headline: boolean,
+		text: string
+	) {
+		while (stack.length > 0 && current().stars >= stars) stack.pop()
+		const parent = stack.length > 0 ? current().block : null
+
+		const block: MarkdownBlock = {
+			content: text,
+			properties: {},
+			collapsed: false,
+			level: stack.length,
+			bullet: headline,
+			preBlock: false,
+			start: index,
+			bodyEnd: index + 1,
+			end: index + 1,
+			source: [],
+			children: [],
+		}
+		if (parent) parent.children.push(block)
+		else page.blocks.push(block)
+		all.push(block)
+
+		stack.push({ block, stars, drawer: 'none' })
+		blanks = []
+		addLine(index, text)
+	}
+
+	for (; i < lines.length; i++) {
+		const line = lines[i]
+
+		const headline = !inBlock && line.match(HEADLINE_REGEX)
+		if (headline) {
+			startBlock(i, headline[1].length, true, headline[2] || '')
+			continue
+		}
+
+		if (line.trim() === '') {
+			if (stack.length > 0) blanks.push('')
+			continue
+		}
+
+		// Text before the first headline is a block of its own, a sibling of
+		// the top-level headlines
+		if (stack.length === 0) {
+			startBlock(i, 1, false, line)
+			continue
+		}
+
+		addLine(i, line)
+	}
+
+	// Line ranges and source lines, in file order
+	const firstBlockStart = all.length > 0 ? all[0].start : lines.length
+	const trailerStart =
+		all.length > 0 ? all[all.length - 1].bodyEnd : lines.length
+	page.preamble = lines.slice(0, firstBlockStart)
+	page.trailer = lines.slice(trailerStart)
+	all.forEach((block, index) => {
+		const next = index + 1 < all.length ? all[index + 1].start : trailerStart
+		block.source = lines.slice(block.start, next)
+	})
+	for (const block of [...all].reverse()) {
+		const last = block.children[block.children.length - 1]
+		block.end = last ? Math.max(last.end, block.bodyEnd) : block.bodyEnd
+	}
+
+	return page
+}
+
+// Lines for a headline at the given depth. key:: value lines following the
+// headline and its planning lines, the way properties are written in
+// markdown, become a property drawer.
+export function formatOrgBlock(content: string, level: number): string[] {
+	const [first, ...rest] = content.split('\n')
+	let start = 0
+	while (start < rest.length && PLANNING_REGEX.test(rest[start].trim())) {
+		start++
+	}
+	let end = start
+	while (end < rest.length && parseProperty(rest[end])) end++
+
+	const drawer = rest.slice(start, end).map((line) => {
+		const { key, value } = parseProperty(line)!
+		return `:${key}: ${value}`
+	})
+	return [
+		`${'*'.repeat(level + 1)} ${first}`,
+		...rest.slice(0, start),
+		...(drawer.length > 0 ? [':PROPERTIES:', ...drawer, ':END:'] : []),
+		...rest.slice(end),
+	]
+}
+
+// Where an id:: property goes in a block's lines, headline first: into its
+// property drawer, or a new drawer after the headline and planning lines
+export function orgIdLines(
+	lines: string[],
+	id: string
+): { index: number; lines: string[] } {
+	let index = 1
+	while (index < lines.length && PLANNING_REGEX.test(lines[index].trim())) {
+		index++
+	}
+	if (index < lines.length && isDrawerStart(lines[index])) {
+		const end = lines.findIndex(
+			(line, position) => position > index && isDrawerEnd(line)
+		)
+		if (end !== -1) return { index: end, lines: [`:id: ${id}`] }
+	}
+	return { index, lines: [':PROPERTIES:', `:id: ${id}`, ':END:'] }
+}
+
+// Lines of an org file with a page property set: the #+KEY: or drawer line
+// holding it is replaced, otherwise one is added after the last of them
+export function setOrgPageProperty(
+	lines: string[],
+	propertyLines: number[],
+	key: string,
+	value: string
+): string[] {
+	const result = [...lines]
+	const existing = propertyLines.find(
+		(index) =>
+			(parseOrgKeyword(lines[index]) || parseDrawerProperty(lines[index]))
+				?.key === key.toLowerCase()
+	)
+	if (existing !== undefined) {
+		const line = lines[existing].trim()
+		result[existing] = line.startsWith('#+')
+			? `${line.slice(0, line.indexOf(':'))}: ${value}`
+			: `:${key}: ${value}`
+	} else if (propertyLines.length > 0) {
+		const last = propertyLines[propertyLines.length - 1]
+		result.splice(
+			last + 1,
+			0,
+			lines[last].trim().startsWith('#+')
+				? `#+${key}: ${value}`
+				: `:${key}: ${value}`
+		)
+	} else {
+		result.splice(0, 0, `#+${key}: ${value}`)
+	}
+	return result
+}
+
+// The page as text. Blocks keep their source lines; blocks without any (new
+// ones) are formatted from their content.
+export function serializeOrg(page: MarkdownPage): string {
+	const lines = [...page.preamble]
+	const write = (blocks: MarkdownBlock[]) => {
+		for (const block of blocks) {
+			lines.push(
+				...(block.source.length > 0
+					? block.source
+					: formatOrgBlock(block.content, block.level))
+			)
+			write(block.children)
+		}
+	}
+	write(page.blocks)
+	return [...lines, ...page.trailer].join('\n')
+}
@@ -0,0 +1,95 @@
+import type {
+	McpServer,
+	RegisteredTool,
+} from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { AccessMode, PermissionsConfig } from './config.js'
+import { TOOL_ALIASES } from './tool-aliases.js'
+
+// Which tools a client is offered (LOGSEQ_MCP_MODE plus allow/deny lists) and
+// which pages tools may write to (namespace allow/deny lists).
+
+// Tools that create or edit content
+const WRITE_TOOLS = new Set([
+	'createPage',
+	'addJournalEntry',
+	'addJournalBlock',
+	'addJournalContent',
+	'addNoteContent',
+	'insert_block',
+	'update_block',
+	'set_page_property',
+	'undo_change',
+])
+
+// Tools that delete content or replace whole pages
+const ADMIN_TOOLS = new Set([
+	'delete_block',
+	'delete_page',
+	'update_page',
+	'restore_page_revision',
+])
+
+const MODE_RANK: Record<AccessMode, number> = {
+	readonly: 0,
+	write: 1,
+	admin: 2,
+}
+
+// The mode a tool needs; every other tool only reads. Former names need
+// the mode of the tool they became.
+export function requiredMode(toolName: string): AccessMode {
+	toolName = TOOL_ALIASES[toolName] ?? toolName
+	if (ADMIN_TOOLS.has(toolName)) return 'admin'
+	if (WRITE_TOOLS.has(toolName)) return 'write'
+	return 'readonly'
+}
+
+export function isToolAllowed(
+	permissions: PermissionsConfig,
+	toolName: string
+): boolean {
+	if (MODE_RANK[requiredMode(toolName)] > MODE_RANK[permissions.mode]) {
+		return false
+	}
+	const names = [toolName, TOOL_ALIASES[toolName]].filter(Boolean)
+	if (names.some((name) => permissions.denyTools.includes(name))) return false
+	return (
+		permissions.allowTools.length === 0 ||
+		names.some((name) => permissions.allowTools.includes(name))
+	)
+}
+
+// A page is in a namespace when it is the namespace page or below it
+function inNamespace(pageName: string, namespace: string): boolean {
+	return pageName === namespace || pageName.startsWith(`${namespace}/`)
+}
+
+export function isPageWritable(
+	permissions: PermissionsConfig,
+	pageName: string
+): boolean {
+	const name = pageName.toLowerCase()
+	if (permissions.denyNamespaces.some((ns) => inNamespace(name, ns))) {
+		return false
+	}
+	return (
+		permissions.allowNamespaces.length === 0 ||
+		permissions.allowNamespaces.some((ns) => inNamespace(name, ns))
+	)
+}
+
+// Disable tools the permissions do not allow as they are registered, so they
+// are neither listed nor callable
+export function applyToolPermissions(
+	server: McpServer,
+	permissions: PermissionsConfig
+) {
+	const register = server.tool.bind(server) as (
+		...args: any[]
+	) => RegisteredTool
+	server.tool = ((name: string, ...rest: any[]) => {
+		const tool = register(name, ...rest)
+		if (!isToolAllowed(permissions, name)) tool.disable()
+		return tool
+	}) as McpServer['tool']
+}
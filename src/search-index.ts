@@ -0,0 +1,451 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type {
+	BlockEntity,
+	PageEntity,
+	SearchHit,
+	SearchOptions,
+	SearchResult,
+} from './backend/index.js'
+
+// Full-text search over a graph: an inverted index of block content and of
+// page names, aliases and properties, ranked with BM25. The index is kept up
+// to date page by page: pages whose stamp (file mtime, or updatedAt from the
+// Logseq API) is unchanged are not read again. With a file it persists
+// between runs, so a large graph is only read in full once.
+
+// A page as the index reads it from its source
+export interface IndexedPage {
+	// Lower-cased name
+	name: string
+	originalName: string
+	journalDay?: number
+	aliases: string[]
+	properties: Record<string, string>
+	// Every block of the page, outline order
+	blocks: { uuid: string; content: string; marker?: string }[]
+}
+
+// What the index reads of a page and its blocks
+export function indexedPage(
+	page: PageEntity,
+	blocks: BlockEntity[]
+): IndexedPage {
+	const text = (value: any): string =>
+		Array.isArray(value) ? value.map(text).join(', ') : String(value ?? '')
+	const alias = page.properties?.alias
+	const flatten = (children: BlockEntity[]): IndexedPage['blocks'] =>
+		children.flatMap((block) => [
+			{ uuid: block.uuid, content: block.content || '', marker: block.marker },
+			...flatten(block.children || []),
+		])
+
+	return {
+		name: page.name,
+		originalName: page.originalName || page.name,
+		journalDay: page.journalDay,
+		aliases: (Array.isArray(alias) ? alias : text(alias).split(','))
+			.map((name) =>
+				String(name)
+					.replace(/^\s*\[\[|\]\]\s*$/g, '')
+					.trim()
+			)
+			.filter(Boolean),
+		properties: Object.fromEntries(
+			Object.entries(page.properties || {}).map(([key, value]) => [
+				key,
+				text(value),
+			])
+		),
+		blocks: flatten(blocks),
+	}
+}
+
+// Where the pages come from. Keys identify pages (file paths or names);
+// a page is read again whenever its stamp changes.
+export interface SearchSource {
+	list(): Promise<Map<string, number>>
+	load(key: string): Promise<IndexedPage | null>
+	// Settings the pages were read with; a change discards the whole index
+	fingerprint(): string
+}
+
+export interface SearchIndex {
+	search(query: string, options?: SearchOptions): Promise<SearchResult>
+}
+
+const INDEX_VERSION = 1
+// BM25 parameters, the usual defaults
+const K1 = 1.2
+const B = 0.75
+// Page names count three times, aliases twice
+const NAME_WEIGHT = 3
+const ALIAS_WEIGHT = 2
+const SNIPPET_LENGTH = 160
+
+interface IndexedDocument {
+	// Key of the page in the source
+	page: string
+	uuid?: string
+	marker?: string
+	text: string
+	// Weighted number of words
+	length: number
+}
+
+interface PageEntry {
+	stamp: number
+	name: string
+	originalName: string
+	journalDay?: number
+	documents: number[]
+}
+
+// The index in memory. Maps, since keys are words and page names from the
+// graph, any of which may be "constructor".
+interface IndexState {
+	fingerprint: string
+	nextId: number
+	pages: Map<string, PageEntry>
+	documents: Map<number, IndexedDocument>
+	// word -> document id -> weighted number of occurrences
+	postings: Map<string, Map<number, number>>
+	// Sum of all document lengths
+	totalLength: number
+}
+
+// The index as written to its file
+interface IndexFile {
+	version: number
+	fingerprint: string
+	nextId: number
+	pages: [string, PageEntry][]
+	documents: [number, IndexedDocument][]
+	postings: [string, [number, number][]][]
+}
+
+// Lower-cased words without accents; letters and digits of any script
+function tokenize(text: string): string[] {
+	return (
+		text
+			.normalize('NFKD')
+			.replace(/\p{M}/gu, '')
+			.toLowerCase()
+			.match(/[\p{L}\p{N}]+/gu) || []
+	)
+}
+
+function emptyIndex(fingerprint: string): IndexState {
+	return {
+		fingerprint,
+		nextId: 1,
+		pages: new Map(),
+		documents: new Map(),
+		postings: new Map(),
+		totalLength: 0,
+	}
+}
+
+function readIndexFile(filePath: string | undefined): IndexState | null {
+	if (!filePath || !fs.existsSync(filePath)) return null
+	try {
+		const file: IndexFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+		if (file?.version !== INDEX_VERSION) return null
+		const documents = new Map(file.documents)
+		return {
+			fingerprint: file.fingerprint,
+			nextId: file.nextId,
+			pages: new Map(file.pages),
+			documents,
+			postings: new Map(
+				file.postings.map(([term, entries]) => [term, new Map(entries)])
+			),
+			totalLength: [...documents.values()].reduce(
+				(sum, document) => sum + document.length,
+				0
+			),
+		}
+	} catch (error) {
+		console.error(`Error reading search index ${filePath}:`, error)
+		return null
+	}
+}
+
+// Written next to the old file and renamed over it, so a crash mid-write
+// leaves the previous index
+function writeIndexFile(filePath: string, state: IndexState) {
+	const file: IndexFile = {
+		version: INDEX_VERSION,
+		fingerprint: state.fingerprint,
+		nextId: state.nextId,
+		pages: [...state.pages],
+		documents: [...state.documents],
+		postings: [...state.postings].map(([term, entries]) => [
+			term,
+			[...entries],
+		]),
+	}
+	fs.mkdirSync(path.dirname(filePath), { recursive: true })
+	const temporary = `${filePath}.${process.pid}.tmp`
+	fs.writeFileSync(temporary, JSON.stringify(file), 'utf-8')
+	fs.renameSync(temporary, filePath)
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// The text around the first matching word, matched words in bold. Words are
+// compared without case and accents, like the index does.
+function snippet(text: string, terms: Set<string>): string {
+	const flat = text.replace(/\s+/g, ' ').trim()
+	const words = [...flat.matchAll(/[\p{L}\p{N}]+/gu)].filter(([word]) =>
+		terms.has(tokenize(word)[0])
+	)
+	const first = words[0]?.index ?? 0
+	const start =
+		first < SNIPPET_LENGTH / 3
+			? 0
+			: Math.max(0, flat.lastIndexOf(' ', first - SNIPPET_LENGTH / 3) + 1)
+	const end = Math.min(flat.length, start + SNIPPET_LENGTH)
+	const matched = new Set(words.map(([word]) => word))
+	let result = flat.slice(start, end)
+	if (matched.size > 0) {
+		const pattern = new RegExp(
+			`(?<![\\p{L}\\p{N}])(${[...matched]
+				.map(escapeRegExp)
+				.join('|')})(?![\\p{L}\\p{N}])`,
+			'gu'
+		)
+		result = result.replace(pattern, '**$1**')
+	}
+	return `${start > 0 ? '…' : ''}${result}${end < flat.length ? '…' : ''}`
+}
+
+// An index over the source, stored in indexPath when given
+export function createSearchIndex(
+	source: SearchSource,
+	indexPath?: string
+): SearchIndex {
+	let state: IndexState | null = null
+	// Searches wait for an update already under way instead of starting one
+	let updating: Promise<void> | null = null
+
+	function addDocument(
+		index: IndexState,
+		document: Omit<IndexedDocument, 'length'>,
+		fields: { text: string; weight: number }[]
+	): number {
+		const id = index.nextId++
+		let length = 0
+		for (const { text, weight } of fields) {
+			for (const term of tokenize(text)) {
+				const postings = index.postings.get(term) || new Map()
+				postings.set(id, (postings.get(id) || 0) + weight)
+				index.postings.set(term, postings)
+				length += weight
+			}
+		}
+		index.documents.set(id, { ...document, length })
+		index.totalLength += length
+		return id
+	}
+
+	function removePage(index: IndexState, key: string) {
+		const entry = index.pages.get(key)
+		if (!entry) return
+		for (const id of entry.documents) {
+			const document = index.documents.get(id)
+			if (!document) continue
+			// The document's words are found again from its text
+			for (const term of new Set(tokenize(document.text))) {
+				const postings = index.postings.get(term)
+				postings?.delete(id)
+				if (postings?.size === 0) index.postings.delete(term)
+			}
+			index.totalLength -= document.length
+			index.documents.delete(id)
+		}
+		index.pages.delete(key)
+	}
+
+	function addPage(
+		index: IndexState,
+		key: string,
+		stamp: number,
+		page: IndexedPage
+	) {
+		const propertyText = Object.entries(page.properties)
+			.map(([name, value]) => `${name}: ${value}`)
+			.join('\n')
+		const documents = [
+			addDocument(
+				index,
+				{
+					page: key,
+					text: [page.originalName, ...page.aliases, propertyText]
+						.filter(Boolean)
+						.join('\n'),
+				},
+				[
+					{ text: page.originalName, weight: NAME_WEIGHT },
+					{ text: page.aliases.join(' '), weight: ALIAS_WEIGHT },
+					{ text: propertyText, weight: 1 },
+				]
+			),
+			...page.blocks
+				.filter((block) => block.content.trim())
+				.map((block) =>
+					addDocument(
+						index,
+						{
+							page: key,
+							uuid: block.uuid,
+							marker: block.marker,
+							text: block.content,
+						},
+						[{ text: block.content, weight: 1 }]
+					)
+				),
+		]
+		index.pages.set(key, {
+			stamp,
+			name: page.name,
+			originalName: page.originalName,
+			journalDay: page.journalDay,
+			documents,
+		})
+	}
+
+	// Bring the index in line with the source: read new and changed pages,
+	// drop removed ones, and save the index when anything changed
+	async function update() {
+		const fingerprint = source.fingerprint()
+		let index = state || readIndexFile(indexPath)
+		if (!index || index.fingerprint !== fingerprint) {
+			index = emptyIndex(fingerprint)
+		}
+		state = index
+
+		const stamps = await source.list()
+		let changed = false
+		for (const key of [...index.pages.keys()]) {
+			if (!stamps.has(key)) {
+				removePage(index, key)
+				changed = true
+			}
+		}
+		for (const [key, stamp] of stamps) {
+			if (index.pages.get(key)?.stamp === stamp) continue
+			removePage(index, key)
+			const page = await source.load(key)
+			if (page) addPage(index, key, stamp, page)
+			changed = true
+		}
+
+		if (changed && indexPath) {
+			try {
+				writeIndexFile(indexPath, index)
+			} catch (error) {
+				console.error(`Error writing search index ${indexPath}:`, error)
+			}
+		}
+	}
+
+	function matchesFilters(
+		page: PageEntry,
+		document: IndexedDocument,
+		options: SearchOptions
+	): boolean {
+		const namespace = options.namespace?.toLowerCase().replace(/\/+$/, '')
+		if (
+			namespace &&
+			page.name !== namespace &&
+			!page.name.startsWith(`${namespace}/`)
+		) {
+			return false
+		}
+
+		const day = page.journalDay
+		if (options.type === 'journal' && day === undefined) return false
+		if (options.type === 'page' && day !== undefined) return false
+		if (options.startDay !== undefined || options.endDay !== undefined) {
+			if (day === undefined) return false
+			if (day < (options.startDay ?? -Infinity)) return false
+			if (day > (options.endDay ?? Infinity)) return false
+		}
+
+		// Task filters only keep blocks
+		if (options.markers?.length) {
+			return (
+				!!document.marker &&
+				options.markers.some(
+					(marker) => marker.toUpperCase() === document.marker
+				)
+			)
+		}
+		return true
+	}
+
+	return {
+		search: async (query, options = {}) => {
+			if (!updating) {
+				updating = update().finally(() => {
+					updating = null
+				})
+			}
+			await updating
+			const index = state!
+
+			const terms = new Set(tokenize(query))
+			const count = index.documents.size
+			if (terms.size === 0 || count === 0) return { total: 0, hits: [] }
+			const averageLength = index.totalLength / count
+
+			const scores = new Map<number, number>()
+			for (const term of terms) {
+				const postings = index.postings.get(term)
+				if (!postings) continue
+				const idf = Math.log(
+					1 + (count - postings.size + 0.5) / (postings.size + 0.5)
+				)
+				for (const [id, frequency] of postings) {
+					const { length } = index.documents.get(id)!
+					const score =
+						(idf * frequency * (K1 + 1)) /
+						(frequency + K1 * (1 - B + (B * length) / averageLength))
+					scores.set(id, (scores.get(id) || 0) + score)
+				}
+			}
+
+			const ranked = [...scores]
+				.filter(([id]) => {
+					const document = index.documents.get(id)!
+					return matchesFilters(
+						index.pages.get(document.page)!,
+						document,
+						options
+					)
+				})
+				.sort((a, b) => b[1] - a[1])
+
+			return {
+				total: ranked.length,
+				hits: ranked.slice(0, options.limit ?? 20).map(([id, score]) => {
+					const document = index.documents.get(id)!
+					const page = index.pages.get(document.page)!
+					const hit: SearchHit = {
+						kind: document.uuid ? 'block' : 'page',
+						page: page.originalName,
+						uuid: document.uuid,
+						marker: document.marker,
+						journalDay: page.journalDay,
+						score: Math.round(score * 1000) / 1000,
+						snippet: snippet(document.text, terms),
+					}
+					return hit
+				}),
+			}
+		},
+	}
+}
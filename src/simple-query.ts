@@ -0,0 +1,529 @@
+import type { BlockEntity, GraphBackend, PageEntity } from './backend/index.js'
+import { parseDateRange, type DateRangeOptions } from './date-range.js'
+import { extractRefs } from './datalog.js'
+import { toJournalDay } from './dates.js'
+import { GraphError } from './errors.js'
+
+// Logseq's simple query language, as written in {{query ...}}:
+//   (and (task TODO DOING) [[project]] (between -7d today))
+// Queries are parsed once, then compiled to Datalog for the HTTP backend or
+// matched against the parsed pages for the filesystem backend; both follow
+// Logseq's rules, so the same query finds the same blocks either way.
+
+export type SimpleQuery =
+	| { type: 'and' | 'or' | 'not'; clauses: SimpleQuery[] }
+	// Task markers, upper case
+	| { type: 'task'; markers: string[] }
+	// Priorities, upper case letters
+	| { type: 'priority'; priorities: string[] }
+	// Blocks on any of these pages (lower-cased names)
+	| { type: 'page'; names: string[] }
+	// Blocks that reference the page, themselves or through a parent block,
+	// and blocks on the page: Logseq's :block/path-refs. Written as [[page]],
+	// #tag or (path [[page]] ...) for any of several pages.
+	| { type: 'ref'; name: string }
+	// A block property, or with page-property the property of its page; any
+	// value when no value is given
+	| { type: 'property' | 'page-property'; key: string; value?: string }
+	// Blocks on journals between two journalDays, both included
+	| { type: 'between'; startDay: number; endDay: number }
+	// Blocks containing the text, ignoring case
+	| { type: 'text'; text: string }
+
+export interface SimpleQueryOptions extends DateRangeOptions {
+	// Give up on Datalog queries after this long (HTTP backend)
+	timeoutMs?: number
+}
+
+// A matching block, with the name of its page as written
+export interface SimpleQueryBlock {
+	uuid: string
+	content: string
+	page: string
+	marker?: string
+	priority?: string
+}
+
+export interface SimpleQueryPage {
+	name: string
+	properties?: Record<string, any>
+}
+
+// Queries made only of page-property filters find pages, all others blocks
+export type SimpleQueryResult =
+	| { kind: 'blocks'; blocks: SimpleQueryBlock[] }
+	| { kind: 'pages'; pages: SimpleQueryPage[] }
+
+type Token =
+	| { type: '(' }
+	| { type: ')' }
+	| { type: 'string' | 'ref' | 'atom'; value: string }
+
+function invalidQuery(message: string): GraphError {
+	return new GraphError('INVALID_ARGUMENT', `Invalid simple query: ${message}`)
+}
+
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = []
+	let i = 0
+	while (i < text.length) {
+		const char = text[i]
+		if (/[\s,]/.test(char)) {
+			i++
+		} else if (char === '(' || char === ')') {
+			tokens.push(char === '(' ? { type: '(' } : { type: ')' })
+			i++
+		} else if (char === '"') {
+			let value = ''
+			i++
+			while (i < text.length && text[i] !== '"') {
+				if (text[i] === '\\' && i + 1 < text.length) i++
+				value += text[i++]
+			}
+			if (i >= text.length) throw invalidQuery('unterminated string')
+			tokens.push({ type: 'string', value })
+			i++
+		} else if (text.startsWith('[[', i) || text.startsWith('#[[', i)) {
+			// Page names may hold brackets of their own: [[a [[b]]]]
+			const start = text.indexOf('[[', i) + 2
+			let depth = 1
+			let end = start
+			for (; end < text.length && depth > 0; end++) {
+				if (text.startsWith('[[', end)) depth++, end++
+				else if (text.startsWith(']]', end)) depth--, end++
+			}
+			if (depth > 0) throw invalidQuery('unclosed [[page reference]]')
+			tokens.push({ type: 'ref', value: text.slice(start, end - 2).trim() })
+			i = end
+		} else if (char === '#') {
+			const match = text.slice(i + 1).match(/^[^\s()#[\],]+/)
+			if (!match) throw invalidQuery(`"#" without a tag at ${i + 1}`)
+			tokens.push({ type: 'ref', value: match[0] })
+			i += match[0].length + 1
+		} else {
+			const match = text.slice(i).match(/^[^\s(),"]+/)!
+			tokens.push({ type: 'atom', value: match[0] })
+			i += match[0].length
+		}
+	}
+	return tokens
+}
+
+// A day given to between: today, yesterday, tomorrow, now, -7d, +2w, -1m,
+// -1y, 20250314, or anything parseDateRange reads as a day, such as a
+// journal title or 2025-03-14. The first day of a range starts it, the last
+// one ends it.
+function betweenDay(
+	value: string,
+	edge: 'start' | 'end',
+	options: DateRangeOptions
+): number {
+	const now = options.now ?? new Date()
+	const date = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+	const offset = value.toLowerCase().match(/^([+-])(\d+)([dwmy])$/)
+	if (offset) {
+		const n = parseInt(offset[2], 10) * (offset[1] === '-' ? -1 : 1)
+		if (offset[3] === 'd') date.setDate(date.getDate() + n)
+		if (offset[3] === 'w') date.setDate(date.getDate() + n * 7)
+		if (offset[3] === 'm') date.setMonth(date.getMonth() + n)
+		if (offset[3] === 'y') date.setFullYear(date.getFullYear() + n)
+		return toJournalDay(date)
+	}
+	if (value.toLowerCase() === 'now') return toJournalDay(date)
+	if (/^\d{8}$/.test(value)) return parseInt(value, 10)
+
+	const range = parseDateRange(value, options)
+	return edge === 'start' ? range.startDay : range.endDay
+}
+
+function tokenText(token: Token | undefined): string | undefined {
+	return token && token.type !== '(' && token.type !== ')'
+		? token.value
+		: undefined
+}
+
+// Read a query, with or without the {{query ...}} around it. Several filters
+// side by side must all match, as in Logseq. Fails with INVALID_ARGUMENT.
+export function parseSimpleQuery(
+	text: string,
+	options: DateRangeOptions = {}
+): SimpleQuery {
+	const source = text.trim().replace(/^\{\{query\s+([\s\S]*)\}\}$/i, '$1')
+	const tokens = tokenize(source)
+	let position = 0
+
+	function expression(): SimpleQuery {
+		const token = tokens[position++]
+		if (!token) throw invalidQuery('the query ends too early')
+		if (token.type === ')') throw invalidQuery('unexpected ")"')
+		if (token.type === 'ref') {
+			return { type: 'ref', name: token.value.toLowerCase() }
+		}
+		// A bare word or string searches the text
+		if (token.type !== '(') return { type: 'text', text: token.value }
+
+		const head = tokens[position++]
+		if (head?.type !== 'atom') throw invalidQuery('expected a filter name')
+		const args: Token[] = []
+		const clauses: SimpleQuery[] = []
+		const name = head.value.toLowerCase()
+		const nested = ['and', 'or', 'not'].includes(name)
+		while (tokens[position]?.type !== ')') {
+			if (position >= tokens.length) throw invalidQuery(`unclosed (${name}`)
+			if (nested) clauses.push(expression())
+			else if (tokens[position].type === '(') {
+				throw invalidQuery(`(${name} ...) takes no nested filters`)
+			} else args.push(tokens[position++])
+		}
+		position++
+
+		const values = args.map((arg) => tokenText(arg)!)
+		switch (name) {
+			case 'and':
+			case 'or':
+			case 'not':
+				if (clauses.length === 0) throw invalidQuery(`empty (${name})`)
+				return { type: name, clauses }
+			case 'task':
+			case 'todo':
+				if (values.length === 0) throw invalidQuery('(task) needs a marker')
+				return {
+					type: 'task',
+					markers: values.map((value) => value.toUpperCase()),
+				}
+			case 'priority':
+				if (values.length === 0) {
+					throw invalidQuery('(priority) needs a priority')
+				}
+				return {
+					type: 'priority',
+					priorities: values.map((value) =>
+						value.replace(/^\[#(.)\]$/, '$1').toUpperCase()
+					),
+				}
+			case 'page':
+				if (values.length === 0) throw invalidQuery('(page) needs a name')
+				return {
+					type: 'page',
+					names: values.map((value) => value.toLowerCase()),
+				}
+			case 'path':
+			case 'path-refs': {
+				if (values.length === 0) throw invalidQuery(`(${name}) needs a page`)
+				const refs: SimpleQuery[] = values.map((value) => ({
+					type: 'ref',
+					name: value.toLowerCase(),
+				}))
+				return refs.length === 1 ? refs[0] : { type: 'or', clauses: refs }
+			}
+			case 'property':
+			case 'page-property':
+			case 'page-properties': {
+				if (values.length === 0 || values.length > 2) {
+					throw invalidQuery(`(${name}) takes a key and an optional value`)
+				}
+				const key = values[0].replace(/^:/, '').toLowerCase()
+				if (!/^[\w.+?*!-]+$/.test(key)) {
+					throw invalidQuery(`"${values[0]}" is not a property name`)
+				}
+				return {
+					type: name === 'property' ? 'property' : 'page-property',
+					key,
+					value: values[1],
+				}
+			}
+			case 'between': {
+				if (values.length !== 2) throw invalidQuery('(between) takes two days')
+				const startDay = betweenDay(values[0], 'start', options)
+				const endDay = betweenDay(values[1], 'end', options)
+				if (startDay > endDay) {
+					throw invalidQuery(
+						`(between ${values[0]} ${values[1]}) ends before it starts`
+					)
+				}
+				return { type: 'between', startDay, endDay }
+			}
+			default:
+				throw invalidQuery(`unknown filter (${head.value} ...)`)
+		}
+	}
+
+	const clauses: SimpleQuery[] = []
+	while (position < tokens.length) clauses.push(expression())
+	if (clauses.length === 0) throw invalidQuery('the query is empty')
+	return clauses.length === 1 ? clauses[0] : { type: 'and', clauses }
+}
+
+export function isPageQuery(query: SimpleQuery): boolean {
+	switch (query.type) {
+		case 'and':
+		case 'or':
+		case 'not':
+			return query.clauses.every(isPageQuery)
+		default:
+			return query.type === 'page-property'
+	}
+}
+
+// The query as Datalog, finding blocks as ?b, or pages as ?p for page queries
+export function simpleQueryToDatalog(query: SimpleQuery): string {
+	const pages = isPageQuery(query)
+	const subject = pages ? '?p' : '?b'
+	let counter = 0
+
+	const propertyClauses = (
+		entity: string,
+		key: string,
+		value: string | undefined
+	) => {
+		const n = ++counter
+		const clauses = [
+			`[${entity} :block/properties ?props${n}]`,
+			`[(get ?props${n} :${key}) ?value${n}]`,
+		]
+		// Values holding page references are sets of page names in Logseq
+		clauses.push(
+			value === undefined
+				? `[(some? ?value${n})]`
+				: `(or [(= ?value${n} ${JSON.stringify(
+						value
+				  )})] [(contains? ?value${n} ${JSON.stringify(value)})])`
+		)
+		return clauses
+	}
+
+	const compile = (query: SimpleQuery): string[] => {
+		const n = ++counter
+		switch (query.type) {
+			case 'and':
+				return query.clauses.flatMap(compile)
+			case 'or':
+				return [
+					`(or-join [${subject}] ${query.clauses
+						.map((clause) => `(and ${compile(clause).join(' ')})`)
+						.join(' ')})`,
+				]
+			case 'not':
+				return [
+					`(not-join [${subject}] ${query.clauses.flatMap(compile).join(' ')})`,
+				]
+			case 'task':
+				return [
+					`[?b :block/marker ?marker${n}]`,
+					`[(contains? #{${query.markers
+						.map((marker) => JSON.stringify(marker))
+						.join(' ')}} ?marker${n})]`,
+				]
+			case 'priority':
+				return [
+					`[?b :block/priority ?priority${n}]`,
+					`[(contains? #{${query.priorities
+						.map((priority) => JSON.stringify(priority))
+						.join(' ')}} ?priority${n})]`,
+				]
+			case 'page':
+				return [
+					`[?b :block/page ?page${n}]`,
+					`[?page${n} :block/name ?name${n}]`,
+					`[(contains? #{${query.names
+						.map((name) => JSON.stringify(name))
+						.join(' ')}} ?name${n})]`,
+				]
+			case 'ref':
+				return [
+					`[?b :block/path-refs ?ref${n}]`,
+					`[?ref${n} :block/name ${JSON.stringify(query.name)}]`,
+				]
+			case 'property':
+				return propertyClauses('?b', query.key, query.value)
+			case 'page-property':
+				return pages
+					? propertyClauses('?p', query.key, query.value)
+					: [
+							`[?b :block/page ?page${n}]`,
+							...propertyClauses(`?page${n}`, query.key, query.value),
+					  ]
+			case 'between':
+				return [
+					`[?b :block/page ?page${n}]`,
+					`[?page${n} :block/journal-day ?day${n}]`,
+					`[(>= ?day${n} ${query.startDay})]`,
+					`[(<= ?day${n} ${query.endDay})]`,
+				]
+			case 'text':
+				// DataScript has no lower-case function, so the text is matched
+				// as a case-insensitive pattern
+				return [
+					`[?b :block/content ?content${n}]`,
+					`[(re-pattern ${JSON.stringify(
+						'(?i)' + query.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+					)}) ?re${n}]`,
+					`[(re-find ?re${n} ?content${n})]`,
+				]
+		}
+	}
+
+	const where = [
+		pages ? '[?p :block/name]' : '[?b :block/page]',
+		...compile(query),
+	]
+	return `[:find (pull ${subject} [*])\n :where\n ${where.join('\n ')}]`
+}
+
+// Whether a property matches a value the way Logseq compares them: the whole
+// value, or one of the pages a comma-separated value refers to
+function propertyMatches(
+	properties: Record<string, any> | undefined,
+	key: string,
+	value: string | undefined
+): boolean {
+	const actual = properties?.[key]
+	if (actual === undefined || actual === null) return false
+	if (value === undefined) return true
+	if (Array.isArray(actual)) return actual.map(String).includes(value)
+	if (String(actual) === value) return true
+	return String(actual)
+		.split(',')
+		.map((part) =>
+			part
+				.trim()
+				.replace(/^#?\[\[(.*)\]\]$|^#(.*)$/, '$1$2')
+				.toLowerCase()
+		)
+		.includes(value.toLowerCase())
+}
+
+interface Candidate {
+	page: PageEntity
+	block?: BlockEntity
+	// Lower-cased names of the pages the block refers to, itself or through
+	// a parent, and its own page
+	pathRefs: Set<string>
+}
+
+function matches(query: SimpleQuery, candidate: Candidate): boolean {
+	const { page, block } = candidate
+	switch (query.type) {
+		case 'and':
+			return query.clauses.every((clause) => matches(clause, candidate))
+		case 'or':
+			return query.clauses.some((clause) => matches(clause, candidate))
+		case 'not':
+			return !query.clauses.every((clause) => matches(clause, candidate))
+		case 'task':
+			return !!block?.marker && query.markers.includes(block.marker)
+		case 'priority':
+			return !!block?.priority && query.priorities.includes(block.priority)
+		case 'page':
+			return query.names.includes(page.name)
+		case 'ref':
+			return candidate.pathRefs.has(query.name)
+		case 'property':
+			return propertyMatches(block?.properties, query.key, query.value)
+		case 'page-property':
+			return propertyMatches(page.properties, query.key, query.value)
+		case 'between':
+			return (
+				page.journalDay !== undefined &&
+				page.journalDay >= query.startDay &&
+				page.journalDay <= query.endDay
+			)
+		case 'text':
+			return (
+				!!block &&
+				block.content.toLowerCase().includes(query.text.toLowerCase())
+			)
+	}
+}
+
+// Match the query against every page and block the backend parses
+async function evaluateSimpleQuery(
+	backend: GraphBackend,
+	query: SimpleQuery
+): Promise<SimpleQueryResult> {
+	const pages = await backend.getAllPages()
+	if (isPageQuery(query)) {
+		return {
+			kind: 'pages',
+			pages: pages
+				.filter((page) => matches(query, { page, pathRefs: new Set() }))
+				.map((page) => ({
+					name: page.originalName,
+					properties: page.properties,
+				})),
+		}
+	}
+
+	const blocks: SimpleQueryBlock[] = []
+	for (const page of pages) {
+		const walk = (children: BlockEntity[], inherited: string[]) => {
+			for (const block of children) {
+				const refs = [...inherited, ...extractRefs(block.content)]
+				if (matches(query, { page, block, pathRefs: new Set(refs) })) {
+					blocks.push({
+						uuid: block.uuid,
+						content: block.content,
+						page: page.originalName,
+						marker: block.marker,
+						priority: block.priority,
+					})
+				}
+				walk(block.children || [], refs)
+			}
+		}
+		walk((await backend.getBlocksTree(page.name)) || [], [page.name])
+	}
+	return { kind: 'blocks', blocks }
+}
+
+// Pulled entities from the HTTP API, with their page references resolved
+function fromDatalog(query: SimpleQuery, results: any[]): SimpleQueryResult {
+	const entities = results.map((row) => (Array.isArray(row) ? row[0] : row))
+	if (isPageQuery(query)) {
+		return {
+			kind: 'pages',
+			pages: entities.map((page) => ({
+				name: page.originalName ?? page.name,
+				properties: page.properties,
+			})),
+		}
+	}
+	return {
+		kind: 'blocks',
+		blocks: entities.map((block) => ({
+			uuid: block.uuid,
+			content: block.content,
+			page: block.page?.originalName ?? block.page?.name ?? '',
+			marker: block.marker,
+			priority: block.priority,
+		})),
+	}
+}
+
+// Run a query: as Datalog through the Logseq API, or over the page files,
+// read once for the whole query
+export async function runSimpleQuery(
+	backend: GraphBackend,
+	text: string,
+	options: SimpleQueryOptions = {}
+): Promise<SimpleQueryResult> {
+	const query = parseSimpleQuery(text, options)
+	const result =
+		backend.kind === 'http'
+			? fromDatalog(
+					query,
+					await backend.query(simpleQueryToDatalog(query), [], {
+						timeoutMs: options.timeoutMs,
+						resolveRefs: true,
+					})
+			  )
+			: await evaluateSimpleQuery(backend.snapshot(), query)
+
+	// Grouped by page, in a stable order for both backends
+	if (result.kind === 'pages') {
+		result.pages.sort((a, b) => a.name.localeCompare(b.name))
+	} else {
+		result.blocks.sort((a, b) => a.page.localeCompare(b.page))
+	}
+	return result
+}
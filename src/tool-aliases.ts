@@ -0,0 +1,71 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { z, ZodType, type ZodRawShape, type ZodTypeAny } from 'zod'
+
+// Tools under the names index-complete-v4-fixed.ts gave them, so prompts and
+// allow-lists written for it keep working. An alias takes the old arguments
+// and answers as the tool it stands for.
+
+// The tool each old name became; an alias needs the same access mode and
+// either name in LOGSEQ_MCP_ALLOW_TOOLS/LOGSEQ_MCP_DENY_TOOLS applies to it
+export const TOOL_ALIASES: Record<string, string> = {
+	list_pages: 'getAllPages',
+	read_page: 'getPage',
+	create_page: 'createPage',
+	create_journal_page: 'createPage',
+	get_block: 'getBlock',
+	get_today_journal: 'get_journal_by_date',
+}
+
+interface RecordedTool {
+	schema: z.ZodObject<ZodRawShape>
+	callback: (args: any, extra: any) => Promise<CallToolResult>
+}
+
+const isRawShape = (value: unknown): value is ZodRawShape =>
+	typeof value === 'object' &&
+	value !== null &&
+	Object.values(value).every((field) => field instanceof ZodType)
+
+// The tools registered from now on, by name. Aliases call them directly, so
+// an alias works when only its old name is allowed.
+export function recordTools(server: McpServer): Map<string, RecordedTool> {
+	const tools = new Map<string, RecordedTool>()
+	const register = server.tool.bind(server) as (...args: any[]) => any
+	server.tool = ((name: string, ...rest: any[]) => {
+		tools.set(name, {
+			schema: z.object(rest.slice(0, -1).find(isRawShape) ?? {}),
+			callback: rest[rest.length - 1],
+		})
+		return register(name, ...rest)
+	}) as McpServer['tool']
+	return tools
+}
+
+// Register an old name. resolve turns its arguments into the tool to call
+// and that tool's arguments.
+export function registerToolAlias<Shape extends ZodRawShape>(
+	server: McpServer,
+	tools: Map<string, RecordedTool>,
+	name: string,
+	schema: Shape,
+	resolve: (
+		args: z.objectOutputType<Shape, ZodTypeAny>
+	) =>
+		| { tool: string; args: Record<string, unknown> }
+		| Promise<{ tool: string; args: Record<string, unknown> }>
+) {
+	const register = server.tool.bind(server) as (...args: any[]) => unknown
+	register(
+		name,
+		`Former name of ${TOOL_ALIASES[name]}, kept for existing clients`,
+		schema,
+		async (args: any, extra: any): Promise<CallToolResult> => {
+			const target = await resolve(args)
+			const tool = tools.get(target.tool)
+			if (!tool) throw new Error(`Tool ${target.tool} is not registered`)
+			// Parsed like the tool's own arguments, for their defaults
+			return tool.callback(tool.schema.parse(target.args), extra)
+		}
+	)
+}
@@ -0,0 +1,125 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { ChangePreview } from './backend/types.js'
+import {
+	GraphError,
+	LogseqApiError,
+	type GraphErrorCode,
+	type LogseqErrorCode,
+} from './errors.js'
+
+// Results every tool returns. Failures set isError and carry a code in
+// structuredContent so clients can tell "not found" from "Logseq is down".
+
+export type ToolErrorCode = LogseqErrorCode | GraphErrorCode | 'INTERNAL_ERROR'
+
+export function toolError(
+	code: ToolErrorCode,
+	message: string,
+	details?: Record<string, any>
+): CallToolResult {
+	return {
+		content: [
+			{
+				type: 'text',
+				text: message,
+			},
+		],
+		isError: true,
+		structuredContent: { error: { code, message, details } },
+	}
+}
+
+export function notFound(message: string): CallToolResult {
+	return toolError('NOT_FOUND', message)
+}
+
+// Turn a caught exception into an error result, prefixed with what failed
+export function errorResult(error: unknown, context: string): CallToolResult {
+	const code: ToolErrorCode =
+		error instanceof LogseqApiError || error instanceof GraphError
+			? error.code
+			: 'INTERNAL_ERROR'
+	const message = error instanceof Error ? error.message : String(error)
+	return toolError(
+		code,
+		`${context}: ${message}`,
+		error instanceof GraphError ? error.details : undefined
+	)
+}
+
+export function formatPreview({ pages }: ChangePreview): string {
+	if (pages.length === 0) return 'Nothing would change.'
+
+	return pages
+		.map((preview) => {
+			const status = preview.created
+				? ' (new page)'
+				: preview.deleted
+				? ' (deleted)'
+				: ''
+			const lines = [`## ${preview.page}${status}`]
+
+			for (const { key, before, after } of preview.properties || []) {
+				lines.push(
+					`- property ${key}:: ${before ?? '(none)'} → ${after ?? '(removed)'}`
+				)
+			}
+
+			if (preview.blocks.length > 0) {
+				lines.push('', 'Blocks:')
+				for (const change of preview.blocks) {
+					const indent = '  '.repeat(change.level)
+					if (change.type === 'changed') {
+						lines.push(
+							`~ ${indent}${change.previous}`,
+							`  ${indent}→ ${change.content}`
+						)
+					} else {
+						lines.push(
+							`${change.type === 'added' ? '+' : '-'} ${indent}${
+								change.content
+							}`
+						)
+					}
+				}
+			}
+
+			if (preview.file?.diff) {
+				lines.push(
+					'',
+					`File ${preview.file.path}:`,
+					'```diff',
+					preview.file.diff,
+					'```'
+				)
+			}
+			return lines.join('\n')
+		})
+		.join('\n\n')
+}
+
+// The text a result shows, e.g. to describe a recorded change
+export function resultText(result: CallToolResult): string {
+	return result.content
+		.map((item) => (item.type === 'text' ? item.text : ''))
+		.join('\n')
+}
+
+// Result of a tool run with dryRun: what it reported, and what would change
+export function dryRunResult(
+	preview: ChangePreview,
+	result: CallToolResult
+): CallToolResult {
+	const summary = resultText(result)
+	return {
+		content: [
+			{
+				type: 'text',
+				text: `Dry run, nothing was changed. The tool reported:\n${summary}\n\n${formatPreview(
+					preview
+				)}`,
+			},
+		],
+		structuredContent: { dryRun: true, changes: preview.pages },
+	}
+}
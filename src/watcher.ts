@@ -0,0 +1,108 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createFileSystemBackend } from './backend/filesystem.js'
+import type { PageEntity } from './backend/index.js'
+
+// Watches a graph directory and reports which pages changed, so the server
+// can notify clients that subscribed to those pages.
+
+export interface GraphChange {
+	// Pages whose file was created, changed or removed (old and new names)
+	pages: PageEntity[]
+	// Whether pages were added, removed or renamed
+	listChanged: boolean
+}
+
+export interface GraphWatcher {
+	close(): void
+}
+
+const DEFAULT_DEBOUNCE_MS = 300
+
+// Only page files count; Logseq's backups and recycle bin churn constantly
+function isPageFile(relativePath: string): boolean {
+	const segments = relativePath.split(path.sep)
+	if (segments.includes('.recycle') || segments.includes('.git')) return false
+	if (segments[0] === 'logseq' && segments[1] === 'bak') return false
+	return (
+		(segments[0] === 'pages' || segments[0] === 'journals') &&
+		/\.(md|org)$/.test(relativePath)
+	)
+}
+
+function indexByFile(pages: PageEntity[]): Map<string, PageEntity> {
+	return new Map(
+		pages.filter((page) => page.file).map((page) => [page.file!.path, page])
+	)
+}
+
+// Start watching; onChange is called once per burst of file events. The
+// locale must be the backend's, so pages get the same journal names.
+export function watchGraph(
+	graphPath: string,
+	onChange: (change: GraphChange) => void | Promise<void>,
+	options: { debounceMs?: number; locale?: string } = {}
+): GraphWatcher {
+	const { debounceMs = DEFAULT_DEBOUNCE_MS } = options
+	const files = createFileSystemBackend(graphPath, { locale: options.locale })
+	const pending = new Set<string>()
+	let timer: NodeJS.Timeout | undefined
+	let snapshot = new Map<string, PageEntity>()
+	let ready = files.getAllPages().then((pages) => {
+		snapshot = indexByFile(pages)
+	})
+
+	async function flush() {
+		const changed = [...pending]
+		pending.clear()
+
+		await ready
+		const previous = snapshot
+		const current = indexByFile(await files.getAllPages())
+		snapshot = current
+
+		const pages = new Map<string, PageEntity>()
+		let listChanged = false
+		for (const filePath of changed) {
+			const before = previous.get(filePath)
+			const after = current.get(filePath)
+			if (before) pages.set(before.name, before)
+			if (after) pages.set(after.name, after)
+			if (
+				!before !== !after ||
+				(before && after && before.name !== after.name)
+			) {
+				listChanged = true
+			}
+		}
+
+		if (pages.size > 0 || listChanged) {
+			await onChange({ pages: [...pages.values()], listChanged })
+		}
+	}
+
+	const watcher = fs.watch(
+		graphPath,
+		{ recursive: true },
+		(_event, fileName) => {
+			if (!fileName || !isPageFile(fileName.toString())) return
+
+			pending.add(path.join(graphPath, fileName.toString()))
+			clearTimeout(timer)
+			timer = setTimeout(() => {
+				ready = flush().catch((error) =>
+					console.error('Error processing graph changes:', error)
+				)
+			}, debounceMs)
+		}
+	)
+
+	watcher.on('error', (error) => console.error('Graph watcher error:', error))
+
+	return {
+		close() {
+			clearTimeout(timer)
+			watcher.close()
+		},
+	}
+}
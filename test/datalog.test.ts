@@ -0,0 +1,246 @@
+import assert from 'node:assert/strict'
+import { before, describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import { createFileSystemBackend } from '../src/backend/filesystem.js'
+import {
+	buildDatabase,
+	extractRefs,
+	runQuery,
+	toQueryInput,
+	type Database,
+} from '../src/datalog.js'
+import { GraphError } from '../src/errors.js'
+
+const GRAPH = fileURLToPath(new URL('../fixtures/graph/', import.meta.url))
+const PAST = { at: Date.now() - 1, timeoutMs: 5 }
+
+function failsWith(code: string, run: () => unknown) {
+	assert.throws(
+		run,
+		(error: unknown) => error instanceof GraphError && error.code === code
+	)
+}
+
+describe('runQuery', () => {
+	let db: Database
+	const query = (text: string, inputs: any[] = []) =>
+		runQuery(db, text, inputs.map(toQueryInput))
+	const sorted = (values: any[]) => [...values].sort()
+
+	before(async () => {
+		db = await buildDatabase(createFileSystemBackend(GRAPH))
+	})
+
+	it('matches patterns and binds :in parameters', () => {
+		const markers = query(
+			'[:find [?content ...] :in $ ?marker :where [?b :block/marker ?marker] [?b :block/content ?content]]',
+			['DOING']
+		)
+		assert.deepEqual(markers, ['DOING [#A] Review the API with [[Alice]]'])
+	})
+
+	it('binds collections and relations', () => {
+		const collection = query(
+			'[:find [?marker ...] :in $ [?marker ...] :where [?b :block/marker ?marker]]',
+			[['NOW', 'LATER', 'WAITING']]
+		)
+		assert.deepEqual(sorted(collection), ['LATER', 'NOW'])
+
+		const relation = query(
+			'[:find ?name ?type :in $ [[?name ?type]] :where [?p :block/name ?name]]',
+			[
+				[
+					['alice', 'person'],
+					['nobody', 'person'],
+				],
+			]
+		)
+		assert.deepEqual(relation, [['alice', 'person']])
+	})
+
+	it('gives a scalar, a tuple or a relation', () => {
+		assert.equal(
+			query(
+				'[:find ?name . :where [?p :block/name ?name] [?p :block/original-name "Alice"]]'
+			),
+			'alice'
+		)
+		assert.deepEqual(
+			query(
+				'[:find [?name ?day] :where [?p :block/journal-day 20250314] [?p :block/journal-day ?day] [?p :block/name ?name]]'
+			),
+			['mar 14th, 2025', 20250314]
+		)
+		assert.equal(
+			query(
+				'[:find ?name . :where [?p :block/name "no such page"] [?p :block/name ?name]]'
+			),
+			null
+		)
+	})
+
+	it('filters with predicates and binds function results', () => {
+		const days = query(
+			'[:find [?day ...] :where [?p :block/journal-day ?day] [(>= ?day 20250312)] [(< ?day 20250314)]]'
+		)
+		assert.deepEqual(sorted(days), [20250312, 20250313])
+
+		const matching = query(
+			'[:find [?content ...] :where [?b :block/content ?content] [(re-pattern "(?i)design DOC") ?re] [(re-find ?re ?content)]]'
+		)
+		assert.deepEqual(sorted(matching), [
+			'NOW Draft the design doc for [[Project Alpha]]',
+			'TODO Write the design doc',
+		])
+
+		const names = query(
+			'[:find [?label ...] :where [?p :block/properties ?props] [(get ?props :type) ?type] [(= ?type "meeting")] [?p :block/original-name ?name] [(str ?name " (" ?type ")") ?label]]'
+		)
+		assert.deepEqual(names, ['Meetings/Weekly Sync (meeting)'])
+	})
+
+	it('keeps bindings for which a not clause finds nothing', () => {
+		const unmarked = query(
+			'[:find [?content ...] :where [?p :block/name "reading list"] [?b :block/page ?p] [?b :block/content ?content] (not [?b :block/marker _])]'
+		)
+		assert.deepEqual(sorted(unmarked), [
+			'[[The Pragmatic Programmer]]',
+			'[[Thinking, Fast and Slow]] by Daniel Kahneman',
+		])
+	})
+
+	it('joins the branches of or', () => {
+		const open = query(
+			'[:find [?marker ...] :where [?b :block/marker ?marker] (or [(= ?marker "NOW")] [(= ?marker "DOING")])]'
+		)
+		assert.deepEqual(sorted(open), ['DOING', 'NOW'])
+	})
+
+	it('runs rules passed as %, recursive ones too', () => {
+		const rules = `[[(ancestor ?b ?a) [?b :block/parent ?a]]
+			[(ancestor ?b ?a) [?b :block/parent ?x] (ancestor ?x ?a)]]`
+		const nested = runQuery(
+			db,
+			'[:find [?content ...] :in $ % :where [?page :block/name "meetings/weekly sync"] (ancestor ?b ?page) [?b :block/content ?content]]',
+			[rules]
+		)
+		assert.deepEqual(sorted(nested), [
+			'Agenda',
+			'Attendees: [[Alice]], [[Bob]]',
+			'Status of [[Project Alpha]]',
+			'TODO Bob to send the roadmap',
+		])
+
+		const tasks = `[[(task ?b ?marker) [?b :block/marker ?marker] [(contains? #{"TODO" "DOING"} ?marker)]]]`
+		const count = runQuery(
+			db,
+			'[:find (count ?b) . :in $ % :where (task ?b _)]',
+			[tasks]
+		)
+		assert.equal(count, 7)
+	})
+
+	it('pulls attributes, nested references and page names', () => {
+		const [block] = runQuery(
+			db,
+			'[:find [(pull ?b [:block/content {:block/page [:block/original-name]}]) ...] :where [?b :block/marker "DOING"]]'
+		)
+		assert.deepEqual(Object.keys(block).sort(), ['content', 'id', 'page'])
+		assert.equal(block.content, 'DOING [#A] Review the API with [[Alice]]')
+		assert.deepEqual(Object.keys(block.page).sort(), ['id', 'originalName'])
+		assert.equal(block.page.originalName, 'Project Alpha')
+
+		const [resolved] = runQuery(
+			db,
+			'[:find [(pull ?b [:block/refs]) ...] :where [?b :block/marker "DOING"]]',
+			[],
+			{ resolveRefs: true }
+		)
+		assert.deepEqual(
+			resolved.refs.map((ref: any) => ref.originalName),
+			['Alice']
+		)
+	})
+
+	it('aggregates per group', () => {
+		const counts = query(
+			'[:find ?marker (count ?b) :where [?b :block/marker ?marker]]'
+		)
+		assert.deepEqual(Object.fromEntries(counts), {
+			TODO: 6,
+			DOING: 1,
+			DONE: 3,
+			NOW: 1,
+			LATER: 1,
+		})
+	})
+
+	const invalid = [
+		'[:find ?b :where [?b :block/marker',
+		'[:where [?b :block/marker "TODO"]]',
+		'[:find ?b :where (ancestor ?b ?a)]',
+		'[:find ?b :where [?b :block/content ?c] [(no-such-fn ?c)]]',
+		'[:find ?x :where [?b :block/marker "TODO"]]',
+		'[:find (pull "b" [*]) :where [?b :block/marker "TODO"]]',
+		'[:find ?b :in $ ?marker :where [?b :block/marker ?marker]]',
+	]
+	for (const text of invalid) {
+		it(`rejects ${text}`, () => {
+			failsWith('INVALID_ARGUMENT', () => runQuery(db, text))
+		})
+	}
+
+	it('rejects rules that are not rules', () => {
+		failsWith('INVALID_ARGUMENT', () =>
+			runQuery(db, '[:find ?b :in $ % :where (r ?b)]', ['[[r ?b]]'])
+		)
+	})
+
+	it('gives up with TIMEOUT once the deadline has passed', () => {
+		failsWith('TIMEOUT', () =>
+			runQuery(db, '[:find ?b :where [?b :block/marker "TODO"]]', [], {
+				deadline: PAST,
+			})
+		)
+	})
+})
+
+describe('buildDatabase', () => {
+	it('gives up with TIMEOUT once the deadline has passed', async () => {
+		await assert.rejects(
+			buildDatabase(createFileSystemBackend(GRAPH), PAST),
+			(error: unknown) =>
+				error instanceof GraphError && error.code === 'TIMEOUT'
+		)
+	})
+
+	it('keeps the page ids it is given', async () => {
+		const backend = createFileSystemBackend(GRAPH)
+		const pageIds = new Map<string, number>()
+		const first = await buildDatabase(backend, undefined, pageIds)
+		const ids = new Map(pageIds)
+		const second = await buildDatabase(backend, undefined, pageIds)
+		assert.deepEqual(pageIds, ids)
+		for (const [name, id] of ids) {
+			assert.equal(first.entities.get(id)?.['block/name'], name)
+			assert.equal(second.entities.get(id)?.['block/name'], name)
+		}
+	})
+})
+
+describe('extractRefs', () => {
+	const cases: [string, string[]][] = [
+		['See [[Project Alpha]] and [[alice]]', ['project alpha', 'alice']],
+		[
+			'Tagged #research and #[[Machine Learning]]',
+			['machine learning', 'research'],
+		],
+		['An org link [[Reading List][the list]]', ['reading list']],
+		['A [[https://example.com]] link and an issue #', []],
+	]
+	for (const [content, refs] of cases) {
+		it(`finds the pages in ${JSON.stringify(content)}`, () => {
+			assert.deepEqual(extractRefs(content).sort(), refs.sort())
+		})
+	}
+})
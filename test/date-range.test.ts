@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { parseDateRange, type DateRangeOptions } from '../src/date-range.js'
+import { GraphError } from '../src/errors.js'
+
+// A Friday
+const NOW: DateRangeOptions = { now: new Date(2025, 2, 14, 15, 30) }
+
+describe('parseDateRange', () => {
+	const cases: [string, number, number, string][] = [
+		['today', 20250314, 20250314, '2025-03-14'],
+		['yesterday', 20250313, 20250313, '2025-03-13'],
+		['tomorrow', 20250315, 20250315, '2025-03-15'],
+		['this week', 20250309, 20250315, 'this week'],
+		['last week', 20250302, 20250308, 'last week'],
+		['next week', 20250316, 20250322, 'next week'],
+		['this month', 20250301, 20250331, 'this month'],
+		['last month', 20250201, 20250228, 'last month'],
+		['this quarter', 20250101, 20250331, 'this quarter'],
+		['last quarter', 20241001, 20241231, 'last quarter'],
+		['this year', 20250101, 20251231, 'this year'],
+		['last year', 20240101, 20241231, 'last year'],
+		['year to date', 20250101, 20250314, 'year to date'],
+		['last 7 days', 20250308, 20250314, 'last 7 days'],
+		['last 10 days', 20250305, 20250314, 'last 10 days'],
+		['last 3 weeks', 20250222, 20250314, 'last 3 weeks'],
+		['March 2025', 20250301, 20250331, 'March 2025'],
+		['March', 20250301, 20250331, 'March 2025'],
+		['Feb 2024', 20240201, 20240229, 'February 2024'],
+		['2025', 20250101, 20251231, '2025'],
+		['Q2 2025', 20250401, 20250630, 'Q2 2025'],
+		['2025-W12', 20250317, 20250323, '2025-W12'],
+		['Mar 10th, 2025', 20250310, 20250310, '2025-03-10'],
+		['since March', 20250301, 20250314, 'since March 2025'],
+		[
+			'2025-01-01 to 2025-03-31',
+			20250101,
+			20250331,
+			'2025-01-01 to 2025-03-31',
+		],
+		[
+			'between Mar 10th, 2025 and Mar 14th, 2025',
+			20250310,
+			20250314,
+			'2025-03-10 to 2025-03-14',
+		],
+		['2025-03-10..2025-03-12', 20250310, 20250312, '2025-03-10 to 2025-03-12'],
+	]
+	for (const [text, startDay, endDay, label] of cases) {
+		it(`reads "${text}"`, () => {
+			const range = parseDateRange(text, NOW)
+			assert.deepEqual(
+				[range.startDay, range.endDay, range.label],
+				[startDay, endDay, label]
+			)
+		})
+	}
+
+	it('covers whole days', () => {
+		const range = parseDateRange('yesterday', NOW)
+		assert.deepEqual(range.start, new Date(2025, 2, 13))
+		assert.deepEqual(range.end, new Date(2025, 2, 13, 23, 59, 59, 999))
+	})
+
+	it("starts weeks on the graph's first day of the week", () => {
+		const range = parseDateRange('this week', { ...NOW, weekStartsOn: 1 })
+		assert.deepEqual([range.startDay, range.endDay], [20250310, 20250316])
+	})
+
+	it("reads days in the graph's journal title format", () => {
+		const options = {
+			...NOW,
+			titleFormat: 'EEEE, dd.MM.yyyy',
+			locale: 'de-DE',
+		}
+		const range = parseDateRange('Montag, 10.03.2025 to today', options)
+		assert.deepEqual([range.startDay, range.endDay], [20250310, 20250314])
+	})
+
+	const invalid = [
+		'',
+		'someday',
+		'2025-02-30',
+		'last 0 days',
+		'2025-03-14 to 2025-03-01',
+		'2025-03-01 to someday',
+	]
+	for (const text of invalid) {
+		it(`rejects "${text}"`, () => {
+			assert.throws(
+				() => parseDateRange(text, NOW),
+				(error: unknown) =>
+					error instanceof GraphError && error.code === 'INVALID_ARGUMENT'
+			)
+		})
+	}
+})
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+	formatDate,
+	journalDayFromFileName,
+	journalDayFromTitle,
+	journalTitleFromDay,
+	parseIsoDate,
+	parseMonthName,
+	toIsoDate,
+} from '../src/dates.js'
+
+const DAY = new Date(2025, 2, 14)
+
+describe('formatDate', () => {
+	const cases: [string, string, string][] = [
+		['MMM do, yyyy', 'en-US', 'Mar 14th, 2025'],
+		['MMMM do, yyyy', 'en-US', 'March 14th, 2025'],
+		['EEE, MM/dd/yyyy', 'en-US', 'Fri, 03/14/2025'],
+		['yyyy_MM_dd', 'en-US', '2025_03_14'],
+		["yyyy 'week' M", 'en-US', '2025 week 3'],
+		// Ordinal suffixes are English only
+		['EEEE, dd.MM.yyyy', 'de-DE', 'Freitag, 14.03.2025'],
+		['do MMMM yyyy', 'fr-FR', '14 mars 2025'],
+	]
+	for (const [format, locale, expected] of cases) {
+		it(`formats ${format} in ${locale}`, () => {
+			assert.equal(formatDate(DAY, format, locale), expected)
+		})
+	}
+
+	it('gives the 11th to 13th a "th"', () => {
+		const days = [1, 2, 3, 4, 11, 12, 13, 21, 22, 23].map((day) =>
+			formatDate(new Date(2025, 0, day), 'do')
+		)
+		assert.deepEqual(days, [
+			'1st',
+			'2nd',
+			'3rd',
+			'4th',
+			'11th',
+			'12th',
+			'13th',
+			'21st',
+			'22nd',
+			'23rd',
+		])
+	})
+})
+
+describe('journalDayFromTitle', () => {
+	const cases: [
+		string,
+		string | undefined,
+		string | undefined,
+		number | null
+	][] = [
+		['Mar 14th, 2025', undefined, undefined, 20250314],
+		['Mar 14, 2025', undefined, undefined, 20250314],
+		['march 14th, 2025', undefined, undefined, 20250314],
+		['Sept 3rd, 2025', undefined, undefined, 20250903],
+		// Ambiguous titles are read in the first format they fit
+		['03-04-2025', undefined, undefined, 20250403],
+		['14 mars 2025', 'do MMMM yyyy', 'fr-FR', 20250314],
+		['Freitag, 14.03.2025', 'EEEE, dd.MM.yyyy', 'de-DE', 20250314],
+		// English names are read whatever the locale
+		['Fri, 14.03.2025', 'EEEE, dd.MM.yyyy', 'de-DE', 20250314],
+		['Feb 30th, 2025', undefined, undefined, null],
+		['Someday, 14.03.2025', 'EEEE, dd.MM.yyyy', 'de-DE', null],
+		['Mar 14th, 2025', 'dd.MM.yyyy', undefined, null],
+		['Project Alpha', undefined, undefined, null],
+	]
+	for (const [title, format, locale, expected] of cases) {
+		it(`reads "${title}"${format ? ` as ${format}` : ''}`, () => {
+			assert.equal(journalDayFromTitle(title, format, locale), expected)
+		})
+	}
+
+	it('reads back the titles it writes', () => {
+		for (const format of ['MMM do, yyyy', 'EEEE, dd.MM.yyyy', 'do MMMM yyyy']) {
+			for (const locale of ['en-US', 'de-DE', 'fr-FR']) {
+				const title = journalTitleFromDay(20251231, format, locale)
+				assert.equal(journalDayFromTitle(title, format, locale), 20251231)
+			}
+		}
+	})
+})
+
+describe('journalDayFromFileName', () => {
+	const cases: [string, string | undefined, number | null][] = [
+		['2025_03_14', undefined, 20250314],
+		['2025-03-14', undefined, 20250314],
+		['14-03-2025', 'dd-MM-yyyy', 20250314],
+		// Default-format names are read whatever the graph's format
+		['2025_03_14', 'dd-MM-yyyy', 20250314],
+		['14-03-2025', undefined, null],
+		['2025_02_29', undefined, null],
+		['notes', undefined, null],
+	]
+	for (const [fileName, format, expected] of cases) {
+		it(`reads ${fileName}${format ? ` as ${format}` : ''}`, () => {
+			assert.equal(journalDayFromFileName(fileName, format), expected)
+		})
+	}
+})
+
+describe('parseMonthName', () => {
+	const cases: [string, string | undefined, number | null][] = [
+		['March', undefined, 2],
+		['mar', undefined, 2],
+		['Sept', undefined, 8],
+		['März', 'de-DE', 2],
+		['March', 'de-DE', 2],
+		['ma', undefined, null],
+		['Smarch', undefined, null],
+	]
+	for (const [name, locale, expected] of cases) {
+		it(`reads ${name}${locale ? ` in ${locale}` : ''}`, () => {
+			assert.equal(parseMonthName(name, locale), expected)
+		})
+	}
+})
+
+describe('parseIsoDate', () => {
+	it('reads a day and writes it back', () => {
+		assert.equal(toIsoDate(parseIsoDate('2024-02-29')!), '2024-02-29')
+	})
+
+	for (const text of ['2025-02-29', '2025-13-01', '2025-03-00', '2025-3-14']) {
+		it(`rejects ${text}`, () => {
+			assert.equal(parseIsoDate(text), null)
+		})
+	}
+})
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+	ednGet,
+	ednToJs,
+	keyword,
+	parseEdn,
+	parseEdnAll,
+	printEdn,
+	symbol,
+	type EdnValue,
+} from '../src/edn.js'
+import { GraphError } from '../src/errors.js'
+
+const vector = (...items: EdnValue[]): EdnValue => ({ type: 'vector', items })
+const list = (...items: EdnValue[]): EdnValue => ({ type: 'list', items })
+
+describe('parseEdn', () => {
+	const cases: [string, EdnValue][] = [
+		['nil', null],
+		['true', true],
+		['false', false],
+		['42', 42],
+		['-3', -3],
+		['+4', 4],
+		['1.5', 1.5],
+		['12N', 12],
+		['1.5M', 1.5],
+		['1/2', 0.5],
+		[':find', keyword('find')],
+		[':block/name', keyword('block/name')],
+		[':journal?', keyword('journal?')],
+		['?b', symbol('?b')],
+		['clojure.string/includes?', symbol('clojure.string/includes?')],
+		['-', symbol('-')],
+		['"plain"', 'plain'],
+		['"a\\"b\\\\c"', 'a"b\\c'],
+		['"line\\nnext\\ttab\\rreturn"', 'line\nnext\ttab\rreturn'],
+		['"caf\\u00e9"', 'café'],
+		['"two\nlines"', 'two\nlines'],
+		['\\a', 'a'],
+		['\\newline', '\n'],
+		['\\space', ' '],
+		['#"\\d+\\.md"', { type: 'regex', source: '\\d+\\.md' }],
+		[
+			'#inst "2025-03-14"',
+			{ type: 'tagged', tag: 'inst', value: '2025-03-14' },
+		],
+		["'(a b)", list(symbol('quote'), list(symbol('a'), symbol('b')))],
+		['[1, 2 , 3]', vector(1, 2, 3)],
+		['[1 ; a comment\n 2]', vector(1, 2)],
+		['[1 #_ 2 3]', vector(1, 3)],
+		['^{:doc "x"} [1]', vector(1)],
+		[
+			'{:query [:find ?b] :inputs #{:today}}',
+			{
+				type: 'map',
+				entries: [
+					[keyword('query'), vector(keyword('find'), symbol('?b'))],
+					[keyword('inputs'), { type: 'set', items: [keyword('today')] }],
+				],
+			},
+		],
+		[
+			'[:find (pull ?b [*]) :where [?b :block/marker "TODO"]]',
+			vector(
+				keyword('find'),
+				list(symbol('pull'), symbol('?b'), vector(symbol('*'))),
+				keyword('where'),
+				vector(symbol('?b'), keyword('block/marker'), 'TODO')
+			),
+		],
+	]
+	for (const [text, expected] of cases) {
+		it(`reads ${text}`, () => {
+			assert.deepEqual(parseEdn(text), expected)
+		})
+	}
+
+	const malformed = [
+		'',
+		'  ; only a comment',
+		'"unterminated',
+		'"bad \\u12"',
+		'#"unterminated',
+		'[1 2',
+		'{:a [1 2}',
+		'(1 2]',
+		')',
+		'{:a 1 :b}',
+		'#',
+		'\\',
+		'1.2.3',
+	]
+	for (const text of malformed) {
+		it(`rejects ${JSON.stringify(text)}`, () => {
+			assert.throws(
+				() => parseEdn(text),
+				(error: unknown) =>
+					error instanceof GraphError &&
+					error.code === 'INVALID_ARGUMENT' &&
+					/EDN parse error/.test(error.message)
+			)
+		})
+	}
+
+	it('tells where the error is', () => {
+		assert.throws(
+			() => parseEdn('[1\n  2 }'),
+			/line 2, column 5: unexpected "}"/
+		)
+	})
+})
+
+describe('parseEdnAll', () => {
+	it('reads every top-level form', () => {
+		assert.deepEqual(parseEdnAll('1 ; one\n:two [3]'), [
+			1,
+			keyword('two'),
+			vector(3),
+		])
+	})
+})
+
+describe('ednToJs', () => {
+	it('gives map keywords without their colon and other keywords with it', () => {
+		const config = parseEdn(
+			'{:journal/page-title-format "MMM do, yyyy" :start-of-week 6 :hidden [:a "b"] "k" nil}'
+		)
+		assert.deepEqual(ednToJs(config), {
+			'journal/page-title-format': 'MMM do, yyyy',
+			'start-of-week': 6,
+			hidden: [':a', 'b'],
+			k: null,
+		})
+	})
+
+	it('looks up map entries by keyword', () => {
+		const query = parseEdn('{:title "Open tasks" :query (task TODO)}')
+		assert.equal(ednGet(query, 'title'), 'Open tasks')
+		assert.equal(ednGet(query, 'missing'), undefined)
+	})
+})
+
+describe('printEdn', () => {
+	const texts = [
+		'[:find ?b :in $ ?name :where [?b :block/name ?name]]',
+		'#{:a :b}',
+		'{:a 1, :b "two"}',
+		'#"(?i)todo"',
+		'#inst "2025-03-14"',
+		'(quote (a b))',
+		'nil',
+	]
+	for (const text of texts) {
+		it(`writes back ${text}`, () => {
+			assert.equal(printEdn(parseEdn(text)), text)
+		})
+	}
+
+	it('escapes strings so they read back the same', () => {
+		const value = 'say "hi"\n\\ café'
+		assert.equal(parseEdn(printEdn(value)), value)
+	})
+})
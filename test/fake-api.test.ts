@@ -0,0 +1,134 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
+import assert from 'node:assert/strict'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import {
+	startFakeLogseqApi,
+	type FakeLogseqApi,
+} from '../src/fake-api/server.js'
+
+// The server over stdio, as an MCP client sees it, with the HTTP backend
+// talking to the fake API serving a copy of fixtures/graph
+
+const ROOT = fileURLToPath(new URL('../', import.meta.url))
+const TOKEN = 'test-token'
+
+describe('HTTP backend against the fake API', () => {
+	let api: FakeLogseqApi
+	let dataDir: string
+	let client: Client
+
+	before(async () => {
+		api = await startFakeLogseqApi({ port: 0, token: TOKEN })
+		// Keeps the search index, snapshots and audit log out of the home directory
+		dataDir = mkdtempSync(path.join(os.tmpdir(), 'logseq-mcp-test-'))
+		client = new Client({ name: 'fake-api-test', version: '1.0.0' })
+		await client.connect(
+			new StdioClientTransport({
+				command: process.execPath,
+				args: ['--import', 'tsx', 'index.ts'],
+				cwd: ROOT,
+				env: {
+					...(process.env as Record<string, string>),
+					LOGSEQ_BACKEND: 'http',
+					LOGSEQ_MCP_TRANSPORT: 'stdio',
+					LOGSEQ_HOST: '127.0.0.1',
+					LOGSEQ_PORT: String(api.port),
+					LOGSEQ_TOKEN: TOKEN,
+					LOGSEQ_MCP_CACHE_DIR: path.join(dataDir, 'cache'),
+					XDG_CACHE_HOME: path.join(dataDir, 'cache'),
+					XDG_STATE_HOME: path.join(dataDir, 'state'),
+				},
+			})
+		)
+	})
+
+	after(async () => {
+		await client?.close()
+		await api?.close()
+		if (dataDir) rmSync(dataDir, { recursive: true, force: true })
+	})
+
+	// The text a tool answers with; fails when it reports an error
+	async function callTool(
+		name: string,
+		args: Record<string, unknown>
+	): Promise<string> {
+		const result = await client.callTool({ name, arguments: args })
+		const text = (result.content as { type: string; text?: string }[])
+			.map((part) => part.text ?? '')
+			.join('\n')
+		assert.ok(!result.isError, `${name} failed: ${text}`)
+		return text
+	}
+
+	it('reads a page with its backlinks', async () => {
+		const text = await callTool('getPage', { pageName: 'Project Alpha' })
+		assert.match(text, /^# Project Alpha/)
+		assert.match(text, /^ {2}- TODO Write the design doc$/m)
+		assert.match(text, /## Backlinks[\s\S]*- \[\[alice\]\]/)
+	})
+
+	it('finds the page of a block, which the API names by id', async () => {
+		const text = await callTool('getBlock', {
+			blockId: '516b1b17-e99a-5ab9-8d56-ced235c9bd96',
+		})
+		assert.match(text, /^Page: alice$/m)
+		assert.match(text, /^- Works on \[\[Project Alpha\]\]$/m)
+	})
+
+	it('summarizes the journals in a date range', async () => {
+		const text = await callTool('getJournalSummary', {
+			dateRange: '2025-03-10 to 2025-03-14',
+		})
+		assert.match(text, /\*Date range: 2025-03-10 to 2025-03-14\*/)
+		assert.match(
+			text,
+			/## Mar 10th, 2025\n\n- Started planning \[\[Project Alpha\]\]/
+		)
+		assert.match(
+			text,
+			/## Mar 14th, 2025\n\n- DONE Shipped the first prototype/
+		)
+		assert.match(text, /- \[\[Project Alpha\]\] \(3 references\)/)
+	})
+
+	it('searches the graph from an index in the cache directory', async () => {
+		const text = await callTool('search', { query: 'design doc' })
+		assert.match(text, /Project Alpha/)
+		assert.ok(existsSync(path.join(dataDir, 'cache', 'search-index.json')))
+	})
+
+	it('adds nested content to a page', async () => {
+		const text = await callTool('addNoteContent', {
+			pageName: 'Project Alpha',
+			content: '- Added by the test\n  - Nested under it',
+		})
+		assert.match(text, /successfully \(2 blocks\)/)
+
+		const file = readFileSync(
+			path.join(api.graphPath, 'pages', 'Project Alpha.md'),
+			'utf8'
+		)
+		assert.match(file, /^- Added by the test$/m)
+		assert.match(file, /^\t- Nested under it$/m)
+
+		const page = await callTool('getPage', { pageName: 'Project Alpha' })
+		assert.match(page, /^- Added by the test$/m)
+		assert.match(page, /^ {2}- Nested under it$/m)
+	})
+
+	it('answers a natural language query with Datalog', async () => {
+		const text = await callTool('smartQuery', {
+			request: 'page connections',
+			includeQuery: true,
+		})
+		assert.match(text, /Analyzing page connections/)
+		assert.match(text, /- alice → project alpha → 1/)
+		assert.match(text, /## Generated Query\n\n```datalog\n[\s\S]*:find/)
+	})
+})
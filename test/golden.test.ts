@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { readdirSync, readFileSync } from 'node:fs'
+import * as path from 'node:path'
+import { describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import {
+	parseMarkdown,
+	serializeMarkdown,
+	type MarkdownBlock,
+	type MarkdownPage,
+} from '../src/markdown.js'
+import { parseOrg, serializeOrg } from '../src/org.js'
+
+// Each page in fixtures/markdown and fixtures/org must parse to the block tree
+// in the .json next to it and serialize back to the same bytes
+
+const FIXTURES = fileURLToPath(new URL('../fixtures/', import.meta.url))
+
+// A block as the fixtures write it: fields at their defaults are left out
+function goldenBlock(block: MarkdownBlock): Record<string, unknown> {
+	const golden: Record<string, unknown> = { content: block.content }
+	if (Object.keys(block.properties).length > 0) {
+		golden.properties = block.properties
+	}
+	if (block.id !== undefined) golden.id = block.id
+	if (block.collapsed) golden.collapsed = true
+	if (!block.bullet) golden.bullet = false
+	if (block.preBlock) golden.preBlock = true
+	if (block.children.length > 0) {
+		golden.children = block.children.map(goldenBlock)
+	}
+	return golden
+}
+
+const FORMATS = [
+	{
+		dir: 'markdown',
+		extension: '.md',
+		parse: parseMarkdown,
+		serialize: serializeMarkdown,
+		golden: (page: MarkdownPage) => ({
+			properties: page.properties,
+			indent: page.indent,
+			blocks: page.blocks.map(goldenBlock),
+		}),
+	},
+	{
+		dir: 'org',
+		extension: '.org',
+		parse: parseOrg,
+		serialize: serializeOrg,
+		golden: (page: MarkdownPage) => ({
+			properties: page.properties,
+			blocks: page.blocks.map(goldenBlock),
+		}),
+	},
+]
+
+for (const format of FORMATS) {
+	describe(`${format.dir} fixtures`, () => {
+		const dir = path.join(FIXTURES, format.dir)
+		const pages = readdirSync(dir).filter((file) =>
+			file.endsWith(format.extension)
+		)
+		assert.ok(pages.length > 0, `no fixtures in ${dir}`)
+
+		for (const file of pages) {
+			const text = readFileSync(path.join(dir, file), 'utf8')
+			const expected = JSON.parse(
+				readFileSync(
+					path.join(dir, file.slice(0, -format.extension.length) + '.json'),
+					'utf8'
+				)
+			)
+
+			it(`parses ${file}`, () => {
+				assert.deepStrictEqual(format.golden(format.parse(text)), expected)
+			})
+
+			it(`round-trips ${file}`, () => {
+				assert.equal(format.serialize(format.parse(text)), text)
+			})
+		}
+	})
+}
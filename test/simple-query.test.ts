@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import { createFileSystemBackend } from '../src/backend/filesystem.js'
+import { parseEdn } from '../src/edn.js'
+import { GraphError } from '../src/errors.js'
+import {
+	parseSimpleQuery,
+	runSimpleQuery,
+	simpleQueryToDatalog,
+} from '../src/simple-query.js'
+
+const NOW = { now: new Date(2025, 2, 14) }
+const GRAPH = fileURLToPath(new URL('../fixtures/graph/', import.meta.url))
+
+function invalid(text: string) {
+	assert.throws(
+		() => parseSimpleQuery(text, NOW),
+		(error: unknown) =>
+			error instanceof GraphError && error.code === 'INVALID_ARGUMENT'
+	)
+}
+
+describe('parseSimpleQuery', () => {
+	const cases: [string, unknown][] = [
+		['[[Project Alpha]]', { type: 'ref', name: 'project alpha' }],
+		['#research', { type: 'ref', name: 'research' }],
+		['"Design Doc"', { type: 'text', text: 'Design Doc' }],
+		[
+			'{{query (task todo DOING)}}',
+			{ type: 'task', markers: ['TODO', 'DOING'] },
+		],
+		['(priority [#A] b)', { type: 'priority', priorities: ['A', 'B'] }],
+		['(page "Project Alpha")', { type: 'page', names: ['project alpha'] }],
+		[
+			'(path [[a]] [[b]])',
+			{
+				type: 'or',
+				clauses: [
+					{ type: 'ref', name: 'a' },
+					{ type: 'ref', name: 'b' },
+				],
+			},
+		],
+		['(property :type note)', { type: 'property', key: 'type', value: 'note' }],
+		[
+			'(page-property status)',
+			{ type: 'page-property', key: 'status', value: undefined },
+		],
+		[
+			'(between -7d today)',
+			{ type: 'between', startDay: 20250307, endDay: 20250314 },
+		],
+		[
+			'(and (task TODO) (or [[a]] (not #b)))',
+			{
+				type: 'and',
+				clauses: [
+					{ type: 'task', markers: ['TODO'] },
+					{
+						type: 'or',
+						clauses: [
+							{ type: 'ref', name: 'a' },
+							{ type: 'not', clauses: [{ type: 'ref', name: 'b' }] },
+						],
+					},
+				],
+			},
+		],
+		// Filters side by side must all match
+		[
+			'[[a]] (task NOW)',
+			{
+				type: 'and',
+				clauses: [
+					{ type: 'ref', name: 'a' },
+					{ type: 'task', markers: ['NOW'] },
+				],
+			},
+		],
+	]
+
+	for (const [text, expected] of cases) {
+		it(`reads ${text}`, () => {
+			assert.deepStrictEqual(parseSimpleQuery(text, NOW), expected)
+		})
+	}
+
+	it('rejects malformed queries', () => {
+		invalid('')
+		invalid('(and')
+		invalid('(and)')
+		invalid(')')
+		invalid('"unterminated')
+		invalid('[[unclosed')
+		invalid('(task)')
+		invalid('(task (page a))')
+		invalid('(between today -7d)')
+		invalid('(unknown a)')
+	})
+})
+
+describe('simpleQueryToDatalog', () => {
+	it('compiles nested and, or and not', () => {
+		const query = parseSimpleQuery('(and (task TODO) (or [[a]] (not #b)))')
+		assert.equal(
+			simpleQueryToDatalog(query),
+			[
+				'[:find (pull ?b [*])',
+				' :where',
+				' [?b :block/page]',
+				' [?b :block/marker ?marker2]',
+				' [(contains? #{"TODO"} ?marker2)]',
+				' (or-join [?b] (and [?b :block/path-refs ?ref4] [?ref4 :block/name "a"]) (and (not-join [?b] [?b :block/path-refs ?ref6] [?ref6 :block/name "b"])))]',
+			].join('\n')
+		)
+	})
+
+	it('finds pages for page-property queries', () => {
+		const datalog = simpleQueryToDatalog(
+			parseSimpleQuery('(page-property type)')
+		)
+		assert.match(
+			datalog,
+			/^\[:find \(pull \?p \[\*\]\)\n :where\n \[\?p :block\/name\]/
+		)
+	})
+
+	// DataScript has no lower-case function; the text is a case-insensitive
+	// pattern with its special characters escaped
+	it('compiles text to a case-insensitive pattern', () => {
+		const datalog = simpleQueryToDatalog(parseSimpleQuery('"a.b (c)"'))
+		assert.equal(
+			datalog,
+			[
+				'[:find (pull ?b [*])',
+				' :where',
+				' [?b :block/page]',
+				' [?b :block/content ?content1]',
+				' [(re-pattern "(?i)a\\\\.b \\\\(c\\\\)") ?re1]',
+				' [(re-find ?re1 ?content1)]]',
+			].join('\n')
+		)
+		assert.doesNotMatch(datalog, /lower-case/)
+		assert.doesNotThrow(() => parseEdn(datalog))
+	})
+
+	it('finds the same blocks as matching the pages', async () => {
+		const backend = createFileSystemBackend(GRAPH)
+		for (const text of [
+			'"PROJECT alpha"',
+			'(and [[project alpha]] (not (task DONE)))',
+			'(or (task TODO) (priority A))',
+		]) {
+			const pulled = await backend.query(
+				simpleQueryToDatalog(parseSimpleQuery(text))
+			)
+			const result = await runSimpleQuery(backend, text)
+			assert.equal(result.kind, 'blocks')
+			assert.deepStrictEqual(
+				pulled.map(([block]: any[]) => block.uuid).sort(),
+				result.kind === 'blocks'
+					? result.blocks.map((block) => block.uuid).sort()
+					: [],
+				text
+			)
+			assert.ok(pulled.length > 0, text)
+		}
+	})
+})